@@ -0,0 +1,103 @@
+/**
+ * Session watcher benchmark
+ *
+ * Builds a projects directory of synthetic transcripts and measures the startup
+ * scan, the heap the index takes, how quickly an append reaches onUpdate, and
+ * the CPU the watcher uses while nothing changes. For comparison it also times one pass of the stat-
+ * every-file poll the watcher used to run every second.
+ *
+ * Usage: bun run bench [sessions] [projects]   (default 10000 sessions, 100 projects)
+ */
+
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SessionWatcher } from '../src/session-watcher';
+
+const SESSIONS = parseInt(process.argv[2] || '10000', 10);
+const PROJECTS = parseInt(process.argv[3] || '100', 10);
+const LINES_PER_SESSION = 6;
+const APPENDS = 20;
+const IDLE_MS = 5000;
+
+function transcriptLine(sessionId: string, index: number): string {
+  const role = index % 2 === 0 ? 'user' : 'assistant';
+  return JSON.stringify({
+    type: role,
+    message: {
+      role,
+      id: role === 'assistant' ? `msg_${sessionId}_${index}` : undefined,
+      model: role === 'assistant' ? 'claude-sonnet-4-5' : undefined,
+      content: [{ type: 'text', text: `Message ${index} of ${sessionId}` }],
+      usage: role === 'assistant' ? { input_tokens: 100, output_tokens: 50 } : undefined
+    },
+    timestamp: new Date(Date.now() - (LINES_PER_SESSION - index) * 1000).toISOString(),
+    uuid: `${sessionId}-${index}`,
+    parentUuid: index === 0 ? null : `${sessionId}-${index - 1}`,
+    sessionId,
+    cwd: '/bench',
+    isSidechain: false,
+    userType: 'external',
+    version: '1.0'
+  }) + '\n';
+}
+
+function ms(start: number): string {
+  return `${(performance.now() - start).toFixed(1)} ms`;
+}
+
+const projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-watcher-bench-'));
+try {
+  let start = performance.now();
+  const files: string[] = [];
+  for (let p = 0; p < PROJECTS; p++) {
+    fs.mkdirSync(path.join(projectsDir, `-bench-project-${p}`));
+  }
+  for (let i = 0; i < SESSIONS; i++) {
+    const sessionId = `session-${i}`;
+    const filePath = path.join(projectsDir, `-bench-project-${i % PROJECTS}`, `${sessionId}.jsonl`);
+    let content = '';
+    for (let l = 0; l < LINES_PER_SESSION; l++) content += transcriptLine(sessionId, l);
+    fs.writeFileSync(filePath, content);
+    files.push(filePath);
+  }
+  console.log(`Generated ${SESSIONS} sessions in ${PROJECTS} projects: ${ms(start)}`);
+
+  start = performance.now();
+  for (const filePath of files) fs.statSync(filePath);
+  console.log(`Previous design, one poll pass (stat every file, every second): ${ms(start)}`);
+
+  let onUpdate: (() => void) | null = null;
+  const watcher = new SessionWatcher(() => onUpdate?.(), undefined, { projectsDir });
+
+  start = performance.now();
+  await watcher.start();
+  console.log(`Startup scan: ${ms(start)} (${watcher.getStats().totalSessions} sessions indexed)`);
+  Bun.gc(true);
+  console.log(`Heap after scan: ${(process.memoryUsage().heapUsed / 1024 / 1024).toFixed(1)} MB`);
+
+  const latencies: number[] = [];
+  for (let i = 0; i < APPENDS; i++) {
+    const index = Math.floor(Math.random() * SESSIONS);
+    const updated = new Promise<void>(resolve => { onUpdate = resolve; });
+    const appendedAt = performance.now();
+    fs.appendFileSync(files[index], transcriptLine(`session-${index}`, LINES_PER_SESSION + i));
+    await updated;
+    latencies.push(performance.now() - appendedAt);
+  }
+  latencies.sort((a, b) => a - b);
+  console.log(
+    `Append to onUpdate (${APPENDS} appends, includes the debounce): ` +
+    `median ${latencies[Math.floor(APPENDS / 2)].toFixed(1)} ms, max ${latencies[APPENDS - 1].toFixed(1)} ms`
+  );
+
+  onUpdate = null;
+  const cpuBefore = process.cpuUsage();
+  await new Promise(resolve => setTimeout(resolve, IDLE_MS));
+  const cpu = process.cpuUsage(cpuBefore);
+  console.log(`CPU while idle for ${IDLE_MS / 1000}s: ${((cpu.user + cpu.system) / 1000).toFixed(1)} ms`);
+
+  watcher.stop();
+} finally {
+  fs.rmSync(projectsDir, { recursive: true, force: true });
+}
@@ -0,0 +1,102 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  validateBudgetRule,
+  validateBudgetConfig,
+  resolveBudgetRules,
+  evaluateBudget,
+  evaluateBudgets,
+  describeBudget
+} from '../budgets';
+import { ValidationError } from '../error-handler';
+
+describe('Budgets', () => {
+  const usage = (overrides: Partial<Parameters<typeof evaluateBudget>[1]> = {}) => ({
+    costUsd: 0,
+    tokens: 0,
+    turns: 0,
+    ...overrides
+  });
+
+  describe('validateBudgetRule', () => {
+    test('accepts a rule with at least one limit', () => {
+      expect(validateBudgetRule({ maxUsd: 2.5, warnAt: 0.9 })).toEqual({ maxUsd: 2.5, warnAt: 0.9 });
+      expect(validateBudgetRule(undefined)).toBeUndefined();
+    });
+
+    test('rejects rules without limits', () => {
+      expect(() => validateBudgetRule({ warnAt: 0.5 })).toThrow(ValidationError);
+    });
+
+    test('rejects non-positive and fractional counts', () => {
+      expect(() => validateBudgetRule({ maxUsd: 0 })).toThrow('budget.maxUsd');
+      expect(() => validateBudgetRule({ maxTurns: 1.5 })).toThrow('budget.maxTurns');
+    });
+
+    test('rejects warn thresholds outside (0, 1)', () => {
+      expect(() => validateBudgetRule({ maxUsd: 1, warnAt: 1 })).toThrow('warnAt');
+    });
+
+    test('rejects unknown fields', () => {
+      expect(() => validateBudgetRule({ maxDollars: 1 })).toThrow(ValidationError);
+    });
+  });
+
+  describe('validateBudgetConfig', () => {
+    test('requires absolute project paths', () => {
+      expect(() => validateBudgetConfig({ projects: { 'my-app': { maxUsd: 1 } } })).toThrow('absolute');
+    });
+
+    test('normalizes a missing projects map', () => {
+      expect(validateBudgetConfig({ global: { maxTurns: 50 } })).toEqual({
+        global: { maxTurns: 50 },
+        projects: {}
+      });
+    });
+  });
+
+  describe('resolveBudgetRules', () => {
+    const config = {
+      global: { maxUsd: 10 },
+      projects: { '/work/app': { maxUsd: 5 } }
+    };
+
+    test('applies the session, project and global rules', () => {
+      expect(resolveBudgetRules(config, '/work/app', { maxUsd: 1 })).toEqual([{ maxUsd: 1 }, { maxUsd: 5 }, { maxUsd: 10 }]);
+      expect(resolveBudgetRules(config, '/work/other')).toEqual([{ maxUsd: 10 }]);
+    });
+  });
+
+  describe('evaluateBudgets', () => {
+    test('the strictest rule decides', () => {
+      const rules = [{ maxUsd: 100 }, { maxUsd: 5 }, { maxTurns: 10 }];
+      expect(evaluateBudgets(rules, usage({ costUsd: 6, turns: 9 }))).toEqual({ level: 'exceeded', metric: 'usd', used: 6, limit: 5 });
+      expect(evaluateBudgets(rules, usage({ costUsd: 1, turns: 9 }))).toEqual({ level: 'warn', metric: 'turns', used: 9, limit: 10 });
+      expect(evaluateBudgets([], usage({ costUsd: 6 }))).toEqual({ level: 'ok' });
+    });
+  });
+
+  describe('evaluateBudget', () => {
+    test('is ok without a rule', () => {
+      expect(evaluateBudget(undefined, usage({ costUsd: 100 }))).toEqual({ level: 'ok' });
+    });
+
+    test('warns at the default 80% line', () => {
+      expect(evaluateBudget({ maxUsd: 10 }, usage({ costUsd: 7.9 })).level).toBe('ok');
+      expect(evaluateBudget({ maxUsd: 10 }, usage({ costUsd: 8 })).level).toBe('warn');
+      expect(evaluateBudget({ maxUsd: 10 }, usage({ costUsd: 10 })).level).toBe('exceeded');
+    });
+
+    test('reports the limit that is furthest along', () => {
+      const status = evaluateBudget(
+        { maxUsd: 10, maxTurns: 20 },
+        usage({ costUsd: 5, turns: 19 })
+      );
+      expect(status).toEqual({ level: 'warn', metric: 'turns', used: 19, limit: 20 });
+    });
+  });
+
+  test('describeBudget formats dollars and counts', () => {
+    expect(describeBudget({ level: 'warn', metric: 'usd', used: 4.123, limit: 5 })).toBe('$4.12 of $5.00 budget used');
+    expect(describeBudget({ level: 'exceeded', metric: 'turns', used: 20, limit: 20 })).toBe('20 of 20 turns budget used');
+  });
+});
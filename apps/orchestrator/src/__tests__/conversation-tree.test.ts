@@ -0,0 +1,115 @@
+import { describe, test, expect } from 'bun:test';
+import { buildConversationTree, toDisplayMessages, UNMATCHED_SIDECHAINS_ID } from '../conversation-tree';
+import type { SessionMessage, MessageContent } from '../types';
+
+function line(
+  uuid: string,
+  parentUuid: string | null,
+  type: 'user' | 'assistant',
+  content: MessageContent[] | string,
+  extra: Partial<SessionMessage> = {}
+): SessionMessage {
+  return {
+    uuid,
+    parentUuid,
+    isSidechain: false,
+    userType: 'external',
+    cwd: '/project',
+    sessionId: 'session',
+    version: '1.0.0',
+    type,
+    message: { role: type, content: content as MessageContent[], id: type === 'assistant' ? `msg_${uuid}` : undefined },
+    timestamp: '2026-03-01T10:00:00.000Z',
+    ...extra
+  };
+}
+
+const at = (seconds: number) => new Date(Date.UTC(2026, 2, 1, 10, 0, seconds)).toISOString();
+const side = (seconds: number): Partial<SessionMessage> => ({ isSidechain: true, timestamp: at(seconds) });
+const text = (value: string): MessageContent => ({ type: 'text', text: value });
+const task = (id: string, prompt: string): MessageContent => ({
+  type: 'tool_use', id, name: 'Task', input: { description: `Run ${id}`, prompt }
+});
+const bash = (id: string): MessageContent => ({ type: 'tool_use', id, name: 'Bash', input: { command: 'ls' } });
+const result = (id: string, content = 'ok'): MessageContent => ({ type: 'tool_result', tool_use_id: id, content });
+
+// Main thread spawns two subagents; their lines are interleaved with each other,
+// and the second one spawns a subagent of its own
+const TRANSCRIPT: SessionMessage[] = [
+  line('u1', null, 'user', [text('Review the repo')], { timestamp: at(0) }),
+  line('a1', 'u1', 'assistant', [task('task-1', 'Find the tests')], { timestamp: at(1) }),
+  line('a2', 'a1', 'assistant', [task('task-2', 'Read the docs')], { timestamp: at(1) }),
+  line('s1', null, 'user', 'Find the tests', side(2)),
+  line('t1', null, 'user', 'Read the docs', side(2)),
+  line('s2', 's1', 'assistant', [bash('bash-1')], side(3)),
+  line('t2', 't1', 'assistant', [task('task-3', 'Check the links')], side(3)),
+  line('s3', 's2', 'user', [result('bash-1', 'foo.test.ts')], side(4)),
+  line('v1', null, 'user', 'Check the links', side(4)),
+  line('v2', 'v1', 'assistant', [text('All links work')], side(5)),
+  line('t3', 't2', 'user', [result('task-3', 'All links work')], side(6)),
+  line('s4', 's3', 'assistant', [text('One test file')], side(6)),
+  line('r1', 'a2', 'user', [result('task-1', 'One test file')], { timestamp: at(7) }),
+  line('r2', 'r1', 'user', [result('task-2', 'Docs are fine')], { timestamp: at(7) }),
+  line('a3', 'r2', 'assistant', [text('Looks good')], { timestamp: at(8) })
+];
+
+describe('Conversation tree', () => {
+  test('the flat view keeps sidechain lines inline', () => {
+    const ids = toDisplayMessages(TRANSCRIPT).map(m => m.id);
+    expect(ids).toContain('s1');
+    expect(ids).toContain('v2');
+  });
+
+  test('keeps only the main thread at the top level', () => {
+    const tree = buildConversationTree(TRANSCRIPT);
+    expect(tree.map(m => m.id)).toEqual(['u1', 'a1', 'a2', 'a3']);
+  });
+
+  test('attaches each run to the Task call it was given the prompt of', () => {
+    const tree = buildConversationTree(TRANSCRIPT);
+    const first = tree.find(m => m.id === 'a1')!;
+    expect(first.toolResult?.content).toBe('One test file');
+    expect(first.subagents).toHaveLength(1);
+    expect(first.subagents![0]).toMatchObject({ rootUuid: 's1', toolUseId: 'task-1', description: 'Run task-1' });
+    expect(first.subagents![0].messages.map(m => m.id)).toEqual(['s1', 's2', 's4']);
+    // The subagent's own tool call keeps its result
+    expect(first.subagents![0].messages[1].toolResult?.content).toBe('foo.test.ts');
+  });
+
+  test('nests runs spawned from inside a subagent', () => {
+    const tree = buildConversationTree(TRANSCRIPT);
+    const docs = tree.find(m => m.id === 'a2')!.subagents![0];
+    expect(docs.rootUuid).toBe('t1');
+    const nestedCall = docs.messages.find(m => m.toolUse?.id === 'task-3')!;
+    expect(nestedCall.subagents?.map(s => s.rootUuid)).toEqual(['v1']);
+    expect(nestedCall.subagents![0].messages.map(m => m.content)).toEqual(['Check the links', 'All links work']);
+  });
+
+  test('falls back to the latest earlier Task call when the prompt does not match', () => {
+    const transcript = [
+      line('u1', null, 'user', [text('Go')], { timestamp: at(0) }),
+      line('a1', 'u1', 'assistant', [task('task-1', 'Original prompt')], { timestamp: at(1) }),
+      line('s1', null, 'user', 'Reworded prompt', side(2)),
+      line('s2', 's1', 'assistant', [text('Done')], side(3))
+    ];
+    const tree = buildConversationTree(transcript);
+    expect(tree.map(m => m.id)).toEqual(['u1', 'a1']);
+    expect(tree[1].subagents![0].toolUseId).toBe('task-1');
+  });
+
+  test('collects runs without a Task call on one system message', () => {
+    const transcript = [
+      line('u1', null, 'user', [text('Go')], { timestamp: at(5) }),
+      line('s1', null, 'user', 'Orphan run', side(2))
+    ];
+    const tree = buildConversationTree(transcript);
+    expect(tree.map(m => m.id)).toEqual(['u1', UNMATCHED_SIDECHAINS_ID]);
+    expect(tree[1].role).toBe('system');
+    expect(tree[1].subagents![0]).toMatchObject({ rootUuid: 's1', toolUseId: undefined });
+  });
+
+  test('a transcript without sidechains is the flat view', () => {
+    const main = TRANSCRIPT.filter(m => !m.isSidechain);
+    expect(buildConversationTree(main)).toEqual(toDisplayMessages(main));
+  });
+});
@@ -0,0 +1,50 @@
+import { describe, test, expect } from 'bun:test';
+import { parseCron, matchesCron, nextCronTime } from '../cron';
+import { ValidationError } from '../error-handler';
+
+// Local time, like the schedules themselves
+const at = (month: number, day: number, hour: number, minute: number = 0) => new Date(2026, month - 1, day, hour, minute);
+
+describe('cron', () => {
+  test('parses lists, ranges, steps and names', () => {
+    const schedule = parseCron('*/15 9-17/4 1,15 jan-mar mon-fri');
+
+    expect([...schedule.minutes]).toEqual([0, 15, 30, 45]);
+    expect([...schedule.hours]).toEqual([9, 13, 17]);
+    expect([...schedule.daysOfMonth]).toEqual([1, 15]);
+    expect([...schedule.months]).toEqual([1, 2, 3]);
+    expect([...schedule.daysOfWeek]).toEqual([1, 2, 3, 4, 5]);
+  });
+
+  test('treats 7 as Sunday and expands shorthands', () => {
+    expect([...parseCron('0 0 * * 7').daysOfWeek]).toEqual([0]);
+    expect(parseCron('@daily')).toEqual(parseCron('0 0 * * *'));
+  });
+
+  test('rejects malformed expressions', () => {
+    expect(() => parseCron('* * * *')).toThrow(ValidationError);
+    expect(() => parseCron('60 * * * *')).toThrow('between 0 and 59');
+    expect(() => parseCron('5-1 * * * *')).toThrow('Invalid range');
+    expect(() => parseCron('*/0 * * * *')).toThrow('Invalid step');
+    expect(() => nextCronTime(parseCron('0 0 30 2 *'), at(1, 1, 0))).toThrow('never fires');
+  });
+
+  test('finds the next weekday at 9:00', () => {
+    const weekdays = parseCron('0 9 * * 1-5');
+
+    // Friday 2026-03-06 10:00 -> Monday 9:00
+    expect(nextCronTime(weekdays, at(3, 6, 10))).toEqual(at(3, 9, 9));
+    // Strictly after: 9:00 itself moves on to the next day
+    expect(nextCronTime(weekdays, at(3, 9, 9))).toEqual(at(3, 10, 9));
+    expect(matchesCron(weekdays, at(3, 9, 9))).toBe(true);
+    expect(matchesCron(weekdays, at(3, 7, 9))).toBe(false);
+  });
+
+  test('matches either day field when both are restricted', () => {
+    // The 1st of the month, or any Sunday
+    const schedule = parseCron('30 2 1 * 0');
+
+    expect(nextCronTime(schedule, at(2, 25, 0))).toEqual(at(3, 1, 2, 30));
+    expect(nextCronTime(schedule, at(3, 1, 3))).toEqual(at(3, 8, 2, 30));
+  });
+});
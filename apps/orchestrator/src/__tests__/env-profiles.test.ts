@@ -0,0 +1,104 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as envProfiles from '../env-profiles';
+import * as secretStore from '../secret-store';
+import { ConflictError, NotFoundError, ValidationError } from '../error-handler';
+
+describe('Environment profiles', () => {
+  let dir: string;
+
+  const BASE_ENV = {
+    PATH: '/usr/bin',
+    HOME: '/home/dev',
+    AWS_SECRET_ACCESS_KEY: 'orchestrator-credential',
+    [secretStore.KEY_FILE_ENV]: '/home/dev/.secrets.key'
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'env-profiles-test-'));
+    envProfiles.setEnvProfileStorageFile(path.join(dir, 'env-profiles.json'));
+    secretStore.setSecretStoreFile(path.join(dir, 'secrets.enc'));
+  });
+
+  afterEach(() => {
+    envProfiles.setEnvProfileStorageFile();
+    secretStore.setSecretStoreFile();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('validateEnvProfile', () => {
+    test('fills in defaults', () => {
+      expect(envProfiles.validateEnvProfile('staging', { variables: { STAGE: 'staging' } })).toEqual(expect.objectContaining({
+        name: 'staging',
+        inheritEnv: false,
+        variables: { STAGE: 'staging' },
+        secrets: {}
+      }));
+    });
+
+    test('rejects bad names, unknown fields and variables set twice', () => {
+      expect(() => envProfiles.validateEnvProfile('has space', {})).toThrow(ValidationError);
+      expect(() => envProfiles.validateEnvProfile('ok', { vars: {} })).toThrow(ValidationError);
+      expect(() => envProfiles.validateEnvProfile('ok', {
+        variables: { TOKEN: 'plain' },
+        secrets: { TOKEN: 'GITHUB_TOKEN' }
+      })).toThrow('both directly and from a secret');
+    });
+  });
+
+  describe('buildChildEnv', () => {
+    test('without a profile passes only the base variables through', () => {
+      expect(envProfiles.buildChildEnv(undefined, BASE_ENV)).toEqual({ PATH: '/usr/bin', HOME: '/home/dev' });
+    });
+
+    test('a profile that inherits passes the environment through, minus orchestrator settings', () => {
+      envProfiles.saveEnvProfile(envProfiles.validateEnvProfile('local', { inheritEnv: true }));
+
+      const env = envProfiles.buildChildEnv('local', BASE_ENV);
+
+      expect(env.AWS_SECRET_ACCESS_KEY).toBe('orchestrator-credential');
+      expect(env[secretStore.KEY_FILE_ENV]).toBeUndefined();
+    });
+
+    test('a profile gets only the base variables, its own and its secrets', () => {
+      secretStore.unlockSecretStore('correct horse');
+      secretStore.setSecret('GITHUB_TOKEN_STAGING', 'ghp_staging');
+      envProfiles.saveEnvProfile(envProfiles.validateEnvProfile('staging', {
+        variables: { STAGE: 'staging' },
+        secrets: { GITHUB_TOKEN: 'GITHUB_TOKEN_STAGING' }
+      }));
+
+      expect(envProfiles.buildChildEnv('staging', BASE_ENV)).toEqual({
+        PATH: '/usr/bin',
+        HOME: '/home/dev',
+        STAGE: 'staging',
+        GITHUB_TOKEN: 'ghp_staging'
+      });
+    });
+
+    test('fails while the secrets a profile needs are unavailable', () => {
+      envProfiles.saveEnvProfile(envProfiles.validateEnvProfile('prod', { secrets: { TOKEN: 'PROD_TOKEN' } }));
+
+      expect(() => envProfiles.validateEnvProfileSelection('prod')).toThrow(ConflictError);
+      secretStore.unlockSecretStore('correct horse');
+      expect(() => envProfiles.validateEnvProfileSelection('prod')).toThrow('Unknown secrets: PROD_TOKEN');
+      expect(() => envProfiles.validateEnvProfileSelection('missing')).toThrow(NotFoundError);
+      expect(envProfiles.validateEnvProfileSelection(undefined)).toBeUndefined();
+    });
+  });
+
+  test('profiles are stored without secret values', () => {
+    secretStore.unlockSecretStore('correct horse');
+    secretStore.setSecret('PROD_TOKEN', 'super-secret-value');
+    envProfiles.saveEnvProfile(envProfiles.validateEnvProfile('prod', { secrets: { TOKEN: 'PROD_TOKEN' } }));
+
+    const stored = fs.readFileSync(path.join(dir, 'env-profiles.json'), 'utf-8');
+    expect(stored).toContain('PROD_TOKEN');
+    expect(stored).not.toContain('super-secret-value');
+
+    envProfiles.deleteEnvProfile('prod');
+    expect(envProfiles.listEnvProfiles()).toEqual([]);
+  });
+});
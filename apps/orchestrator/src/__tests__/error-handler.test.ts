@@ -5,6 +5,8 @@ import {
   ValidationError,
   SessionError,
   FileSystemError,
+  ConflictError,
+  GitError,
   formatErrorResponse,
   requireString,
   requireBoolean,
@@ -49,6 +51,19 @@ describe('Error Classes', () => {
     expect(error.code).toBe('FILESYSTEM_ERROR');
     expect(error.statusCode).toBe(500);
   });
+
+  test('ConflictError should have 409 status', () => {
+    const error = new ConflictError('Worktree has uncommitted changes', { changes: ['M a.ts'] });
+    expect(error.code).toBe('CONFLICT');
+    expect(error.statusCode).toBe(409);
+    expect(error.details).toEqual({ changes: ['M a.ts'] });
+  });
+
+  test('GitError should have 500 status', () => {
+    const error = new GitError('git worktree add failed');
+    expect(error.code).toBe('GIT_ERROR');
+    expect(error.statusCode).toBe(500);
+  });
 });
 
 describe('formatErrorResponse', () => {
@@ -0,0 +1,139 @@
+import { describe, test, expect } from 'bun:test';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { HookTracker, DEFAULT_HOOK_GRACE_MS, DEFAULT_STALE_HOOK_MS } from '../hook-state';
+import type { SessionMessage, PendingHook } from '../types';
+
+const FIXTURES = path.join(import.meta.dir, 'fixtures', 'transcripts');
+
+function readFixture(name: string): SessionMessage[] {
+  return fs.readFileSync(path.join(FIXTURES, `${name}.jsonl`), 'utf-8')
+    .split('\n')
+    .filter(Boolean)
+    .map(line => JSON.parse(line) as SessionMessage);
+}
+
+/**
+ * Play a transcript back as a watcher would see it live: after each line, look
+ * at the pending hook every second until the next line is written
+ * @returns Hooks that would have raised an alert, in order
+ */
+function replay(lines: SessionMessage[], tracker = new HookTracker()): PendingHook[] {
+  const alerts: PendingHook[] = [];
+  let seen: string | undefined;
+  const look = (now: number) => {
+    const pending = tracker.pending(now);
+    if (pending && pending.toolUseId !== seen) alerts.push(pending);
+    seen = pending?.toolUseId;
+  };
+
+  lines.forEach((line, i) => {
+    tracker.apply(line);
+    const at = Date.parse(line.timestamp);
+    const until = i + 1 < lines.length ? Date.parse(lines[i + 1].timestamp) : at + 60 * 1000;
+    for (let now = at; now < until; now += 1000) look(now);
+    look(until - 1);
+  });
+  return alerts;
+}
+
+const alertedCalls = (name: string) => replay(readFixture(name)).map(hook => `${hook.type}:${hook.toolUseId}`);
+
+describe('Hook state', () => {
+  describe('transcript fixtures', () => {
+    test('approved Bash calls, quick or reporting progress, raise nothing', () => {
+      expect(alertedCalls('approved-bash')).toEqual([]);
+    });
+
+    test('results in user lines close parallel calls', () => {
+      expect(alertedCalls('parallel-edits')).toEqual([]);
+    });
+
+    test('a call left unanswered past the grace period is a permission prompt', () => {
+      expect(alertedCalls('permission-prompt')).toEqual(['bash:toolu_rm']);
+    });
+
+    test('the Notification hook marks a prompt at once', () => {
+      const lines = readFixture('permission-notification');
+      const tracker = new HookTracker();
+      for (const line of lines.slice(0, 3)) tracker.apply(line);
+      expect(tracker.getState('toolu_push')).toBe('awaiting_permission');
+      // Within the grace period of the call
+      expect(tracker.pending(Date.parse(lines[2].timestamp))?.toolUseId).toBe('toolu_push');
+      expect(alertedCalls('permission-notification')).toEqual(['bash:toolu_push']);
+    });
+
+    test('ExitPlanMode waits for the plan to be approved', () => {
+      expect(alertedCalls('plan-mode')).toEqual(['plan:toolu_plan']);
+    });
+
+    test('interruptions close calls, with or without a result', () => {
+      expect(alertedCalls('interrupted')).toEqual([]);
+    });
+
+    test('bypassed permissions leave only questions', () => {
+      expect(alertedCalls('bypass-permissions')).toEqual(['question:toolu_ask']);
+    });
+
+    test('a subagent answers its own calls while Task runs', () => {
+      expect(alertedCalls('subagent')).toEqual([]);
+    });
+
+    test('a call in a transcript that went quiet goes stale', () => {
+      const lines = readFixture('abandoned');
+      const tracker = new HookTracker();
+      expect(replay(lines, tracker).map(hook => hook.toolUseId)).toEqual(['toolu_clean']);
+
+      const last = Date.parse(lines[lines.length - 1].timestamp);
+      expect(tracker.pending(last + DEFAULT_STALE_HOOK_MS - 1)?.toolUseId).toBe('toolu_clean');
+      expect(tracker.nextChange(last + DEFAULT_HOOK_GRACE_MS)).toBe(last + DEFAULT_STALE_HOOK_MS);
+      expect(tracker.pending(last + DEFAULT_STALE_HOOK_MS + 1)).toBeUndefined();
+    });
+
+    test('every fixture ends with nothing pending, except the abandoned one', () => {
+      for (const file of fs.readdirSync(FIXTURES)) {
+        const lines = readFixture(path.basename(file, '.jsonl'));
+        const tracker = new HookTracker();
+        for (const line of lines) tracker.apply(line);
+        const end = Date.parse(lines[lines.length - 1].timestamp) + 60 * 1000;
+        expect({ file, pending: tracker.pending(end)?.toolUseId }).toEqual({
+          file,
+          pending: file === 'abandoned.jsonl' ? 'toolu_clean' : undefined
+        });
+      }
+    });
+  });
+
+  test('a PreToolUse hook holds a call until it completes', () => {
+    const lines = readFixture('permission-prompt');
+    const tracker = new HookTracker({ graceMs: 0 });
+    tracker.apply(lines[0]);
+    tracker.apply(lines[1]);
+    tracker.apply(lines[2]);
+    expect(tracker.getState('toolu_rm')).toBe('hook_running');
+    expect(tracker.pending(Date.parse(lines[2].timestamp))).toBeUndefined();
+
+    tracker.apply(lines[3]);
+    expect(tracker.getState('toolu_rm')).toBe('requested');
+    expect(tracker.pending(Date.parse(lines[3].timestamp))?.type).toBe('bash');
+  });
+
+  test('tool progress means the call was approved', () => {
+    const lines = readFixture('approved-bash');
+    const tracker = new HookTracker({ graceMs: 0 });
+    const progress = lines.findIndex(line => line.data?.type === 'bash_progress');
+    for (const line of lines.slice(0, progress + 1)) tracker.apply(line);
+    expect(tracker.getState('toolu_test')).toBe('running');
+    expect(tracker.pending(Date.parse(lines[progress].timestamp) + 30 * 1000)).toBeUndefined();
+  });
+
+  test('reports when the grace period of a call ends', () => {
+    const lines = readFixture('permission-prompt').slice(0, 2);
+    const tracker = new HookTracker({ graceMs: 5000 });
+    for (const line of lines) tracker.apply(line);
+    const requested = Date.parse(lines[1].timestamp);
+    expect(tracker.nextChange(requested)).toBe(requested + 5000);
+    expect(tracker.pending(requested + 4999)).toBeUndefined();
+    expect(tracker.pending(requested + 5000)?.toolUseId).toBe('toolu_rm');
+  });
+});
@@ -0,0 +1,182 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as jobs from '../jobs';
+import type { Job, JobTarget } from '../jobs';
+import * as webSession from '../web-session';
+import type { WebSession, WebSessionExit } from '../web-session';
+import { setConcurrencyLimits } from '../launch-queue';
+import { ValidationError } from '../error-handler';
+
+describe('Jobs', () => {
+  const UNATTENDED = { allowedTools: ['Read', 'Edit'] };
+  let dirs: string[];
+
+  beforeEach(() => {
+    dirs = [0, 1].map(() => fs.mkdtempSync(path.join(os.tmpdir(), 'jobs-test-')));
+  });
+
+  afterEach(() => {
+    for (const dir of dirs) {
+      fs.rmSync(dir, { recursive: true, force: true });
+    }
+  });
+
+  describe('validateJobRequest', () => {
+    test('accepts a prompt and target directories, dropping duplicates', () => {
+      const request = jobs.validateJobRequest({ prompt: 'Add CODEOWNERS', cwds: [dirs[0], dirs[1], dirs[0]], priority: 2, launchOptions: UNATTENDED });
+
+      expect(request.cwds).toEqual(dirs);
+      expect(request.priority).toBe(2);
+      expect(request.launchOptions).toEqual(UNATTENDED);
+    });
+
+    test('requires launch options that do not stop for permission prompts', () => {
+      expect(() => jobs.validateJobRequest({ prompt: 'x', cwds: dirs })).toThrow('permission prompts');
+      expect(() => jobs.validateJobRequest({ prompt: 'x', cwds: dirs, launchOptions: { permissionMode: 'acceptEdits' } }))
+        .toThrow('permission prompts');
+      expect(jobs.validateJobRequest({ prompt: 'x', cwds: dirs, launchOptions: { permissionMode: 'bypassPermissions' } }).launchOptions)
+        .toEqual({ permissionMode: 'bypassPermissions' });
+    });
+
+    test('rejects missing prompts and bad targets', () => {
+      expect(() => jobs.validateJobRequest({ prompt: ' ', cwds: dirs })).toThrow(ValidationError);
+      expect(() => jobs.validateJobRequest({ prompt: 'x', cwds: [] })).toThrow('non-empty');
+      expect(() => jobs.validateJobRequest({ prompt: 'x', cwds: ['relative/dir'] })).toThrow('absolute');
+      expect(() => jobs.validateJobRequest({ prompt: 'x', cwds: [path.join(dirs[0], 'missing')] })).toThrow('do not exist');
+    });
+  });
+
+  describe('applySessionEvent', () => {
+    const target = (): JobTarget => ({ cwd: '/work/a', projectName: 'a', status: 'queued', costUsd: 0 });
+    const exit = (exitCode: number | null): WebSessionExit => ({
+      reason: exitCode === 0 ? 'completed' : 'crash',
+      exitCode,
+      signal: null,
+      description: '',
+      exitedAt: new Date().toISOString()
+    });
+
+    test('records the result, cost and exit code of a successful run', () => {
+      const t = target();
+      jobs.applySessionEvent(t, { type: 'status', status: 'started', timestamp: 't1' });
+      jobs.applySessionEvent(t, { type: 'result', result: { text: 'Bumped lint config', isError: false } });
+      jobs.applySessionEvent(t, { type: 'usage', usage: { costUsd: 0.25 } as any });
+      jobs.applySessionEvent(t, { type: 'status', status: 'completed', reason: 'completed', timestamp: 't2' }, exit(0));
+
+      expect(t).toMatchObject({
+        status: 'succeeded',
+        resultText: 'Bumped lint config',
+        exitCode: 0,
+        costUsd: 0.25,
+        startedAt: 't1',
+        finishedAt: 't2'
+      });
+    });
+
+    test('fails on an error result or an exit without a result', () => {
+      const errored = target();
+      jobs.applySessionEvent(errored, { type: 'status', status: 'started' });
+      jobs.applySessionEvent(errored, { type: 'result', result: { text: 'Prompt is too long', isError: true } });
+      jobs.applySessionEvent(errored, { type: 'status', status: 'completed', reason: 'completed' }, exit(0));
+      expect(errored).toMatchObject({ status: 'failed', error: 'Prompt is too long' });
+
+      const crashed = target();
+      jobs.applySessionEvent(crashed, { type: 'status', status: 'started' });
+      jobs.applySessionEvent(crashed, { type: 'status', status: 'error', reason: 'crash', content: 'Crashed (exit code 1)' }, exit(1));
+      expect(crashed).toMatchObject({ status: 'failed', error: 'Crashed (exit code 1)', exitCode: 1 });
+    });
+
+    test('counts a stop before the result as cancelled and ignores later events', () => {
+      const t = target();
+      jobs.applySessionEvent(t, { type: 'status', status: 'completed', reason: 'cancelled' });
+
+      expect(t.status).toBe('cancelled');
+      expect(jobs.applySessionEvent(t, { type: 'usage', usage: { costUsd: 1 } as any })).toBe(false);
+    });
+  });
+
+  test('summarizeJob counts targets and totals cost', () => {
+    const job = {
+      cancelled: false,
+      targets: [
+        { status: 'succeeded', costUsd: 0.5 },
+        { status: 'failed', costUsd: 0.25 },
+        { status: 'running', costUsd: 0.1 }
+      ]
+    } as Job;
+
+    expect(jobs.summarizeJob(job)).toEqual({
+      status: 'running',
+      total: 3,
+      queued: 0,
+      running: 1,
+      succeeded: 1,
+      failed: 1,
+      cancelled: 0,
+      costUsd: 0.85
+    });
+  });
+
+  describe('createJob', () => {
+    let running: WebSession[];
+
+    beforeEach(() => {
+      // Every target project is at its limit, so nothing spawns claude
+      setConcurrencyLimits({ projects: Object.fromEntries(dirs.map(dir => [dir, 1])) });
+      running = dirs.map(dir => {
+        const session = webSession.createWebSession(dir, () => {});
+        session.process = { kill: () => {} } as any;
+        session.status = 'active';
+        return session;
+      });
+    });
+
+    afterEach(() => {
+      for (const job of jobs.getAllJobs()) {
+        jobs.cancelJob(job.id);
+      }
+      for (const session of running) {
+        webSession.stopWebSession(session.id);
+      }
+      setConcurrencyLimits({ projects: {} });
+    });
+
+    test('queues a session per target holding the prompt', async () => {
+      const forwarded: string[] = [];
+      const job = await jobs.createJob(
+        jobs.validateJobRequest({ prompt: 'Add CODEOWNERS', cwds: dirs, launchOptions: UNATTENDED }),
+        (sessionId) => forwarded.push(sessionId),
+        () => {}
+      );
+
+      expect(job.targets.map(t => t.status)).toEqual(['queued', 'queued']);
+      for (const target of job.targets) {
+        const session = webSession.getWebSession(target.sessionId!)!;
+        expect(session.status).toBe('queued');
+        expect(session.messageQueue.map(m => m.content)).toEqual(['Add CODEOWNERS']);
+        expect(session.jobId).toBe(job.id);
+        expect(forwarded).toContain(session.id);
+      }
+      expect(jobs.getJob(job.id)).toBe(job);
+    });
+
+    test('cancelling drops the queued launches', async () => {
+      const updates: Job[] = [];
+      const job = await jobs.createJob(
+        jobs.validateJobRequest({ prompt: 'Bump lint config', cwds: dirs, launchOptions: UNATTENDED }),
+        () => {},
+        (updated) => updates.push(updated)
+      );
+
+      jobs.cancelJob(job.id);
+
+      expect(job.targets.map(t => t.status)).toEqual(['cancelled', 'cancelled']);
+      expect(job.finishedAt).toBeDefined();
+      expect(jobs.summarizeJob(job).status).toBe('cancelled');
+      expect(updates.length).toBeGreaterThan(0);
+      expect(webSession.getLaunchQueue().filter(e => dirs.includes(e.cwd))).toEqual([]);
+    });
+  });
+});
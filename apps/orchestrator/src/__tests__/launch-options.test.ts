@@ -0,0 +1,126 @@
+import { describe, test, expect } from 'bun:test';
+import * as os from 'node:os';
+import { validateLaunchOptions, buildLaunchArgs, redactLaunchOptions, REDACTED_ENV_VALUE } from '../launch-options';
+import { ValidationError } from '../error-handler';
+
+describe('LaunchOptions', () => {
+  describe('validateLaunchOptions', () => {
+    test('treats missing options as empty', () => {
+      expect(validateLaunchOptions(undefined)).toEqual({});
+      expect(validateLaunchOptions(null)).toEqual({});
+    });
+
+    test('accepts a full launch profile', () => {
+      const tmp = os.tmpdir();
+      const options = validateLaunchOptions({
+        model: 'claude-sonnet-4-5',
+        permissionMode: 'acceptEdits',
+        allowedTools: ['Read', 'Bash(git:*)'],
+        disallowedTools: ['WebFetch'],
+        appendSystemPrompt: 'Always write tests.',
+        maxTurns: 20,
+        addDirs: [tmp],
+        env: { NODE_ENV: 'test' }
+      });
+
+      expect(options).toEqual({
+        model: 'claude-sonnet-4-5',
+        permissionMode: 'acceptEdits',
+        allowedTools: ['Read', 'Bash(git:*)'],
+        disallowedTools: ['WebFetch'],
+        appendSystemPrompt: 'Always write tests.',
+        maxTurns: 20,
+        addDirs: [tmp],
+        env: { NODE_ENV: 'test' }
+      });
+    });
+
+    test('rejects non-object options', () => {
+      expect(() => validateLaunchOptions('opus')).toThrow(ValidationError);
+      expect(() => validateLaunchOptions(['opus'])).toThrow(ValidationError);
+    });
+
+    test('rejects unknown keys', () => {
+      expect(() => validateLaunchOptions({ dangerouslySkip: true })).toThrow('Unknown launch options');
+    });
+
+    test('rejects invalid permission mode', () => {
+      expect(() => validateLaunchOptions({ permissionMode: 'yolo' })).toThrow(ValidationError);
+    });
+
+    test('rejects model names with spaces or flags', () => {
+      expect(() => validateLaunchOptions({ model: 'opus --verbose' })).toThrow(ValidationError);
+    });
+
+    test('rejects invalid max turns', () => {
+      expect(() => validateLaunchOptions({ maxTurns: 0 })).toThrow(ValidationError);
+      expect(() => validateLaunchOptions({ maxTurns: 2.5 })).toThrow(ValidationError);
+      expect(() => validateLaunchOptions({ maxTurns: '10' })).toThrow(ValidationError);
+    });
+
+    test('rejects empty tool names', () => {
+      expect(() => validateLaunchOptions({ allowedTools: ['Read', ''] })).toThrow(ValidationError);
+    });
+
+    test('rejects relative or missing extra directories', () => {
+      expect(() => validateLaunchOptions({ addDirs: ['relative/dir'] })).toThrow(ValidationError);
+      expect(() => validateLaunchOptions({ addDirs: ['/definitely/not/here'] })).toThrow(ValidationError);
+    });
+
+    test('rejects invalid env overrides', () => {
+      expect(() => validateLaunchOptions({ env: { 'BAD-NAME': 'x' } })).toThrow(ValidationError);
+      expect(() => validateLaunchOptions({ env: { GOOD_NAME: 1 } })).toThrow(ValidationError);
+    });
+
+    test('rejects env overrides that look like credentials', () => {
+      for (const name of ['ANTHROPIC_API_KEY', 'GITHUB_TOKEN', 'AWS_SECRET_ACCESS_KEY', 'db_password']) {
+        expect(() => validateLaunchOptions({ env: { [name]: 'x' } })).toThrow('secret store');
+      }
+      expect(validateLaunchOptions({ env: { MONKEY_MODE: 'on' } }).env).toEqual({ MONKEY_MODE: 'on' });
+    });
+
+    test('drops a blank appended system prompt', () => {
+      expect(validateLaunchOptions({ appendSystemPrompt: '   ' })).toEqual({});
+    });
+  });
+
+  test('redactLaunchOptions keeps env override names but not their values', () => {
+    expect(redactLaunchOptions({ model: 'opus', env: { NODE_ENV: 'test' } })).toEqual({
+      model: 'opus',
+      env: { NODE_ENV: REDACTED_ENV_VALUE }
+    });
+    expect(redactLaunchOptions({ model: 'opus' })).toEqual({ model: 'opus' });
+  });
+
+  describe('buildLaunchArgs', () => {
+    test('returns no arguments for empty options', () => {
+      expect(buildLaunchArgs({})).toEqual([]);
+    });
+
+    test('maps options onto CLI flags', () => {
+      const args = buildLaunchArgs({
+        model: 'opus',
+        permissionMode: 'plan',
+        allowedTools: ['Read', 'Grep'],
+        disallowedTools: ['Bash'],
+        appendSystemPrompt: 'Be brief.',
+        maxTurns: 5,
+        addDirs: ['/tmp/a', '/tmp/b']
+      });
+
+      expect(args).toEqual([
+        '--model', 'opus',
+        '--permission-mode', 'plan',
+        '--allowedTools', 'Read', 'Grep',
+        '--disallowedTools', 'Bash',
+        '--append-system-prompt', 'Be brief.',
+        '--max-turns', '5',
+        '--add-dir', '/tmp/a', '/tmp/b'
+      ]);
+    });
+
+    test('does not put env overrides on the command line', () => {
+      expect(buildLaunchArgs({ env: { SECRET: 'x' } })).toEqual([]);
+    });
+  });
+});
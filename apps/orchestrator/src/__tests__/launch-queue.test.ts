@@ -0,0 +1,92 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  LaunchQueue,
+  hasCapacity,
+  validateConcurrencyLimits,
+  validatePriority,
+  type QueuedLaunch
+} from '../launch-queue';
+import { ValidationError } from '../error-handler';
+
+describe('LaunchQueue', () => {
+  const launch = (sessionId: string, cwd: string = '/work/a', priority: number = 0): QueuedLaunch => ({
+    sessionId,
+    cwd,
+    projectName: cwd.split('/').pop()!,
+    priority,
+    queuedAt: new Date().toISOString()
+  });
+
+  describe('validation', () => {
+    test('accepts global and per-project limits', () => {
+      expect(validateConcurrencyLimits({ maxSessions: 3, projects: { '/work/a': 1 } })).toEqual({
+        maxSessions: 3,
+        projects: { '/work/a': 1 }
+      });
+      expect(validateConcurrencyLimits({})).toEqual({ projects: {} });
+    });
+
+    test('rejects non-positive limits and relative project paths', () => {
+      expect(() => validateConcurrencyLimits({ maxSessions: 0 })).toThrow(ValidationError);
+      expect(() => validateConcurrencyLimits({ projects: { 'work/a': 1 } })).toThrow('absolute');
+    });
+
+    test('priorities default to 0 and must be bounded integers', () => {
+      expect(validatePriority(undefined)).toBe(0);
+      expect(validatePriority(-5)).toBe(-5);
+      expect(() => validatePriority(1.5)).toThrow(ValidationError);
+      expect(() => validatePriority(1000)).toThrow(ValidationError);
+    });
+  });
+
+  describe('hasCapacity', () => {
+    test('checks the global and the project limit', () => {
+      const limits = { maxSessions: 2, projects: { '/work/a': 1 } };
+      expect(hasCapacity(limits, [], '/work/a')).toBe(true);
+      expect(hasCapacity(limits, ['/work/a'], '/work/a')).toBe(false);
+      expect(hasCapacity(limits, ['/work/a'], '/work/b')).toBe(true);
+      expect(hasCapacity(limits, ['/work/a', '/work/b'], '/work/c')).toBe(false);
+    });
+
+    test('is unlimited without limits', () => {
+      expect(hasCapacity({ projects: {} }, ['/work/a', '/work/a', '/work/a'], '/work/a')).toBe(true);
+    });
+  });
+
+  test('orders by priority, then arrival', () => {
+    const queue = new LaunchQueue();
+    queue.add(launch('low', '/work/a', -1));
+    queue.add(launch('first'));
+    queue.add(launch('urgent', '/work/a', 10));
+    queue.add(launch('second'));
+
+    expect(queue.list().map(e => e.sessionId)).toEqual(['urgent', 'first', 'second', 'low']);
+    expect(queue.position('second')).toBe(3);
+
+    queue.setPriority('low', 5);
+    expect(queue.list().map(e => e.sessionId)).toEqual(['urgent', 'low', 'first', 'second']);
+  });
+
+  test('takes launches that fit, skipping projects at their limit', () => {
+    const queue = new LaunchQueue();
+    queue.add(launch('a1', '/work/a'));
+    queue.add(launch('a2', '/work/a'));
+    queue.add(launch('b1', '/work/b'));
+    queue.add(launch('c1', '/work/c'));
+
+    const taken = queue.takeLaunchable({ maxSessions: 3, projects: { '/work/a': 1 } }, ['/work/a']);
+
+    expect(taken.map(e => e.sessionId)).toEqual(['b1', 'c1']);
+    expect(queue.list().map(e => e.sessionId)).toEqual(['a1', 'a2']);
+  });
+
+  test('cancelled launches leave the queue', () => {
+    const queue = new LaunchQueue();
+    queue.add(launch('one'));
+
+    expect(queue.remove('one')?.sessionId).toBe('one');
+    expect(queue.has('one')).toBe(false);
+    expect(queue.remove('one')).toBeUndefined();
+    expect(queue.setPriority('one', 1)).toBe(false);
+  });
+});
@@ -0,0 +1,62 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { LimitConfigStore, evaluateLimits, isWorseThan, validateLimitConfig } from '../limit-rules';
+import { logger } from '../logger';
+
+describe('Limit rules', () => {
+  describe('evaluateLimits', () => {
+    test('the limit furthest along decides the level', () => {
+      expect(evaluateLimits([
+        { metric: 'a', used: 5, limit: 10 },
+        { metric: 'b', used: 9, limit: 10 }
+      ], 0.8)).toEqual({ level: 'warn', metric: 'b', used: 9, limit: 10 });
+    });
+
+    test('skips unset limits and unmeasured metrics', () => {
+      expect(evaluateLimits([
+        { metric: 'a', used: 50 },
+        { metric: 'b', limit: 10 }
+      ])).toEqual({ level: 'ok' });
+    });
+  });
+
+  test('isWorseThan compares severity', () => {
+    expect(isWorseThan({ level: 'exceeded' }, 'warn')).toBe(true);
+    expect(isWorseThan({ level: 'warn' }, 'warn')).toBe(false);
+  });
+
+  test('validateLimitConfig requires absolute project paths', () => {
+    const validateRule = (value: unknown) => value as { max: number } | undefined;
+    expect(validateLimitConfig({ projects: { '/repo': { max: 1 } } }, 'Config', validateRule))
+      .toEqual({ global: undefined, projects: { '/repo': { max: 1 } } });
+    expect(() => validateLimitConfig({ projects: { repo: { max: 1 } } }, 'Config', validateRule)).toThrow('absolute');
+    expect(() => validateLimitConfig([], 'Config', validateRule)).toThrow('Config must be an object');
+  });
+
+  describe('LimitConfigStore', () => {
+    let dir: string;
+    const validate = (value: unknown) => validateLimitConfig(value, 'Config', rule => rule as { max: number } | undefined);
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'limit-rules-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('saves to disk and loads in a new store', () => {
+      new LimitConfigStore('limits.json', 'limits', validate, logger, dir).save({ global: { max: 3 }, projects: {} });
+
+      expect(new LimitConfigStore('limits.json', 'limits', validate, logger, dir).get()).toEqual({ global: { max: 3 }, projects: {} });
+    });
+
+    test('ignores a file that fails validation', () => {
+      fs.writeFileSync(path.join(dir, 'limits.json'), '[]');
+
+      expect(new LimitConfigStore('limits.json', 'limits', validate, logger, dir).get()).toEqual({ projects: {} });
+    });
+  });
+});
@@ -0,0 +1,139 @@
+import { describe, test, expect } from 'bun:test';
+import { MessageAssembler, toolResultText } from '../message-assembler';
+
+const streamEvent = (event: Record<string, unknown>) => ({ type: 'stream_event', event });
+
+describe('MessageAssembler', () => {
+  test('builds a text block from deltas and confirms it with the assistant event', () => {
+    const assembler = new MessageAssembler();
+
+    assembler.apply(streamEvent({ type: 'message_start', message: { id: 'msg_1' } }));
+    const started = assembler.apply(streamEvent({ type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }));
+    const first = assembler.apply(streamEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hel' } }));
+    assembler.apply(streamEvent({ type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'lo' } }));
+    assembler.apply(streamEvent({ type: 'content_block_stop', index: 0 }));
+    const confirmed = assembler.apply({
+      type: 'assistant',
+      uuid: 'line-1',
+      message: { id: 'msg_1', content: [{ type: 'text', text: 'Hello' }] }
+    });
+
+    expect(started).toEqual([{ type: 'message', message: expect.objectContaining({ id: 'msg_1:0', streaming: true }) }]);
+    expect(first).toEqual([{ type: 'message_delta', messageId: 'msg_1:0', content: 'Hel' }]);
+    expect(confirmed).toEqual([{ type: 'message', message: expect.objectContaining({ id: 'msg_1:0', content: 'Hello' }) }]);
+    expect(assembler.getMessages()).toHaveLength(1);
+    expect(assembler.getMessages()[0].streaming).toBeUndefined();
+  });
+
+  test('does not duplicate a streamed tool use and parses its input', () => {
+    const assembler = new MessageAssembler();
+
+    assembler.apply(streamEvent({ type: 'message_start', message: { id: 'msg_1' } }));
+    assembler.apply(streamEvent({ type: 'content_block_start', index: 0, content_block: { type: 'thinking', thinking: '' } }));
+    assembler.apply(streamEvent({
+      type: 'content_block_start',
+      index: 1,
+      content_block: { type: 'tool_use', id: 'toolu_1', name: 'Bash', input: {} }
+    }));
+    assembler.apply(streamEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"command":' } }));
+    assembler.apply(streamEvent({ type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"ls"}' } }));
+    const stopped = assembler.apply(streamEvent({ type: 'content_block_stop', index: 1 }));
+
+    expect(stopped[0]).toEqual({
+      type: 'message',
+      message: expect.objectContaining({ toolUse: { id: 'toolu_1', name: 'Bash', input: { command: 'ls' } } })
+    });
+
+    assembler.apply({ type: 'assistant', message: { id: 'msg_1', content: [{ type: 'thinking', thinking: 'hmm' }] } });
+    assembler.apply({
+      type: 'assistant',
+      message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } }] }
+    });
+
+    expect(assembler.getMessages().map(m => m.id)).toEqual(['msg_1:1']);
+  });
+
+  test('pairs tool results with their tool use', () => {
+    const assembler = new MessageAssembler();
+    assembler.apply({
+      type: 'assistant',
+      message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Read', input: { file_path: '/a' } }] }
+    });
+
+    const updates = assembler.apply({
+      type: 'user',
+      message: {
+        role: 'user',
+        content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: [{ type: 'text', text: 'file body' }] }]
+      }
+    });
+
+    expect(updates).toEqual([{
+      type: 'message',
+      message: expect.objectContaining({
+        id: 'msg_1:0',
+        toolUse: expect.objectContaining({ name: 'Read' }),
+        toolResult: { toolUseId: 'toolu_1', content: 'file body', isError: false }
+      })
+    }]);
+    expect(assembler.getMessages()).toHaveLength(1);
+  });
+
+  test('shows the result text only when the turn produced none', () => {
+    const assembler = new MessageAssembler();
+    assembler.add({ id: 'p1', role: 'user', content: 'hi', timestamp: '2026-01-01T00:00:00.000Z' });
+    assembler.apply({ type: 'assistant', message: { id: 'msg_1', content: [{ type: 'text', text: 'Hello' }] } });
+    expect(assembler.apply({ type: 'result', result: 'Hello' })).toEqual([]);
+
+    assembler.add({ id: 'p2', role: 'user', content: '/cost', timestamp: '2026-01-01T00:00:00.000Z' });
+    const updates = assembler.apply({ type: 'result', result: 'Total cost: $0.01' });
+    expect(updates).toEqual([{
+      type: 'message',
+      message: expect.objectContaining({ role: 'assistant', content: 'Total cost: $0.01' })
+    }]);
+  });
+
+  test('assembles transcript lines keyed by their uuid', () => {
+    const assembler = new MessageAssembler();
+    assembler.apply({ type: 'user', uuid: 'u1', timestamp: 't1', message: { role: 'user', content: 'List files' } });
+    assembler.apply({
+      type: 'assistant',
+      uuid: 'a1',
+      timestamp: 't2',
+      message: { id: 'msg_1', content: [{ type: 'text', text: 'Listing.' }] }
+    });
+    assembler.apply({
+      type: 'assistant',
+      uuid: 'a2',
+      timestamp: 't2',
+      message: { id: 'msg_1', content: [{ type: 'tool_use', id: 'toolu_1', name: 'Bash', input: { command: 'ls' } }] }
+    });
+    assembler.apply({
+      type: 'user',
+      uuid: 'u2',
+      timestamp: 't3',
+      message: { role: 'user', content: [{ type: 'tool_result', tool_use_id: 'toolu_1', content: 'a.txt', is_error: false }] }
+    });
+
+    expect(assembler.getMessages().map(m => [m.id, m.role, m.content, m.toolResult?.content])).toEqual([
+      ['u1', 'user', 'List files', undefined],
+      ['a1', 'assistant', 'Listing.', undefined],
+      ['a2', 'assistant', '', 'a.txt']
+    ]);
+  });
+
+  test('forgets the oldest messages past its limit', () => {
+    const assembler = new MessageAssembler(2);
+    for (const id of ['m1', 'm2', 'm3']) {
+      assembler.apply({ type: 'assistant', message: { id, content: [{ type: 'text', text: id }] } });
+    }
+
+    expect(assembler.getMessages().map(m => m.content)).toEqual(['m2', 'm3']);
+  });
+
+  test('toolResultText flattens content blocks', () => {
+    expect(toolResultText('plain')).toBe('plain');
+    expect(toolResultText([{ type: 'text', text: 'a' }, { type: 'image' }, { type: 'text', text: 'b' }])).toBe('a\nb');
+    expect(toolResultText(undefined)).toBe('');
+  });
+});
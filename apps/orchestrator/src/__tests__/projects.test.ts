@@ -0,0 +1,109 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'bun';
+import { GitInfoCache, listProjects, readGitInfo } from '../projects';
+import type { GitInfo } from '../projects';
+import type { Session } from '../types';
+import { UsageTracker } from '../usage';
+
+function git(cwd: string, ...args: string[]): void {
+  const result = spawnSync(['git', ...args], { cwd });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.toString());
+  }
+}
+
+function session(id: string, projectPath: string, minutesAgo: number, extra: Partial<Session> = {}): Session {
+  return {
+    id,
+    projectPath,
+    projectName: path.basename(projectPath),
+    storageDir: `/storage/${projectPath.replace(/[^a-zA-Z0-9]/g, '-')}`,
+    filePath: `/storage/${id}.jsonl`,
+    cwd: projectPath,
+    gitBranch: 'main',
+    lastActivity: new Date(Date.now() - minutesAgo * 60 * 1000),
+    messageCount: 1,
+    status: 'idle',
+    usage: new UsageTracker(),
+    ...extra
+  };
+}
+
+describe('Projects', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'projects-test-')));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('keeps repositories with the same name apart', async () => {
+    const first = path.join(dir, 'work', 'my-app');
+    const second = path.join(dir, 'personal', 'my-app');
+    fs.mkdirSync(first, { recursive: true });
+    fs.mkdirSync(second, { recursive: true });
+
+    const projects = await listProjects([
+      session('a', first, 10),
+      session('b', second, 1, { status: 'pending_hook' }),
+      session('c', first, 5, { status: 'active', gitBranch: 'feature' })
+    ], async () => null);
+
+    expect(projects.map(p => p.path)).toEqual([second, first]);
+    expect(projects.map(p => p.name)).toEqual(['my-app', 'my-app']);
+    expect(projects[0]).toMatchObject({ sessionCount: 1, pendingHooks: 1, activeSessions: 0, exists: true });
+    // Without git, the branch of the latest session
+    expect(projects[1]).toMatchObject({ sessionCount: 2, activeSessions: 1, gitBranch: 'feature' });
+  });
+
+  test('prefers what git says, and skips git for directories that are gone', async () => {
+    const asked: string[] = [];
+    const lookup = async (projectPath: string): Promise<GitInfo> => {
+      asked.push(projectPath);
+      return { remote: 'git@example.com:me/app.git', branch: 'develop' };
+    };
+    fs.mkdirSync(path.join(dir, 'app'));
+
+    const projects = await listProjects([session('a', path.join(dir, 'app'), 1), session('b', path.join(dir, 'gone'), 2)], lookup);
+
+    expect(asked).toEqual([path.join(dir, 'app')]);
+    expect(projects[0]).toMatchObject({ exists: true, gitRemote: 'git@example.com:me/app.git', gitBranch: 'develop' });
+    expect(projects[1]).toMatchObject({ exists: false, gitRemote: undefined, gitBranch: 'main' });
+  });
+
+  test('reads the remote and branch of a repository', async () => {
+    git(dir, 'init', '-q', '-b', 'trunk');
+    expect(await readGitInfo(dir)).toEqual({ branch: 'trunk' });
+
+    git(dir, 'remote', 'add', 'origin', 'https://example.com/me/app.git');
+    expect(await readGitInfo(dir)).toEqual({ branch: 'trunk', remote: 'https://example.com/me/app.git' });
+  });
+
+  test('is null outside a repository', async () => {
+    const outside = path.join(dir, 'plain');
+    fs.mkdirSync(outside);
+    // Stop git from finding a repository above the temp directory
+    process.env.GIT_CEILING_DIRECTORIES = dir;
+    try {
+      expect(await readGitInfo(outside)).toBeNull();
+    } finally {
+      delete process.env.GIT_CEILING_DIRECTORIES;
+    }
+  });
+
+  test('caches git lookups until they expire', async () => {
+    let reads = 0;
+    const cache = new GitInfoCache(50, async () => ({ branch: `b${++reads}` }));
+
+    expect(await cache.get('/repo')).toEqual({ branch: 'b1' });
+    expect(await cache.get('/repo')).toEqual({ branch: 'b1' });
+    await new Promise(resolve => setTimeout(resolve, 60));
+    expect(await cache.get('/repo')).toEqual({ branch: 'b2' });
+  });
+});
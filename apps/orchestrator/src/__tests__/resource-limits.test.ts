@@ -0,0 +1,103 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import {
+  validateResourceLimits,
+  validateResourceLimitConfig,
+  resolveResourceLimits,
+  evaluateResourceLimits,
+  describeResourceStatus,
+  readProcessTreeMemory
+} from '../resource-limits';
+import { ValidationError } from '../error-handler';
+
+const MINUTE = 60000;
+const MB = 1024 * 1024;
+
+describe('Resource limits', () => {
+  describe('validateResourceLimits', () => {
+    test('accepts limits with at least one limit set', () => {
+      expect(validateResourceLimits({ idleMinutes: 30, warnAt: 0.5 })).toEqual({ idleMinutes: 30, warnAt: 0.5 });
+      expect(validateResourceLimits(undefined)).toBeUndefined();
+    });
+
+    test('rejects limits that set nothing, non-positive values and unknown fields', () => {
+      expect(() => validateResourceLimits({ warnAt: 0.5 })).toThrow(ValidationError);
+      expect(() => validateResourceLimits({ maxMemoryMb: 0 })).toThrow('limits.maxMemoryMb');
+      expect(() => validateResourceLimits({ idleSeconds: 60 })).toThrow(ValidationError);
+    });
+
+    test('requires absolute project paths', () => {
+      expect(() => validateResourceLimitConfig({ projects: { 'my-app': { idleMinutes: 5 } } })).toThrow('absolute');
+    });
+  });
+
+  test('project limits replace the global ones', () => {
+    const config = { global: { idleMinutes: 30 }, projects: { '/work/app': { maxMemoryMb: 2048 } } };
+    expect(resolveResourceLimits(config, '/work/app')).toEqual({ maxMemoryMb: 2048 });
+    expect(resolveResourceLimits(config, '/work/other')).toEqual({ idleMinutes: 30 });
+  });
+
+  describe('evaluateResourceLimits', () => {
+    const limits = { idleMinutes: 30, maxWallClockMinutes: 120, maxMemoryMb: 1000 };
+
+    test('is ok below the warn line', () => {
+      expect(evaluateResourceLimits(limits, { idleMs: 5 * MINUTE, uptimeMs: 10 * MINUTE, memoryBytes: 100 * MB }).level).toBe('ok');
+      expect(evaluateResourceLimits(undefined, { idleMs: 999 * MINUTE, uptimeMs: 0 })).toEqual({ level: 'ok' });
+    });
+
+    test('reports the limit furthest along', () => {
+      const status = evaluateResourceLimits(limits, { idleMs: 25 * MINUTE, uptimeMs: 30 * MINUTE, memoryBytes: 500 * MB });
+      expect(status).toEqual({ level: 'warn', metric: 'idle', used: 25, limit: 30 });
+      expect(describeResourceStatus(status)).toBe('Idle for 25 of 30 minutes');
+    });
+
+    test('is exceeded at the limit', () => {
+      const status = evaluateResourceLimits(limits, { idleMs: 0, uptimeMs: 0, memoryBytes: 1200 * MB });
+      expect(status).toEqual({ level: 'exceeded', metric: 'memory', used: 1200, limit: 1000 });
+      expect(describeResourceStatus(status)).toBe('Using 1200 of 1000 MB memory');
+    });
+
+    test('skips memory where it could not be measured', () => {
+      expect(evaluateResourceLimits({ maxMemoryMb: 1 }, { idleMs: 0, uptimeMs: 0 })).toEqual({ level: 'ok' });
+    });
+  });
+
+  describe('readProcessTreeMemory', () => {
+    let procRoot: string;
+
+    // A fake /proc: pid 100 with a child 200 (on its second thread), which has a child 300
+    const addProcess = (pid: number, rssKb: number | null, threads: Record<string, number[]> = {}) => {
+      fs.mkdirSync(path.join(procRoot, String(pid), 'task'), { recursive: true });
+      fs.writeFileSync(
+        path.join(procRoot, String(pid), 'status'),
+        `Name:\tproc\n${rssKb === null ? '' : `VmRSS:\t  ${rssKb} kB\n`}Threads:\t1\n`
+      );
+      for (const [tid, children] of Object.entries(threads)) {
+        fs.mkdirSync(path.join(procRoot, String(pid), 'task', tid));
+        fs.writeFileSync(path.join(procRoot, String(pid), 'task', tid, 'children'), children.map(c => `${c} `).join(''));
+      }
+    };
+
+    beforeEach(() => {
+      procRoot = fs.mkdtempSync(path.join(os.tmpdir(), 'resource-limits-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(procRoot, { recursive: true, force: true });
+    });
+
+    test('sums the resident memory of a process and its descendants', () => {
+      addProcess(100, 1000, { '100': [], '101': [200] });
+      addProcess(200, 500, { '200': [300] });
+      addProcess(300, null);
+
+      expect(readProcessTreeMemory(100, procRoot)).toBe(1500 * 1024);
+    });
+
+    test('is undefined for a process that is gone', () => {
+      expect(readProcessTreeMemory(100, procRoot)).toBeUndefined();
+    });
+  });
+});
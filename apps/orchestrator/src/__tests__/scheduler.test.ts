@@ -0,0 +1,173 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as scheduler from '../scheduler';
+import type { Schedule } from '../scheduler';
+import * as jobs from '../jobs';
+import * as webSession from '../web-session';
+import type { WebSession } from '../web-session';
+import { setConcurrencyLimits } from '../launch-queue';
+import { ValidationError } from '../error-handler';
+
+// Local time, like the schedules themselves
+const at = (day: number, hour: number, minute: number = 0) => new Date(2026, 2, day, hour, minute);
+
+describe('Scheduler', () => {
+  const UNATTENDED = { permissionMode: 'bypassPermissions' } as const;
+  let dir: string;
+  let storageFile: string;
+  let running: WebSession;
+
+  const input = (overrides: Record<string, unknown> = {}) =>
+    scheduler.validateScheduleInput({ cron: '0 9 * * 1-5', cwd: dir, prompt: '/review', launchOptions: UNATTENDED, ...overrides });
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'scheduler-test-'));
+    storageFile = path.join(dir, 'schedules.json');
+    scheduler.setScheduleStorageFile(storageFile);
+
+    // The project is at its limit, so scheduled runs wait in the launch queue instead of spawning claude
+    setConcurrencyLimits({ projects: { [dir]: 1 } });
+    running = webSession.createWebSession(dir, () => {});
+    running.process = { kill: () => {} } as any;
+    running.status = 'active';
+  });
+
+  afterEach(() => {
+    for (const job of jobs.getAllJobs()) {
+      jobs.cancelJob(job.id);
+    }
+    webSession.stopWebSession(running.id);
+    setConcurrencyLimits({ projects: {} });
+    scheduler.setScheduleStorageFile();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('validateScheduleInput', () => {
+    test('fills in defaults', () => {
+      expect(input()).toEqual({
+        name: path.basename(dir),
+        cron: '0 9 * * 1-5',
+        cwd: dir,
+        prompt: '/review',
+        launchOptions: UNATTENDED,
+        budget: undefined,
+        enabled: true,
+        missedRuns: 'skip'
+      });
+    });
+
+    test('rejects bad schedules', () => {
+      expect(() => input({ cron: 'every morning' })).toThrow(ValidationError);
+      expect(() => input({ cwd: path.join(dir, 'missing') })).toThrow('existing');
+      expect(() => input({ missedRuns: 'all' })).toThrow('missedRuns');
+      expect(() => input({ enabled: 'yes' })).toThrow(ValidationError);
+      expect(() => input({ launchOptions: undefined })).toThrow('permission prompts');
+    });
+
+    test('keeps fields an update leaves out', () => {
+      const schedule = scheduler.createSchedule(input({ name: 'Review' }), at(6, 10));
+
+      expect(scheduler.validateScheduleInput({ enabled: false }, schedule)).toMatchObject({
+        name: 'Review',
+        prompt: '/review',
+        enabled: false
+      });
+    });
+  });
+
+  test('stores schedules with their next run', () => {
+    // Friday 10:00 -> Monday 9:00
+    const schedule = scheduler.createSchedule(input(), at(6, 10));
+    expect(schedule.nextRunAt).toBe(at(9, 9).toISOString());
+
+    scheduler.updateSchedule(schedule.id, input({ enabled: false }), at(6, 11));
+    expect(schedule.nextRunAt).toBeUndefined();
+
+    scheduler.setScheduleStorageFile(storageFile);
+    expect(scheduler.getSchedule(schedule.id)).toMatchObject({ id: schedule.id, enabled: false });
+
+    expect(scheduler.deleteSchedule(schedule.id)).toBe(true);
+    expect(scheduler.listSchedules()).toEqual([]);
+  });
+
+  test('runs due schedules and skips overlapping runs', async () => {
+    const schedule = scheduler.createSchedule(input({ cron: '*/5 * * * *' }), at(9, 8, 59));
+
+    await scheduler.tick(at(9, 9, 0));
+
+    expect(schedule.runs).toHaveLength(1);
+    expect(schedule.runs[0]).toMatchObject({ status: 'queued', scheduledFor: at(9, 9).toISOString() });
+    expect(jobs.getJob(schedule.runs[0].jobId!)?.targets[0].cwd).toBe(dir);
+    expect(schedule.nextRunAt).toBe(at(9, 9, 5).toISOString());
+
+    await scheduler.tick(at(9, 9, 5));
+
+    expect(schedule.runs.map(r => r.status)).toEqual(['skipped', 'queued']);
+    expect(schedule.runs[0].reason).toBe('Previous run is still in progress');
+    // Only the run that launched counts as the last run
+    expect(schedule.lastRunAt).toBe(schedule.runs[1].startedAt);
+    expect(schedule.lastSkippedAt).toBe(schedule.runs[0].startedAt);
+    expect(schedule.lastSkipReason).toBe('Previous run is still in progress');
+  });
+
+  test('records the outcome of a run', async () => {
+    const schedule = scheduler.createSchedule(input(), at(6, 10));
+    const run = await scheduler.runSchedule(schedule);
+
+    jobs.cancelJob(run.jobId!);
+
+    expect(run.status).toBe('cancelled');
+    const stored: { schedules: Schedule[] } = JSON.parse(fs.readFileSync(storageFile, 'utf-8'));
+    expect(stored.schedules[0].runs[0].status).toBe('cancelled');
+  });
+
+  test('fails runs of a stored schedule that would stop for permission prompts', async () => {
+    const schedule = scheduler.createSchedule(input(), at(6, 10));
+    schedule.launchOptions = {};
+
+    const run = await scheduler.runSchedule(schedule);
+
+    expect(run.status).toBe('failed');
+    expect(run.jobId).toBeUndefined();
+    expect(run.error).toContain('permission prompts');
+    expect(schedule.lastRunAt).toBeUndefined();
+  });
+
+  describe('missed runs', () => {
+    test('are recorded as skipped by default', async () => {
+      const schedule = scheduler.createSchedule(input(), at(6, 10));
+
+      // Down over the weekend and all of Monday
+      await scheduler.tick(at(10, 8));
+
+      expect(schedule.runs).toEqual([expect.objectContaining({ status: 'skipped', missed: true })]);
+      expect(schedule.runs[0].jobId).toBeUndefined();
+      expect(schedule.lastRunAt).toBeUndefined();
+      expect(schedule.lastSkippedAt).toBe(at(10, 8).toISOString());
+      expect(schedule.nextRunAt).toBe(at(10, 9).toISOString());
+    });
+
+    test('are caught up once with run_once', async () => {
+      const schedule = scheduler.createSchedule(input({ missedRuns: 'run_once' }), at(6, 10));
+
+      await scheduler.tick(at(10, 8));
+
+      expect(schedule.runs).toEqual([expect.objectContaining({ status: 'queued', missed: true })]);
+      expect(schedule.runs[0].jobId).toBeDefined();
+    });
+
+    test('runs cut off by a restart are marked failed', () => {
+      fs.writeFileSync(storageFile, JSON.stringify({
+        schedules: [{ ...input(), id: 's1', enabled: false, runs: [{ id: 'r1', status: 'running', scheduledFor: '', startedAt: '' }] }]
+      }));
+      scheduler.setScheduleStorageFile(storageFile);
+
+      expect(scheduler.getSchedule('s1')?.runs[0]).toMatchObject({
+        status: 'failed',
+        error: 'Interrupted by an orchestrator restart'
+      });
+    });
+  });
+});
@@ -0,0 +1,167 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { SearchIndex, tokenize, buildSnippet, parseSearchQuery, buildSearchHits } from '../search-index';
+import { SessionWatcher } from '../session-watcher';
+import type { Session, SessionMessage, MessageContent } from '../types';
+import { UsageTracker } from '../usage';
+import { ValidationError } from '../error-handler';
+
+function line(
+  uuid: string,
+  type: 'user' | 'assistant',
+  content: MessageContent[],
+  extra: Partial<SessionMessage> = {}
+): SessionMessage {
+  return {
+    uuid,
+    parentUuid: null,
+    isSidechain: false,
+    userType: 'external',
+    cwd: '/work/app',
+    sessionId: 's1',
+    version: '1.0.0',
+    gitBranch: 'main',
+    type,
+    message: { role: type, content, id: type === 'assistant' ? `msg_${uuid}` : undefined },
+    timestamp: '2026-03-01T10:00:00.000Z',
+    ...extra
+  };
+}
+
+function session(id: string, projectName = 'app'): Session {
+  return {
+    id,
+    projectPath: `/work/${projectName}`,
+    projectName,
+    storageDir: `/projects/-work-${projectName}`,
+    filePath: `/projects/-work-${projectName}/${id}.jsonl`,
+    cwd: `/work/${projectName}`,
+    gitBranch: 'main',
+    lastActivity: new Date(),
+    messageCount: 0,
+    status: 'idle',
+    usage: new UsageTracker()
+  };
+}
+
+const text = (value: string): MessageContent => ({ type: 'text', text: value });
+
+const TRANSCRIPT: SessionMessage[] = [
+  line('u1', 'user', [text('The OAuth redirect goes to the wrong URL after login')]),
+  line('a1', 'assistant', [{ type: 'tool_use', id: 'tool-1', name: 'Grep', input: { pattern: 'redirect_uri' } }]),
+  line('r1', 'user', [{ type: 'tool_result', tool_use_id: 'tool-1', content: 'src/auth/oauth.ts: const redirect_uri = BASE' }]),
+  line('a2', 'assistant', [text('Fixed the OAuth redirect by reading the callback from config')], { timestamp: '2026-03-02T10:00:00.000Z' })
+];
+
+describe('Search index', () => {
+  let index: SearchIndex;
+  const sessions = new Map([['s1', session('s1')], ['s2', session('s2', 'web')]]);
+  const getSession = (id: string) => sessions.get(id);
+
+  beforeEach(() => {
+    index = new SearchIndex();
+    for (const msg of TRANSCRIPT) index.add('s1', msg);
+    index.add('s2', line('w1', 'user', [text('Style the login page')], { sessionId: 's2', gitBranch: 'feature' }));
+  });
+
+  test('tokenizes words and identifiers', () => {
+    expect(tokenize('Fix redirect_uri in OAuth2 (a)')).toEqual(['fix', 'redirect', 'uri', 'in', 'oauth2']);
+  });
+
+  test('finds lines containing every term, best first', () => {
+    const { total, lines } = index.search({ q: 'oauth redirect' }, getSession);
+    expect(total).toBe(3);
+    expect(lines.map(l => l.uuid)).toContain('r1');
+    expect(index.search({ q: 'oauth login' }, getSession).lines.map(l => l.uuid)).toEqual(['u1']);
+    expect(index.search({ q: 'nowhere' }, getSession).total).toBe(0);
+  });
+
+  test('indexes tool inputs and results under the tool name', () => {
+    const uses = index.search({ q: 'redirect uri', role: 'tool_use' }, getSession).lines;
+    expect(uses.map(l => l.uuid)).toEqual(['a1']);
+    const results = index.search({ q: 'redirect', tool: 'grep', role: 'tool_result' }, getSession).lines;
+    expect(results.map(l => l.uuid)).toEqual(['r1']);
+  });
+
+  test('filters by project, branch and date', () => {
+    expect(index.search({ q: 'login', project: 'web' }, getSession).lines.map(l => l.uuid)).toEqual(['w1']);
+    expect(index.search({ q: 'login', project: '/work/app' }, getSession).lines.map(l => l.uuid)).toEqual(['u1']);
+    expect(index.search({ q: 'login', branch: 'feature' }, getSession).lines.map(l => l.uuid)).toEqual(['w1']);
+    const from = new Date('2026-03-02T00:00:00.000Z');
+    expect(index.search({ q: 'oauth', from }, getSession).lines.map(l => l.uuid)).toEqual(['a2']);
+  });
+
+  test('forgets removed sessions', () => {
+    index.removeSession('s1');
+    expect(index.search({ q: 'oauth' }, getSession).total).toBe(0);
+    expect(index.getStats()).toEqual({ lines: 1, terms: expect.any(Number), sessions: 1 });
+  });
+
+  test('builds hits with snippets and display message IDs', async () => {
+    const { lines } = index.search({ q: 'callback' }, getSession);
+    const hits = await buildSearchHits({ q: 'callback' }, lines, getSession, async () => TRANSCRIPT);
+
+    expect(hits).toHaveLength(1);
+    expect(hits[0]).toMatchObject({ sessionId: 's1', uuid: 'a2', messageId: 'a2', projectName: 'app', roles: ['assistant'] });
+    expect(hits[0].snippet).toContain('callback');
+
+    // Tool results are shown on their tool use
+    const toolHits = await buildSearchHits(
+      { q: 'BASE' },
+      index.search({ q: 'BASE' }, getSession).lines,
+      getSession,
+      async () => TRANSCRIPT
+    );
+    expect(toolHits[0]).toMatchObject({ uuid: 'r1', messageId: 'a1', tools: ['Grep'] });
+  });
+
+  test('cuts snippets around the first match', () => {
+    const long = `${'a '.repeat(200)}needle ${'b '.repeat(200)}`;
+    const snippet = buildSnippet(long, ['needle']);
+    expect(snippet.startsWith('…')).toBe(true);
+    expect(snippet.endsWith('…')).toBe(true);
+    expect(snippet).toContain('needle');
+  });
+
+  test('validates query parameters', () => {
+    const query = parseSearchQuery(new URLSearchParams('q=oauth&role=user&from=2026-01-01&limit=5'));
+    expect(query).toMatchObject({ q: 'oauth', role: 'user', limit: 5 });
+    expect(query.from?.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+    expect(() => parseSearchQuery(new URLSearchParams(''))).toThrow(ValidationError);
+    expect(() => parseSearchQuery(new URLSearchParams('q=oauth&role=robot'))).toThrow('role');
+    expect(() => parseSearchQuery(new URLSearchParams('q=oauth&to=someday'))).toThrow('to must be a date');
+  });
+
+  describe('fed by the session watcher', () => {
+    let projectsDir: string;
+    let watcher: SessionWatcher;
+
+    beforeEach(async () => {
+      projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'search-index-test-'));
+      fs.mkdirSync(path.join(projectsDir, '-work-app'));
+      fs.writeFileSync(path.join(projectsDir, '-work-app', 's1.jsonl'), JSON.stringify(TRANSCRIPT[0]) + '\n');
+      index = new SearchIndex();
+      watcher = new SessionWatcher(() => {}, undefined, { projectsDir, debounceMs: 20, searchIndex: index });
+      await watcher.start();
+    });
+
+    afterEach(() => {
+      watcher.stop();
+      fs.rmSync(projectsDir, { recursive: true, force: true });
+    });
+
+    test('indexes lines as they are appended', async () => {
+      const watcherSession = (id: string) => watcher.getSession(id);
+      expect(index.search({ q: 'oauth' }, watcherSession).total).toBe(1);
+
+      fs.appendFileSync(path.join(projectsDir, '-work-app', 's1.jsonl'), JSON.stringify(TRANSCRIPT[3]) + '\n');
+      await new Promise(resolve => setTimeout(resolve, 100));
+      await watcher.flush();
+
+      expect(index.search({ q: 'oauth' }, watcherSession).total).toBe(2);
+      expect(index.search({ q: 'callback' }, watcherSession).lines.map(l => l.uuid)).toEqual(['a2']);
+    });
+  });
+});
@@ -0,0 +1,69 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as secretStore from '../secret-store';
+import { ConflictError, NotFoundError, ValidationError } from '../error-handler';
+
+describe('Secret store', () => {
+  let dir: string;
+  let file: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'secret-store-test-'));
+    file = path.join(dir, 'secrets.enc');
+    secretStore.setSecretStoreFile(file);
+  });
+
+  afterEach(() => {
+    secretStore.setSecretStoreFile();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('starts locked and creates the store on first unlock', () => {
+    expect(secretStore.getSecretStoreStatus()).toEqual({ exists: false, unlocked: false, names: [] });
+    expect(() => secretStore.setSecret('API_KEY', 'sk-123')).toThrow(ConflictError);
+
+    secretStore.unlockSecretStore('correct horse');
+
+    expect(secretStore.getSecretStoreStatus()).toEqual({ exists: true, unlocked: true, names: [] });
+  });
+
+  test('keeps values encrypted on disk and reads them back with the passphrase', () => {
+    secretStore.unlockSecretStore('correct horse');
+    secretStore.setSecret('API_KEY', 'sk-live-123456');
+    secretStore.setSecret('DB_PASSWORD', 'hunter22');
+
+    expect(fs.readFileSync(file, 'utf-8')).not.toContain('sk-live-123456');
+
+    secretStore.lockSecretStore();
+    expect(() => secretStore.resolveSecrets(['API_KEY'])).toThrow(ConflictError);
+    expect(() => secretStore.unlockSecretStore('wrong horse')).toThrow('Wrong passphrase');
+
+    secretStore.unlockSecretStore('correct horse');
+    expect(secretStore.getSecretStoreStatus().names).toEqual(['API_KEY', 'DB_PASSWORD']);
+    expect(secretStore.resolveSecrets(['API_KEY']).get('API_KEY')).toBe('sk-live-123456');
+  });
+
+  test('unlocks with a key file', () => {
+    const keyFile = path.join(dir, 'secrets.key');
+    fs.writeFileSync(keyFile, 'a-long-random-key-file-content');
+    secretStore.unlockSecretStoreWithKeyFile(keyFile);
+    secretStore.setSecret('TOKEN', 'abc');
+    secretStore.lockSecretStore();
+
+    secretStore.unlockSecretStoreWithKeyFile(keyFile);
+
+    expect(secretStore.resolveSecrets(['TOKEN']).get('TOKEN')).toBe('abc');
+    expect(() => secretStore.unlockSecretStoreWithKeyFile(path.join(dir, 'missing.key'))).toThrow(ValidationError);
+  });
+
+  test('validates names and reports missing secrets by name', () => {
+    secretStore.unlockSecretStore('correct horse');
+
+    expect(() => secretStore.setSecret('not a name', 'x')).toThrow(ValidationError);
+    expect(() => secretStore.setSecret('EMPTY', '')).toThrow(ValidationError);
+    expect(() => secretStore.deleteSecret('NOPE')).toThrow(NotFoundError);
+    expect(() => secretStore.resolveSecrets(['NOPE'])).toThrow('Unknown secrets: NOPE');
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { buildForkChain, findForkPoint, forkSession } from '../session-fork';
+import type { Session, SessionMessage, MessageContent } from '../types';
+import { UsageTracker } from '../usage';
+import { NotFoundError, ValidationError } from '../error-handler';
+
+function line(
+  uuid: string,
+  parentUuid: string | null,
+  type: 'user' | 'assistant',
+  content: MessageContent[],
+  extra: Partial<SessionMessage> = {}
+): SessionMessage {
+  return {
+    uuid,
+    parentUuid,
+    isSidechain: false,
+    userType: 'external',
+    cwd: '/project',
+    sessionId: 'original',
+    version: '1.0.0',
+    type,
+    message: { role: type, content, id: type === 'assistant' ? `msg_${uuid}` : undefined },
+    timestamp: '2026-03-01T10:00:00.000Z',
+    ...extra
+  };
+}
+
+const text = (value: string): MessageContent => ({ type: 'text', text: value });
+const toolUse = (id: string): MessageContent => ({ type: 'tool_use', id, name: 'Bash', input: { command: 'ls' } });
+const toolResult = (id: string): MessageContent => ({ type: 'tool_result', tool_use_id: id, content: 'ok' });
+
+// u1 -> a1 -> u2 -> a2 (two tool calls, split over two lines) -> r1 -> r2 -> a3,
+// plus u3: an edited prompt that branched off a1 earlier
+const TRANSCRIPT: SessionMessage[] = [
+  line('u1', null, 'user', [text('List the files')]),
+  line('a1', 'u1', 'assistant', [text('Sure')]),
+  line('u3', 'a1', 'user', [text('Abandoned prompt')]),
+  line('u2', 'a1', 'user', [text('Run both commands')]),
+  { ...line('a2-0', 'u2', 'assistant', [toolUse('tool-1')]), message: { role: 'assistant', content: [toolUse('tool-1')], id: 'msg_a2' } },
+  { ...line('a2-1', 'a2-0', 'assistant', [toolUse('tool-2')]), message: { role: 'assistant', content: [toolUse('tool-2')], id: 'msg_a2' } },
+  line('r1', 'a2-1', 'user', [toolResult('tool-1')]),
+  line('r2', 'r1', 'user', [toolResult('tool-2')]),
+  line('a3', 'r2', 'assistant', [text('Done')])
+];
+
+describe('Session fork', () => {
+  test('follows parents back to the root', () => {
+    expect(buildForkChain(TRANSCRIPT, 'u2').map(m => m.uuid)).toEqual(['u1', 'a1', 'u2']);
+    expect(buildForkChain(TRANSCRIPT, 'u3').map(m => m.uuid)).toEqual(['u1', 'a1', 'u3']);
+  });
+
+  test('runs on to the results of the tool calls it ends in', () => {
+    expect(buildForkChain(TRANSCRIPT, 'a2-0').map(m => m.uuid)).toEqual(['u1', 'a1', 'u2', 'a2-0', 'a2-1', 'r1', 'r2']);
+  });
+
+  test('refuses to cut at a tool call that has no result', () => {
+    const running = TRANSCRIPT.slice(0, 6);
+    expect(() => buildForkChain(running, 'a2-1')).toThrow(ValidationError);
+  });
+
+  test('finds live-assembled message IDs by API message and block index', () => {
+    expect(findForkPoint(TRANSCRIPT, 'msg_a2:1').uuid).toBe('a2-1');
+    expect(() => findForkPoint(TRANSCRIPT, 'missing')).toThrow(NotFoundError);
+  });
+
+  test('rejects block indexes the message does not have', () => {
+    expect(() => findForkPoint(TRANSCRIPT, 'msg_a2:2')).toThrow(ValidationError);
+    expect(() => findForkPoint(TRANSCRIPT, 'msg_a2:-1')).toThrow(ValidationError);
+    expect(() => findForkPoint(TRANSCRIPT, 'msg_a2:x')).toThrow(ValidationError);
+    expect(() => findForkPoint(TRANSCRIPT, 'msg_missing:0')).toThrow(NotFoundError);
+  });
+
+  describe('forkSession', () => {
+    let dir: string;
+
+    beforeEach(() => {
+      dir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-fork-test-'));
+    });
+
+    afterEach(() => {
+      fs.rmSync(dir, { recursive: true, force: true });
+    });
+
+    test('writes the chain as a new transcript next to the original', () => {
+      const filePath = path.join(dir, 'original.jsonl');
+      const original = TRANSCRIPT.map(m => JSON.stringify(m)).join('\n') + '\n';
+      fs.writeFileSync(filePath, original);
+      const session: Session = {
+        id: 'original',
+        projectPath: '/project',
+        projectName: 'project',
+        storageDir: dir,
+        filePath,
+        cwd: '/project',
+        lastActivity: new Date(),
+        messageCount: TRANSCRIPT.length,
+        status: 'idle',
+        usage: new UsageTracker()
+      };
+
+      const fork = forkSession(session, TRANSCRIPT, 'u3');
+
+      expect(path.dirname(fork.filePath)).toBe(dir);
+      const written = fs.readFileSync(fork.filePath, 'utf-8').trim().split('\n').map(l => JSON.parse(l));
+      expect(written.map(m => m.uuid)).toEqual(['u1', 'a1', 'u3']);
+      expect(written.every(m => m.sessionId === fork.sessionId)).toBe(true);
+      expect(fs.readFileSync(filePath, 'utf-8')).toBe(original);
+    });
+  });
+});
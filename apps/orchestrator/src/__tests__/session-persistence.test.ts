@@ -197,6 +197,24 @@ describe('SessionPersistence', () => {
       expect(loaded.some(s => s.id === 'persist-test')).toBe(true);
     });
 
+    test('round-trips launch options and last sequence number', () => {
+      const session: PersistedWebSession = {
+        id: 'launch-options-test',
+        cwd: '/test',
+        projectName: 'test',
+        createdAt: new Date().toISOString(),
+        lastActivity: new Date().toISOString(),
+        resumeSessionId: 'claude-session-1',
+        launchOptions: { model: 'opus', permissionMode: 'plan', maxTurns: 5 },
+        lastSeq: 42
+      };
+
+      persistSession(session);
+
+      const loaded = loadSessions().find(s => s.id === 'launch-options-test');
+      expect(loaded).toEqual(session);
+    });
+
     test('updates existing session', () => {
       const session: PersistedWebSession = {
         id: 'update-test',
@@ -358,6 +376,28 @@ describe('SessionPersistence', () => {
 
       clearAutoSaveTimer();
     });
+
+    test('writes within the max wait while changes keep coming', async () => {
+      const sessions: PersistedWebSession[] = [
+        {
+          id: 'max-wait',
+          cwd: '/test',
+          projectName: 'test',
+          createdAt: new Date().toISOString(),
+          lastActivity: new Date().toISOString()
+        }
+      ];
+
+      // Each call comes before the 100ms delay is up
+      for (let i = 0; i < 8; i++) {
+        scheduleAutoSave(sessions, 100, 200);
+        await new Promise(resolve => setTimeout(resolve, 50));
+      }
+
+      expect(loadSessions().some(s => s.id === 'max-wait')).toBe(true);
+
+      clearAutoSaveTimer();
+    });
   });
 
   describe('clearAutoSaveTimer', () => {
@@ -0,0 +1,127 @@
+import { describe, test, expect, afterEach } from 'bun:test';
+import {
+  classifyExit,
+  describeExit,
+  shouldRestart,
+  getRestartDelay,
+  appendStderr,
+  configureSupervisor,
+  getSupervisorConfig,
+  resetSupervisorConfig,
+  DEFAULT_SUPERVISOR_CONFIG
+} from '../session-supervisor';
+
+describe('SessionSupervisor', () => {
+  afterEach(() => {
+    resetSupervisorConfig();
+  });
+
+  const exit = (overrides: Partial<Parameters<typeof classifyExit>[0]> = {}) => ({
+    exitCode: 1,
+    signal: null,
+    stopRequested: false,
+    stderrTail: [],
+    ...overrides
+  });
+
+  describe('classifyExit', () => {
+    test('user stop wins over everything else', () => {
+      expect(classifyExit(exit({ stopRequested: true, signal: 'SIGTERM', exitCode: null }))).toBe('user_stop');
+    });
+
+    test('a child stopped for a resource limit is reaped, whatever its exit code', () => {
+      expect(classifyExit(exit({ reaped: true, exitCode: null, signal: 'SIGKILL' }))).toBe('reaped');
+    });
+
+    test('exit code 0 is a normal completion', () => {
+      expect(classifyExit(exit({ exitCode: 0 }))).toBe('completed');
+    });
+
+    test('non-zero exit code is a crash', () => {
+      expect(classifyExit(exit({ exitCode: 1 }))).toBe('crash');
+    });
+
+    test('signals are classified as killed', () => {
+      expect(classifyExit(exit({ exitCode: null, signal: 'SIGKILL' }))).toBe('killed');
+    });
+
+    test('exit code 137 is classified as killed', () => {
+      expect(classifyExit(exit({ exitCode: 137 }))).toBe('killed');
+    });
+
+    test('out of memory errors on stderr are classified as killed', () => {
+      const stderrTail = ['FATAL ERROR: Reached heap limit Allocation failed - JavaScript heap out of memory'];
+      expect(classifyExit(exit({ exitCode: 134, stderrTail }))).toBe('killed');
+    });
+  });
+
+  describe('describeExit', () => {
+    test('mentions the exit code of a crash', () => {
+      expect(describeExit('crash', exit({ exitCode: 3 }))).toContain('exit code 3');
+    });
+
+    test('mentions memory for likely OOM kills', () => {
+      expect(describeExit('killed', exit({ exitCode: 137 }))).toContain('out of memory');
+    });
+
+    test('mentions the signal otherwise', () => {
+      expect(describeExit('killed', exit({ exitCode: null, signal: 'SIGTERM' }))).toContain('SIGTERM');
+    });
+  });
+
+  describe('shouldRestart', () => {
+    test('never restarts when auto-restart is off', () => {
+      configureSupervisor({ autoRestart: false });
+      expect(shouldRestart('crash', 0)).toBe(false);
+    });
+
+    test('restarts crashes and kills until the cap', () => {
+      configureSupervisor({ autoRestart: true, maxRestarts: 2 });
+      expect(shouldRestart('crash', 0)).toBe(true);
+      expect(shouldRestart('killed', 1)).toBe(true);
+      expect(shouldRestart('crash', 2)).toBe(false);
+    });
+
+    test('does not restart user stops or completions', () => {
+      configureSupervisor({ autoRestart: true });
+      expect(shouldRestart('user_stop', 0)).toBe(false);
+      expect(shouldRestart('completed', 0)).toBe(false);
+    });
+  });
+
+  describe('getRestartDelay', () => {
+    test('doubles on each attempt up to the ceiling', () => {
+      configureSupervisor({ baseDelayMs: 1000, maxDelayMs: 5000 });
+      expect(getRestartDelay(0)).toBe(1000);
+      expect(getRestartDelay(1)).toBe(2000);
+      expect(getRestartDelay(2)).toBe(4000);
+      expect(getRestartDelay(3)).toBe(5000);
+    });
+  });
+
+  describe('appendStderr', () => {
+    test('splits chunks into lines and keeps the partial line', () => {
+      const tail: string[] = [];
+      let partial = appendStderr(tail, '', 'first line\nsecond ');
+      partial = appendStderr(tail, partial, 'line\nthird');
+
+      expect(tail).toEqual(['first line', 'second line']);
+      expect(partial).toBe('third');
+    });
+
+    test('keeps only the last N lines', () => {
+      const tail: string[] = [];
+      appendStderr(tail, '', 'a\nb\nc\nd\n', 2);
+      expect(tail).toEqual(['c', 'd']);
+    });
+  });
+
+  test('configureSupervisor merges overrides and reset restores defaults', () => {
+    configureSupervisor({ maxRestarts: 9 });
+    expect(getSupervisorConfig().maxRestarts).toBe(9);
+    expect(getSupervisorConfig().baseDelayMs).toBe(DEFAULT_SUPERVISOR_CONFIG.baseDelayMs);
+
+    resetSupervisorConfig();
+    expect(getSupervisorConfig()).toEqual(DEFAULT_SUPERVISOR_CONFIG);
+  });
+});
@@ -1,5 +1,5 @@
-import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
-import { SessionWatcher } from '../session-watcher';
+import { describe, test, expect, beforeEach, afterEach, spyOn } from 'bun:test';
+import { SessionWatcher, mapWithConcurrency } from '../session-watcher';
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
@@ -99,7 +99,8 @@ describe('SessionWatcher', () => {
             { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'ls -la' } }
           ]
         },
-        timestamp: new Date().toISOString(),
+        // Unanswered for longer than an approved call would take to report back
+        timestamp: new Date(Date.now() - 10_000).toISOString(),
         uuid: 'msg-1',
         sessionId,
         cwd: '/Users/test',
@@ -135,7 +136,7 @@ describe('SessionWatcher', () => {
             { type: 'tool_use', id: 'tool-1', name: 'Bash', input: { command: 'echo test' } }
           ]
         },
-        timestamp: new Date().toISOString(),
+        timestamp: new Date(Date.now() - 10_000).toISOString(),
         uuid: 'msg-1',
         sessionId,
         cwd: '/Users/test',
@@ -262,10 +263,51 @@ describe('SessionWatcher', () => {
     const session = watcher.getSession(sessionId);
     expect(session).toBeDefined();
     // Should parse 2 valid messages, skip the invalid one
-    expect(session?.messages.length).toBe(2);
+    expect(session?.messageCount).toBe(2);
+    expect(await watcher.getMessages(session!)).toHaveLength(2);
   });
 
-  test('decodes project name correctly', async () => {
+  test('totals token usage from assistant messages', async () => {
+    const sessionId = 'usage-session';
+    const sessionFile = path.join(testProjectPath, `${sessionId}.jsonl`);
+
+    const assistant = (uuid: string, messageId: string, outputTokens: number) => ({
+      type: 'assistant',
+      message: {
+        role: 'assistant',
+        id: messageId,
+        model: 'claude-sonnet-4-5',
+        content: [{ type: 'text', text: 'Hi' }],
+        usage: { input_tokens: 10, output_tokens: outputTokens, cache_read_input_tokens: 500 }
+      },
+      timestamp: new Date().toISOString(),
+      uuid,
+      sessionId,
+      cwd: '/test',
+      parentUuid: null,
+      isSidechain: false,
+      userType: 'external',
+      version: '1.0'
+    });
+
+    // msg_a is written twice (one line per content block) and must only count once
+    const lines = [
+      assistant('line-1', 'msg_a', 5),
+      assistant('line-2', 'msg_a', 25),
+      assistant('line-3', 'msg_b', 30)
+    ];
+    fs.writeFileSync(sessionFile, lines.map(l => JSON.stringify(l)).join('\n'));
+    await watcher.start();
+
+    const usage = watcher.getSession(sessionId)?.usage.getUsage();
+    expect(usage?.inputTokens).toBe(20);
+    expect(usage?.outputTokens).toBe(55);
+    expect(usage?.contextTokens).toBe(510);
+    expect(usage?.model).toBe('claude-sonnet-4-5');
+    expect(usage?.costUsd).toBeGreaterThan(0);
+  });
+
+  test('identifies the project by the directory the transcript records', async () => {
     // Use a different test project path with complex name
     const CLAUDE_PROJECTS_DIR = path.join(os.homedir(), '.claude', 'projects');
     const complexProjectPath = path.join(CLAUDE_PROJECTS_DIR, '-Users-john-Documents-my-awesome-project-' + Date.now());
@@ -286,17 +328,227 @@ describe('SessionWatcher', () => {
     };
 
     fs.writeFileSync(sessionFile, JSON.stringify(message));
+    try {
+      await watcher.start();
+
+      const session = watcher.getSession('session-1');
+      // Not "project", the last segment of the encoded directory name
+      expect(session?.projectName).toBe('my-awesome-project');
+      expect(session?.projectPath).toBe('/Users/john/Documents/my-awesome-project');
+      expect(session?.storageDir).toBe(complexProjectPath);
+    } finally {
+      fs.rmSync(complexProjectPath, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('SessionWatcher events', () => {
+  let projectsDir: string;
+  let watcher: SessionWatcher;
+  let updates = 0;
+
+  const line = (uuid: string, text: string, cwd: string = '/work/app') => JSON.stringify({
+    type: 'user',
+    message: { role: 'user', content: [{ type: 'text', text }] },
+    timestamp: new Date().toISOString(),
+    uuid,
+    sessionId: 'events',
+    cwd,
+    parentUuid: null,
+    isSidechain: false,
+    userType: 'external',
+    version: '1.0'
+  }) + '\n';
+
+  // Give fs.watch time to report, then apply what it reported
+  const settle = async () => {
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await watcher.flush();
+  };
+
+  beforeEach(async () => {
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-watcher-test-'));
+    fs.mkdirSync(path.join(projectsDir, '-work-app'));
+    fs.writeFileSync(path.join(projectsDir, '-work-app', 'events.jsonl'), line('u1', 'First'));
+    updates = 0;
+    watcher = new SessionWatcher(() => { updates++; }, undefined, { projectsDir, debounceMs: 20 });
     await watcher.start();
+  });
 
-    const session = watcher.getSession('session-1');
-    // Project name is extracted from the directory name
-    expect(session?.projectName).toBeDefined();
-    expect(typeof session?.projectName).toBe('string');
-    expect(session?.projectName.length).toBeGreaterThan(0);
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(projectsDir, { recursive: true, force: true });
+  });
 
-    // Clean up
-    if (fs.existsSync(complexProjectPath)) {
-      fs.rmSync(complexProjectPath, { recursive: true, force: true });
+  test('reads only what was appended to a changed file', async () => {
+    fs.appendFileSync(path.join(projectsDir, '-work-app', 'events.jsonl'), line('u2', 'Second') + line('u3', 'Third'));
+    await settle();
+
+    const session = watcher.getSession('events')!;
+    expect(session.messageCount).toBe(3);
+    expect(session.lastMessage).toBe('Third');
+    expect((await watcher.getMessages(session)).map(m => m.uuid)).toEqual(['u1', 'u2', 'u3']);
+  });
+
+  test('adds and drops sessions as files come and go', async () => {
+    fs.writeFileSync(path.join(projectsDir, '-work-app', 'second.jsonl'), line('s1', 'Hello'));
+    await settle();
+    expect(watcher.getSession('second')).toBeDefined();
+
+    fs.unlinkSync(path.join(projectsDir, '-work-app', 'second.jsonl'));
+    await settle();
+    expect(watcher.getSession('second')).toBeUndefined();
+    expect(watcher.getSession('events')).toBeDefined();
+  });
+
+  test('picks up new project directories', async () => {
+    fs.mkdirSync(path.join(projectsDir, '-work-other'));
+    fs.writeFileSync(path.join(projectsDir, '-work-other', 'other.jsonl'), line('o1', 'Hi', '/work/other'));
+    await settle();
+    // The file may land before the new directory is watched; the directory is read when it appears
+    fs.appendFileSync(path.join(projectsDir, '-work-other', 'other.jsonl'), line('o2', 'Again', '/work/other'));
+    await settle();
+
+    expect(watcher.getSession('other')?.messageCount).toBe(2);
+    expect(watcher.getStats().projectCount).toBe(2);
+  });
+
+  test('keeps the project a session started in when it changes directory', async () => {
+    fs.mkdirSync(path.join(projectsDir, '-client-my-app'));
+    fs.writeFileSync(
+      path.join(projectsDir, '-client-my-app', 'client.jsonl'),
+      line('c1', 'Start', '/client/my-app') + line('c2', 'Moved on', '/client/my-app/packages/web')
+    );
+    await settle();
+
+    const session = watcher.getSession('client')!;
+    expect(session.projectPath).toBe('/client/my-app');
+    expect(session.projectName).toBe('my-app');
+    expect(session.cwd).toBe('/client/my-app/packages/web');
+    expect(session.storageDir).toBe(path.join(projectsDir, '-client-my-app'));
+    expect(watcher.getSession('events')!.projectPath).toBe('/work/app');
+    expect(watcher.getStats().projectCount).toBe(2);
+  });
+
+  test('debounces a burst of writes into one update', async () => {
+    const before = updates;
+    for (let i = 0; i < 5; i++) {
+      fs.appendFileSync(path.join(projectsDir, '-work-app', 'events.jsonl'), line(`b${i}`, 'Burst'));
+    }
+    await settle();
+
+    expect(updates - before).toBe(1);
+    expect(watcher.getSession('events')?.messageCount).toBe(6);
+  });
+
+  test('polls directories it cannot watch without re-reading files that have no session', async () => {
+    watcher.stop();
+    fs.writeFileSync(path.join(projectsDir, '-work-app', 'empty.jsonl'), '');
+    fs.writeFileSync(path.join(projectsDir, '-work-app', 'garbled.jsonl'), 'not json\n');
+    const watch = spyOn(fs, 'watch').mockImplementation(() => {
+      throw new Error('EMFILE: too many open files');
+    });
+    try {
+      watcher = new SessionWatcher(() => { updates++; }, undefined, { projectsDir, debounceMs: 10, pollIntervalMs: 20 });
+      await watcher.start();
+    } finally {
+      watch.mockRestore();
     }
+
+    const before = updates;
+    await new Promise(resolve => setTimeout(resolve, 100));
+    await watcher.flush();
+    expect(updates).toBe(before);
+
+    fs.appendFileSync(path.join(projectsDir, '-work-app', 'empty.jsonl'), line('e1', 'Now it has a session'));
+    await settle();
+    expect(watcher.getSession('empty')?.lastMessage).toBe('Now it has a session');
+  });
+
+  test('mapWithConcurrency never runs more than the limit at once', async () => {
+    let running = 0;
+    let peak = 0;
+    const results = await mapWithConcurrency([1, 2, 3, 4, 5, 6, 7], 3, async (n) => {
+      running++;
+      peak = Math.max(peak, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return n * 2;
+    });
+
+    expect(results).toEqual([2, 4, 6, 8, 10, 12, 14]);
+    expect(peak).toBe(3);
+  });
+});
+
+describe('SessionWatcher pending hooks', () => {
+  let projectsDir: string;
+  let watcher: SessionWatcher;
+  let alerts: PendingHook[] = [];
+
+  const entry = (uuid: string, type: 'user' | 'assistant', content: unknown) => JSON.stringify({
+    type,
+    message: { id: type === 'assistant' ? `msg_${uuid}` : undefined, role: type, content },
+    timestamp: new Date().toISOString(),
+    uuid,
+    sessionId: 'live',
+    cwd: '/work/app',
+    parentUuid: null,
+    isSidechain: false,
+    userType: 'external',
+    version: '1.0'
+  }) + '\n';
+
+  beforeEach(() => {
+    projectsDir = fs.mkdtempSync(path.join(os.tmpdir(), 'session-watcher-hooks-'));
+    fs.mkdirSync(path.join(projectsDir, '-work-app'));
+    alerts = [];
+    watcher = new SessionWatcher(() => {}, (_sessionId, _name, hook) => { alerts.push(hook); }, {
+      projectsDir,
+      debounceMs: 10,
+      pollIntervalMs: 20,
+      hooks: { graceMs: 100 }
+    });
+  });
+
+  afterEach(() => {
+    watcher.stop();
+    fs.rmSync(projectsDir, { recursive: true, force: true });
+  });
+
+  test('transcript fixtures load without raising alerts', async () => {
+    const fixtures = path.join(import.meta.dir, 'fixtures', 'transcripts');
+    for (const file of fs.readdirSync(fixtures)) {
+      fs.copyFileSync(path.join(fixtures, file), path.join(projectsDir, '-work-app', file));
+    }
+    await watcher.start();
+
+    expect(watcher.getAllSessions()).toHaveLength(fs.readdirSync(fixtures).length);
+    // Long over: even the abandoned call is stale by now
+    expect(watcher.getAllSessions().filter(s => s.pendingHook)).toEqual([]);
+    expect(alerts).toEqual([]);
+  });
+
+  test('alerts once a call goes unanswered past the grace period', async () => {
+    const file = path.join(projectsDir, '-work-app', 'live.jsonl');
+    fs.writeFileSync(file, entry('u1', 'user', 'Delete the build output'));
+    await watcher.start();
+    expect(watcher.getSession('live')?.lastMessage).toBe('Delete the build output');
+
+    fs.appendFileSync(file, entry('a1', 'assistant', [{ type: 'tool_use', id: 'toolu_rm', name: 'Bash', input: { command: 'rm -rf dist' } }]));
+    await new Promise(resolve => setTimeout(resolve, 30));
+    await watcher.flush();
+    // Could still be approved automatically
+    expect(watcher.getSession('live')?.pendingHook).toBeUndefined();
+
+    await new Promise(resolve => setTimeout(resolve, 200));
+    expect(alerts.map(hook => hook.toolUseId)).toEqual(['toolu_rm']);
+    expect(watcher.getSession('live')?.status).toBe('pending_hook');
+
+    fs.appendFileSync(file, entry('r1', 'user', [{ type: 'tool_result', tool_use_id: 'toolu_rm', content: '' }]));
+    await new Promise(resolve => setTimeout(resolve, 50));
+    await watcher.flush();
+    expect(watcher.getSession('live')?.pendingHook).toBeUndefined();
+    expect(alerts).toHaveLength(1);
   });
 });
@@ -0,0 +1,73 @@
+import { describe, test, expect, beforeEach } from 'bun:test';
+import { SubscriptionRegistry } from '../subscriptions';
+
+describe('SubscriptionRegistry', () => {
+  let registry: SubscriptionRegistry<string>;
+
+  beforeEach(() => {
+    registry = new SubscriptionRegistry<string>();
+  });
+
+  test('client can subscribe to several sessions', () => {
+    registry.subscribe('ws-1', 'session-a');
+    registry.subscribe('ws-1', 'session-b');
+    registry.subscribe('ws-1', 'session-c');
+
+    expect(registry.getSubscriptions('ws-1').sort()).toEqual(['session-a', 'session-b', 'session-c']);
+    expect(registry.getSubscribers('session-a')).toEqual(['ws-1']);
+    expect(registry.getSubscribers('session-b')).toEqual(['ws-1']);
+  });
+
+  test('session can have several subscribers', () => {
+    registry.subscribe('ws-1', 'session-a');
+    registry.subscribe('ws-2', 'session-a');
+
+    expect(registry.getSubscribers('session-a').sort()).toEqual(['ws-1', 'ws-2']);
+  });
+
+  test('subscribe returns false for duplicate subscriptions', () => {
+    expect(registry.subscribe('ws-1', 'session-a')).toBe(true);
+    expect(registry.subscribe('ws-1', 'session-a')).toBe(false);
+    expect(registry.getSubscribers('session-a')).toEqual(['ws-1']);
+  });
+
+  test('unsubscribe only removes the given session', () => {
+    registry.subscribe('ws-1', 'session-a');
+    registry.subscribe('ws-1', 'session-b');
+
+    expect(registry.unsubscribe('ws-1', 'session-a')).toBe(true);
+
+    expect(registry.getSubscriptions('ws-1')).toEqual(['session-b']);
+    expect(registry.getSubscribers('session-a')).toEqual([]);
+    expect(registry.isSubscribed('ws-1', 'session-b')).toBe(true);
+  });
+
+  test('unsubscribe returns false when not subscribed', () => {
+    expect(registry.unsubscribe('ws-1', 'session-a')).toBe(false);
+  });
+
+  test('unsubscribeAll removes every subscription of a client', () => {
+    registry.subscribe('ws-1', 'session-a');
+    registry.subscribe('ws-1', 'session-b');
+    registry.subscribe('ws-2', 'session-a');
+
+    const removed = registry.unsubscribeAll('ws-1');
+
+    expect(removed.sort()).toEqual(['session-a', 'session-b']);
+    expect(registry.getSubscriptions('ws-1')).toEqual([]);
+    expect(registry.getSubscribers('session-a')).toEqual(['ws-2']);
+    expect(registry.getSubscribers('session-b')).toEqual([]);
+  });
+
+  test('removeSession drops all of its subscribers', () => {
+    registry.subscribe('ws-1', 'session-a');
+    registry.subscribe('ws-2', 'session-a');
+    registry.subscribe('ws-2', 'session-b');
+
+    registry.removeSession('session-a');
+
+    expect(registry.getSubscribers('session-a')).toEqual([]);
+    expect(registry.getSubscriptions('ws-1')).toEqual([]);
+    expect(registry.getSubscriptions('ws-2')).toEqual(['session-b']);
+  });
+});
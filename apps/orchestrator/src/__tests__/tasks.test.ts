@@ -0,0 +1,171 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import * as tasks from '../tasks';
+import type { Task } from '../tasks';
+import { ValidationError } from '../error-handler';
+import { setConcurrencyLimits } from '../launch-queue';
+import { getLaunchQueue } from '../web-session';
+
+// Stands in for claude: prints stream-json events, ignoring its arguments
+const FAKE_CLAUDE = `#!/bin/sh
+prompt=$(cat)
+case "$prompt" in
+  fail*)
+    echo "Error: invalid API key" >&2
+    exit 1
+    ;;
+  slow*)
+    sleep 1
+    ;;
+  env*)
+    prompt="key file=\${ORCHESTRATOR_SECRETS_KEY_FILE:-unset}"
+    ;;
+esac
+echo '{"type":"system","subtype":"init","session_id":"claude-session-1"}'
+echo '{"type":"assistant","message":{"id":"msg_1","model":"claude-sonnet-4-5","content":[{"type":"text","text":"Hi"}],"usage":{"input_tokens":1000,"output_tokens":100}}}'
+echo '{"type":"result","subtype":"success","is_error":false,"result":"You said: '"$prompt"'","num_turns":1,"duration_ms":1200,"session_id":"claude-session-1"}'
+`;
+
+describe('Tasks', () => {
+  let dir: string;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'tasks-test-'));
+    const command = path.join(dir, 'fake-claude.sh');
+    fs.writeFileSync(command, FAKE_CLAUDE, { mode: 0o755 });
+    tasks.configureTasks({ storageDir: path.join(dir, 'tasks'), command });
+  });
+
+  afterEach(() => {
+    tasks.resetTaskConfig();
+    setConcurrencyLimits({ projects: {} });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  const run = (prompt: string) => tasks.startTask({ cwd: dir, prompt, launchOptions: {} });
+
+  test('validates task requests and waits', () => {
+    expect(tasks.validateTaskRequest({ cwd: dir, prompt: 'hi' })).toEqual({ cwd: dir, prompt: 'hi', launchOptions: {} });
+    expect(() => tasks.validateTaskRequest({ cwd: dir, prompt: '' })).toThrow(ValidationError);
+    expect(() => tasks.validateTaskRequest({ cwd: path.join(dir, 'missing'), prompt: 'hi' })).toThrow('existing');
+
+    expect(tasks.validateWait(null)).toBe(0);
+    expect(tasks.validateWait('1000')).toBe(tasks.MAX_WAIT_SECONDS);
+    expect(() => tasks.validateWait('soon')).toThrow(ValidationError);
+  });
+
+  test('runs the prompt and stores the result and usage', async () => {
+    const task = run('-v hello');
+    expect(task.status).toBe('running');
+
+    const finished = await tasks.waitForTask(task.id, 10_000);
+
+    expect(finished).toMatchObject({
+      status: 'completed',
+      result: 'You said: -v hello',
+      exitCode: 0,
+      claudeSessionId: 'claude-session-1',
+      numTurns: 1
+    });
+    expect(finished!.usage.inputTokens).toBe(1000);
+    expect(finished!.usage.costUsd).toBeGreaterThan(0);
+
+    const stored: Task = JSON.parse(fs.readFileSync(path.join(dir, 'tasks', `${task.id}.json`), 'utf-8'));
+    expect(stored.status).toBe('completed');
+    expect(tasks.getTask(task.id)?.result).toBe('You said: -v hello');
+  });
+
+  test('keeps private orchestrator variables out of the run', async () => {
+    const previous = process.env.ORCHESTRATOR_SECRETS_KEY_FILE;
+    process.env.ORCHESTRATOR_SECRETS_KEY_FILE = path.join(dir, 'secrets.key');
+    try {
+      const finished = await tasks.waitForTask(run('env').id, 10_000);
+
+      expect(finished?.result).toBe('You said: key file=unset');
+    } finally {
+      if (previous === undefined) delete process.env.ORCHESTRATOR_SECRETS_KEY_FILE;
+      else process.env.ORCHESTRATOR_SECRETS_KEY_FILE = previous;
+    }
+  });
+
+  test('reports a failed run with its stderr', async () => {
+    const task = run('fail please');
+
+    const finished = await tasks.waitForTask(task.id, 10_000);
+
+    expect(finished).toMatchObject({ status: 'failed', exitCode: 1, error: 'Error: invalid API key' });
+  });
+
+  test('returns a running task when the wait runs out', async () => {
+    const task = run('slow');
+
+    expect((await tasks.waitForTask(task.id, 50))?.status).toBe('running');
+    expect((await tasks.waitForTask(task.id, 10_000))?.status).toBe('completed');
+  });
+
+  test('waits for a slot under the concurrency limits', async () => {
+    setConcurrencyLimits({ projects: { [dir]: 1 } });
+    const first = run('slow');
+    const second = run('hello');
+
+    expect(first.status).toBe('running');
+    expect(second.status).toBe('queued');
+    expect(getLaunchQueue().map(e => [e.sessionId, e.task])).toEqual([[second.id, true]]);
+
+    expect((await tasks.waitForTask(second.id, 10_000))?.status).toBe('completed');
+    expect(first.status).toBe('completed');
+  });
+
+  test('a queued task can be cancelled', async () => {
+    setConcurrencyLimits({ projects: { [dir]: 1 } });
+    const first = run('slow');
+    const second = run('hello');
+
+    expect(tasks.cancelQueuedTask(second.id)).toBe(true);
+    expect(tasks.getTask(second.id)).toMatchObject({ status: 'failed', error: 'Launch cancelled' });
+    expect(getLaunchQueue()).toEqual([]);
+    expect(tasks.cancelQueuedTask(first.id)).toBe(false);
+    await tasks.waitForTask(first.id, 10_000);
+  });
+
+  test('fails a task whose claude cannot be started', async () => {
+    tasks.configureTasks({ command: path.join(dir, 'missing-claude') });
+
+    const finished = await tasks.waitForTask(run('hello').id, 10_000);
+
+    expect(finished?.status).toBe('failed');
+    expect(finished?.error).toContain('Failed to start claude');
+  });
+
+  test('prunes finished tasks by age and count', () => {
+    const storageDir = path.join(dir, 'tasks');
+    fs.mkdirSync(storageDir, { recursive: true });
+    const now = Date.parse('2026-03-10T00:00:00.000Z');
+    const store = (id: string, finishedAt: string, status: Task['status'] = 'completed') => {
+      fs.writeFileSync(path.join(storageDir, `${id}.json`), JSON.stringify({ id, status, createdAt: finishedAt, finishedAt }));
+    };
+    store('old', '2026-02-01T00:00:00.000Z');
+    store('a', '2026-03-07T00:00:00.000Z');
+    store('b', '2026-03-08T00:00:00.000Z');
+    store('c', '2026-03-09T00:00:00.000Z');
+    store('running', '2026-01-01T00:00:00.000Z', 'running');
+    tasks.configureTasks({ maxAgeMs: 7 * 24 * 60 * 60 * 1000, maxTasks: 2 });
+
+    expect(tasks.pruneTasks(now)).toBe(2);
+    expect(tasks.listTasks().map(t => t.id)).toEqual(['c', 'b', 'running']);
+  });
+
+  test('marks tasks interrupted by a restart as failed', () => {
+    const storageDir = path.join(dir, 'tasks');
+    fs.mkdirSync(storageDir, { recursive: true });
+    const createdAt = new Date().toISOString();
+    fs.writeFileSync(path.join(storageDir, 'stale.json'), JSON.stringify({ id: 'stale', status: 'running', createdAt }));
+
+    tasks.initTasks();
+
+    expect(tasks.getTask('stale')).toMatchObject({ status: 'failed', error: 'Interrupted by an orchestrator restart' });
+    expect(tasks.getTask('../stale')).toBeUndefined();
+  });
+});
@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { TranscriptCache, streamTranscript } from '../transcript-cache';
+import type { SessionMessage } from '../types';
+
+const line = (uuid: string) => JSON.stringify({ type: 'user', uuid, message: { role: 'user', content: [] } }) + '\n';
+
+describe('Transcript cache', () => {
+  let dir: string;
+
+  const write = (name: string, ...uuids: string[]) => {
+    const filePath = path.join(dir, `${name}.jsonl`);
+    fs.writeFileSync(filePath, uuids.map(line).join(''));
+    return filePath;
+  };
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'transcript-cache-test-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  describe('streamTranscript', () => {
+    test('reads lines across chunks, from an offset', async () => {
+      // Lines longer than a read chunk (64 KiB)
+      const big = 'x'.repeat(100 * 1024);
+      const filePath = path.join(dir, 'big.jsonl');
+      fs.writeFileSync(filePath, line('a') + JSON.stringify({ type: 'user', uuid: 'b', note: big }) + '\n' + line('c'));
+
+      const uuids: string[] = [];
+      const end = await streamTranscript(filePath, 0, msg => uuids.push(msg.uuid));
+      expect(uuids).toEqual(['a', 'b', 'c']);
+      expect(end).toBe(fs.statSync(filePath).size);
+
+      const tail: string[] = [];
+      await streamTranscript(filePath, end - line('c').length, msg => tail.push(msg.uuid));
+      expect(tail).toEqual(['c']);
+    });
+
+    test('leaves a half-written last line for the next read', async () => {
+      const filePath = path.join(dir, 'partial.jsonl');
+      fs.writeFileSync(filePath, line('a') + 'not json\n' + '{"type":"user","uu');
+
+      const messages: SessionMessage[] = [];
+      const end = await streamTranscript(filePath, 0, msg => messages.push(msg));
+      expect(messages.map(m => m.uuid)).toEqual(['a']);
+      expect(end).toBe(line('a').length + 'not json\n'.length);
+    });
+  });
+
+  test('tops up a transcript that grew instead of reading it again', async () => {
+    const cache = new TranscriptCache();
+    const filePath = write('grow', 'a', 'b');
+    const first = await cache.load(filePath);
+    expect(first.map(m => m.uuid)).toEqual(['a', 'b']);
+
+    fs.appendFileSync(filePath, line('c'));
+    const second = await cache.load(filePath);
+    expect(second).toBe(first);
+    expect(second.map(m => m.uuid)).toEqual(['a', 'b', 'c']);
+
+    fs.writeFileSync(filePath, line('z'));
+    expect((await cache.load(filePath)).map(m => m.uuid)).toEqual(['z']);
+  });
+
+  test('evicts the least recently used transcripts', async () => {
+    const cache = new TranscriptCache({ maxEntries: 2 });
+    const a = write('a', 'a1');
+    const b = write('b', 'b1');
+    const c = write('c', 'c1');
+
+    const first = await cache.load(a);
+    await cache.load(b);
+    await cache.load(a);
+    await cache.load(c);
+
+    expect(cache.getStats().entries).toBe(2);
+    // a was used more recently than b, so it is still cached
+    expect(await cache.load(a)).toBe(first);
+    expect(cache.getStats().bytes).toBe(fs.statSync(a).size + fs.statSync(c).size);
+  });
+
+  test('keeps within the byte limit', async () => {
+    const cache = new TranscriptCache({ maxBytes: line('a1').length * 3 });
+    await cache.load(write('a', 'a1', 'a2'));
+    await cache.load(write('b', 'b1', 'b2'));
+
+    expect(cache.getStats()).toEqual({ entries: 1, bytes: line('b1').length * 2 });
+  });
+});
@@ -0,0 +1,155 @@
+import { describe, test, expect } from 'bun:test';
+import {
+  UsageTracker,
+  toTokenUsage,
+  getModelPricing,
+  buildUsageReport,
+  DEFAULT_CONTEXT_WINDOW,
+  EXTENDED_CONTEXT_WINDOW
+} from '../usage';
+
+describe('Usage', () => {
+  describe('getModelPricing', () => {
+    test('matches model families by name', () => {
+      expect(getModelPricing('claude-sonnet-4-5-20250929')?.input).toBe(3);
+      expect(getModelPricing('claude-opus-4-1-20250805')?.input).toBe(15);
+      expect(getModelPricing('claude-opus-4-5-20251101')?.input).toBe(5);
+      expect(getModelPricing('claude-3-5-haiku-20241022')?.input).toBe(0.8);
+      expect(getModelPricing('claude-haiku-4-5-20251001')?.input).toBe(1);
+    });
+
+    test('returns undefined for unknown models', () => {
+      expect(getModelPricing('<synthetic>')).toBeUndefined();
+      expect(getModelPricing(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('toTokenUsage', () => {
+    test('estimates cost from all token kinds', () => {
+      const usage = toTokenUsage('claude-sonnet-4-5', {
+        input_tokens: 1_000_000,
+        output_tokens: 1_000_000,
+        cache_creation_input_tokens: 1_000_000,
+        cache_read_input_tokens: 1_000_000
+      });
+
+      expect(usage.costUsd).toBeCloseTo(3 + 15 + 3.75 + 0.3);
+    });
+
+    test('counts unknown models at no cost', () => {
+      const usage = toTokenUsage('<synthetic>', { input_tokens: 10, output_tokens: 5 });
+      expect(usage.inputTokens).toBe(10);
+      expect(usage.costUsd).toBe(0);
+    });
+  });
+
+  describe('UsageTracker', () => {
+    test('sums usage across messages and tracks the latest context size', () => {
+      const tracker = new UsageTracker();
+      tracker.record('msg-1', 'claude-sonnet-4-5', { input_tokens: 100, output_tokens: 10, cache_read_input_tokens: 1000 });
+      tracker.record('msg-2', 'claude-sonnet-4-5', { input_tokens: 50, output_tokens: 20, cache_read_input_tokens: 2000 });
+
+      const usage = tracker.getUsage();
+      expect(usage.inputTokens).toBe(150);
+      expect(usage.outputTokens).toBe(30);
+      expect(usage.cacheReadTokens).toBe(3000);
+      expect(usage.contextTokens).toBe(2050);
+      expect(usage.contextWindow).toBe(DEFAULT_CONTEXT_WINDOW);
+      expect(usage.model).toBe('claude-sonnet-4-5');
+    });
+
+    test('repeated reports for one message replace each other', () => {
+      const tracker = new UsageTracker();
+      tracker.record('msg-1', 'claude-sonnet-4-5', { input_tokens: 100, output_tokens: 1 });
+      tracker.record('msg-1', 'claude-sonnet-4-5', { input_tokens: 100, output_tokens: 40 });
+
+      expect(tracker.getUsage().outputTokens).toBe(40);
+      expect(tracker.getDailyUsage()).toHaveLength(1);
+      expect(tracker.getDailyUsage()[0].outputTokens).toBe(40);
+    });
+
+    test('buckets usage by day', () => {
+      const tracker = new UsageTracker();
+      tracker.record('msg-1', 'claude-sonnet-4-5', { output_tokens: 10 }, '2026-03-01T10:00:00.000Z');
+      tracker.record('msg-2', 'claude-sonnet-4-5', { output_tokens: 20 }, '2026-03-02T10:00:00.000Z');
+
+      expect(tracker.getDailyUsage().map(d => [d.date, d.outputTokens])).toEqual([
+        ['2026-03-01', 10],
+        ['2026-03-02', 20]
+      ]);
+    });
+
+    test('synthetic messages do not change the reported model', () => {
+      const tracker = new UsageTracker();
+      tracker.record('msg-1', 'claude-opus-4-5', { input_tokens: 1 });
+      tracker.record('msg-2', '<synthetic>', { input_tokens: 0 });
+
+      expect(tracker.getUsage().model).toBe('claude-opus-4-5');
+    });
+
+    test('reported run costs replace the estimate for their run', () => {
+      const tracker = new UsageTracker();
+      tracker.startRun();
+      tracker.record('msg-1', 'claude-sonnet-4-5', { output_tokens: 1_000_000 });
+      tracker.reportRunCost(10);
+      expect(tracker.getUsage().costUsd).toBeCloseTo(10);
+
+      // A new process reports its cost from zero
+      tracker.startRun();
+      tracker.record('msg-2', 'claude-sonnet-4-5', { output_tokens: 1_000_000 });
+      expect(tracker.getUsage().costUsd).toBeCloseTo(25);
+      tracker.reportRunCost(2);
+      expect(tracker.getUsage().costUsd).toBeCloseTo(12);
+    });
+
+    test('continues from a snapshot', () => {
+      const earlier = new UsageTracker();
+      earlier.record('msg-1', 'claude-sonnet-4-5', { input_tokens: 100, output_tokens: 10 });
+      earlier.reportRunCost(1.5);
+      earlier.recordTurns(3);
+
+      const tracker = new UsageTracker(earlier.snapshot());
+      tracker.record('msg-2', 'claude-sonnet-4-5', { input_tokens: 50 });
+
+      expect(tracker.getUsage().inputTokens).toBe(150);
+      expect(tracker.getUsage().costUsd).toBeCloseTo(1.5 + 50 * 3 / 1_000_000);
+      expect(tracker.getUsage().model).toBe('claude-sonnet-4-5');
+      tracker.recordTurns(1);
+      expect(tracker.getTurnCount()).toBe(4);
+    });
+
+    test('switches to the extended context window for 1M models', () => {
+      const tracker = new UsageTracker();
+      tracker.record('msg-1', 'claude-sonnet-4-5[1m]', { input_tokens: 10 });
+
+      expect(tracker.getUsage().contextWindow).toBe(EXTENDED_CONTEXT_WINDOW);
+    });
+  });
+
+  describe('buildUsageReport', () => {
+    test('aggregates sessions per project and per day', () => {
+      const a = new UsageTracker();
+      a.record('a-1', 'claude-sonnet-4-5', { output_tokens: 100 }, '2026-03-01T00:00:00.000Z');
+      const b = new UsageTracker();
+      b.record('b-1', 'claude-sonnet-4-5', { output_tokens: 50 }, '2026-03-01T12:00:00.000Z');
+      const c = new UsageTracker();
+      c.record('c-1', 'claude-sonnet-4-5', { output_tokens: 10 }, '2026-03-02T00:00:00.000Z');
+
+      const report = buildUsageReport([
+        { projectName: 'alpha', usage: a },
+        { projectName: 'alpha', usage: b },
+        { projectName: 'beta', usage: c }
+      ]);
+
+      expect(report.totals.outputTokens).toBe(160);
+      expect(report.byProject.map(p => [p.projectName, p.sessionCount, p.outputTokens])).toEqual([
+        ['alpha', 2, 150],
+        ['beta', 1, 10]
+      ]);
+      expect(report.byDay.map(d => [d.date, d.outputTokens])).toEqual([
+        ['2026-03-01', 150],
+        ['2026-03-02', 10]
+      ]);
+    });
+  });
+});
@@ -1,6 +1,11 @@
 import { describe, test, expect, beforeEach, afterEach, mock } from 'bun:test';
+import * as path from 'node:path';
 import * as webSession from '../web-session';
 import type { WebSession, WebSessionMessage } from '../web-session';
+import { configureSupervisor, resetSupervisorConfig } from '../session-supervisor';
+import { setConcurrencyLimits } from '../launch-queue';
+import { setResourceLimitConfig } from '../resource-limits';
+import { setBudgetConfig } from '../budgets';
 
 describe('WebSession', () => {
   let messages: WebSessionMessage[] = [];
@@ -124,9 +129,9 @@ describe('WebSession', () => {
     expect(result).toBe(false);
   });
 
-  test('sendControlSignal returns false for non-existent session', async () => {
+  test('sendControlSignal returns undefined for non-existent session', async () => {
     const result = await webSession.sendControlSignal('non-existent-id', 'interrupt');
-    expect(result).toBe(false);
+    expect(result).toBeUndefined();
   });
 
   test('session has empty buffer initially', () => {
@@ -148,7 +153,23 @@ describe('WebSession', () => {
     expect(session.cwd).toBe(testCwd);
   });
 
-  test('session starts with no pending permission', () => {
+  test('stores launch options on the session', () => {
+    session = webSession.createWebSession(
+      '/tmp/test',
+      (msg) => messages.push(msg),
+      undefined,
+      { model: 'opus', maxTurns: 3 }
+    );
+
+    expect(session.launchOptions).toEqual({ model: 'opus', maxTurns: 3 });
+  });
+
+  test('launch options default to empty', () => {
+    session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+    expect(session.launchOptions).toEqual({});
+  });
+
+    test('session starts with no pending permission', () => {
     session = webSession.createWebSession(
       '/tmp/test',
       (msg) => messages.push(msg)
@@ -170,4 +191,946 @@ describe('WebSession', () => {
     webSession.stopWebSession(session2.id);
     webSession.stopWebSession(session3.id);
   });
+
+  describe('permission prompts', () => {
+    let written: any[];
+
+    // Stand in for the claude child so we can inspect what gets written to stdin
+    const attachFakeProcess = (target: WebSession) => {
+      written = [];
+      target.process = {
+        stdin: {
+          write: (chunk: string) => { written.push(JSON.parse(chunk)); },
+          flush: () => {}
+        },
+        kill: () => {}
+      } as any;
+      target.status = 'active';
+    };
+
+    const canUseTool = (requestId: string, toolUseId: string, toolName = 'Bash') => ({
+      type: 'control_request',
+      request_id: requestId,
+      request: {
+        subtype: 'can_use_tool',
+        tool_name: toolName,
+        tool_use_id: toolUseId,
+        input: { command: 'rm -rf build' }
+      }
+    });
+
+    test('can_use_tool control request surfaces a pending permission', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+
+      expect(session.status).toBe('waiting_permission');
+      expect(session.pendingPermission).toEqual({
+        toolUseId: 'toolu_1',
+        toolName: 'Bash',
+        input: { command: 'rm -rf build' }
+      });
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'permission_request',
+        permission: session.pendingPermission
+      }));
+    });
+
+    test('approval answers the control request and resumes the session', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+
+      const result = await webSession.sendPermissionResponse(session.id, 'toolu_1', true);
+
+      expect(result).toBe(true);
+      expect(written[0]).toEqual({
+        type: 'control_response',
+        response: {
+          subtype: 'success',
+          request_id: 'req-1',
+          response: { behavior: 'allow', updatedInput: { command: 'rm -rf build' } }
+        }
+      });
+      expect(session.status).toBe('active');
+      expect(session.pendingPermission).toBeUndefined();
+    });
+
+    test('denial passes feedback back to claude', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+
+      await webSession.sendPermissionResponse(session.id, 'toolu_1', false, 'Use git clean instead');
+
+      expect(written[0].response.response).toEqual({
+        behavior: 'deny',
+        message: 'Use git clean instead'
+      });
+    });
+
+    test('approval feedback is queued as the next prompt', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.turnInProgress = true;
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+
+      await webSession.sendPermissionResponse(session.id, 'toolu_1', true, 'Then run the tests');
+
+      // Nothing is written into the turn that is still running
+      expect(written).toHaveLength(1);
+      expect(session.messageQueue.map(m => m.content)).toEqual(['Then run the tests']);
+
+      webSession.handleStreamEvent(session, { type: 'result', result: '', num_turns: 1 });
+
+      expect(written[1]).toEqual({
+        type: 'user',
+        message: { role: 'user', content: 'Then run the tests' }
+      });
+    });
+
+    test('queued permission requests are shown one at a time', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+      webSession.handleStreamEvent(session, canUseTool('req-2', 'toolu_2', 'Write'));
+
+      expect(session.pendingPermission?.toolUseId).toBe('toolu_1');
+
+      await webSession.sendPermissionResponse(session.id, 'toolu_1', true);
+
+      expect(session.status).toBe('waiting_permission');
+      expect(session.pendingPermission?.toolUseId).toBe('toolu_2');
+    });
+
+    test('sendPermissionResponse rejects unknown tool use IDs', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      const result = await webSession.sendPermissionResponse(session.id, 'toolu_missing', true);
+      expect(result).toBe(false);
+      expect(written).toHaveLength(0);
+    });
+
+    test('cancelled control requests clear the pending permission', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      webSession.handleStreamEvent(session, canUseTool('req-1', 'toolu_1'));
+
+      webSession.handleStreamEvent(session, { type: 'control_cancel_request', request_id: 'req-1' });
+
+      expect(session.pendingPermission).toBeUndefined();
+      expect(session.status).toBe('active');
+    });
+
+    test('unsupported control requests are answered with an error', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      webSession.handleStreamEvent(session, {
+        type: 'control_request',
+        request_id: 'req-9',
+        request: { subtype: 'hook_callback' }
+      });
+
+      expect(written[0].response.subtype).toBe('error');
+      expect(written[0].response.request_id).toBe('req-9');
+    });
+  });
+
+  describe('event log', () => {
+    test('assigns increasing sequence numbers to emitted messages', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+
+      session.onMessage({ type: 'status', content: 'one' });
+      session.onMessage({ type: 'status', content: 'two' });
+
+      expect(messages.map(m => m.seq)).toEqual([1, 2]);
+      expect(messages[0].timestamp).toBeDefined();
+      expect(session.lastSeq).toBe(2);
+    });
+
+    test('getEventsSince replays only newer events', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      session.onMessage({ type: 'status', content: 'one' });
+      session.onMessage({ type: 'status', content: 'two' });
+      session.onMessage({ type: 'status', content: 'three' });
+
+      const replay = webSession.getEventsSince(session.id, 1);
+      expect(replay?.map(m => m.content)).toEqual(['two', 'three']);
+      expect(webSession.getEventsSince(session.id, 3)).toEqual([]);
+    });
+
+    test('getEventsSince returns undefined for unknown sessions', () => {
+      expect(webSession.getEventsSince('non-existent-id', 0)).toBeUndefined();
+    });
+
+    test('event log is bounded', () => {
+      session = webSession.createWebSession('/tmp/test', () => {});
+      for (let i = 0; i < webSession.MAX_EVENT_LOG_SIZE + 10; i++) {
+        session.onMessage({ type: 'status', content: String(i) });
+      }
+
+      expect(session.eventLog).toHaveLength(webSession.MAX_EVENT_LOG_SIZE);
+      expect(session.eventLog[0].seq).toBe(11);
+      expect(session.lastSeq).toBe(webSession.MAX_EVENT_LOG_SIZE + 10);
+    });
+  });
+
+  describe('supervision', () => {
+    const attachExitedProcess = (target: WebSession) => {
+      target.process = { stdin: { write: () => {}, flush: () => {} }, kill: () => {} } as any;
+      target.status = 'active';
+      target.startedAt = new Date();
+      return target.process;
+    };
+
+    afterEach(() => {
+      resetSupervisorConfig();
+    });
+
+    test('crash without auto-restart ends in error with a crash report', () => {
+      configureSupervisor({ autoRestart: false });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachExitedProcess(session);
+      session.stderrTail.push('TypeError: boom');
+
+      webSession.handleExit(session, proc, 1, null);
+
+      expect(session.status).toBe('error');
+      expect(session.lastExit?.reason).toBe('crash');
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'status',
+        status: 'error',
+        reason: 'crash',
+        crashReport: ['TypeError: boom']
+      }));
+    });
+
+    test('drops a finished session after the retention window', async () => {
+      configureSupervisor({ autoRestart: false, finishedRetentionMs: 20 });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachExitedProcess(session);
+
+      webSession.handleExit(session, proc, 0, null);
+
+      expect(session.status).toBe('completed');
+      expect(webSession.getWebSession(session.id)).toBe(session);
+      await new Promise(resolve => setTimeout(resolve, 50));
+      expect(webSession.getWebSession(session.id)).toBeUndefined();
+    });
+
+    test('keeps the exit of a dropped session in the exit history', async () => {
+      configureSupervisor({ autoRestart: false, finishedRetentionMs: 20 });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachExitedProcess(session);
+      session.reapedFor = { level: 'exceeded', metric: 'memory', used: 900, limit: 512 };
+
+      webSession.handleExit(session, proc, null, 'SIGTERM');
+      await new Promise(resolve => setTimeout(resolve, 50));
+
+      expect(webSession.getWebSession(session.id)).toBeUndefined();
+      expect(webSession.getExitHistory()[0]).toMatchObject({
+        sessionId: session.id,
+        cwd: '/tmp/test',
+        reason: 'reaped',
+        limit: { metric: 'memory', limit: 512 }
+      });
+    });
+
+    test('crash with auto-restart schedules a restart', () => {
+      configureSupervisor({ autoRestart: true, maxRestarts: 2, baseDelayMs: 60000 });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachExitedProcess(session);
+
+      webSession.handleExit(session, proc, null, 'SIGKILL');
+
+      expect(session.status).toBe('restarting');
+      expect(session.restartCount).toBe(1);
+      expect(session.restartTimer).toBeDefined();
+      expect(messages).toContainEqual(expect.objectContaining({
+        status: 'restarting',
+        reason: 'killed'
+      }));
+    });
+
+    test('stops restarting once the cap is reached', () => {
+      configureSupervisor({ autoRestart: true, maxRestarts: 1 });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      session.restartCount = 1;
+      const proc = attachExitedProcess(session);
+
+      webSession.handleExit(session, proc, 1, null);
+
+      expect(session.status).toBe('error');
+      expect(messages).toContainEqual(expect.objectContaining({ status: 'error', reason: 'restart_limit' }));
+    });
+
+    test('user stop completes without restarting', () => {
+      configureSupervisor({ autoRestart: true });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachExitedProcess(session);
+      session.stopRequested = true;
+
+      webSession.handleExit(session, proc, null, 'SIGTERM');
+
+      expect(session.status).toBe('completed');
+      expect(session.restartTimer).toBeUndefined();
+      expect(messages).toContainEqual(expect.objectContaining({ status: 'completed', reason: 'user_stop' }));
+    });
+
+    test('ignores exits from a replaced process', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const stale = attachExitedProcess(session);
+      attachExitedProcess(session);
+
+      webSession.handleExit(session, stale, 1, null);
+
+      expect(session.status).toBe('active');
+      expect(messages).toHaveLength(0);
+    });
+  });
+
+  describe('restore and shutdown', () => {
+    test('restoreWebSession keeps the persisted ID and continues numbering', () => {
+      session = webSession.restoreWebSession({
+        id: 'restored-web-session',
+        cwd: '/tmp/test',
+        projectName: 'test',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        lastActivity: '2026-01-01T01:00:00.000Z',
+        resumeSessionId: 'claude-session-1',
+        launchOptions: { model: 'opus' },
+        lastSeq: 10
+      }, (msg) => messages.push(msg));
+
+      expect(webSession.getWebSession('restored-web-session')).toBe(session);
+      expect(session.resumeSessionId).toBe('claude-session-1');
+      expect(session.launchOptions).toEqual({ model: 'opus' });
+      expect(session.createdAt.toISOString()).toBe('2026-01-01T00:00:00.000Z');
+
+      session.onMessage({ type: 'status', content: 'after restore' });
+      expect(messages[0].seq).toBe(11);
+    });
+
+    test('shutdownWebSessions stops children but keeps sessions registered', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const kill = mock(() => {});
+      session.process = {
+        stdin: { write: () => {}, flush: () => {} },
+        kill,
+        exited: Promise.resolve(0)
+      } as any;
+
+      await webSession.shutdownWebSessions(1000);
+
+      expect(kill).toHaveBeenCalled();
+      expect(session.stopRequested).toBe(true);
+      expect(webSession.getWebSession(session.id)).toBe(session);
+    });
+
+    test('only live sessions started by a user are restorable', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      expect(webSession.isWebSessionRestorable(session)).toBe(true);
+
+      session.status = 'budget_exceeded';
+      expect(webSession.isWebSessionRestorable(session)).toBe(true);
+
+      session.status = 'completed';
+      expect(webSession.isWebSessionRestorable(session)).toBe(false);
+      session.status = 'error';
+      expect(webSession.isWebSessionRestorable(session)).toBe(false);
+
+      session.status = 'active';
+      session.jobId = 'job-1';
+      expect(webSession.isWebSessionRestorable(session)).toBe(false);
+    });
+  });
+
+  describe('message queue', () => {
+    let written: any[];
+
+    const attachFakeProcess = (target: WebSession, status: WebSession['status'] = 'active') => {
+      written = [];
+      target.process = {
+        stdin: {
+          write: (chunk: string) => { written.push(JSON.parse(chunk)); },
+          flush: () => {}
+        },
+        kill: () => {}
+      } as any;
+      target.status = status;
+    };
+
+    const prompts = () => written.filter(w => w.type === 'user').map(w => w.message.content);
+
+    test('delivers immediately when the session is idle', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      expect(await webSession.sendMessage(session.id, 'hello')).toBe(true);
+
+      expect(prompts()).toEqual(['hello']);
+      expect(session.messageQueue).toHaveLength(0);
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'message',
+        message: expect.objectContaining({ role: 'user', content: 'hello' })
+      }));
+    });
+
+    test('holds prompts during a turn and sends them one per turn', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      await webSession.sendMessage(session.id, 'first');
+      await webSession.sendMessage(session.id, 'second');
+      await webSession.sendMessage(session.id, 'third');
+      expect(prompts()).toEqual(['first']);
+      expect(webSession.getMessageQueue(session.id)?.map(m => m.content)).toEqual(['second', 'third']);
+
+      webSession.handleStreamEvent(session, { type: 'result', result: 'done' });
+      expect(prompts()).toEqual(['first', 'second']);
+
+      webSession.handleStreamEvent(session, { type: 'result', result: 'done' });
+      expect(prompts()).toEqual(['first', 'second', 'third']);
+      expect(session.messageQueue).toHaveLength(0);
+    });
+
+    test('queues while waiting for a permission and delivers once answered', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      webSession.handleStreamEvent(session, {
+        type: 'control_request',
+        request_id: 'req-1',
+        request: { subtype: 'can_use_tool', tool_name: 'Bash', tool_use_id: 'toolu_1', input: {} }
+      });
+
+      await webSession.sendMessage(session.id, 'after approval');
+      expect(prompts()).toEqual([]);
+
+      await webSession.sendPermissionResponse(session.id, 'toolu_1', true);
+      expect(prompts()).toEqual(['after approval']);
+    });
+
+    test('queues while the session is starting', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+
+      expect(await webSession.sendMessage(session.id, 'early')).toBe(true);
+      expect(session.messageQueue.map(m => m.content)).toEqual(['early']);
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'queue',
+        queue: [expect.objectContaining({ content: 'early' })]
+      }));
+    });
+
+    test('queued prompts can be edited and cancelled', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      await webSession.sendMessage(session.id, 'one');
+      await webSession.sendMessage(session.id, 'two');
+      const [first, second] = session.messageQueue;
+
+      expect(webSession.updateQueuedMessage(session.id, first.id, 'one, edited')).toBe(true);
+      expect(webSession.cancelQueuedMessage(session.id, second.id)).toBe(true);
+
+      expect(session.messageQueue.map(m => m.content)).toEqual(['one, edited']);
+      expect(webSession.cancelQueuedMessage(session.id, second.id)).toBe(false);
+      expect(webSession.updateQueuedMessage(session.id, 'missing', 'x')).toBe(false);
+    });
+
+    test('reports token usage at the end of each turn', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      webSession.handleStreamEvent(session, {
+        type: 'assistant',
+        message: {
+          id: 'msg_1',
+          model: 'claude-sonnet-4-5',
+          content: [{ type: 'text', text: 'Done' }],
+          usage: { input_tokens: 12, output_tokens: 34 }
+        }
+      });
+      webSession.handleStreamEvent(session, { type: 'result', result: 'Done' });
+
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'usage',
+        usage: expect.objectContaining({ inputTokens: 12, outputTokens: 34, model: 'claude-sonnet-4-5' })
+      }));
+    });
+
+    test('rejects prompts for sessions that have ended', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      session.status = 'completed';
+
+      expect(await webSession.sendMessage(session.id, 'too late')).toBe(false);
+    });
+  });
+
+  describe('streamed output', () => {
+    test('emits assembled messages and drops the repeated result text', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+
+      webSession.handleStreamEvent(session, { type: 'stream_event', event: { type: 'message_start', message: { id: 'msg_1' } } });
+      webSession.handleStreamEvent(session, {
+        type: 'stream_event',
+        event: { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }
+      });
+      webSession.handleStreamEvent(session, {
+        type: 'stream_event',
+        event: { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Done' } }
+      });
+      webSession.handleStreamEvent(session, {
+        type: 'assistant',
+        message: { id: 'msg_1', content: [{ type: 'text', text: 'Done' }] }
+      });
+      webSession.handleStreamEvent(session, { type: 'result', result: 'Done' });
+
+      const transcript = messages.filter(m => m.type === 'message' || m.type === 'message_delta');
+      expect(transcript.map(m => m.type)).toEqual(['message', 'message_delta', 'message']);
+      expect(new Set(transcript.map(m => m.message?.id || m.messageId))).toEqual(new Set(['msg_1:0']));
+      expect(session.status).toBe('active');
+    });
+  });
+
+  describe('budgets', () => {
+    let written: any[];
+
+    const attachFakeProcess = (target: WebSession) => {
+      written = [];
+      target.process = {
+        stdin: {
+          write: (chunk: string) => { written.push(JSON.parse(chunk)); },
+          flush: () => {}
+        },
+        kill: () => {}
+      } as any;
+      target.status = 'active';
+    };
+
+    // One assistant round trip of Sonnet output: 1M output tokens cost $15
+    const assistant = (id: string, outputTokens: number) => ({
+      type: 'assistant',
+      message: { id, model: 'claude-sonnet-4-5', content: [], usage: { output_tokens: outputTokens } }
+    });
+
+    test('warns once when the warn line is crossed', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.budget = { maxTokens: 1000, warnAt: 0.5 };
+
+      webSession.handleStreamEvent(session, assistant('msg_1', 600));
+      webSession.handleStreamEvent(session, assistant('msg_2', 100));
+
+      const alerts = messages.filter(m => m.type === 'budget');
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].budget).toEqual({ level: 'warn', metric: 'tokens', used: 600, limit: 1000 });
+      expect(session.status).toBe('active');
+    });
+
+    test('interrupts claude and pauses the session past the hard line', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.budget = { maxUsd: 1 };
+
+      webSession.handleStreamEvent(session, assistant('msg_1', 100_000));
+
+      expect(session.status).toBe('budget_exceeded');
+      expect(written).toContainEqual(expect.objectContaining({
+        type: 'control_request',
+        request: { subtype: 'interrupt' }
+      }));
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'budget',
+        budget: expect.objectContaining({ level: 'exceeded', metric: 'usd' })
+      }));
+
+      // Prompts are held while paused
+      await webSession.sendMessage(session.id, 'keep going');
+      expect(written.filter(w => w.type === 'user')).toHaveLength(0);
+    });
+
+    test('enforces the cost claude reports over the estimate', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.budget = { maxUsd: 1 };
+      webSession.handleStreamEvent(session, assistant('msg_1', 10));
+      expect(session.status).toBe('active');
+
+      webSession.handleStreamEvent(session, { type: 'result', result: 'Done', total_cost_usd: 1.2 });
+
+      expect(session.usage.getUsage().costUsd).toBeCloseTo(1.2);
+      expect(session.status).toBe('budget_exceeded');
+    });
+
+    test('a restored session keeps counting from its persisted usage', () => {
+      session = webSession.restoreWebSession({
+        id: 'restored-budget-session',
+        cwd: '/tmp/test',
+        projectName: 'test',
+        createdAt: '2026-01-01T00:00:00.000Z',
+        lastActivity: '2026-01-01T01:00:00.000Z',
+        budget: { maxTurns: 2 },
+        usage: {
+          inputTokens: 0,
+          outputTokens: 10,
+          cacheCreationTokens: 0,
+          cacheReadTokens: 0,
+          costUsd: 0.5,
+          turns: 1
+        }
+      }, (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      webSession.handleStreamEvent(session, assistant('msg_1', 10));
+      webSession.handleStreamEvent(session, { type: 'result', result: '', num_turns: 1 });
+
+      expect(session.usage.getUsage()).toMatchObject({ outputTokens: 20, costUsd: expect.closeTo(0.5, 3) });
+      expect(session.status).toBe('budget_exceeded');
+    });
+
+    test('a session budget cannot lift a stricter configured cap', () => {
+      setBudgetConfig({ global: { maxUsd: 1 }, projects: {} });
+      try {
+        session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+        attachFakeProcess(session);
+        session.budget = { maxUsd: 100 };
+
+        webSession.handleStreamEvent(session, assistant('msg_1', 100_000));
+
+        expect(session.status).toBe('budget_exceeded');
+        expect(messages).toContainEqual(expect.objectContaining({
+          type: 'budget',
+          budget: { level: 'exceeded', metric: 'usd', used: 1.5, limit: 1 }
+        }));
+      } finally {
+        setBudgetConfig({ projects: {} });
+      }
+    });
+
+    test('denies tool use while over budget', () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.budget = { maxTurns: 1 };
+      webSession.handleStreamEvent(session, { type: 'result', result: '', num_turns: 1 });
+
+      webSession.handleStreamEvent(session, {
+        type: 'control_request',
+        request_id: 'req-1',
+        request: { subtype: 'can_use_tool', tool_name: 'Bash', tool_use_id: 'toolu_1', input: {} }
+      });
+
+      expect(session.pendingPermission).toBeUndefined();
+      expect(written).toContainEqual({
+        type: 'control_response',
+        response: {
+          subtype: 'success',
+          request_id: 'req-1',
+          response: { behavior: 'deny', message: expect.any(String) }
+        }
+      });
+    });
+
+    test('raising the budget resumes the session and delivers held prompts', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.budget = { maxTurns: 1 };
+      webSession.handleStreamEvent(session, assistant('msg_1', 10));
+      webSession.handleStreamEvent(session, { type: 'result', result: '', num_turns: 1 });
+      await webSession.sendMessage(session.id, 'next');
+
+      expect(webSession.setWebSessionBudget(session.id, { maxTurns: 5 })).toBe(true);
+
+      expect(session.status).toBe('active');
+      expect(written.filter(w => w.type === 'user').map(w => w.message.content)).toEqual(['next']);
+    });
+  });
+
+  describe('resource limits', () => {
+    let killedWith: string[];
+
+    const attachFakeProcess = (target: WebSession) => {
+      killedWith = [];
+      target.process = {
+        stdin: { write: () => {}, flush: () => {} },
+        kill: (signal?: string) => { killedWith.push(signal || 'SIGTERM'); }
+      } as any;
+      target.status = 'active';
+      target.startedAt = new Date();
+      target.lastActivityAt = target.startedAt;
+      return target.process;
+    };
+
+    afterEach(() => {
+      setResourceLimitConfig({ projects: {} });
+    });
+
+    test('warns once before the idle limit', () => {
+      setResourceLimitConfig({ global: { idleMinutes: 10, warnAt: 0.5 }, projects: {} });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      const start = session.lastActivityAt.getTime();
+
+      webSession.checkResourceLimits(session, start + 6 * 60000);
+      webSession.checkResourceLimits(session, start + 7 * 60000);
+
+      const alerts = messages.filter(m => m.type === 'limit');
+      expect(alerts).toHaveLength(1);
+      expect(alerts[0].limit).toEqual({ level: 'warn', metric: 'idle', used: 6, limit: 10 });
+      expect(killedWith).toEqual([]);
+    });
+
+    test('output resets the idle clock', () => {
+      setResourceLimitConfig({ global: { idleMinutes: 10 }, projects: {} });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      session.lastActivityAt = new Date(Date.now() - 20 * 60000);
+
+      webSession.handleStreamEvent(session, { type: 'system', subtype: 'init', session_id: 'claude-1' });
+      webSession.checkResourceLimits(session);
+
+      expect(session.resourceLevel).toBe('ok');
+    });
+
+    test('a quiet turn or permission prompt is not idle', () => {
+      setResourceLimitConfig({ global: { idleMinutes: 10 }, projects: {} });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      const start = session.lastActivityAt.getTime();
+
+      session.turnInProgress = true;
+      webSession.checkResourceLimits(session, start + 20 * 60000);
+      expect(session.resourceLevel).toBe('ok');
+
+      session.turnInProgress = false;
+      session.permissionRequests.set('toolu_1', { requestId: 'req-1', toolUseId: 'toolu_1', toolName: 'Bash', input: {} });
+      webSession.checkResourceLimits(session, start + 20 * 60000);
+      expect(session.resourceLevel).toBe('ok');
+      expect(killedWith).toEqual([]);
+    });
+
+    test('reaps a child past the wall-clock cap and records why', () => {
+      setResourceLimitConfig({ global: { maxWallClockMinutes: 60 }, projects: {} });
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      const proc = attachFakeProcess(session);
+
+      webSession.checkResourceLimits(session, session.startedAt!.getTime() + 61 * 60000);
+      expect(killedWith).toEqual(['SIGTERM']);
+
+      webSession.handleExit(session, proc, null, 'SIGTERM');
+
+      expect(session.status).toBe('completed');
+      expect(session.lastExit).toEqual(expect.objectContaining({
+        reason: 'reaped',
+        limit: { level: 'exceeded', metric: 'wall_clock', used: 61, limit: 60 },
+        description: 'Session stopped by a resource limit: Running for 61 of 60 minutes'
+      }));
+      expect(messages).toContainEqual(expect.objectContaining({ type: 'status', status: 'completed', reason: 'reaped' }));
+    });
+  });
+
+  describe('control signals', () => {
+    let written: any[];
+    let killedWith: string | undefined;
+    let stdinClosed: boolean;
+
+    const attachFakeProcess = (target: WebSession) => {
+      written = [];
+      killedWith = undefined;
+      stdinClosed = false;
+      target.process = {
+        stdin: {
+          write: (chunk: string) => { written.push(JSON.parse(chunk)); },
+          flush: () => {},
+          end: () => { stdinClosed = true; }
+        },
+        kill: (signal?: string) => { killedWith = signal; }
+      } as any;
+      target.status = 'active';
+    };
+
+    const controlResults = () => messages.filter(m => m.type === 'control').map(m => m.control);
+
+    test('interrupt is sent as a control request and acknowledged by the response', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      const result = await webSession.sendControlSignal(session.id, 'interrupt');
+
+      expect(result).toEqual(expect.objectContaining({ mechanism: 'control_request', status: 'pending' }));
+      expect(written).toEqual([{
+        type: 'control_request',
+        request_id: result!.requestId,
+        request: { subtype: 'interrupt' }
+      }]);
+      expect(controlResults()).toEqual([]);
+
+      webSession.handleStreamEvent(session, {
+        type: 'control_response',
+        response: { subtype: 'success', request_id: result!.requestId }
+      });
+
+      expect(controlResults()).toEqual([
+        expect.objectContaining({ signal: 'interrupt', status: 'applied', requestId: result!.requestId })
+      ]);
+      expect(session.controlRequests.size).toBe(0);
+    });
+
+    test('an error response marks the interrupt as failed', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      const result = await webSession.sendControlSignal(session.id, 'interrupt');
+
+      webSession.handleStreamEvent(session, {
+        type: 'control_response',
+        response: { subtype: 'error', request_id: result!.requestId, error: 'nothing to interrupt' }
+      });
+
+      expect(controlResults()).toEqual([
+        expect.objectContaining({ status: 'failed', message: 'nothing to interrupt' })
+      ]);
+    });
+
+    test('pending control requests fail when claude exits', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+      await webSession.sendControlSignal(session.id, 'interrupt');
+
+      webSession.handleExit(session, session.process, 0, null);
+
+      expect(controlResults()).toEqual([expect.objectContaining({ signal: 'interrupt', status: 'failed' })]);
+    });
+
+    test('quit stops the child with SIGTERM as a user stop', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      const result = await webSession.sendControlSignal(session.id, 'quit');
+
+      expect(result?.status).toBe('applied');
+      expect(killedWith).toBe('SIGTERM');
+      expect(session.stopRequested).toBe(true);
+    });
+
+    test('eof closes stdin', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      await webSession.sendControlSignal(session.id, 'eof');
+
+      expect(stdinClosed).toBe(true);
+    });
+
+    test('clear and slash commands go out as prompts', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      await webSession.sendControlSignal(session.id, 'clear');
+      webSession.handleStreamEvent(session, { type: 'result', result: '' });
+      await webSession.sendControlSignal(session.id, '/compact');
+
+      expect(written.filter(w => w.type === 'user').map(w => w.message.content)).toEqual(['/clear', '/compact']);
+    });
+
+    test('terminal-only signals are reported as unsupported without touching stdin', async () => {
+      session = webSession.createWebSession('/tmp/test', (msg) => messages.push(msg));
+      attachFakeProcess(session);
+
+      const expand = await webSession.sendControlSignal(session.id, 'expand');
+      const unknown = await webSession.sendControlSignal(session.id, 'teleport');
+
+      expect(expand?.status).toBe('unsupported');
+      expect(unknown?.message).toContain('Unknown control signal');
+      expect(written).toEqual([]);
+      expect(controlResults()).toHaveLength(2);
+    });
+  });
+
+  describe('launch queue', () => {
+    // A project of its own, so sessions left over from other tests don't take its slot
+    const cwd = '/tmp/launch-queue-test';
+    let running: WebSession;
+    let queued: WebSession[];
+
+    const launch = async (priority?: number) => {
+      const target = webSession.createWebSession(cwd, (msg) => messages.push(msg));
+      queued.push(target);
+      await webSession.launchWebSession(target, undefined, priority);
+      return target;
+    };
+    const queuedIds = () => webSession.getLaunchQueue().filter(e => e.cwd === cwd).map(e => e.sessionId);
+
+    beforeEach(() => {
+      setConcurrencyLimits({ projects: { [cwd]: 1 } });
+      running = webSession.createWebSession(cwd, () => {});
+      running.process = { kill: () => {} } as any;
+      running.status = 'active';
+      queued = [];
+    });
+
+    afterEach(() => {
+      // Cancel queued launches before freeing the slot, so nothing spawns claude
+      for (const target of queued) {
+        webSession.stopWebSession(target.id);
+      }
+      webSession.stopWebSession(running.id);
+      setConcurrencyLimits({ projects: {} });
+    });
+
+    test('queues launches over the limit and holds their prompts', async () => {
+      const target = await launch();
+
+      expect(target.status).toBe('queued');
+      expect(target.process).toBeNull();
+      expect(messages).toContainEqual(expect.objectContaining({
+        type: 'status',
+        status: 'queued',
+        content: 'Waiting for a free slot (position 1)'
+      }));
+
+      expect(await webSession.sendMessage(target.id, 'hello')).toBe(true);
+      expect(target.messageQueue.map(m => m.content)).toEqual(['hello']);
+    });
+
+    test('counts an isolated session against the project it was started from', async () => {
+      const worktreePath = '/tmp/launch-queue-test-worktrees/session-1';
+      const target = webSession.createWebSession(worktreePath, (msg) => messages.push(msg));
+      target.worktree = {
+        repoPath: cwd,
+        path: worktreePath,
+        branch: 'orchestrator/session-1',
+        baseCommit: 'abc123',
+        createdAt: '2026-01-01T00:00:00.000Z'
+      };
+      queued.push(target);
+
+      await webSession.launchWebSession(target);
+
+      expect(webSession.getProjectDir(target)).toBe(cwd);
+      expect(target.status).toBe('queued');
+      expect(queuedIds()).toEqual([target.id]);
+
+      target.cwd = path.join(worktreePath, 'packages', 'app');
+      expect(webSession.getProjectDir(target)).toBe(path.join(cwd, 'packages', 'app'));
+    });
+
+    test('orders queued launches by priority', async () => {
+      const normal = await launch();
+      const urgent = await launch(5);
+      expect(queuedIds()).toEqual([urgent.id, normal.id]);
+
+      expect(webSession.setLaunchPriority(normal.id, 10)).toBe(true);
+      expect(queuedIds()).toEqual([normal.id, urgent.id]);
+      expect(webSession.setLaunchPriority(running.id, 10)).toBe(false);
+    });
+
+    test('stopping a queued session cancels its launch', async () => {
+      const target = await launch();
+
+      webSession.stopWebSession(target.id);
+
+      expect(queuedIds()).toEqual([]);
+      expect(messages).toContainEqual(expect.objectContaining({ type: 'status', status: 'completed', reason: 'cancelled' }));
+    });
+  });
 });
@@ -0,0 +1,108 @@
+import { describe, test, expect, beforeEach, afterEach } from 'bun:test';
+import * as fs from 'node:fs';
+import * as os from 'node:os';
+import * as path from 'node:path';
+import { spawnSync } from 'bun';
+import * as worktrees from '../worktrees';
+import { ConflictError, ValidationError } from '../error-handler';
+
+function git(cwd: string, ...args: string[]): string {
+  const result = spawnSync(['git', ...args], { cwd });
+  if (result.exitCode !== 0) {
+    throw new Error(result.stderr.toString());
+  }
+  return result.stdout.toString().trim();
+}
+
+function commitFile(cwd: string, file: string, content: string) {
+  fs.writeFileSync(path.join(cwd, file), content);
+  git(cwd, 'add', file);
+  git(cwd, 'commit', '-q', '-m', `Update ${file}`);
+}
+
+describe('Worktrees', () => {
+  let dir: string;
+  let repo: string;
+
+  beforeEach(() => {
+    dir = fs.realpathSync(fs.mkdtempSync(path.join(os.tmpdir(), 'worktrees-test-')));
+    repo = path.join(dir, 'repo');
+    fs.mkdirSync(path.join(repo, 'packages', 'app'), { recursive: true });
+    git(repo, 'init', '-q', '-b', 'main');
+    // Merges and test commits need an identity, whatever the machine's git config
+    git(repo, 'config', 'user.name', 'Test');
+    git(repo, 'config', 'user.email', 'test@example.com');
+    commitFile(repo, 'README.md', 'hello\n');
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  test('creates a worktree on a new branch next to the repository', async () => {
+    const subdir = path.join(repo, 'packages', 'app');
+    fs.writeFileSync(path.join(subdir, 'index.ts'), '');
+    git(repo, 'add', '.');
+    git(repo, 'commit', '-q', '-m', 'Add app');
+
+    const { worktree, cwd } = await worktrees.createWorktree(subdir);
+
+    expect(worktree.repoPath).toBe(repo);
+    expect(worktree.branch).toStartWith(worktrees.WORKTREE_BRANCH_PREFIX);
+    expect(worktree.baseBranch).toBe('main');
+    expect(path.dirname(worktree.path)).toBe(path.join(dir, 'repo-worktrees'));
+    expect(cwd).toBe(path.join(worktree.path, 'packages', 'app'));
+    expect(fs.existsSync(path.join(cwd, 'index.ts'))).toBe(true);
+
+    const list = await worktrees.listWorktrees(repo);
+    expect(list.map(w => [w.path, w.branch, w.main])).toEqual([
+      [repo, 'main', true],
+      [worktree.path, worktree.branch, false]
+    ]);
+  });
+
+  test('rejects directories outside a repository', async () => {
+    await expect(worktrees.createWorktree(dir)).rejects.toThrow(ValidationError);
+    expect(() => worktrees.validateWorktreeAction('archive')).toThrow(ValidationError);
+    expect(worktrees.validateWorktreeAction(undefined)).toBe('keep');
+  });
+
+  test('refuses to delete uncommitted changes unless forced', async () => {
+    const { worktree } = await worktrees.createWorktree(repo);
+    fs.writeFileSync(path.join(worktree.path, 'notes.txt'), 'draft');
+
+    expect(await worktrees.getWorktreeStatus(worktree)).toEqual({
+      dirty: true,
+      changes: ['?? notes.txt'],
+      commitsAhead: 0
+    });
+    await expect(worktrees.finishWorktree(worktree, 'delete')).rejects.toThrow(ConflictError);
+
+    await worktrees.finishWorktree(worktree, 'delete', true);
+
+    expect(fs.existsSync(worktree.path)).toBe(false);
+    expect(git(repo, 'branch', '--list', worktree.branch)).toBe('');
+  });
+
+  test('merges the branch back and removes the worktree', async () => {
+    const { worktree } = await worktrees.createWorktree(repo);
+    commitFile(worktree.path, 'feature.ts', 'export {};\n');
+
+    expect((await worktrees.getWorktreeStatus(worktree)).commitsAhead).toBe(1);
+
+    expect(await worktrees.finishWorktree(worktree, 'merge')).toEqual({ mergedInto: 'main' });
+    expect(fs.existsSync(path.join(repo, 'feature.ts'))).toBe(true);
+    expect(await worktrees.listWorktrees(repo)).toHaveLength(1);
+  });
+
+  test('aborts a conflicting merge and keeps the worktree', async () => {
+    const { worktree } = await worktrees.createWorktree(repo);
+    commitFile(worktree.path, 'README.md', 'from the session\n');
+    commitFile(repo, 'README.md', 'from main\n');
+
+    await expect(worktrees.finishWorktree(worktree, 'merge')).rejects.toThrow('worktree was kept');
+
+    expect(fs.existsSync(worktree.path)).toBe(true);
+    expect(git(repo, 'status', '--porcelain')).toBe('');
+  });
+});
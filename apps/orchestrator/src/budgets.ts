@@ -0,0 +1,144 @@
+/**
+ * Budget limits for web sessions
+ *
+ * A budget rule caps what one session may spend in USD, tokens or assistant turns.
+ * Rules can be set globally, per project (keyed by project path) and per web
+ * session; every rule that applies is enforced, so a session rule can tighten the
+ * configured caps but not lift them. The global and project rules are stored in
+ * ~/.claude/orchestrator/budgets.json.
+ */
+
+import { ValidationError } from './error-handler';
+import { logger } from './logger';
+import {
+  DEFAULT_WARN_AT,
+  LimitConfigStore,
+  evaluateLimits,
+  mostSevere,
+  validateLimitConfig,
+  validatePositive,
+  validateRuleFields,
+  validateWarnAt,
+  type LimitConfig,
+  type LimitLevel,
+  type LimitStatus
+} from './limit-rules';
+
+const log = logger.child('Budgets');
+
+export interface BudgetRule {
+  maxUsd?: number;
+  maxTokens?: number;
+  maxTurns?: number;
+  // Fraction of a limit at which to warn (0-1, default 0.8)
+  warnAt?: number;
+}
+
+export type BudgetConfig = LimitConfig<BudgetRule>;
+
+export type BudgetMetric = 'usd' | 'tokens' | 'turns';
+
+export type BudgetLevel = LimitLevel;
+
+export interface BudgetConsumption {
+  costUsd: number;
+  tokens: number;
+  turns: number;
+}
+
+export type BudgetStatus = LimitStatus<BudgetMetric>;
+
+const BUDGET_RULE_KEYS = new Set(['maxUsd', 'maxTokens', 'maxTurns', 'warnAt']);
+
+const store = new LimitConfigStore<BudgetConfig>('budgets.json', 'budget configuration', validateBudgetConfig, log);
+
+/**
+ * Validate a budget rule from an API request
+ * @param value Raw rule (undefined/null means no rule)
+ * @param fieldName Name used in error messages
+ * @throws ValidationError if the rule is malformed or sets no limit
+ */
+export function validateBudgetRule(value: unknown, fieldName: string = 'budget'): BudgetRule | undefined {
+  const raw = validateRuleFields(value, fieldName, BUDGET_RULE_KEYS);
+  if (!raw) return undefined;
+
+  const rule: BudgetRule = {};
+  if (raw.maxUsd !== undefined) rule.maxUsd = validatePositive(raw.maxUsd, `${fieldName}.maxUsd`, false);
+  if (raw.maxTokens !== undefined) rule.maxTokens = validatePositive(raw.maxTokens, `${fieldName}.maxTokens`, true);
+  if (raw.maxTurns !== undefined) rule.maxTurns = validatePositive(raw.maxTurns, `${fieldName}.maxTurns`, true);
+
+  if (raw.warnAt !== undefined) rule.warnAt = validateWarnAt(raw.warnAt, fieldName);
+
+  if (rule.maxUsd === undefined && rule.maxTokens === undefined && rule.maxTurns === undefined) {
+    throw new ValidationError(`${fieldName} must set maxUsd, maxTokens or maxTurns`);
+  }
+  return rule;
+}
+
+/**
+ * Validate a full budget configuration from an API request
+ * @throws ValidationError if any rule is invalid
+ */
+export function validateBudgetConfig(value: unknown): BudgetConfig {
+  return validateLimitConfig(value, 'Budget configuration', validateBudgetRule);
+}
+
+/**
+ * Rules that apply to a session: its own, its project's and the global one
+ */
+export function resolveBudgetRules(config: BudgetConfig, cwd: string, sessionRule?: BudgetRule): BudgetRule[] {
+  return [sessionRule, config.projects[cwd], config.global].filter((rule): rule is BudgetRule => !!rule);
+}
+
+/**
+ * Compare consumption against a rule; the limit furthest along decides the level
+ */
+export function evaluateBudget(rule: BudgetRule | undefined, consumption: BudgetConsumption): BudgetStatus {
+  if (!rule) return { level: 'ok' };
+
+  return evaluateLimits<BudgetMetric>([
+    { metric: 'usd', used: consumption.costUsd, limit: rule.maxUsd },
+    { metric: 'tokens', used: consumption.tokens, limit: rule.maxTokens },
+    { metric: 'turns', used: consumption.turns, limit: rule.maxTurns }
+  ], rule.warnAt ?? DEFAULT_WARN_AT);
+}
+
+/**
+ * Compare consumption against every rule that applies; the strictest decides
+ */
+export function evaluateBudgets(rules: BudgetRule[], consumption: BudgetConsumption): BudgetStatus {
+  return mostSevere(rules.map(rule => evaluateBudget(rule, consumption)));
+}
+
+/**
+ * Human-readable summary, e.g. "$4.12 of $5.00 budget used"
+ */
+export function describeBudget(status: BudgetStatus): string {
+  if (!status.metric || status.used === undefined || status.limit === undefined) {
+    return 'Within budget';
+  }
+  const format = (n: number) => status.metric === 'usd' ? `$${n.toFixed(2)}` : String(Math.round(n));
+  const unit = status.metric === 'usd' ? '' : ` ${status.metric}`;
+  return `${format(status.used)} of ${format(status.limit)}${unit} budget used`;
+}
+
+/**
+ * Get the global and per-project budget rules, loading them from disk on first use
+ */
+export function getBudgetConfig(): BudgetConfig {
+  return store.get();
+}
+
+/**
+ * Use budget rules for this run without writing them to disk (useful for testing)
+ */
+export function setBudgetConfig(config: BudgetConfig): void {
+  store.set(config);
+}
+
+/**
+ * Replace the global and per-project budget rules and write them to disk
+ */
+export function saveBudgetConfig(config: BudgetConfig): void {
+  store.save(config);
+}
@@ -0,0 +1,189 @@
+/**
+ * Display messages for a transcript, flat or as a conversation tree
+ *
+ * Subagents (the Task tool) write their traffic into the same transcript,
+ * marked `isSidechain`, interleaved with the main thread in file order. The
+ * tree view takes each sidechain run (a chain of lines linked by parentUuid) out
+ * of the main thread and attaches it to the Task tool call that spawned it:
+ * the call whose prompt the run starts with, or failing that the latest call
+ * made before the run started that has no run yet. Runs started by a subagent's
+ * own Task calls nest the same way. Runs no call can be found for are collected
+ * on one system message at the end.
+ */
+
+import type { DisplayMessage, SessionMessage, SubagentThread, MessageContent } from './types';
+import { MessageAssembler } from './message-assembler';
+
+// Tools that run a subagent
+const SUBAGENT_TOOLS = ['Task', 'Agent'];
+
+export const UNMATCHED_SIDECHAINS_ID = 'sidechains:unmatched';
+
+interface SubagentCall {
+  toolUseId: string;
+  prompt?: string;
+  description?: string;
+  timestamp: number;
+  matched: boolean;
+}
+
+interface SidechainRun {
+  rootUuid: string;
+  lines: SessionMessage[];
+}
+
+/**
+ * Assemble transcript lines into display messages, in file order
+ */
+export function toDisplayMessages(messages: SessionMessage[]): DisplayMessage[] {
+  // Same assembly as live sessions, so tool results are paired with their tool use
+  const assembler = new MessageAssembler();
+
+  for (const msg of messages) {
+    if (msg.type === 'system') {
+      assembler.add({
+        id: msg.uuid,
+        role: 'system',
+        content: 'System message',
+        timestamp: msg.timestamp
+      });
+    } else {
+      assembler.apply(msg);
+    }
+  }
+
+  return assembler.getMessages();
+}
+
+function lineText(msg: SessionMessage): string {
+  const content: unknown = msg.message?.content;
+  if (typeof content === 'string') return content.trim();
+  if (!Array.isArray(content)) return '';
+  return (content as MessageContent[])
+    .map(block => (block.type === 'text' ? block.text : ''))
+    .join('')
+    .trim();
+}
+
+function findSubagentCalls(messages: SessionMessage[]): SubagentCall[] {
+  const calls: SubagentCall[] = [];
+  for (const msg of messages) {
+    if (msg.type !== 'assistant' || !Array.isArray(msg.message?.content)) continue;
+    for (const block of msg.message.content) {
+      if (block.type !== 'tool_use' || !SUBAGENT_TOOLS.includes(block.name)) continue;
+      calls.push({
+        toolUseId: block.id,
+        prompt: typeof block.input.prompt === 'string' ? block.input.prompt.trim() : undefined,
+        description: typeof block.input.description === 'string' ? block.input.description : undefined,
+        timestamp: new Date(msg.timestamp).getTime(),
+        matched: false
+      });
+    }
+  }
+  return calls;
+}
+
+/**
+ * Group sidechain lines into runs: lines whose parent chain leads back to the
+ * same first sidechain line
+ */
+function groupSidechainRuns(messages: SessionMessage[]): SidechainRun[] {
+  const byUuid = new Map(messages.map(msg => [msg.uuid, msg]));
+  const rootOf = new Map<string, string>();
+  const runs = new Map<string, SidechainRun>();
+
+  const findRoot = (msg: SessionMessage): string => {
+    const path: string[] = [];
+    let current: SessionMessage | undefined = msg;
+    let root = msg.uuid;
+    while (current) {
+      const known = rootOf.get(current.uuid);
+      if (known) {
+        root = known;
+        break;
+      }
+      path.push(current.uuid);
+      root = current.uuid;
+      const parent: SessionMessage | undefined = current.parentUuid ? byUuid.get(current.parentUuid) : undefined;
+      // A run starts where its parent chain leaves the sidechain (or at a cycle)
+      current = parent?.isSidechain && !path.includes(parent.uuid) ? parent : undefined;
+    }
+    for (const uuid of path) rootOf.set(uuid, root);
+    return root;
+  };
+
+  for (const msg of messages) {
+    if (!msg.isSidechain) continue;
+    const root = findRoot(msg);
+    let run = runs.get(root);
+    if (!run) {
+      run = { rootUuid: root, lines: [] };
+      runs.set(root, run);
+    }
+    run.lines.push(msg);
+  }
+  return [...runs.values()];
+}
+
+function matchCall(run: SidechainRun, calls: SubagentCall[]): SubagentCall | undefined {
+  const root = run.lines[0];
+  const prompt = lineText(root);
+  const byPrompt = prompt ? calls.find(call => !call.matched && call.prompt === prompt) : undefined;
+  if (byPrompt) return byPrompt;
+
+  const startedAt = new Date(root.timestamp).getTime();
+  let latest: SubagentCall | undefined;
+  for (const call of calls) {
+    if (!call.matched && call.timestamp <= startedAt) latest = call;
+  }
+  return latest;
+}
+
+/**
+ * Main-thread display messages, with each subagent run on the Task call that spawned it
+ */
+export function buildConversationTree(messages: SessionMessage[]): DisplayMessage[] {
+  const main = toDisplayMessages(messages.filter(msg => !msg.isSidechain));
+  const runs = groupSidechainRuns(messages);
+  if (runs.length === 0) return main;
+
+  const calls = findSubagentCalls(messages);
+  const threads = runs.map(run => {
+    const call = matchCall(run, calls);
+    if (call) call.matched = true;
+    const thread: SubagentThread = {
+      rootUuid: run.rootUuid,
+      toolUseId: call?.toolUseId,
+      description: call?.description,
+      messages: toDisplayMessages(run.lines)
+    };
+    return thread;
+  });
+
+  // Task calls can be in the main thread or in another run
+  const callMessages = new Map<string, DisplayMessage>();
+  for (const message of [...main, ...threads.flatMap(thread => thread.messages)]) {
+    if (message.toolUse?.id) callMessages.set(message.toolUse.id, message);
+  }
+
+  const unmatched: SubagentThread[] = [];
+  for (const thread of threads) {
+    const parent = thread.toolUseId ? callMessages.get(thread.toolUseId) : undefined;
+    if (parent) {
+      parent.subagents = [...(parent.subagents || []), thread];
+    } else {
+      unmatched.push({ ...thread, toolUseId: undefined });
+    }
+  }
+
+  if (unmatched.length > 0) {
+    main.push({
+      id: UNMATCHED_SIDECHAINS_ID,
+      role: 'system',
+      content: 'Subagent runs without a matching Task call',
+      timestamp: unmatched[0].messages[0]?.timestamp || new Date().toISOString(),
+      subagents: unmatched
+    });
+  }
+  return main;
+}
@@ -0,0 +1,181 @@
+/**
+ * Cron expressions for scheduled prompts
+ *
+ * Five fields (minute hour day-of-month month day-of-week) in the orchestrator's
+ * local time. A field is `*`, a number or name, or a range `a-b`, any of them
+ * optionally followed by a step `/n`, or a comma list of those; day-of-week 0
+ * and 7 are both Sunday. As in cron, when both day fields are restricted a day
+ * matching either one runs.
+ * The shorthands @hourly, @daily, @weekly, @monthly and @yearly are accepted too.
+ */
+
+import { ValidationError } from './error-handler';
+
+export interface CronSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  daysOfMonth: Set<number>;
+  months: Set<number>;
+  daysOfWeek: Set<number>;
+  // Whether the day fields were `*` (the other day field alone decides)
+  anyDayOfMonth: boolean;
+  anyDayOfWeek: boolean;
+}
+
+interface FieldSpec {
+  name: string;
+  min: number;
+  max: number;
+  names?: string[];
+}
+
+const FIELDS: FieldSpec[] = [
+  { name: 'minute', min: 0, max: 59 },
+  { name: 'hour', min: 0, max: 23 },
+  { name: 'day of month', min: 1, max: 31 },
+  { name: 'month', min: 1, max: 12, names: ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec'] },
+  { name: 'day of week', min: 0, max: 7, names: ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'] }
+];
+
+const SHORTHANDS: Record<string, string> = {
+  '@hourly': '0 * * * *',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@weekly': '0 0 * * 0',
+  '@monthly': '0 0 1 * *',
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *'
+};
+
+// How far ahead to look for the next occurrence before giving up (covers leap days)
+const SEARCH_YEARS = 5;
+
+function parseValue(text: string, spec: FieldSpec): number {
+  const named = spec.names?.indexOf(text.toLowerCase()) ?? -1;
+  if (named !== -1) {
+    // Month names count from 1, day names from 0
+    return spec.min === 1 ? named + 1 : named;
+  }
+  if (!/^\d+$/.test(text)) {
+    throw new ValidationError(`Invalid ${spec.name} value: ${text}`);
+  }
+  const value = parseInt(text, 10);
+  if (value < spec.min || value > spec.max) {
+    throw new ValidationError(`${spec.name} must be between ${spec.min} and ${spec.max}`, { value });
+  }
+  return value;
+}
+
+function parseField(text: string, spec: FieldSpec): Set<number> {
+  const values = new Set<number>();
+
+  for (const part of text.split(',')) {
+    const [range, stepText] = part.split('/');
+    const step = stepText === undefined ? 1 : parseInt(stepText, 10);
+    if (stepText !== undefined && (!/^\d+$/.test(stepText) || step < 1)) {
+      throw new ValidationError(`Invalid step in ${spec.name}: ${part}`);
+    }
+
+    let start: number;
+    let end: number;
+    if (range === '*') {
+      start = spec.min;
+      end = spec.max;
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-');
+      start = parseValue(from, spec);
+      end = parseValue(to, spec);
+      if (start > end) {
+        throw new ValidationError(`Invalid range in ${spec.name}: ${range}`);
+      }
+    } else {
+      start = parseValue(range, spec);
+      // `5/15` means from 5 to the end in steps of 15
+      end = stepText === undefined ? start : spec.max;
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+/**
+ * Parse a cron expression
+ * @throws ValidationError if it is malformed
+ */
+export function parseCron(expression: string): CronSchedule {
+  const trimmed = expression.trim();
+  const fields = (SHORTHANDS[trimmed.toLowerCase()] || trimmed).split(/\s+/);
+  if (fields.length !== FIELDS.length) {
+    throw new ValidationError('Cron expression must have 5 fields: minute hour day-of-month month day-of-week', {
+      expression
+    });
+  }
+
+  const [minutes, hours, daysOfMonth, months, daysOfWeek] = fields.map((field, i) => parseField(field, FIELDS[i]));
+  // Sunday is both 0 and 7
+  if (daysOfWeek.delete(7)) {
+    daysOfWeek.add(0);
+  }
+
+  return {
+    minutes,
+    hours,
+    daysOfMonth,
+    months,
+    daysOfWeek,
+    anyDayOfMonth: fields[2] === '*',
+    anyDayOfWeek: fields[4] === '*'
+  };
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const dayOfMonth = schedule.daysOfMonth.has(date.getDate());
+  const dayOfWeek = schedule.daysOfWeek.has(date.getDay());
+  if (schedule.anyDayOfMonth) return dayOfWeek;
+  if (schedule.anyDayOfWeek) return dayOfMonth;
+  return dayOfMonth || dayOfWeek;
+}
+
+/**
+ * Whether the schedule fires in the minute of `date`
+ */
+export function matchesCron(schedule: CronSchedule, date: Date): boolean {
+  return schedule.minutes.has(date.getMinutes())
+    && schedule.hours.has(date.getHours())
+    && schedule.months.has(date.getMonth() + 1)
+    && matchesDay(schedule, date);
+}
+
+/**
+ * First time the schedule fires after `after` (to the minute)
+ * @throws ValidationError if it never fires (e.g. February 30th)
+ */
+export function nextCronTime(schedule: CronSchedule, after: Date): Date {
+  const date = new Date(after);
+  date.setSeconds(0, 0);
+  date.setMinutes(date.getMinutes() + 1);
+
+  const limit = new Date(after);
+  limit.setFullYear(limit.getFullYear() + SEARCH_YEARS);
+
+  // Skip whole months, days and hours that can't match
+  while (date <= limit) {
+    if (!schedule.months.has(date.getMonth() + 1)) {
+      date.setMonth(date.getMonth() + 1, 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!matchesDay(schedule, date)) {
+      date.setDate(date.getDate() + 1);
+      date.setHours(0, 0, 0, 0);
+    } else if (!schedule.hours.has(date.getHours())) {
+      date.setHours(date.getHours() + 1, 0, 0, 0);
+    } else if (!schedule.minutes.has(date.getMinutes())) {
+      date.setMinutes(date.getMinutes() + 1, 0, 0);
+    } else {
+      return date;
+    }
+  }
+  throw new ValidationError('Cron expression never fires');
+}
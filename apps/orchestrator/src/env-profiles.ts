@@ -0,0 +1,218 @@
+/**
+ * Environment profiles for web sessions
+ *
+ * A profile is a named set of environment variables, plus variables whose
+ * values come from the secret store, chosen when a web session is created. A
+ * child gets only BASE_ENV_VARS of the orchestrator's own environment unless its
+ * profile opts into inheriting all of it, so a session only sees the
+ * credentials its profile gives it.
+ * Profiles are stored in ~/.claude/orchestrator/env-profiles.json; they hold
+ * secret names, never secret values.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { NotFoundError, ValidationError } from './error-handler';
+import { ENV_NAME_PATTERN } from './launch-options';
+import { KEY_FILE_ENV, resolveSecrets, validateSecretName } from './secret-store';
+import { STORAGE_DIR } from './session-persistence';
+import { logger } from './logger';
+
+const log = logger.child('EnvProfiles');
+
+export interface EnvProfile {
+  name: string;
+  description?: string;
+  // Pass the orchestrator's whole environment through; otherwise only BASE_ENV_VARS are
+  inheritEnv: boolean;
+  variables: Record<string, string>;
+  // Environment variable -> secret name
+  secrets: Record<string, string>;
+  updatedAt: string;
+}
+
+// What a child gets of the orchestrator's environment without a profile that inherits it
+export const BASE_ENV_VARS = ['PATH', 'HOME', 'USER', 'LOGNAME', 'SHELL', 'LANG', 'LC_ALL', 'TERM', 'TMPDIR', 'TZ'];
+
+// Orchestrator settings that no child should see
+const PRIVATE_ENV_VARS = new Set([KEY_FILE_ENV]);
+
+const PROFILE_NAME_PATTERN = /^[A-Za-z0-9._-]{1,64}$/;
+
+const PROFILE_KEYS = new Set(['description', 'inheritEnv', 'variables', 'secrets']);
+
+const DEFAULT_STORAGE_FILE = path.join(STORAGE_DIR, 'env-profiles.json');
+
+let storageFile = DEFAULT_STORAGE_FILE;
+let cachedProfiles: Map<string, EnvProfile> | null = null;
+
+/**
+ * Keep profiles in another file (useful for testing); they are reloaded on next use
+ */
+export function setEnvProfileStorageFile(file: string = DEFAULT_STORAGE_FILE): void {
+  storageFile = file;
+  cachedProfiles = null;
+}
+
+function loadProfiles(): Map<string, EnvProfile> {
+  if (cachedProfiles) return cachedProfiles;
+
+  cachedProfiles = new Map();
+  try {
+    if (fs.existsSync(storageFile)) {
+      for (const profile of JSON.parse(fs.readFileSync(storageFile, 'utf-8')).profiles || []) {
+        cachedProfiles.set(profile.name, profile);
+      }
+    }
+  } catch (err) {
+    log.error('Failed to load environment profiles, ignoring them', err, { data: { path: storageFile } });
+  }
+  return cachedProfiles;
+}
+
+function saveProfiles(): void {
+  const dir = path.dirname(storageFile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(storageFile, JSON.stringify({ profiles: [...loadProfiles().values()] }, null, 2), 'utf-8');
+}
+
+function validateEnvMap(value: unknown, fieldName: string): Record<string, string> {
+  if (value === undefined || value === null) return {};
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${fieldName} must be an object keyed by variable name`);
+  }
+  const map: Record<string, string> = {};
+  for (const [name, entry] of Object.entries(value as Record<string, unknown>)) {
+    if (!ENV_NAME_PATTERN.test(name)) {
+      throw new ValidationError(`${fieldName} contains an invalid variable name`, { name });
+    }
+    if (typeof entry !== 'string') {
+      throw new ValidationError(`${fieldName} values must be strings`, { name });
+    }
+    map[name] = entry;
+  }
+  return map;
+}
+
+/**
+ * Validate a profile from an API request
+ * @throws ValidationError if malformed, or if a variable is set both directly and from a secret
+ */
+export function validateEnvProfile(name: string, value: unknown): EnvProfile {
+  if (!PROFILE_NAME_PATTERN.test(name)) {
+    throw new ValidationError('Profile names may contain only letters, digits, dots, dashes and underscores');
+  }
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Environment profile must be an object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(key => !PROFILE_KEYS.has(key));
+  if (unknownKeys.length > 0) {
+    throw new ValidationError('Unknown environment profile fields', { keys: unknownKeys });
+  }
+  if (raw.description !== undefined && typeof raw.description !== 'string') {
+    throw new ValidationError('description must be a string');
+  }
+  if (raw.inheritEnv !== undefined && typeof raw.inheritEnv !== 'boolean') {
+    throw new ValidationError('inheritEnv must be a boolean');
+  }
+
+  const variables = validateEnvMap(raw.variables, 'variables');
+  const secrets = validateEnvMap(raw.secrets, 'secrets');
+  for (const [variable, secretName] of Object.entries(secrets)) {
+    validateSecretName(secretName);
+    if (variable in variables) {
+      throw new ValidationError('A variable cannot be set both directly and from a secret', { name: variable });
+    }
+  }
+
+  return {
+    name,
+    description: raw.description || undefined,
+    inheritEnv: raw.inheritEnv ?? false,
+    variables,
+    secrets,
+    updatedAt: new Date().toISOString()
+  };
+}
+
+export function listEnvProfiles(): EnvProfile[] {
+  return [...loadProfiles().values()].sort((a, b) => a.name.localeCompare(b.name));
+}
+
+export function getEnvProfile(name: string): EnvProfile | undefined {
+  return loadProfiles().get(name);
+}
+
+export function saveEnvProfile(profile: EnvProfile): void {
+  loadProfiles().set(profile.name, profile);
+  saveProfiles();
+  log.info('Saved environment profile', {
+    data: { name: profile.name, variables: Object.keys(profile.variables).length, secrets: Object.keys(profile.secrets).length }
+  });
+}
+
+/**
+ * @throws NotFoundError if there is no such profile
+ */
+export function deleteEnvProfile(name: string): void {
+  if (!loadProfiles().delete(name)) {
+    throw new NotFoundError('Environment profile');
+  }
+  saveProfiles();
+  log.info('Deleted environment profile', { data: { name } });
+}
+
+/**
+ * Validate the profile chosen for a new session: it must exist, and the secrets
+ * it uses must be available now
+ * @returns The profile name, or undefined for none
+ * @throws NotFoundError, ConflictError or ValidationError as for buildChildEnv
+ */
+export function validateEnvProfileSelection(value: unknown): string | undefined {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'string') {
+    throw new ValidationError('envProfile must be a profile name');
+  }
+  buildChildEnv(value, {});
+  return value;
+}
+
+/**
+ * Environment for a web session's child: BASE_ENV_VARS of the orchestrator's
+ * environment (all of it if the profile inherits it), then the profile's
+ * variables and secrets
+ * @param profileName Profile chosen for the session, if any
+ * @throws NotFoundError if the profile no longer exists
+ * @throws ConflictError if it uses secrets and the secret store is locked
+ * @throws ValidationError if a secret it uses doesn't exist
+ */
+export function buildChildEnv(
+  profileName: string | undefined,
+  baseEnv: Record<string, string | undefined> = process.env
+): Record<string, string> {
+  const profile = profileName ? getEnvProfile(profileName) : undefined;
+  if (profileName && !profile) {
+    throw new NotFoundError('Environment profile');
+  }
+
+  const env: Record<string, string> = {};
+  for (const [name, value] of Object.entries(baseEnv)) {
+    if (value === undefined || PRIVATE_ENV_VARS.has(name)) continue;
+    if (!profile?.inheritEnv && !BASE_ENV_VARS.includes(name)) continue;
+    env[name] = value;
+  }
+  if (!profile) return env;
+
+  Object.assign(env, profile.variables);
+  // A profile without secrets works while the secret store is locked
+  if (Object.keys(profile.secrets).length === 0) return env;
+  const values = resolveSecrets([...new Set(Object.values(profile.secrets))]);
+  for (const [variable, secretName] of Object.entries(profile.secrets)) {
+    env[variable] = values.get(secretName)!;
+  }
+  return env;
+}
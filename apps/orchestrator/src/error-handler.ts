@@ -45,6 +45,18 @@ export class FileSystemError extends OrchestratorError {
   }
 }
 
+export class ConflictError extends OrchestratorError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'CONFLICT', 409, details);
+  }
+}
+
+export class GitError extends OrchestratorError {
+  constructor(message: string, details?: unknown) {
+    super(message, 'GIT_ERROR', 500, details);
+  }
+}
+
 // Error response formatter
 export function formatErrorResponse(error: unknown): {
   error: string;
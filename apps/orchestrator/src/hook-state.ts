@@ -0,0 +1,205 @@
+/**
+ * Pending hooks of watched CLI sessions
+ *
+ * A CLI session waits on its user when a tool call needs permission, or when a
+ * question (AskUserQuestion) or a plan (ExitPlanMode) needs an answer. The
+ * transcript never says so directly, so a HookTracker follows each tool call
+ * from its tool_use to its tool_result (which arrives in a user line), through
+ * the hook progress lines written in between:
+ *
+ *   requested ── PreToolUse hook running ──▶ hook_running ── hook done ──▶ requested
+ *   requested ── PermissionRequest / Notification hook ──▶ awaiting_permission
+ *   any ── tool progress / PostToolUse hook ──▶ running
+ *   any ── tool_result, a user prompt or interruption, a later turn ──▶ closed
+ *
+ * Calls the permission mode approves don't count. A call merely `requested`
+ * counts once it has gone unanswered for a grace period, since an approved call
+ * looks the same until it reports progress or a result. A call in a transcript
+ * with no activity for a long time is stale: the CLI was most likely closed.
+ */
+
+import type { SessionMessage, PendingHook, MessageContent } from './types';
+
+export type ToolCallState = 'requested' | 'hook_running' | 'awaiting_permission' | 'running';
+
+export interface HookTrackerOptions {
+  // How long a call has to go unanswered before it counts as waiting
+  graceMs?: number;
+  // How long without any transcript activity before a waiting call is stale
+  staleMs?: number;
+}
+
+export const DEFAULT_HOOK_GRACE_MS = 3000;
+export const DEFAULT_STALE_HOOK_MS = 30 * 60 * 1000;
+
+// Tools that can wait on the user, and the hook type they raise
+const HOOK_TYPES: Record<string, PendingHook['type']> = {
+  Bash: 'bash',
+  Edit: 'edit',
+  MultiEdit: 'edit',
+  Write: 'edit',
+  NotebookEdit: 'edit',
+  AskUserQuestion: 'question',
+  ExitPlanMode: 'plan'
+};
+
+// Wait on the user whatever the permission mode
+const USER_INPUT_TOOLS = ['AskUserQuestion', 'ExitPlanMode'];
+const EDIT_TOOLS = ['Edit', 'MultiEdit', 'Write', 'NotebookEdit'];
+
+const HOOK_DONE_STATUSES = ['completed', 'success', 'done'];
+
+interface ToolCall {
+  id: string;
+  name: string;
+  input: Record<string, unknown>;
+  // Main thread or subagent the call was made in
+  thread: string;
+  // Assistant message the call is part of
+  messageId: string;
+  state: ToolCallState;
+  requestedAt: number;
+  // When the call last changed state
+  updatedAt: number;
+}
+
+function threadOf(msg: SessionMessage): string {
+  return msg.isSidechain ? `sidechain:${msg.agentId || ''}` : 'main';
+}
+
+export class HookTracker {
+  // Open calls, oldest first
+  private calls: Map<string, ToolCall> = new Map();
+  private permissionMode?: string;
+  private lastActivity = 0;
+  private graceMs: number;
+  private staleMs: number;
+
+  constructor(options: HookTrackerOptions = {}) {
+    this.graceMs = options.graceMs ?? DEFAULT_HOOK_GRACE_MS;
+    this.staleMs = options.staleMs ?? DEFAULT_STALE_HOOK_MS;
+  }
+
+  /**
+   * Follow one transcript line
+   */
+  apply(msg: SessionMessage): void {
+    const time = Date.parse(msg.timestamp);
+    const at = Number.isNaN(time) ? this.lastActivity : time;
+    this.lastActivity = Math.max(this.lastActivity, at);
+    if (msg.permissionMode) this.permissionMode = msg.permissionMode;
+
+    if (msg.type === 'progress') {
+      this.applyProgress(msg, at);
+      return;
+    }
+    if (msg.type !== 'user' && msg.type !== 'assistant') return;
+
+    const content: unknown = msg.message?.content;
+    const blocks: MessageContent[] = Array.isArray(content) ? content : [];
+    const thread = threadOf(msg);
+
+    for (const block of blocks) {
+      if (block.type === 'tool_result') this.calls.delete(block.tool_use_id);
+    }
+
+    if (msg.type === 'user') {
+      // The user typed (or interrupted): nothing in this thread is waiting any more
+      const typed = typeof content === 'string' ? content.trim() !== '' : blocks.some(block => block.type === 'text');
+      if (typed) this.closeThread(thread);
+      return;
+    }
+
+    // A new assistant message means the turn moved on past older calls
+    const messageId = msg.message?.id || msg.uuid;
+    this.closeThread(thread, messageId);
+    for (const block of blocks) {
+      if (block.type !== 'tool_use' || !HOOK_TYPES[block.name]) continue;
+      this.calls.set(block.id, {
+        id: block.id,
+        name: block.name,
+        input: block.input,
+        thread,
+        messageId,
+        state: 'requested',
+        requestedAt: at,
+        updatedAt: at
+      });
+    }
+  }
+
+  private applyProgress(msg: SessionMessage, at: number): void {
+    const call = this.calls.get(msg.parentToolUseID || '') || this.calls.get(msg.toolUseID || '');
+    if (!call || !msg.data) return;
+
+    const { hookEvent, status } = msg.data;
+    let state: ToolCallState;
+    if (hookEvent === 'PreToolUse') {
+      state = status && HOOK_DONE_STATUSES.includes(status) ? 'requested' : 'hook_running';
+    } else if (hookEvent === 'PermissionRequest' || hookEvent === 'Notification') {
+      state = 'awaiting_permission';
+    } else if (hookEvent === 'PostToolUse' || msg.data.type !== 'hook_progress') {
+      // The tool is running, so it was approved
+      state = 'running';
+    } else {
+      return;
+    }
+    if (call.state === 'running' || call.state === state) return;
+    call.state = state;
+    call.updatedAt = at;
+  }
+
+  private closeThread(thread: string, exceptMessageId?: string): void {
+    for (const [id, call] of this.calls) {
+      if (call.thread === thread && call.messageId !== exceptMessageId) this.calls.delete(id);
+    }
+  }
+
+  private needsUser(call: ToolCall): boolean {
+    if (call.state === 'awaiting_permission' || USER_INPUT_TOOLS.includes(call.name)) return true;
+    if (this.permissionMode === 'bypassPermissions') return false;
+    if (this.permissionMode === 'acceptEdits' && EDIT_TOOLS.includes(call.name)) return false;
+    return true;
+  }
+
+  private inGrace(call: ToolCall, now: number): boolean {
+    return call.state === 'requested' && !USER_INPUT_TOOLS.includes(call.name) && now - call.updatedAt < this.graceMs;
+  }
+
+  /**
+   * The oldest call waiting on the user, if any
+   */
+  pending(now: number = Date.now()): PendingHook | undefined {
+    if (now - this.lastActivity > this.staleMs) return undefined;
+    for (const call of this.calls.values()) {
+      if (call.state === 'hook_running' || call.state === 'running') continue;
+      if (!this.needsUser(call) || this.inGrace(call, now)) continue;
+      return {
+        type: HOOK_TYPES[call.name],
+        toolUseId: call.id,
+        toolName: call.name,
+        input: call.input,
+        timestamp: new Date(call.requestedAt)
+      };
+    }
+    return undefined;
+  }
+
+  /**
+   * When `pending()` may next change without new lines (a grace period ending,
+   * or the transcript going stale)
+   */
+  nextChange(now: number = Date.now()): number | undefined {
+    let next: number | undefined;
+    for (const call of this.calls.values()) {
+      if (call.state === 'hook_running' || call.state === 'running' || !this.needsUser(call)) continue;
+      const due = this.inGrace(call, now) ? call.updatedAt + this.graceMs : this.lastActivity + this.staleMs;
+      if (due > now && (next === undefined || due < next)) next = due;
+    }
+    return next;
+  }
+
+  getState(toolUseId: string): ToolCallState | undefined {
+    return this.calls.get(toolUseId)?.state;
+  }
+}
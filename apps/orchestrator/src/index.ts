@@ -3,9 +3,10 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { SessionWatcher } from './session-watcher';
+import { SearchIndex, parseSearchQuery, buildSearchHits } from './search-index';
 import { PluginManager } from './plugin-manager';
 import * as webSession from './web-session';
-import type { Session, SessionSummary, DisplayMessage, DashboardStats, PendingHook, HookAlert } from './types';
+import type { Session, SessionSummary, DashboardStats, PendingHook, HookAlert, BudgetAlert, ResourceAlert } from './types';
 import * as configManager from './config-manager';
 import { logger } from './logger';
 import {
@@ -20,33 +21,282 @@ import {
 } from './error-handler';
 import * as auth from './auth';
 import * as rateLimiter from './rate-limiter';
+import { SubscriptionRegistry } from './subscriptions';
+import { validateLaunchOptions, redactLaunchOptions } from './launch-options';
+import * as sessionPersistence from './session-persistence';
+import { buildUsageReport } from './usage';
+import { toDisplayMessages, buildConversationTree } from './conversation-tree';
+import * as budgets from './budgets';
+import * as launchQueue from './launch-queue';
+import * as resourceLimits from './resource-limits';
+import * as jobs from './jobs';
+import * as tasks from './tasks';
+import * as scheduler from './scheduler';
+import * as worktrees from './worktrees';
+import * as envProfiles from './env-profiles';
+import * as secretStore from './secret-store';
+import { forkSession } from './session-fork';
+import { GitInfoCache, listProjects } from './projects';
+import type { PersistedWebSession } from './session-persistence';
 
 // @ts-ignore - Import HTML as text
 import html from '../dist/ui.html' with { type: 'text' };
 
 const DEFAULT_PORT = 18700;
 const PORT = parseInt(process.env.ORCHESTRATOR_PORT || '') || DEFAULT_PORT;
+// 'auto' resumes web sessions from the previous run on startup; otherwise they are offered to the UI
+const RESTORE_MODE = process.env.ORCHESTRATOR_RESTORE_SESSIONS === 'auto' ? 'auto' : 'offer';
 
 // WebSocket clients
 const wsClients: Set<{ send: (data: string) => void }> = new Set();
 
-// WebSocket client to web session mapping
-const wsToWebSession = new Map<any, string>();
+// WebSocket clients <-> web sessions they follow (many-to-many)
+const webSessionSubscriptions = new SubscriptionRegistry<{ send: (data: string) => void }>();
 
 // Broadcast to specific web session subscribers
 function broadcastToWebSession(sessionId: string, message: any) {
   const msgStr = JSON.stringify({ type: 'web_session', sessionId, data: message });
-  for (const [ws, sid] of wsToWebSession) {
-    if (sid === sessionId) {
-      try {
-        ws.send(msgStr);
-      } catch {
-        wsToWebSession.delete(ws);
-      }
+  for (const ws of webSessionSubscriptions.getSubscribers(sessionId)) {
+    try {
+      ws.send(msgStr);
+    } catch {
+      webSessionSubscriptions.unsubscribeAll(ws);
+    }
+  }
+}
+
+// Web sessions from the previous run that have not been restored (or discarded) yet
+const restorableWebSessions = new Map<string, PersistedWebSession>();
+let shuttingDown = false;
+
+function toPersistedWebSession(session: webSession.WebSession): PersistedWebSession {
+  return {
+    id: session.id,
+    cwd: session.cwd,
+    projectName: session.projectName,
+    createdAt: session.createdAt.toISOString(),
+    lastActivity: session.eventLog[session.eventLog.length - 1]?.timestamp || session.createdAt.toISOString(),
+    // What to pass to --resume next time: claude's own ID once it has reported one
+    resumeSessionId: session.claudeSessionId || session.resumeSessionId,
+    launchOptions: session.launchOptions,
+    budget: session.budget,
+    worktree: session.worktree,
+    envProfile: session.envProfile,
+    lastSeq: session.lastSeq,
+    usage: session.usage.snapshot()
+  };
+}
+
+/**
+ * Sessions for the next run to restore: live ones (finished sessions and job
+ * runs would otherwise be relaunched) and the ones not restored from the last run
+ * @param live Sessions to persist, when they were picked before being stopped
+ */
+function webSessionStoreSnapshot(
+  live: webSession.WebSession[] = webSession.getAllWebSessions().filter(webSession.isWebSessionRestorable)
+): PersistedWebSession[] {
+  return [
+    ...live.map(toPersistedWebSession),
+    ...restorableWebSessions.values()
+  ];
+}
+
+// Debounced write of the web session store
+function saveWebSessionStore() {
+  if (shuttingDown) return;
+  sessionPersistence.scheduleAutoSave(webSessionStoreSnapshot());
+}
+
+// Budget warnings go to every client, like hook alerts, not just subscribers
+function broadcastBudgetAlert(sessionId: string, msg: webSession.WebSessionMessage) {
+  if (!msg.budget) return;
+  const alert: BudgetAlert = {
+    sessionId,
+    sessionName: webSession.getWebSession(sessionId)?.projectName || sessionId,
+    budget: msg.budget,
+    message: msg.content || ''
+  };
+  const message = JSON.stringify({ type: 'budget_alert', data: alert });
+  for (const client of wsClients) {
+    try {
+      client.send(message);
+    } catch {
+      wsClients.delete(client);
+    }
+  }
+}
+
+// Resource limit warnings and reaps go to every client, like budget warnings
+function broadcastResourceAlert(sessionId: string, msg: webSession.WebSessionMessage) {
+  if (!msg.limit) return;
+  const alert: ResourceAlert = {
+    sessionId,
+    sessionName: webSession.getWebSession(sessionId)?.projectName || sessionId,
+    limit: msg.limit,
+    message: msg.content || ''
+  };
+  const message = JSON.stringify({ type: 'resource_alert', data: alert });
+  for (const client of wsClients) {
+    try {
+      client.send(message);
+    } catch {
+      wsClients.delete(client);
     }
   }
 }
 
+function launchQueueSnapshot() {
+  return {
+    queue: webSession.getLaunchQueue(),
+    limits: launchQueue.getConcurrencyLimits(),
+    running: webSession.getRunningSessionCount()
+  };
+}
+
+// The launch queue is shown to every client; it moves whenever a session starts or ends
+function broadcastLaunchQueue() {
+  const message = JSON.stringify({ type: 'launch_queue', data: launchQueueSnapshot() });
+  for (const client of wsClients) {
+    try {
+      client.send(message);
+    } catch {
+      wsClients.delete(client);
+    }
+  }
+}
+
+function jobView(job: jobs.Job) {
+  return { ...job, launchOptions: redactLaunchOptions(job.launchOptions), summary: jobs.summarizeJob(job) };
+}
+
+// A web session as listed by the API, without env override values
+function webSessionView(session: webSession.WebSession) {
+  return {
+    id: session.id,
+    cwd: session.cwd,
+    projectName: session.projectName,
+    status: session.status,
+    launchOptions: redactLaunchOptions(session.launchOptions),
+    budget: session.budget,
+    worktree: session.worktree,
+    envProfile: session.envProfile,
+    budgetLevel: session.budgetLevel,
+    restartCount: session.restartCount,
+    // lastExit.reason 'reaped' (with lastExit.limit) for a child stopped by a resource limit
+    lastExit: session.lastExit,
+    lastActivityAt: session.lastActivityAt.toISOString(),
+    resourceLevel: session.resourceLevel,
+    memoryBytes: session.memoryBytes,
+    usage: session.usage.getUsage()
+  };
+}
+
+// A schedule as returned by the API, without env override values
+function scheduleView(schedule: scheduler.Schedule) {
+  return { ...schedule, launchOptions: redactLaunchOptions(schedule.launchOptions) };
+}
+
+// Job progress goes to every client, like the launch queue
+function broadcastJobUpdate(job: jobs.Job) {
+  const message = JSON.stringify({ type: 'job_update', data: jobView(job) });
+  for (const client of wsClients) {
+    try {
+      client.send(message);
+    } catch {
+      wsClients.delete(client);
+    }
+  }
+}
+
+// Schedules and their recent runs are shown to every client
+function broadcastSchedules() {
+  const message = JSON.stringify({ type: 'schedules_update', data: scheduler.listSchedules().map(scheduleView) });
+  for (const client of wsClients) {
+    try {
+      client.send(message);
+    } catch {
+      wsClients.delete(client);
+    }
+  }
+}
+
+// A task as returned by the API, with where to read its transcript
+function taskView(task: tasks.Task) {
+  return {
+    ...task,
+    launchOptions: redactLaunchOptions(task.launchOptions),
+    transcriptUrl: task.claudeSessionId ? `/api/session/${task.claudeSessionId}` : undefined
+  };
+}
+
+// Messages after which the persisted copy of a session is out of date
+const STORE_CHANGING_MESSAGES: webSession.WebSessionMessage['type'][] = ['status', 'usage', 'budget'];
+
+// Forward a web session's messages to its subscribers and keep the store current
+function handleWebSessionEvent(sessionId: string, msg: webSession.WebSessionMessage) {
+  broadcastToWebSession(sessionId, msg);
+  if (msg.type === 'budget') {
+    broadcastBudgetAlert(sessionId, msg);
+  }
+  if (msg.type === 'limit') {
+    broadcastResourceAlert(sessionId, msg);
+  }
+  if (msg.type === 'status') {
+    broadcastLaunchQueue();
+  }
+  if (STORE_CHANGING_MESSAGES.includes(msg.type)) {
+    saveWebSessionStore();
+  }
+}
+
+/**
+ * Resume web sessions persisted by a previous run
+ * @param ids Sessions to restore (all restorable sessions if omitted)
+ */
+async function restoreWebSessions(ids?: string[]) {
+  const restored: { id: string; cwd: string; projectName: string; status: string; launchOptions: unknown; budget: unknown; worktree: unknown; envProfile?: string; lastSeq: number }[] = [];
+  const failed: { id: string; error: string }[] = [];
+
+  for (const id of ids || [...restorableWebSessions.keys()]) {
+    const persisted = restorableWebSessions.get(id);
+    if (!persisted) {
+      failed.push({ id, error: 'Not a restorable session' });
+      continue;
+    }
+    restorableWebSessions.delete(id);
+
+    if (webSession.getWebSession(id)) {
+      failed.push({ id, error: 'Session is already running' });
+      continue;
+    }
+    if (!fs.existsSync(persisted.cwd)) {
+      failed.push({ id, error: 'Directory no longer exists' });
+      continue;
+    }
+
+    const session = webSession.restoreWebSession(persisted, (msg) => handleWebSessionEvent(session.id, msg));
+    await webSession.launchWebSession(session, persisted.resumeSessionId);
+    restored.push({
+      id: session.id,
+      cwd: session.cwd,
+      projectName: session.projectName,
+      status: session.status,
+      launchOptions: redactLaunchOptions(session.launchOptions),
+      budget: session.budget,
+      worktree: session.worktree,
+      envProfile: session.envProfile,
+      lastSeq: session.lastSeq
+    });
+  }
+
+  logger.info('Restored web sessions', {
+    context: 'WebSession',
+    data: { restored: restored.length, failed: failed.length }
+  });
+  saveWebSessionStore();
+  return { restored, failed };
+}
+
 // Helper to generate preview text from hook input
 function getHookPreview(hook: PendingHook): string {
   const input = hook.input;
@@ -62,6 +312,10 @@ function getHookPreview(hook: PendingHook): string {
   return JSON.stringify(input).slice(0, 100);
 }
 
+// Full-text index over transcripts, fed by the session watcher
+const searchIndex = new SearchIndex();
+const gitInfo = new GitInfoCache();
+
 // Session watcher
 const watcher = new SessionWatcher(
   // onUpdate callback
@@ -101,7 +355,8 @@ const watcher = new SessionWatcher(
         wsClients.delete(client);
       }
     }
-  }
+  },
+  { searchIndex }
 );
 
 // Plugin manager
@@ -118,100 +373,24 @@ if (auth.isAuthEnabled()) {
 }
 
 function sessionToSummary(session: Session): SessionSummary {
-  // Get last message text
-  let lastMessage = '';
-  for (let i = session.messages.length - 1; i >= 0; i--) {
-    const msg = session.messages[i];
-    if ((msg.type === 'user' || msg.type === 'assistant') && msg.message?.content) {
-      for (const content of msg.message.content) {
-        if (content.type === 'text') {
-          lastMessage = content.text.slice(0, 100);
-          break;
-        }
-      }
-      if (lastMessage) break;
-    }
-  }
-
   return {
     id: session.id,
+    projectPath: session.projectPath,
     projectName: session.projectName,
     cwd: session.cwd,
     gitBranch: session.gitBranch,
     lastActivity: session.lastActivity.toISOString(),
     messageCount: session.messageCount,
     status: session.status,
-    lastMessage,
+    lastMessage: session.lastMessage || '',
     pendingHook: session.pendingHook ? {
       type: session.pendingHook.type,
       toolName: session.pendingHook.toolName
-    } : undefined
+    } : undefined,
+    usage: session.usage.getUsage()
   };
 }
 
-function sessionToDisplayMessages(session: Session): DisplayMessage[] {
-  const messages: DisplayMessage[] = [];
-
-  for (const msg of session.messages) {
-    if (msg.type === 'user' && msg.message?.content) {
-      let text = '';
-      for (const content of msg.message.content) {
-        if (content.type === 'text') {
-          text += content.text;
-        }
-      }
-      if (text) {
-        messages.push({
-          id: msg.uuid,
-          role: 'user',
-          content: text,
-          timestamp: msg.timestamp
-        });
-      }
-    } else if (msg.type === 'assistant' && msg.message?.content) {
-      let text = '';
-      let toolUse: DisplayMessage['toolUse'];
-      let toolResult: DisplayMessage['toolResult'];
-
-      for (const content of msg.message.content) {
-        if (content.type === 'text') {
-          text += content.text;
-        } else if (content.type === 'tool_use') {
-          toolUse = {
-            name: content.name,
-            input: content.input
-          };
-        } else if (content.type === 'tool_result') {
-          toolResult = {
-            content: typeof content.content === 'string' ? content.content : JSON.stringify(content.content),
-            isError: content.is_error || false
-          };
-        }
-      }
-
-      if (text || toolUse) {
-        messages.push({
-          id: msg.uuid,
-          role: 'assistant',
-          content: text,
-          timestamp: msg.timestamp,
-          toolUse,
-          toolResult
-        });
-      }
-    } else if (msg.type === 'system') {
-      messages.push({
-        id: msg.uuid,
-        role: 'system',
-        content: 'System message',
-        timestamp: msg.timestamp
-      });
-    }
-  }
-
-  return messages;
-}
-
 // HTTP Server
 const server = Bun.serve({
   port: PORT,
@@ -299,10 +478,19 @@ const server = Bun.serve({
     // Web Session API - Create new session or resume existing
     if (url.pathname === '/api/web-session' && req.method === 'POST') {
       return asyncHandler(async () => {
-        const { cwd, resumeSessionId } = await req.json();
+        const { cwd, resumeSessionId, launchOptions, budget, priority, isolated, envProfile } = await req.json();
 
         // Validate cwd
         const validCwd = requireString(cwd, 'cwd');
+        const validLaunchOptions = validateLaunchOptions(launchOptions);
+        const validBudget = budgets.validateBudgetRule(budget);
+        const validPriority = launchQueue.validatePriority(priority);
+        const validIsolated = isolated === undefined ? false : requireBoolean(isolated, 'isolated');
+        const validEnvProfile = envProfiles.validateEnvProfileSelection(envProfile);
+        if (validIsolated && resumeSessionId) {
+          // claude keeps transcripts per directory, so a resumed session must stay where it was
+          throw new ValidationError('isolated cannot be combined with resumeSessionId');
+        }
 
         // Verify directory exists
         if (!fs.existsSync(validCwd)) {
@@ -312,7 +500,7 @@ const server = Bun.serve({
         // Check if already have an active web session for this resume ID
         if (resumeSessionId) {
           const existing = webSession.getWebSession(resumeSessionId);
-          if (existing && existing.status === 'active') {
+          if (existing && webSession.isWebSessionLive(existing)) {
             logger.info('Resuming existing web session', {
               context: 'WebSession',
               data: { sessionId: existing.id, cwd: validCwd }
@@ -321,20 +509,45 @@ const server = Bun.serve({
               success: true,
               sessionId: existing.id,
               projectName: existing.projectName,
-              resumed: true
+              launchOptions: redactLaunchOptions(existing.launchOptions),
+              budget: existing.budget,
+              worktree: existing.worktree,
+              envProfile: existing.envProfile,
+              resumed: true,
+              lastSeq: existing.lastSeq
             });
           }
         }
 
-        const session = webSession.createWebSession(validCwd, (msg) => {
-          broadcastToWebSession(session.id, msg);
-        }, resumeSessionId);
-
-        await webSession.startWebSession(session, resumeSessionId);
+        // An isolated session works in its own worktree and branch
+        const isolation = validIsolated ? await worktrees.createWorktree(validCwd) : undefined;
+
+        const session = webSession.createWebSession(isolation?.cwd || validCwd, (msg) => {
+          handleWebSessionEvent(session.id, msg);
+        }, resumeSessionId, validLaunchOptions);
+        session.budget = validBudget;
+        session.worktree = isolation?.worktree;
+        session.envProfile = validEnvProfile;
+
+        // Starts now, or waits in the launch queue if a concurrency limit is reached
+        await webSession.launchWebSession(session, resumeSessionId, validPriority);
+        // A persisted copy of this session from the last run is superseded
+        for (const [id, persisted] of restorableWebSessions) {
+          if (id === session.id || (resumeSessionId && persisted.resumeSessionId === resumeSessionId)) {
+            restorableWebSessions.delete(id);
+          }
+        }
+        saveWebSessionStore();
 
         logger.info('Created new web session', {
           context: 'WebSession',
-          data: { sessionId: session.id, cwd: validCwd }
+          data: {
+            sessionId: session.id,
+            cwd: session.cwd,
+            model: validLaunchOptions.model,
+            branch: session.worktree?.branch,
+            envProfile: session.envProfile
+          }
         });
 
         return jsonResponse({
@@ -342,7 +555,14 @@ const server = Bun.serve({
           sessionId: session.id,
           projectName: session.projectName,
           status: session.status,
-          resumed: !!resumeSessionId
+          launchOptions: redactLaunchOptions(session.launchOptions),
+          budget: session.budget,
+          worktree: session.worktree,
+          envProfile: session.envProfile,
+          queuePosition: webSession.getLaunchQueue().find(e => e.sessionId === session.id)?.position,
+          resumed: !!resumeSessionId,
+          // Fresh event log - subscribers should replay it from the start
+          lastSeq: 0
         });
       }, 'WebSession:Create');
     }
@@ -351,15 +571,247 @@ const server = Bun.serve({
     if (url.pathname === '/api/web-sessions') {
       const sessions = webSession.getAllWebSessions();
       return jsonResponse({
-        sessions: sessions.map(s => ({
-          id: s.id,
-          cwd: s.cwd,
-          projectName: s.projectName,
-          status: s.status
+        sessions: sessions.map(webSessionView)
+      });
+    }
+
+    // Launch queue API - Sessions waiting for a free slot, and the limits that hold them
+    if (url.pathname === '/api/launch-queue' && req.method === 'GET') {
+      return jsonResponse(launchQueueSnapshot());
+    }
+
+    // PUT /api/launch-queue/limits - Replace the global and per-project concurrency limits
+    if (url.pathname === '/api/launch-queue/limits' && req.method === 'PUT') {
+      return asyncHandler(async () => {
+        const limits = launchQueue.validateConcurrencyLimits(await req.json());
+        launchQueue.saveConcurrencyLimits(limits);
+        // Raised limits let queued sessions start right away
+        await webSession.startQueuedSessions();
+        broadcastLaunchQueue();
+        return jsonResponse({ success: true, ...launchQueueSnapshot() });
+      }, 'LaunchQueue:Limits');
+    }
+
+    if (url.pathname.startsWith('/api/launch-queue/')) {
+      const sessionId = url.pathname.replace('/api/launch-queue/', '');
+
+      // PATCH /api/launch-queue/:id - Change a queued launch's priority
+      if (req.method === 'PATCH') {
+        return asyncHandler(async () => {
+          const { priority } = await req.json();
+          const validPriority = launchQueue.validatePriority(priority);
+
+          if (!webSession.setLaunchPriority(sessionId, validPriority)) {
+            throw new NotFoundError('Queued launch');
+          }
+          broadcastLaunchQueue();
+          return jsonResponse({ success: true, ...launchQueueSnapshot() });
+        }, 'LaunchQueue:Priority');
+      }
+
+      // DELETE /api/launch-queue/:id - Cancel a queued launch
+      if (req.method === 'DELETE') {
+        const entry = webSession.getLaunchQueue().find(e => e.sessionId === sessionId);
+        if (!entry) {
+          return jsonResponse({ error: 'Queued launch not found' }, { status: 404 });
+        }
+        if (entry.task) {
+          tasks.cancelQueuedTask(sessionId);
+          broadcastLaunchQueue();
+        } else {
+          webSession.stopWebSession(sessionId);
+          saveWebSessionStore();
+        }
+        return jsonResponse({ success: true, ...launchQueueSnapshot() });
+      }
+    }
+
+    // Jobs API - Run one prompt across many repositories
+    if (url.pathname === '/api/jobs') {
+      if (req.method === 'GET') {
+        return jsonResponse({ jobs: jobs.getAllJobs().map(jobView) });
+      }
+
+      if (req.method === 'POST') {
+        return asyncHandler(async () => {
+          const request = jobs.validateJobRequest(await req.json());
+          // Each target is a web session, queued under the concurrency limits
+          const job = await jobs.createJob(request, handleWebSessionEvent, broadcastJobUpdate);
+          saveWebSessionStore();
+          broadcastJobUpdate(job);
+          return jsonResponse({ success: true, job: jobView(job) });
+        }, 'Jobs:Create');
+      }
+    }
+
+    if (url.pathname.startsWith('/api/jobs/')) {
+      const jobId = url.pathname.replace('/api/jobs/', '');
+
+      // GET /api/jobs/:id - A job with its per-target results
+      if (req.method === 'GET') {
+        const job = jobs.getJob(jobId);
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, { status: 404 });
+        }
+        return jsonResponse({ job: jobView(job) });
+      }
+
+      // DELETE /api/jobs/:id - Cancel the targets that haven't finished
+      if (req.method === 'DELETE') {
+        const job = jobs.cancelJob(jobId);
+        if (!job) {
+          return jsonResponse({ error: 'Job not found' }, { status: 404 });
+        }
+        saveWebSessionStore();
+        broadcastJobUpdate(job);
+        return jsonResponse({ success: true, job: jobView(job) });
+      }
+    }
+
+    // Schedules API - Prompts run on a cron schedule
+    if (url.pathname === '/api/schedules') {
+      if (req.method === 'GET') {
+        return jsonResponse({ schedules: scheduler.listSchedules().map(scheduleView) });
+      }
+
+      if (req.method === 'POST') {
+        return asyncHandler(async () => {
+          const schedule = scheduler.createSchedule(scheduler.validateScheduleInput(await req.json()));
+          broadcastSchedules();
+          return jsonResponse({ success: true, schedule: scheduleView(schedule) });
+        }, 'Schedules:Create');
+      }
+    }
+
+    if (url.pathname.startsWith('/api/schedules/')) {
+      const [scheduleId, action] = url.pathname.replace('/api/schedules/', '').split('/');
+
+      // POST /api/schedules/:id/run - Run a schedule now
+      if (action === 'run' && req.method === 'POST') {
+        return asyncHandler(async () => {
+          const schedule = scheduler.getSchedule(scheduleId);
+          if (!schedule) {
+            throw new NotFoundError('Schedule');
+          }
+          const run = await scheduler.runSchedule(schedule);
+          saveWebSessionStore();
+          broadcastSchedules();
+          return jsonResponse({ success: true, run });
+        }, 'Schedules:Run');
+      }
+
+      // PUT /api/schedules/:id - Change a schedule; fields left out keep their values
+      if (!action && req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const existing = scheduler.getSchedule(scheduleId);
+          if (!existing) {
+            throw new NotFoundError('Schedule');
+          }
+          const schedule = scheduler.updateSchedule(scheduleId, scheduler.validateScheduleInput(await req.json(), existing));
+          broadcastSchedules();
+          return jsonResponse({ success: true, schedule: schedule && scheduleView(schedule) });
+        }, 'Schedules:Update');
+      }
+
+      // DELETE /api/schedules/:id
+      if (!action && req.method === 'DELETE') {
+        if (!scheduler.deleteSchedule(scheduleId)) {
+          return jsonResponse({ error: 'Schedule not found' }, { status: 404 });
+        }
+        broadcastSchedules();
+        return jsonResponse({ success: true });
+      }
+    }
+
+    // Worktrees API - A repository's worktrees, with the web sessions running in them
+    if (url.pathname === '/api/worktrees' && req.method === 'GET') {
+      return asyncHandler(async () => {
+        const cwd = requireString(url.searchParams.get('cwd'), 'cwd');
+        const sessions = webSession.getAllWebSessions();
+        const entries = (await worktrees.listWorktrees(cwd)).map(entry => ({
+          ...entry,
+          sessionId: sessions.find(s => s.worktree?.path === entry.path)?.id
+        }));
+        return jsonResponse({ worktrees: entries });
+      }, 'Worktrees:List');
+    }
+
+    // Tasks API - Headless one-shot `claude -p` runs
+    if (url.pathname === '/api/tasks') {
+      if (req.method === 'GET') {
+        return jsonResponse({ tasks: tasks.listTasks().map(taskView) });
+      }
+
+      // POST /api/tasks - Start a task; poll GET /api/tasks/:id for the result
+      if (req.method === 'POST') {
+        return asyncHandler(async () => {
+          const task = tasks.startTask(tasks.validateTaskRequest(await req.json()));
+          if (task.status === 'queued') {
+            broadcastLaunchQueue();
+          }
+          return jsonResponse(
+            { success: true, taskId: task.id, status: task.status, url: `/api/tasks/${task.id}` },
+            { status: 202 }
+          );
+        }, 'Tasks:Create');
+      }
+    }
+
+    // GET /api/tasks/:id?wait=<seconds> - A task, optionally waiting for it to finish
+    if (url.pathname.startsWith('/api/tasks/') && req.method === 'GET') {
+      return asyncHandler(async () => {
+        const taskId = url.pathname.replace('/api/tasks/', '');
+        const wait = tasks.validateWait(url.searchParams.get('wait'));
+        if (wait > 0) {
+          // Keep the connection open past the server's idle timeout
+          server.timeout(req, wait + 10);
+        }
+
+        const task = await tasks.waitForTask(taskId, wait * 1000);
+        if (!task) {
+          throw new NotFoundError('Task');
+        }
+        return jsonResponse({ task: taskView(task) });
+      }, 'Tasks:Get');
+    }
+
+    // Web Session API - Sessions from the previous run that can be restored
+    if (url.pathname === '/api/web-sessions/restorable' && req.method === 'GET') {
+      return jsonResponse({
+        sessions: [...restorableWebSessions.values()].map(s => ({
+          ...s,
+          launchOptions: s.launchOptions && redactLaunchOptions(s.launchOptions)
         }))
       });
     }
 
+    // Web Session API - Recent child exits, kept after their sessions are dropped
+    if (url.pathname === '/api/web-sessions/exits' && req.method === 'GET') {
+      return jsonResponse({ exits: webSession.getExitHistory() });
+    }
+
+    // Web Session API - Restore sessions from the previous run (all if no ids given)
+    if (url.pathname === '/api/web-sessions/restore' && req.method === 'POST') {
+      return asyncHandler(async () => {
+        const { ids } = await req.json().catch(() => ({}));
+        if (ids !== undefined && (!Array.isArray(ids) || ids.some(id => typeof id !== 'string'))) {
+          throw new ValidationError('ids must be an array of session IDs');
+        }
+
+        return jsonResponse({ success: true, ...(await restoreWebSessions(ids)) });
+      }, 'WebSession:Restore');
+    }
+
+    // Web Session API - Discard a session from the previous run
+    if (url.pathname.startsWith('/api/web-sessions/restorable/') && req.method === 'DELETE') {
+      const id = url.pathname.replace('/api/web-sessions/restorable/', '');
+      if (!restorableWebSessions.delete(id)) {
+        return jsonResponse({ error: 'Restorable session not found' }, { status: 404 });
+      }
+      saveWebSessionStore();
+      return jsonResponse({ success: true });
+    }
+
     // Web Session API - Actions
     if (url.pathname.startsWith('/api/web-session/')) {
       const pathParts = url.pathname.replace('/api/web-session/', '').split('/');
@@ -374,23 +826,80 @@ const server = Bun.serve({
 
           const success = await webSession.sendMessage(sessionId, validMessage);
           if (!success) {
-            throw new SessionError('Failed to send message. Session may not be active.');
+            throw new SessionError('Failed to send message. Session is not running.');
           }
 
-          return jsonResponse({ success: true });
+          // Anything still queued is waiting for the session to become ready
+          return jsonResponse({ success: true, queue: webSession.getMessageQueue(sessionId) });
         }, 'WebSession:SendMessage');
       }
 
-      // POST /api/web-session/:id/control - Send control signal (Ctrl+C, Ctrl+O, etc.)
+      // GET /api/web-session/:id/queue - List prompts waiting to be delivered
+      if (action === 'queue' && req.method === 'GET') {
+        const queue = webSession.getMessageQueue(sessionId);
+        if (!queue) {
+          return jsonResponse({ error: 'Web session not found' }, { status: 404 });
+        }
+        return jsonResponse({ queue });
+      }
+
+      // PATCH /api/web-session/:id/queue/:messageId - Edit a queued prompt
+      if (action === 'queue' && pathParts[2] && req.method === 'PATCH') {
+        return asyncHandler(async () => {
+          const { content } = await req.json();
+          const validContent = requireString(content, 'content');
+
+          if (!webSession.updateQueuedMessage(sessionId, pathParts[2], validContent)) {
+            throw new NotFoundError('Queued message');
+          }
+
+          return jsonResponse({ success: true, queue: webSession.getMessageQueue(sessionId) });
+        }, 'WebSession:UpdateQueue');
+      }
+
+      // DELETE /api/web-session/:id/queue/:messageId - Cancel a queued prompt
+      if (action === 'queue' && pathParts[2] && req.method === 'DELETE') {
+        if (!webSession.cancelQueuedMessage(sessionId, pathParts[2])) {
+          return jsonResponse({ error: 'Queued message not found' }, { status: 404 });
+        }
+        return jsonResponse({ success: true, queue: webSession.getMessageQueue(sessionId) });
+      }
+
+      // PUT /api/web-session/:id/budget - Set or clear (budget: null) the session's own budget
+      if (action === 'budget' && req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const { budget } = await req.json();
+          const validBudget = budgets.validateBudgetRule(budget);
+
+          if (!webSession.setWebSessionBudget(sessionId, validBudget)) {
+            throw new NotFoundError('Web session');
+          }
+          saveWebSessionStore();
+
+          const session = webSession.getWebSession(sessionId)!;
+          return jsonResponse({ success: true, budget: session.budget, budgetLevel: session.budgetLevel });
+        }, 'WebSession:Budget');
+      }
+
+      // POST /api/web-session/:id/control - Send a control signal (interrupt, quit, eof, clear) or slash command
       if (action === 'control' && req.method === 'POST') {
         return asyncHandler(async () => {
           const { signal } = await req.json();
-          const success = await webSession.sendControlSignal(sessionId, signal);
-          if (!success) {
-            throw new SessionError('Failed to send control signal');
+          const validSignal = requireString(signal, 'signal');
+
+          const result = await webSession.sendControlSignal(sessionId, validSignal);
+          if (!result) {
+            throw new SessionError('Failed to send control signal. Session is not running.');
+          }
+          if (result.status === 'unsupported') {
+            return jsonResponse({ success: false, error: result.message, result }, { status: 400 });
+          }
+          if (result.status === 'failed') {
+            return jsonResponse({ success: false, error: result.message, result }, { status: 500 });
           }
 
-          return jsonResponse({ success: true });
+          // Control requests are 'pending' here; the final status arrives as a 'control' event
+          return jsonResponse({ success: true, result });
         }, 'WebSession:ControlSignal');
       }
 
@@ -400,6 +909,9 @@ const server = Bun.serve({
           const { toolUseId, approved, feedback } = await req.json();
           const validToolUseId = requireString(toolUseId, 'toolUseId');
           const validApproved = requireBoolean(approved, 'approved');
+          if (feedback !== undefined && feedback !== null && typeof feedback !== 'string') {
+            throw new ValidationError('feedback must be a string');
+          }
 
           const success = await webSession.sendPermissionResponse(sessionId, validToolUseId, validApproved, feedback);
           if (!success) {
@@ -410,14 +922,49 @@ const server = Bun.serve({
         }, 'WebSession:Permission');
       }
 
-      // DELETE /api/web-session/:id - Stop session
+      // GET /api/web-session/:id/worktree - An isolated session's worktree and its uncommitted changes
+      if (action === 'worktree' && req.method === 'GET') {
+        return asyncHandler(async () => {
+          const worktree = webSession.getWebSession(sessionId)?.worktree;
+          if (!worktree) {
+            throw new NotFoundError('Worktree');
+          }
+          return jsonResponse({ worktree, status: await worktrees.getWorktreeStatus(worktree) });
+        }, 'WebSession:Worktree');
+      }
+
+      // DELETE /api/web-session/:id?worktree=keep|merge|delete&force=true - Stop session
+      // An isolated session's worktree is kept unless it is merged back or deleted
       if (req.method === 'DELETE') {
-        const success = webSession.stopWebSession(sessionId);
-        if (success) {
-          return jsonResponse({ success: true });
-        } else {
-          return jsonResponse({ error: 'Session not found' }, { status: 404 });
-        }
+        return asyncHandler(async () => {
+          const session = webSession.getWebSession(sessionId);
+          if (!session) {
+            return jsonResponse({ error: 'Session not found' }, { status: 404 });
+          }
+          const worktreeAction = worktrees.validateWorktreeAction(url.searchParams.get('worktree') ?? undefined);
+          const force = url.searchParams.get('force') === 'true';
+          const worktree = session.worktree;
+          if (!worktree && worktreeAction !== 'keep') {
+            throw new ValidationError('Session has no worktree');
+          }
+          // Checked before stopping, so a refused merge or delete leaves the session running
+          if (worktree) {
+            await worktrees.checkWorktreeAction(worktree, worktreeAction, force);
+          }
+
+          const exited = session.process?.exited;
+          webSession.stopWebSession(sessionId);
+          // Explicitly stopped sessions are not restored on the next run
+          saveWebSessionStore();
+          if (!worktree || worktreeAction === 'keep') {
+            return jsonResponse({ success: true });
+          }
+
+          // Let claude exit before its worktree is merged or removed
+          await Promise.race([exited, Bun.sleep(5000)]);
+          const { mergedInto } = await worktrees.finishWorktree(worktree, worktreeAction, force);
+          return jsonResponse({ success: true, worktree: { action: worktreeAction, mergedInto } });
+        }, 'WebSession:Stop');
       }
 
       // GET /api/web-session/:id - Get session info
@@ -426,11 +973,9 @@ const server = Bun.serve({
         return jsonResponse({ error: 'Web session not found' }, { status: 404 });
       }
       return jsonResponse({
-        id: session.id,
-        cwd: session.cwd,
-        projectName: session.projectName,
-        status: session.status,
-        pendingPermission: session.pendingPermission
+        ...webSessionView(session),
+        pendingPermission: session.pendingPermission,
+        lastSeq: session.lastSeq
       });
     }
 
@@ -438,6 +983,46 @@ const server = Bun.serve({
       const pathParts = url.pathname.replace('/api/session/', '').split('/');
       const sessionId = pathParts[0];
 
+      // POST /api/session/:id/fork - Copy the conversation up to a message into a new transcript and resume it
+      if (pathParts[1] === 'fork' && req.method === 'POST') {
+        return asyncHandler(async () => {
+          const session = watcher.getSession(sessionId);
+          if (!session) {
+            throw new NotFoundError('Session');
+          }
+          const { messageId, launchOptions, budget, priority } = await req.json();
+          const validMessageId = requireString(messageId, 'messageId');
+          const validLaunchOptions = validateLaunchOptions(launchOptions);
+          const validBudget = budgets.validateBudgetRule(budget);
+          const validPriority = launchQueue.validatePriority(priority);
+          if (!session.cwd || !fs.existsSync(session.cwd)) {
+            throw new FileSystemError('Directory does not exist', { cwd: session.cwd });
+          }
+
+          const fork = forkSession(session, await watcher.getMessages(session), validMessageId);
+          const forked = webSession.createWebSession(session.cwd, (msg) => {
+            handleWebSessionEvent(forked.id, msg);
+          }, fork.sessionId, validLaunchOptions);
+          forked.budget = validBudget;
+          await webSession.launchWebSession(forked, fork.sessionId, validPriority);
+          saveWebSessionStore();
+
+          return jsonResponse({
+            success: true,
+            sessionId: forked.id,
+            projectName: forked.projectName,
+            status: forked.status,
+            launchOptions: redactLaunchOptions(forked.launchOptions),
+            budget: forked.budget,
+            queuePosition: webSession.getLaunchQueue().find(e => e.sessionId === forked.id)?.position,
+            forkedFrom: { sessionId, messageId: validMessageId },
+            // The fork's history, before the watcher has picked up its transcript
+            messages: toDisplayMessages(fork.messages),
+            lastSeq: 0
+          });
+        }, 'Session:Fork');
+      }
+
       // DELETE session
       if (req.method === 'DELETE') {
         const success = watcher.deleteSession(sessionId);
@@ -452,16 +1037,146 @@ const server = Bun.serve({
       if (!session) {
         return jsonResponse({ error: 'Session not found' }, { status: 404 });
       }
-      return jsonResponse({
-        session: sessionToSummary(session),
-        messages: sessionToDisplayMessages(session)
-      });
+      return asyncHandler(async () => {
+        // ?view=tree nests subagent runs under the Task call that spawned them
+        const view = url.searchParams.get('view') || 'flat';
+        if (view !== 'flat' && view !== 'tree') {
+          throw new ValidationError('view must be flat or tree');
+        }
+        const messages = await watcher.getMessages(session);
+        return jsonResponse({
+          session: sessionToSummary(session),
+          view,
+          messages: view === 'tree' ? buildConversationTree(messages) : toDisplayMessages(messages)
+        });
+      }, 'Session:Get');
+    }
+
+    // Projects API - Sessions grouped by the directory they were started in
+    if (url.pathname === '/api/projects' && req.method === 'GET') {
+      return asyncHandler(async () => jsonResponse({
+        projects: await listProjects(watcher.getAllSessions(), dir => gitInfo.get(dir))
+      }), 'Projects:List');
     }
 
     if (url.pathname === '/api/stats') {
       return jsonResponse(watcher.getStats());
     }
 
+    // GET /api/search?q= - Full-text search over transcripts (filters: project, branch, from, to, role, tool, limit)
+    if (url.pathname === '/api/search' && req.method === 'GET') {
+      return asyncHandler(async () => {
+        const query = parseSearchQuery(url.searchParams);
+        const getSession = (id: string) => watcher.getSession(id);
+        const { total, lines } = searchIndex.search(query, getSession);
+        const hits = await buildSearchHits(query, lines, getSession, session => watcher.getMessages(session));
+        return jsonResponse({ query: query.q, total, hits });
+      }, 'Search');
+    }
+
+    // Token usage and estimated cost, per project and per day
+    if (url.pathname === '/api/usage') {
+      return jsonResponse(buildUsageReport(watcher.getAllSessions()));
+    }
+
+    // Budget API - Global and per-project limits for web sessions
+    if (url.pathname === '/api/budgets') {
+      if (req.method === 'GET') {
+        return jsonResponse(budgets.getBudgetConfig());
+      }
+      if (req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const config = budgets.validateBudgetConfig(await req.json());
+          budgets.saveBudgetConfig(config);
+          // Running sessions pick up the new limits (and resume if they were raised)
+          webSession.recheckBudgets();
+          return jsonResponse({ success: true, ...config });
+        }, 'Budgets:Update');
+      }
+    }
+
+    // Resource limit API - Idle, wall-clock and memory limits for web session children
+    if (url.pathname === '/api/resource-limits') {
+      if (req.method === 'GET') {
+        return jsonResponse(resourceLimits.getResourceLimitConfig());
+      }
+      if (req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const config = resourceLimits.validateResourceLimitConfig(await req.json());
+          resourceLimits.saveResourceLimitConfig(config);
+          // Lowered limits take effect right away rather than at the next check
+          for (const session of webSession.getAllWebSessions()) {
+            webSession.checkResourceLimits(session);
+          }
+          return jsonResponse({ success: true, ...config });
+        }, 'ResourceLimits:Update');
+      }
+    }
+
+    // Secret store API - Names only; secret values are never returned
+    if (url.pathname === '/api/secrets' && req.method === 'GET') {
+      return jsonResponse(secretStore.getSecretStoreStatus());
+    }
+
+    // POST /api/secrets/unlock - Unlock the store with a passphrase (creates it on first use)
+    if (url.pathname === '/api/secrets/unlock' && req.method === 'POST') {
+      return asyncHandler(async () => {
+        const { passphrase } = await req.json();
+        secretStore.unlockSecretStore(requireString(passphrase, 'passphrase'));
+        return jsonResponse({ success: true, ...secretStore.getSecretStoreStatus() });
+      }, 'Secrets:Unlock');
+    }
+
+    if (url.pathname === '/api/secrets/lock' && req.method === 'POST') {
+      secretStore.lockSecretStore();
+      return jsonResponse({ success: true, ...secretStore.getSecretStoreStatus() });
+    }
+
+    if (url.pathname.startsWith('/api/secrets/')) {
+      const name = decodeURIComponent(url.pathname.replace('/api/secrets/', ''));
+
+      // PUT /api/secrets/:name - Add or replace a secret
+      if (req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const { value } = await req.json();
+          secretStore.setSecret(name, value);
+          return jsonResponse({ success: true, ...secretStore.getSecretStoreStatus() });
+        }, 'Secrets:Set');
+      }
+
+      if (req.method === 'DELETE') {
+        return asyncHandler(async () => {
+          secretStore.deleteSecret(name);
+          return jsonResponse({ success: true, ...secretStore.getSecretStoreStatus() });
+        }, 'Secrets:Delete');
+      }
+    }
+
+    // Environment profile API - Variables and secret references chosen per web session
+    if (url.pathname === '/api/env-profiles' && req.method === 'GET') {
+      return jsonResponse({ profiles: envProfiles.listEnvProfiles() });
+    }
+
+    if (url.pathname.startsWith('/api/env-profiles/')) {
+      const name = decodeURIComponent(url.pathname.replace('/api/env-profiles/', ''));
+
+      // PUT /api/env-profiles/:name - Create or replace a profile
+      if (req.method === 'PUT') {
+        return asyncHandler(async () => {
+          const profile = envProfiles.validateEnvProfile(name, await req.json());
+          envProfiles.saveEnvProfile(profile);
+          return jsonResponse({ success: true, profile });
+        }, 'EnvProfiles:Save');
+      }
+
+      if (req.method === 'DELETE') {
+        return asyncHandler(async () => {
+          envProfiles.deleteEnvProfile(name);
+          return jsonResponse({ success: true });
+        }, 'EnvProfiles:Delete');
+      }
+    }
+
     // Plugin API routes
     if (url.pathname === '/api/plugins') {
       return pluginManager.getInstalledPlugins().then(plugins => jsonResponse({ plugins }));
@@ -687,7 +1402,8 @@ const server = Bun.serve({
         type: 'init',
         data: {
           sessions: sessions.map(sessionToSummary),
-          stats: watcher.getStats()
+          stats: watcher.getStats(),
+          launchQueue: launchQueueSnapshot()
         }
       }));
     },
@@ -696,29 +1412,111 @@ const server = Bun.serve({
       safeWebSocketHandler(() => {
         const data = JSON.parse(message.toString());
         if (data.type === 'subscribe_web_session') {
-          // Subscribe to web session updates
-          wsToWebSession.set(ws, data.sessionId);
+          const sessionId = requireString(data.sessionId, 'sessionId');
+          const session = webSession.getWebSession(sessionId);
+          if (!session) {
+            ws.send(JSON.stringify({
+              type: 'subscription_ack',
+              sessionId,
+              data: { action: 'subscribe', success: false, error: 'Web session not found' }
+            }));
+            return;
+          }
+
+          // Replay anything the client missed before live events start flowing
+          const missed = typeof data.sinceSeq === 'number'
+            ? webSession.getEventsSince(sessionId, data.sinceSeq) || []
+            : [];
+          for (const msg of missed) {
+            ws.send(JSON.stringify({ type: 'web_session', sessionId, data: msg }));
+          }
+
+          webSessionSubscriptions.subscribe(ws as any, sessionId);
+          ws.send(JSON.stringify({
+            type: 'subscription_ack',
+            sessionId,
+            data: {
+              action: 'subscribe',
+              success: true,
+              status: session.status,
+              lastSeq: session.lastSeq,
+              replayed: missed.length
+            }
+          }));
+
           logger.debug('Client subscribed to web session', {
             context: 'WebSocket',
-            data: { sessionId: data.sessionId }
+            data: { sessionId, sinceSeq: data.sinceSeq, replayed: missed.length }
           });
         } else if (data.type === 'unsubscribe_web_session') {
-          wsToWebSession.delete(ws);
+          // Without a session ID, drop every subscription this client holds
+          const sessionIds = typeof data.sessionId === 'string'
+            ? (webSessionSubscriptions.unsubscribe(ws as any, data.sessionId) ? [data.sessionId] : [])
+            : webSessionSubscriptions.unsubscribeAll(ws as any);
+
+          for (const sessionId of sessionIds) {
+            ws.send(JSON.stringify({
+              type: 'subscription_ack',
+              sessionId,
+              data: { action: 'unsubscribe', success: true }
+            }));
+          }
+
           logger.debug('Client unsubscribed from web session', {
-            context: 'WebSocket'
+            context: 'WebSocket',
+            data: { sessionIds }
           });
         }
       }, 'WebSocket:Message');
     },
     close(ws) {
       wsClients.delete(ws as any);
-      wsToWebSession.delete(ws);
+      webSessionSubscriptions.unsubscribeAll(ws as any);
     }
   }
 });
 
-// Start watcher
-watcher.start();
+// Start watcher; the startup scan runs in the background
+watcher.start().catch(err => {
+  logger.error('Failed to start the session watcher', err, { context: 'SessionWatcher' });
+});
+
+// Secrets for environment profiles, if a key file is configured
+const secretsKeyFile = process.env[secretStore.KEY_FILE_ENV];
+if (secretsKeyFile) {
+  try {
+    secretStore.unlockSecretStoreWithKeyFile(secretsKeyFile);
+  } catch (err) {
+    logger.error('Failed to unlock the secret store with its key file', err, { context: 'SecretStore' });
+  }
+}
+
+// Stop web session children that go idle or over their wall-clock or memory limits
+webSession.startResourceMonitor();
+
+// Tasks left running by the last run are marked failed, and old results pruned
+tasks.initTasks();
+
+// Scheduled prompts; runs missed while we were down are handled on the first check
+scheduler.startScheduler({
+  onSessionMessage: handleWebSessionEvent,
+  onJobUpdate: broadcastJobUpdate,
+  onSchedulesChange: broadcastSchedules
+});
+
+// Pick up web sessions from the previous run
+for (const persisted of sessionPersistence.loadSessions()) {
+  restorableWebSessions.set(persisted.id, persisted);
+}
+if (restorableWebSessions.size > 0) {
+  if (RESTORE_MODE === 'auto') {
+    restoreWebSessions().catch(err => {
+      logger.error('Failed to restore web sessions', err, { context: 'WebSession' });
+    });
+  } else {
+    console.log(`${restorableWebSessions.size} web session(s) from the last run can be restored`);
+  }
+}
 
 console.log(`🎭 Claude Orchestrator running at http://localhost:${PORT}`);
 console.log('Watching Claude Code sessions...');
@@ -749,15 +1547,29 @@ if (!process.env.NO_BROWSER) {
 }
 
 // Handle graceful shutdown
-process.on('SIGINT', () => {
+async function shutdown() {
+  if (shuttingDown) {
+    // Second signal: don't wait for children any longer
+    process.exit(1);
+  }
+  shuttingDown = true;
   console.log('\nShutting down...');
-  watcher.stop();
-  server.stop();
-  process.exit(0);
-});
 
-process.on('SIGTERM', () => {
   watcher.stop();
+  scheduler.stopScheduler();
+  webSession.stopResourceMonitor();
   server.stop();
+
+  // Stopped children all finish, so pick the live sessions first; stop them so the
+  // store gets their final state, then write it now
+  const live = webSession.getAllWebSessions().filter(webSession.isWebSessionRestorable);
+  await webSession.shutdownWebSessions();
+  tasks.shutdownTasks();
+  sessionPersistence.clearAutoSaveTimer();
+  sessionPersistence.saveSessions(webSessionStoreSnapshot(live));
+
   process.exit(0);
-});
+}
+
+process.on('SIGINT', shutdown);
+process.on('SIGTERM', shutdown);
@@ -0,0 +1,323 @@
+/**
+ * Fan-out jobs: one prompt run across many repositories
+ *
+ * A job starts a web session per target directory through the launch queue, so
+ * the concurrency limits apply, and gives each the same prompt. When a target's
+ * turn ends its input is closed, claude exits, and the target records the result
+ * text, exit code and cost. Nobody answers permission prompts for a job's
+ * sessions, so a job must skip them or name the tools it may use. Jobs are kept
+ * in memory for the current run.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as webSession from './web-session';
+import type { WebSessionExit, WebSessionMessage } from './web-session';
+import { validateLaunchOptions, type LaunchOptions } from './launch-options';
+import { validateBudgetRule, type BudgetRule } from './budgets';
+import { validatePriority } from './launch-queue';
+import { ValidationError, requireString } from './error-handler';
+import { logger } from './logger';
+
+const log = logger.child('Jobs');
+
+export type JobTargetStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobTarget {
+  cwd: string;
+  projectName: string;
+  // Web session running the prompt, and the claude session (transcript) it produced
+  sessionId?: string;
+  claudeSessionId?: string;
+  status: JobTargetStatus;
+  // Final text of the turn
+  resultText?: string;
+  isError?: boolean;
+  exitCode?: number | null;
+  // Why the target failed
+  error?: string;
+  costUsd: number;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface Job {
+  id: string;
+  name?: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  budget?: BudgetRule;
+  priority: number;
+  createdAt: string;
+  // Set once every target has finished
+  finishedAt?: string;
+  cancelled: boolean;
+  targets: JobTarget[];
+}
+
+export interface JobRequest {
+  name?: string;
+  prompt: string;
+  cwds: string[];
+  launchOptions: LaunchOptions;
+  budget?: BudgetRule;
+  priority: number;
+}
+
+export interface JobSummary {
+  status: 'running' | 'completed' | 'cancelled';
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  costUsd: number;
+}
+
+export const MAX_JOB_TARGETS = 50;
+
+// Finished jobs beyond this are forgotten, oldest first
+const MAX_JOBS = 100;
+
+const jobs = new Map<string, Job>();
+
+/**
+ * Validate launch options for runs nobody is watching, which would otherwise
+ * sit on a permission prompt that never gets answered
+ * @throws ValidationError as validateLaunchOptions, or if neither
+ * bypassPermissions nor any allowedTools are set
+ */
+export function validateUnattendedLaunchOptions(value: unknown): LaunchOptions {
+  const options = validateLaunchOptions(value);
+  if (options.permissionMode !== 'bypassPermissions' && !options.allowedTools?.length) {
+    throw new ValidationError(
+      'Unattended runs cannot answer permission prompts; set permissionMode to bypassPermissions or list allowedTools'
+    );
+  }
+  return options;
+}
+
+/**
+ * Validate a job from an API request
+ * @throws ValidationError if the prompt or targets are missing, a directory doesn't
+ * exist, or the launch options would stop for permission prompts
+ */
+export function validateJobRequest(value: unknown): JobRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Job must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+
+  const prompt = requireString(raw.prompt, 'prompt');
+  if (!prompt.trim()) {
+    throw new ValidationError('prompt must not be empty');
+  }
+  if (raw.name !== undefined && raw.name !== null && typeof raw.name !== 'string') {
+    throw new ValidationError('name must be a string');
+  }
+
+  if (!Array.isArray(raw.cwds) || raw.cwds.length === 0) {
+    throw new ValidationError('cwds must be a non-empty array of directories');
+  }
+  const cwds = [...new Set(raw.cwds.map((cwd, i) => requireString(cwd, `cwds[${i}]`)))];
+  if (cwds.length > MAX_JOB_TARGETS) {
+    throw new ValidationError(`A job can have at most ${MAX_JOB_TARGETS} targets`);
+  }
+  const relative = cwds.filter(cwd => !path.isAbsolute(cwd));
+  if (relative.length > 0) {
+    throw new ValidationError('cwds must be absolute paths', { cwds: relative });
+  }
+  const missing = cwds.filter(cwd => !fs.existsSync(cwd));
+  if (missing.length > 0) {
+    throw new ValidationError('Directories do not exist', { cwds: missing });
+  }
+
+  return {
+    name: typeof raw.name === 'string' && raw.name.trim() ? raw.name.trim() : undefined,
+    prompt,
+    cwds,
+    launchOptions: validateUnattendedLaunchOptions(raw.launchOptions),
+    budget: validateBudgetRule(raw.budget),
+    priority: validatePriority(raw.priority)
+  };
+}
+
+export function isTargetFinished(target: JobTarget): boolean {
+  return target.status === 'succeeded' || target.status === 'failed' || target.status === 'cancelled';
+}
+
+/**
+ * Update a target from a message of its web session
+ * @param lastExit How the session's claude process exited, once it has
+ * @returns Whether the target changed
+ */
+export function applySessionEvent(target: JobTarget, msg: WebSessionMessage, lastExit?: WebSessionExit): boolean {
+  if (isTargetFinished(target)) return false;
+
+  switch (msg.type) {
+    case 'status':
+      if (msg.status === 'started' && target.status === 'queued') {
+        target.status = 'running';
+        target.startedAt = msg.timestamp || new Date().toISOString();
+        return true;
+      }
+      if (msg.status === 'completed' || msg.status === 'error') {
+        finishTarget(target, msg, lastExit);
+        return true;
+      }
+      return false;
+
+    case 'result':
+      if (!msg.result) return false;
+      target.resultText = msg.result.text;
+      target.isError = msg.result.isError;
+      return true;
+
+    case 'usage':
+      if (!msg.usage) return false;
+      target.costUsd = msg.usage.costUsd;
+      return true;
+
+    default:
+      return false;
+  }
+}
+
+function finishTarget(target: JobTarget, msg: WebSessionMessage, lastExit?: WebSessionExit): void {
+  target.finishedAt = msg.timestamp || new Date().toISOString();
+  target.exitCode = lastExit?.exitCode ?? null;
+
+  const hasResult = target.resultText !== undefined;
+  if (msg.status === 'completed' && hasResult && !target.isError) {
+    target.status = 'succeeded';
+  } else if (!hasResult && (msg.reason === 'cancelled' || msg.reason === 'user_stop')) {
+    target.status = 'cancelled';
+  } else {
+    target.status = 'failed';
+    target.error = target.isError
+      ? target.resultText
+      : msg.content || 'claude exited without a result';
+  }
+}
+
+/**
+ * Count targets by status and total their cost
+ */
+export function summarizeJob(job: Job): JobSummary {
+  const count = (status: JobTargetStatus) => job.targets.filter(t => t.status === status).length;
+  const done = job.targets.every(isTargetFinished);
+  return {
+    status: !done ? 'running' : job.cancelled ? 'cancelled' : 'completed',
+    total: job.targets.length,
+    queued: count('queued'),
+    running: count('running'),
+    succeeded: count('succeeded'),
+    failed: count('failed'),
+    cancelled: count('cancelled'),
+    costUsd: job.targets.reduce((sum, t) => sum + t.costUsd, 0)
+  };
+}
+
+/**
+ * Start a job: one web session per target, each queued for launch with the prompt
+ * @param onSessionMessage Receives every message of the job's web sessions
+ * @param onJobUpdate Called whenever a target changes
+ */
+export async function createJob(
+  request: JobRequest,
+  onSessionMessage: (sessionId: string, msg: WebSessionMessage) => void,
+  onJobUpdate: (job: Job) => void
+): Promise<Job> {
+  const job: Job = {
+    id: crypto.randomUUID(),
+    name: request.name,
+    prompt: request.prompt,
+    launchOptions: request.launchOptions,
+    budget: request.budget,
+    priority: request.priority,
+    createdAt: new Date().toISOString(),
+    cancelled: false,
+    targets: request.cwds.map(cwd => ({
+      cwd,
+      projectName: path.basename(cwd),
+      status: 'queued',
+      costUsd: 0
+    }))
+  };
+  jobs.set(job.id, job);
+  pruneJobs();
+
+  log.info('Created job', { data: { jobId: job.id, targets: job.targets.length } });
+
+  for (const target of job.targets) {
+    const session = webSession.createWebSession(target.cwd, (msg) => {
+      onSessionMessage(session.id, msg);
+
+      // One prompt per target: closing input lets claude exit once the turn is done
+      if (msg.type === 'result' && target.status === 'running') {
+        void webSession.sendControlSignal(session.id, 'eof');
+      }
+      target.claudeSessionId = session.claudeSessionId || target.claudeSessionId;
+      if (applySessionEvent(target, msg, session.lastExit)) {
+        finishJobIfDone(job);
+        onJobUpdate(job);
+      }
+    }, undefined, request.launchOptions);
+    session.budget = request.budget;
+    session.jobId = job.id;
+    target.sessionId = session.id;
+
+    // Held in the session's queue until claude is up
+    await webSession.sendMessage(session.id, request.prompt);
+    await webSession.launchWebSession(session, undefined, request.priority);
+  }
+
+  return job;
+}
+
+function finishJobIfDone(job: Job): void {
+  if (job.finishedAt || !job.targets.every(isTargetFinished)) return;
+  job.finishedAt = new Date().toISOString();
+  const summary = summarizeJob(job);
+  log.info('Job finished', {
+    data: { jobId: job.id, succeeded: summary.succeeded, failed: summary.failed, cancelled: summary.cancelled }
+  });
+}
+
+/**
+ * Stop every target that hasn't finished; queued launches are dropped
+ * @returns undefined if the job doesn't exist
+ */
+export function cancelJob(jobId: string): Job | undefined {
+  const job = jobs.get(jobId);
+  if (!job) return undefined;
+
+  job.cancelled = true;
+  for (const target of job.targets) {
+    if (!isTargetFinished(target) && target.sessionId) {
+      webSession.stopWebSession(target.sessionId);
+    }
+  }
+  return job;
+}
+
+function pruneJobs(): void {
+  for (const [id, job] of jobs) {
+    if (jobs.size <= MAX_JOBS) break;
+    if (job.finishedAt) {
+      jobs.delete(id);
+    }
+  }
+}
+
+export function getJob(jobId: string): Job | undefined {
+  return jobs.get(jobId);
+}
+
+/**
+ * Get all jobs, newest first
+ */
+export function getAllJobs(): Job[] {
+  return [...jobs.values()].reverse();
+}
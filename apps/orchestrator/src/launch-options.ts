@@ -0,0 +1,196 @@
+/**
+ * Launch options for web sessions
+ *
+ * Validates the launch profile sent by clients and maps it onto claude CLI arguments.
+ * Launch options are saved and listed in plain text, so env overrides must not
+ * hold credentials (those go in an environment profile, from the secret store)
+ * and their values are left out of API responses.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ValidationError } from './error-handler';
+
+export const PERMISSION_MODES = ['default', 'acceptEdits', 'bypassPermissions', 'plan'] as const;
+
+export type PermissionMode = typeof PERMISSION_MODES[number];
+
+export interface LaunchOptions {
+  model?: string;
+  permissionMode?: PermissionMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  appendSystemPrompt?: string;
+  maxTurns?: number;
+  addDirs?: string[];
+  env?: Record<string, string>;
+}
+
+const LAUNCH_OPTION_KEYS = new Set([
+  'model',
+  'permissionMode',
+  'allowedTools',
+  'disallowedTools',
+  'appendSystemPrompt',
+  'maxTurns',
+  'addDirs',
+  'env'
+]);
+
+const MODEL_PATTERN = /^[A-Za-z0-9._:\-\[\]]+$/;
+export const ENV_NAME_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+// Variable names that look like they hold a credential
+const SECRET_ENV_NAME_PATTERN = /(^|_)(KEY|TOKEN|SECRET|PASSWORD|PASSWD|CREDENTIALS?|AUTH)(_|$)/i;
+// Stands in for env override values in API responses
+export const REDACTED_ENV_VALUE = '[hidden]';
+const MAX_TURNS_LIMIT = 1000;
+
+function validateStringList(value: unknown, fieldName: string): string[] {
+  if (!Array.isArray(value) || value.some(v => typeof v !== 'string' || v.trim().length === 0)) {
+    throw new ValidationError(`${fieldName} must be an array of non-empty strings`);
+  }
+  return value.map(v => v.trim());
+}
+
+/**
+ * Validate a launch profile from an API request
+ * @param value Raw launchOptions value (undefined/null means no options)
+ * @returns Normalized launch options
+ * @throws ValidationError if any field is invalid
+ */
+export function validateLaunchOptions(value: unknown): LaunchOptions {
+  if (value === undefined || value === null) {
+    return {};
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError('launchOptions must be an object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(key => !LAUNCH_OPTION_KEYS.has(key));
+  if (unknownKeys.length > 0) {
+    throw new ValidationError('Unknown launch options', { keys: unknownKeys });
+  }
+
+  const options: LaunchOptions = {};
+
+  if (raw.model !== undefined) {
+    if (typeof raw.model !== 'string' || !MODEL_PATTERN.test(raw.model)) {
+      throw new ValidationError('model must be a model name or alias');
+    }
+    options.model = raw.model;
+  }
+
+  if (raw.permissionMode !== undefined) {
+    if (!PERMISSION_MODES.includes(raw.permissionMode as PermissionMode)) {
+      throw new ValidationError(`permissionMode must be one of: ${PERMISSION_MODES.join(', ')}`);
+    }
+    options.permissionMode = raw.permissionMode as PermissionMode;
+  }
+
+  if (raw.allowedTools !== undefined) {
+    options.allowedTools = validateStringList(raw.allowedTools, 'allowedTools');
+  }
+
+  if (raw.disallowedTools !== undefined) {
+    options.disallowedTools = validateStringList(raw.disallowedTools, 'disallowedTools');
+  }
+
+  if (raw.appendSystemPrompt !== undefined) {
+    if (typeof raw.appendSystemPrompt !== 'string') {
+      throw new ValidationError('appendSystemPrompt must be a string');
+    }
+    if (raw.appendSystemPrompt.trim()) {
+      options.appendSystemPrompt = raw.appendSystemPrompt;
+    }
+  }
+
+  if (raw.maxTurns !== undefined) {
+    const maxTurns = raw.maxTurns;
+    if (typeof maxTurns !== 'number' || !Number.isInteger(maxTurns) || maxTurns < 1 || maxTurns > MAX_TURNS_LIMIT) {
+      throw new ValidationError(`maxTurns must be an integer between 1 and ${MAX_TURNS_LIMIT}`);
+    }
+    options.maxTurns = maxTurns;
+  }
+
+  if (raw.addDirs !== undefined) {
+    const dirs = validateStringList(raw.addDirs, 'addDirs');
+    for (const dir of dirs) {
+      if (!path.isAbsolute(dir)) {
+        throw new ValidationError('addDirs entries must be absolute paths', { dir });
+      }
+      if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+        throw new ValidationError('addDirs entry is not a directory', { dir });
+      }
+    }
+    options.addDirs = dirs;
+  }
+
+  if (raw.env !== undefined) {
+    if (typeof raw.env !== 'object' || raw.env === null || Array.isArray(raw.env)) {
+      throw new ValidationError('env must be an object of string values');
+    }
+    const env: Record<string, string> = {};
+    for (const [name, envValue] of Object.entries(raw.env as Record<string, unknown>)) {
+      if (!ENV_NAME_PATTERN.test(name)) {
+        throw new ValidationError('env contains an invalid variable name', { name });
+      }
+      if (SECRET_ENV_NAME_PATTERN.test(name)) {
+        throw new ValidationError(
+          'env overrides are stored in plain text; put credentials in the secret store and pass them with an environment profile',
+          { name }
+        );
+      }
+      if (typeof envValue !== 'string') {
+        throw new ValidationError('env values must be strings', { name });
+      }
+      env[name] = envValue;
+    }
+    options.env = env;
+  }
+
+  return options;
+}
+
+/**
+ * Launch options as returned by the API: env overrides by name, without their values
+ */
+export function redactLaunchOptions(options: LaunchOptions): LaunchOptions {
+  if (!options.env) return options;
+  return {
+    ...options,
+    env: Object.fromEntries(Object.keys(options.env).map(name => [name, REDACTED_ENV_VALUE]))
+  };
+}
+
+/**
+ * Map launch options onto claude CLI arguments
+ * (env overrides are applied to the child environment, not the command line)
+ */
+export function buildLaunchArgs(options: LaunchOptions): string[] {
+  const args: string[] = [];
+
+  if (options.model) {
+    args.push('--model', options.model);
+  }
+  if (options.permissionMode) {
+    args.push('--permission-mode', options.permissionMode);
+  }
+  if (options.allowedTools?.length) {
+    args.push('--allowedTools', ...options.allowedTools);
+  }
+  if (options.disallowedTools?.length) {
+    args.push('--disallowedTools', ...options.disallowedTools);
+  }
+  if (options.appendSystemPrompt) {
+    args.push('--append-system-prompt', options.appendSystemPrompt);
+  }
+  if (options.maxTurns) {
+    args.push('--max-turns', String(options.maxTurns));
+  }
+  if (options.addDirs?.length) {
+    args.push('--add-dir', ...options.addDirs);
+  }
+
+  return args;
+}
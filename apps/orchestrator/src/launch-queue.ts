@@ -0,0 +1,189 @@
+/**
+ * Concurrency limits and the launch queue for web sessions
+ *
+ * Caps how many claude children run at once, overall and per project; headless
+ * tasks take slots the same way. A session launched while a limit is reached
+ * waits in the queue (status 'queued') until a running one ends. Higher priority
+ * launches go first, then first come first served. Limits are stored in
+ * ~/.claude/orchestrator/concurrency.json.
+ */
+
+import * as path from 'node:path';
+import { ValidationError } from './error-handler';
+import { LimitConfigStore } from './limit-rules';
+import { logger } from './logger';
+
+const log = logger.child('LaunchQueue');
+
+export interface ConcurrencyLimits {
+  // Running web sessions and tasks overall; unlimited if unset
+  maxSessions?: number;
+  // Project path -> running web sessions and tasks in that project
+  projects: Record<string, number>;
+}
+
+export interface QueuedLaunch {
+  sessionId: string;
+  // Project directory the per-project limit is counted against
+  cwd: string;
+  projectName: string;
+  priority: number;
+  queuedAt: string;
+  // Passed to --resume when the session starts
+  resumeSessionId?: string;
+  // A headless task rather than a web session; sessionId is then the task ID
+  task?: boolean;
+}
+
+export const DEFAULT_PRIORITY = 0;
+export const MAX_PRIORITY = 100;
+
+const store = new LimitConfigStore<ConcurrencyLimits>('concurrency.json', 'concurrency limits', validateConcurrencyLimits, log);
+
+function validateLimit(value: unknown, fieldName: string): number {
+  if (typeof value !== 'number' || !Number.isInteger(value) || value < 1) {
+    throw new ValidationError(`${fieldName} must be a positive integer`);
+  }
+  return value;
+}
+
+/**
+ * Validate concurrency limits from an API request
+ * @throws ValidationError if a limit is not a positive integer
+ */
+export function validateConcurrencyLimits(value: unknown): ConcurrencyLimits {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Concurrency limits must be an object');
+  }
+
+  const raw = value as Record<string, unknown>;
+  const limits: ConcurrencyLimits = { projects: {} };
+  if (raw.maxSessions !== undefined && raw.maxSessions !== null) {
+    limits.maxSessions = validateLimit(raw.maxSessions, 'maxSessions');
+  }
+
+  if (raw.projects !== undefined && raw.projects !== null) {
+    if (typeof raw.projects !== 'object' || Array.isArray(raw.projects)) {
+      throw new ValidationError('projects must be an object keyed by project path');
+    }
+    for (const [projectPath, limit] of Object.entries(raw.projects)) {
+      if (!path.isAbsolute(projectPath)) {
+        throw new ValidationError('projects keys must be absolute paths', { path: projectPath });
+      }
+      limits.projects[projectPath] = validateLimit(limit, `projects[${projectPath}]`);
+    }
+  }
+
+  return limits;
+}
+
+/**
+ * Validate a launch priority (an integer; higher launches first)
+ * @throws ValidationError if out of range
+ */
+export function validatePriority(value: unknown): number {
+  if (value === undefined || value === null) {
+    return DEFAULT_PRIORITY;
+  }
+  if (typeof value !== 'number' || !Number.isInteger(value) || Math.abs(value) > MAX_PRIORITY) {
+    throw new ValidationError(`priority must be an integer between -${MAX_PRIORITY} and ${MAX_PRIORITY}`);
+  }
+  return value;
+}
+
+/**
+ * Whether one more session can start in a project
+ * @param running Working directories of the sessions already running
+ */
+export function hasCapacity(limits: ConcurrencyLimits, running: string[], cwd: string): boolean {
+  if (limits.maxSessions !== undefined && running.length >= limits.maxSessions) {
+    return false;
+  }
+  const projectLimit = limits.projects[cwd];
+  return projectLimit === undefined || running.filter(r => r === cwd).length < projectLimit;
+}
+
+/**
+ * Launches waiting for a free slot, highest priority first
+ */
+export class LaunchQueue {
+  private entries: QueuedLaunch[] = [];
+
+  add(entry: QueuedLaunch): void {
+    this.entries.push(entry);
+    this.sort();
+  }
+
+  remove(sessionId: string): QueuedLaunch | undefined {
+    const index = this.entries.findIndex(e => e.sessionId === sessionId);
+    if (index === -1) return undefined;
+    return this.entries.splice(index, 1)[0];
+  }
+
+  setPriority(sessionId: string, priority: number): boolean {
+    const entry = this.entries.find(e => e.sessionId === sessionId);
+    if (!entry) return false;
+    entry.priority = priority;
+    this.sort();
+    return true;
+  }
+
+  has(sessionId: string): boolean {
+    return this.entries.some(e => e.sessionId === sessionId);
+  }
+
+  // 1-based place in line, or undefined if not queued
+  position(sessionId: string): number | undefined {
+    const index = this.entries.findIndex(e => e.sessionId === sessionId);
+    return index === -1 ? undefined : index + 1;
+  }
+
+  list(): QueuedLaunch[] {
+    return this.entries.map(e => ({ ...e }));
+  }
+
+  /**
+   * Remove and return the launches that fit under the limits, in order. A launch
+   * held back by its project's limit doesn't hold up other projects.
+   * @param running Working directories of the sessions already running
+   */
+  takeLaunchable(limits: ConcurrencyLimits, running: string[]): QueuedLaunch[] {
+    const occupied = [...running];
+    const launchable: QueuedLaunch[] = [];
+
+    for (const entry of [...this.entries]) {
+      if (limits.maxSessions !== undefined && occupied.length >= limits.maxSessions) break;
+      if (!hasCapacity(limits, occupied, entry.cwd)) continue;
+      this.remove(entry.sessionId);
+      occupied.push(entry.cwd);
+      launchable.push(entry);
+    }
+    return launchable;
+  }
+
+  // Stable, so equal priorities keep their arrival order
+  private sort(): void {
+    this.entries.sort((a, b) => b.priority - a.priority);
+  }
+}
+
+/**
+ * Get the concurrency limits, loading them from disk on first use
+ */
+export function getConcurrencyLimits(): ConcurrencyLimits {
+  return store.get();
+}
+
+/**
+ * Use limits for this run without writing them to disk (useful for testing)
+ */
+export function setConcurrencyLimits(limits: ConcurrencyLimits): void {
+  store.set(limits);
+}
+
+/**
+ * Replace the concurrency limits and write them to disk
+ */
+export function saveConcurrencyLimits(limits: ConcurrencyLimits): void {
+  store.save(limits);
+}
@@ -0,0 +1,224 @@
+/**
+ * Shared pieces of the budget and resource limit modules
+ *
+ * A rule caps several metrics at once and warns at a fraction of each limit;
+ * the metric furthest along decides the level. Rules are set globally and per
+ * project (keyed by project path) and stored as JSON in ~/.claude/orchestrator.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ValidationError } from './error-handler';
+import type { logger } from './logger';
+import { STORAGE_DIR } from './session-persistence';
+
+export type LimitLevel = 'ok' | 'warn' | 'exceeded';
+
+export interface LimitConfig<R> {
+  global?: R;
+  // Project path -> rule
+  projects: Record<string, R>;
+}
+
+export interface LimitStatus<M extends string> {
+  level: LimitLevel;
+  // The limit closest to (or furthest past) its line; unset when no rule applies
+  metric?: M;
+  used?: number;
+  limit?: number;
+}
+
+export interface LimitCheck<M extends string> {
+  metric: M;
+  // Unset where it can't be measured
+  used?: number;
+  limit?: number;
+}
+
+export const DEFAULT_WARN_AT = 0.8;
+
+const LEVEL_ORDER: Record<LimitLevel, number> = { ok: 0, warn: 1, exceeded: 2 };
+
+export function validatePositive(value: unknown, fieldName: string, integer: boolean = false): number {
+  if (typeof value !== 'number' || !Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    throw new ValidationError(`${fieldName} must be a positive ${integer ? 'integer' : 'number'}`);
+  }
+  return value;
+}
+
+/**
+ * Check that a raw rule is an object with only known fields
+ * @returns The rule's fields, or undefined for no rule (undefined/null)
+ * @throws ValidationError if it isn't an object or has unknown fields
+ */
+export function validateRuleFields(value: unknown, fieldName: string, keys: Set<string>): Record<string, unknown> | undefined {
+  if (value === undefined || value === null) {
+    return undefined;
+  }
+  if (typeof value !== 'object' || Array.isArray(value)) {
+    throw new ValidationError(`${fieldName} must be an object`);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const unknownKeys = Object.keys(raw).filter(key => !keys.has(key));
+  if (unknownKeys.length > 0) {
+    throw new ValidationError(`Unknown ${fieldName} fields`, { keys: unknownKeys });
+  }
+  return raw;
+}
+
+/**
+ * Validate a rule's warn line
+ * @returns The fraction, or undefined if not set
+ */
+export function validateWarnAt(value: unknown, fieldName: string): number | undefined {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'number' || !(value > 0 && value < 1)) {
+    throw new ValidationError(`${fieldName}.warnAt must be a fraction between 0 and 1`);
+  }
+  return value;
+}
+
+/**
+ * Validate a global rule and per-project rules from an API request
+ * @param description What the configuration is, for error messages
+ * @param validateRule Validates one rule; returns undefined for none
+ * @throws ValidationError if any rule is invalid or a project key isn't an absolute path
+ */
+export function validateLimitConfig<R>(
+  value: unknown,
+  description: string,
+  validateRule: (value: unknown, fieldName: string) => R | undefined
+): LimitConfig<R> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError(`${description} must be an object`);
+  }
+
+  const raw = value as Record<string, unknown>;
+  const config: LimitConfig<R> = { projects: {} };
+  config.global = validateRule(raw.global, 'global');
+
+  if (raw.projects !== undefined && raw.projects !== null) {
+    if (typeof raw.projects !== 'object' || Array.isArray(raw.projects)) {
+      throw new ValidationError('projects must be an object keyed by project path');
+    }
+    for (const [projectPath, rule] of Object.entries(raw.projects)) {
+      if (!path.isAbsolute(projectPath)) {
+        throw new ValidationError('projects keys must be absolute paths', { path: projectPath });
+      }
+      const validated = validateRule(rule, `projects[${projectPath}]`);
+      if (validated) {
+        config.projects[projectPath] = validated;
+      }
+    }
+  }
+
+  return config;
+}
+
+/**
+ * Compare what was used against each limit. When several limits are set, the
+ * one furthest along decides the level; unmeasured metrics are skipped.
+ */
+export function evaluateLimits<M extends string>(checks: LimitCheck<M>[], warnAt: number = DEFAULT_WARN_AT): LimitStatus<M> {
+  let worst: { level: LimitLevel; metric: M; used: number; limit: number; ratio: number } | undefined;
+  for (const { metric, used, limit } of checks) {
+    if (limit === undefined || used === undefined) continue;
+    const ratio = used / limit;
+    const level: LimitLevel = ratio >= 1 ? 'exceeded' : ratio >= warnAt ? 'warn' : 'ok';
+    if (!worst || ratio > worst.ratio) {
+      worst = { level, metric, used, limit, ratio };
+    }
+  }
+
+  if (!worst) return { level: 'ok' };
+  return { level: worst.level, metric: worst.metric, used: worst.used, limit: worst.limit };
+}
+
+/**
+ * The most severe of several statuses: highest level, then furthest along
+ */
+export function mostSevere<M extends string>(statuses: LimitStatus<M>[]): LimitStatus<M> {
+  const ratio = (status: LimitStatus<M>) => status.used !== undefined && status.limit ? status.used / status.limit : 0;
+  let worst: LimitStatus<M> = { level: 'ok' };
+  for (const status of statuses) {
+    if (isWorseThan(status, worst.level) || (status.level === worst.level && ratio(status) > ratio(worst))) {
+      worst = status;
+    }
+  }
+  return worst;
+}
+
+/**
+ * Whether a status is strictly more severe than another level
+ */
+export function isWorseThan(status: { level: LimitLevel }, level: LimitLevel): boolean {
+  return LEVEL_ORDER[status.level] > LEVEL_ORDER[level];
+}
+
+// What every stored limit configuration has: its per-project entries
+export interface ProjectLimitConfig {
+  projects: Record<string, unknown>;
+}
+
+/**
+ * A limit configuration file, loaded on first use and cached after that
+ */
+export class LimitConfigStore<C extends ProjectLimitConfig> {
+  private cached: C | null = null;
+
+  /**
+   * @param fileName File in ~/.claude/orchestrator (or in storageDir)
+   * @param description What the configuration is, for log messages
+   */
+  constructor(
+    private readonly fileName: string,
+    private readonly description: string,
+    private readonly validate: (value: unknown) => C,
+    private readonly log: typeof logger,
+    private readonly storageDir: string = STORAGE_DIR
+  ) {}
+
+  private get file(): string {
+    return path.join(this.storageDir, this.fileName);
+  }
+
+  /**
+   * Get the global and per-project rules, loading them from disk on first use
+   */
+  get(): C {
+    if (this.cached) return this.cached;
+
+    // Validating an empty object gives the configuration with no rules
+    this.cached = this.validate({});
+    try {
+      if (fs.existsSync(this.file)) {
+        this.cached = this.validate(JSON.parse(fs.readFileSync(this.file, 'utf-8')));
+      }
+    } catch (err) {
+      this.log.error(`Failed to load ${this.description}, ignoring the file`, err, { data: { path: this.file } });
+    }
+    return this.cached;
+  }
+
+  /**
+   * Use rules for this run without writing them to disk (useful for testing)
+   */
+  set(config: C): void {
+    this.cached = config;
+  }
+
+  /**
+   * Replace the global and per-project rules and write them to disk
+   */
+  save(config: C): void {
+    this.set(config);
+    if (!fs.existsSync(this.storageDir)) {
+      fs.mkdirSync(this.storageDir, { recursive: true });
+    }
+    fs.writeFileSync(this.file, JSON.stringify(config, null, 2), 'utf-8');
+    this.log.info(`Saved ${this.description}`, {
+      data: { projects: Object.keys(config.projects).length }
+    });
+  }
+}
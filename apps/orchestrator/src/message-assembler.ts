@@ -0,0 +1,295 @@
+/**
+ * Assembles Claude output into display messages
+ *
+ * Live sessions stream a message in pieces: `content_block_start` / `_delta` /
+ * `_stop` events (wrapped in `stream_event` with --include-partial-messages),
+ * then the full `assistant` event for each block, and later a `user` event with
+ * the tool results. Transcripts record the same assistant and user lines. This
+ * folds either source into one DisplayMessage per content block, keyed by API
+ * message ID and block index, with each tool result attached to its tool use.
+ */
+
+import type { DisplayMessage } from './types';
+
+export type AssemblerUpdate =
+  // New or changed message; replaces any earlier message with the same ID
+  | { type: 'message'; message: DisplayMessage }
+  // Text appended to a streaming message
+  | { type: 'message_delta'; messageId: string; content: string };
+
+interface BlockState {
+  // Display message ID per content block index
+  itemIds: (string | undefined)[];
+  // Blocks already confirmed by full assistant events (one event per block)
+  confirmed: number;
+  // Tool input JSON received so far, per block index
+  partialJson: Map<number, string>;
+}
+
+/**
+ * Flatten tool result content, which is either a string or a list of content blocks
+ */
+export function toolResultText(content: unknown): string {
+  if (typeof content === 'string') return content;
+  if (Array.isArray(content)) {
+    return content
+      .filter((block: any) => block?.type === 'text')
+      .map((block: any) => block.text)
+      .join('\n');
+  }
+  return content === undefined || content === null ? '' : JSON.stringify(content);
+}
+
+export class MessageAssembler {
+  private items: Map<string, DisplayMessage> = new Map();
+  private blocks: Map<string, BlockState> = new Map();
+  // Tool use ID -> display message ID, for pairing results
+  private toolUses: Map<string, string> = new Map();
+  private currentMessageId?: string;
+  // Whether the current turn has produced assistant text (the result repeats it)
+  private turnHasText = false;
+
+  /**
+   * @param maxMessages Messages to keep; older ones are forgotten and can no longer be
+   *   updated. Unbounded by default.
+   */
+  constructor(private maxMessages: number = Infinity) {}
+
+  /**
+   * Apply one stream-json event or transcript line
+   * @returns The display messages it created or changed
+   */
+  apply(event: any): AssemblerUpdate[] {
+    switch (event?.type) {
+      case 'stream_event':
+        return this.applyStreamEvent(event.event);
+      case 'message_start':
+      case 'content_block_start':
+      case 'content_block_delta':
+      case 'content_block_stop':
+        return this.applyStreamEvent(event);
+      case 'assistant':
+        return this.applyAssistant(event);
+      case 'user':
+        return this.applyUser(event);
+      case 'result':
+        return this.applyResult(event);
+      default:
+        return [];
+    }
+  }
+
+  /**
+   * Append a message that doesn't come from claude's output, e.g. a prompt we sent
+   */
+  add(message: DisplayMessage): AssemblerUpdate {
+    if (message.role === 'user') {
+      this.turnHasText = false;
+    }
+    return this.upsert(message);
+  }
+
+  getMessages(): DisplayMessage[] {
+    return [...this.items.values()].map(item => ({ ...item }));
+  }
+
+  private applyStreamEvent(event: any): AssemblerUpdate[] {
+    switch (event?.type) {
+      case 'message_start':
+        this.currentMessageId = event.message?.id;
+        return [];
+
+      case 'content_block_start': {
+        const block = event.content_block;
+        if (!this.currentMessageId || (block?.type !== 'text' && block?.type !== 'tool_use')) {
+          return [];
+        }
+        const id = `${this.currentMessageId}:${event.index}`;
+        this.blockState(this.currentMessageId).itemIds[event.index] = id;
+        const message: DisplayMessage = {
+          id,
+          role: 'assistant',
+          content: block.type === 'text' ? block.text || '' : '',
+          timestamp: new Date().toISOString(),
+          streaming: true
+        };
+        if (block.type === 'tool_use') {
+          message.toolUse = { id: block.id, name: block.name, input: block.input || {} };
+          this.toolUses.set(block.id, id);
+        }
+        return [this.upsert(message)];
+      }
+
+      case 'content_block_delta': {
+        const item = this.streamingItem(event.index);
+        if (!item) return [];
+        if (event.delta?.type === 'text_delta' && event.delta.text) {
+          item.content += event.delta.text;
+          this.turnHasText = true;
+          return [{ type: 'message_delta', messageId: item.id, content: event.delta.text }];
+        }
+        if (event.delta?.type === 'input_json_delta') {
+          const partial = this.blockState(this.currentMessageId!).partialJson;
+          partial.set(event.index, (partial.get(event.index) || '') + (event.delta.partial_json || ''));
+        }
+        return [];
+      }
+
+      case 'content_block_stop': {
+        const item = this.streamingItem(event.index);
+        if (!item) return [];
+        const partial = this.blockState(this.currentMessageId!).partialJson;
+        const json = partial.get(event.index);
+        partial.delete(event.index);
+        if (json && item.toolUse) {
+          try {
+            item.toolUse = { ...item.toolUse, input: JSON.parse(json) };
+          } catch {
+            // Malformed partial input; the full assistant event carries it anyway
+          }
+        }
+        delete item.streaming;
+        return [this.snapshot(item)];
+      }
+
+      default:
+        return [];
+    }
+  }
+
+  private applyAssistant(event: any): AssemblerUpdate[] {
+    const content = event.message?.content;
+    if (!Array.isArray(content)) return [];
+
+    const messageId: string = event.message.id || event.uuid || crypto.randomUUID();
+    const state = this.blockState(messageId);
+    const timestamp = event.timestamp || new Date().toISOString();
+    const updates: AssemblerUpdate[] = [];
+
+    for (const block of content) {
+      // Every block takes an index, including ones not displayed (thinking)
+      const index = state.confirmed++;
+
+      if (block.type === 'tool_result') {
+        updates.push(this.attachToolResult(block, timestamp));
+        continue;
+      }
+      if (block.type !== 'text' && block.type !== 'tool_use') continue;
+
+      const existingId = (block.type === 'tool_use' && this.toolUses.get(block.id)) || state.itemIds[index];
+      const existing = existingId ? this.items.get(existingId) : undefined;
+      if (block.type === 'text' && !block.text && !existing) continue;
+      const id = existing?.id || (event.uuid && content.length === 1 ? event.uuid : `${messageId}:${index}`);
+      state.itemIds[index] = id;
+
+      const message: DisplayMessage = {
+        id,
+        role: 'assistant',
+        content: block.type === 'text' ? block.text : '',
+        timestamp: existing?.timestamp || timestamp
+      };
+      if (block.type === 'text' && block.text) {
+        this.turnHasText = true;
+      }
+      if (block.type === 'tool_use') {
+        message.toolUse = { id: block.id, name: block.name, input: block.input || {} };
+        if (existing?.toolResult) {
+          message.toolResult = existing.toolResult;
+        }
+        this.toolUses.set(block.id, id);
+      }
+      updates.push(this.upsert(message));
+    }
+
+    return updates;
+  }
+
+  private applyUser(event: any): AssemblerUpdate[] {
+    const content = event.message?.content;
+    const timestamp = event.timestamp || new Date().toISOString();
+
+    if (typeof content === 'string') {
+      return content ? [this.add({ id: event.uuid || crypto.randomUUID(), role: 'user', content, timestamp })] : [];
+    }
+    if (!Array.isArray(content)) return [];
+
+    const updates: AssemblerUpdate[] = [];
+    let text = '';
+    for (const block of content) {
+      if (block.type === 'text') {
+        text += block.text;
+      } else if (block.type === 'tool_result') {
+        updates.push(this.attachToolResult(block, timestamp));
+      }
+    }
+    if (text) {
+      updates.push(this.add({ id: event.uuid || crypto.randomUUID(), role: 'user', content: text, timestamp }));
+    }
+    return updates;
+  }
+
+  private applyResult(event: any): AssemblerUpdate[] {
+    const hadText = this.turnHasText;
+    this.turnHasText = false;
+    // The result repeats the turn's final text; only show it if nothing else did
+    if (hadText || event.is_error || typeof event.result !== 'string' || !event.result) {
+      return [];
+    }
+    return [this.upsert({
+      id: `result:${event.uuid || crypto.randomUUID()}`,
+      role: 'assistant',
+      content: event.result,
+      timestamp: new Date().toISOString()
+    })];
+  }
+
+  private attachToolResult(block: any, timestamp: string): AssemblerUpdate {
+    const toolResult = {
+      toolUseId: block.tool_use_id,
+      content: toolResultText(block.content),
+      isError: block.is_error || false
+    };
+    const toolUseItem = this.items.get(this.toolUses.get(block.tool_use_id) || '');
+    if (toolUseItem) {
+      return this.upsert({ ...toolUseItem, toolResult });
+    }
+    // The tool use was never seen (or already forgotten); show the result on its own
+    return this.upsert({ id: `${block.tool_use_id}:result`, role: 'assistant', content: '', timestamp, toolResult });
+  }
+
+  // The block of the message being streamed at this index, if it is displayed
+  private streamingItem(index: number): DisplayMessage | undefined {
+    if (!this.currentMessageId) return undefined;
+    const id = this.blocks.get(this.currentMessageId)?.itemIds[index];
+    return id ? this.items.get(id) : undefined;
+  }
+
+  private blockState(messageId: string): BlockState {
+    let state = this.blocks.get(messageId);
+    if (!state) {
+      state = { itemIds: [], confirmed: 0, partialJson: new Map() };
+      this.blocks.set(messageId, state);
+      if (this.blocks.size > this.maxMessages) {
+        this.blocks.delete(this.blocks.keys().next().value!);
+      }
+    }
+    return state;
+  }
+
+  private upsert(message: DisplayMessage): AssemblerUpdate {
+    this.items.set(message.id, message);
+    if (this.items.size > this.maxMessages) {
+      const [oldestId, oldest] = this.items.entries().next().value!;
+      this.items.delete(oldestId);
+      if (oldest.toolUse?.id) {
+        this.toolUses.delete(oldest.toolUse.id);
+      }
+    }
+    return this.snapshot(message);
+  }
+
+  // Updates are kept in the session's event log, so they get their own copy
+  private snapshot(message: DisplayMessage): AssemblerUpdate {
+    return { type: 'message', message: { ...message } };
+  }
+}
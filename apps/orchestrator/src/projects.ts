@@ -0,0 +1,118 @@
+/**
+ * Projects
+ *
+ * A project is the directory sessions were started in, as recorded in their
+ * transcripts. The listing groups sessions by it and adds what git says about
+ * the directory: the origin remote and the checked-out branch. Git is asked at
+ * most once a minute per directory.
+ */
+
+import * as fs from 'node:fs';
+import type { Session } from './types';
+import { git } from './worktrees';
+
+export interface GitInfo {
+  // URL of the origin remote
+  remote?: string;
+  // Checked-out branch; unset for a detached HEAD
+  branch?: string;
+}
+
+export interface ProjectInfo {
+  path: string;
+  name: string;
+  // The directory is still on disk
+  exists: boolean;
+  gitRemote?: string;
+  // Checked-out branch, or the branch of the latest session when git can't tell
+  gitBranch?: string;
+  sessionCount: number;
+  activeSessions: number;
+  pendingHooks: number;
+  lastActivity: string;
+}
+
+export const GIT_INFO_TTL_MS = 60 * 1000;
+
+/**
+ * Ask git about a directory
+ * @returns null when the directory isn't in a git repository
+ */
+export async function readGitInfo(dir: string): Promise<GitInfo | null> {
+  try {
+    await git(dir, ['rev-parse', '--git-dir']);
+  } catch {
+    return null;
+  }
+  const info: GitInfo = {};
+  try {
+    // Also names the branch of a repository without commits yet
+    info.branch = (await git(dir, ['symbolic-ref', '--short', '-q', 'HEAD'])).trim() || undefined;
+  } catch {
+    // Detached HEAD
+  }
+  try {
+    info.remote = (await git(dir, ['remote', 'get-url', 'origin'])).trim() || undefined;
+  } catch {
+    // No origin remote
+  }
+  return info;
+}
+
+export class GitInfoCache {
+  private entries: Map<string, { info: Promise<GitInfo | null>; expires: number }> = new Map();
+  private ttlMs: number;
+  private read: (dir: string) => Promise<GitInfo | null>;
+
+  constructor(ttlMs: number = GIT_INFO_TTL_MS, read: (dir: string) => Promise<GitInfo | null> = readGitInfo) {
+    this.ttlMs = ttlMs;
+    this.read = read;
+  }
+
+  get(dir: string): Promise<GitInfo | null> {
+    const now = Date.now();
+    const entry = this.entries.get(dir);
+    if (entry && entry.expires > now) return entry.info;
+
+    const info = this.read(dir).catch(() => null);
+    this.entries.set(dir, { info, expires: now + this.ttlMs });
+    return info;
+  }
+}
+
+/**
+ * Group sessions by project, most recently active project first
+ */
+export async function listProjects(
+  sessions: Session[],
+  getGitInfo: (dir: string) => Promise<GitInfo | null>
+): Promise<ProjectInfo[]> {
+  const byPath = new Map<string, Session[]>();
+  for (const session of sessions) {
+    const group = byPath.get(session.projectPath);
+    if (group) {
+      group.push(session);
+    } else {
+      byPath.set(session.projectPath, [session]);
+    }
+  }
+
+  const projects = await Promise.all([...byPath].map(async ([projectPath, group]): Promise<ProjectInfo> => {
+    const latest = group.reduce((a, b) => (b.lastActivity > a.lastActivity ? b : a));
+    const exists = fs.existsSync(projectPath);
+    const gitInfo = exists ? await getGitInfo(projectPath) : null;
+    return {
+      path: projectPath,
+      name: latest.projectName,
+      exists,
+      gitRemote: gitInfo?.remote,
+      gitBranch: gitInfo?.branch || latest.gitBranch || undefined,
+      sessionCount: group.length,
+      activeSessions: group.filter(s => s.status === 'active').length,
+      pendingHooks: group.filter(s => s.status === 'pending_hook').length,
+      lastActivity: latest.lastActivity.toISOString()
+    };
+  }));
+
+  return projects.sort((a, b) => b.lastActivity.localeCompare(a.lastActivity));
+}
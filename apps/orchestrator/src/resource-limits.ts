@@ -0,0 +1,211 @@
+/**
+ * Resource limits for web session children
+ *
+ * A web session nobody is using shouldn't keep its claude child alive forever.
+ * Limits stop a child that has had no input or output for a while (idle), that
+ * has run too long (wall clock), or whose process tree uses too much memory
+ * (resident memory read from /proc, so Linux only). Crossing the warn line is
+ * announced before the limit is enforced. Limits can be set globally and per
+ * project (keyed by project path); the project's limits replace the global ones.
+ * They are stored in ~/.claude/orchestrator/resource-limits.json.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { ValidationError } from './error-handler';
+import { logger } from './logger';
+import {
+  DEFAULT_WARN_AT,
+  LimitConfigStore,
+  evaluateLimits,
+  validateLimitConfig,
+  validatePositive,
+  validateRuleFields,
+  validateWarnAt,
+  type LimitConfig,
+  type LimitLevel,
+  type LimitStatus
+} from './limit-rules';
+
+const log = logger.child('ResourceLimits');
+
+export interface ResourceLimits {
+  // Minutes without input or output before the child is stopped
+  idleMinutes?: number;
+  // Minutes a child may run in total
+  maxWallClockMinutes?: number;
+  // Resident memory of the child and its descendants, in MB
+  maxMemoryMb?: number;
+  // Fraction of a limit at which to warn (0-1, default 0.8)
+  warnAt?: number;
+}
+
+export type ResourceLimitConfig = LimitConfig<ResourceLimits>;
+
+export type ResourceMetric = 'idle' | 'wall_clock' | 'memory';
+
+export type ResourceLevel = LimitLevel;
+
+export interface ResourceConsumption {
+  idleMs: number;
+  uptimeMs: number;
+  // Unset where it can't be measured
+  memoryBytes?: number;
+}
+
+// Used and limit are in the limit's own unit
+export type ResourceStatus = LimitStatus<ResourceMetric>;
+
+// How often running children are checked
+export const CHECK_INTERVAL_MS = 15000;
+
+const RESOURCE_LIMIT_KEYS = new Set(['idleMinutes', 'maxWallClockMinutes', 'maxMemoryMb', 'warnAt']);
+
+const store = new LimitConfigStore<ResourceLimitConfig>('resource-limits.json', 'resource limits', validateResourceLimitConfig, log);
+
+/**
+ * Validate resource limits from an API request
+ * @param value Raw limits (undefined/null means none)
+ * @param fieldName Name used in error messages
+ * @throws ValidationError if the limits are malformed or set no limit
+ */
+export function validateResourceLimits(value: unknown, fieldName: string = 'limits'): ResourceLimits | undefined {
+  const raw = validateRuleFields(value, fieldName, RESOURCE_LIMIT_KEYS);
+  if (!raw) return undefined;
+
+  const limits: ResourceLimits = {};
+  if (raw.idleMinutes !== undefined) limits.idleMinutes = validatePositive(raw.idleMinutes, `${fieldName}.idleMinutes`);
+  if (raw.maxWallClockMinutes !== undefined) {
+    limits.maxWallClockMinutes = validatePositive(raw.maxWallClockMinutes, `${fieldName}.maxWallClockMinutes`);
+  }
+  if (raw.maxMemoryMb !== undefined) limits.maxMemoryMb = validatePositive(raw.maxMemoryMb, `${fieldName}.maxMemoryMb`);
+
+  if (raw.warnAt !== undefined) limits.warnAt = validateWarnAt(raw.warnAt, fieldName);
+
+  if (limits.idleMinutes === undefined && limits.maxWallClockMinutes === undefined && limits.maxMemoryMb === undefined) {
+    throw new ValidationError(`${fieldName} must set idleMinutes, maxWallClockMinutes or maxMemoryMb`);
+  }
+  return limits;
+}
+
+/**
+ * Validate a full resource limit configuration from an API request
+ * @throws ValidationError if any limits are invalid
+ */
+export function validateResourceLimitConfig(value: unknown): ResourceLimitConfig {
+  return validateLimitConfig(value, 'Resource limit configuration', validateResourceLimits);
+}
+
+/**
+ * Pick the limits that apply to a session: its project's, else the global ones
+ */
+export function resolveResourceLimits(config: ResourceLimitConfig, cwd: string): ResourceLimits | undefined {
+  return config.projects[cwd] || config.global;
+}
+
+/**
+ * Compare a child's consumption against its limits; the limit furthest along
+ * decides the level
+ */
+export function evaluateResourceLimits(limits: ResourceLimits | undefined, consumption: ResourceConsumption): ResourceStatus {
+  if (!limits) return { level: 'ok' };
+
+  const minutes = (ms: number) => ms / 60000;
+  return evaluateLimits<ResourceMetric>([
+    { metric: 'idle', used: minutes(consumption.idleMs), limit: limits.idleMinutes },
+    { metric: 'wall_clock', used: minutes(consumption.uptimeMs), limit: limits.maxWallClockMinutes },
+    {
+      metric: 'memory',
+      used: consumption.memoryBytes === undefined ? undefined : consumption.memoryBytes / (1024 * 1024),
+      limit: limits.maxMemoryMb
+    }
+  ], limits.warnAt ?? DEFAULT_WARN_AT);
+}
+
+/**
+ * Human-readable summary, e.g. "Idle for 24 of 30 minutes"
+ */
+export function describeResourceStatus(status: ResourceStatus): string {
+  if (!status.metric || status.used === undefined || status.limit === undefined) {
+    return 'Within resource limits';
+  }
+  const used = Math.round(status.used);
+  const limit = Math.round(status.limit);
+  switch (status.metric) {
+    case 'idle':
+      return `Idle for ${used} of ${limit} minutes`;
+    case 'wall_clock':
+      return `Running for ${used} of ${limit} minutes`;
+    case 'memory':
+      return `Using ${used} of ${limit} MB memory`;
+  }
+}
+
+function readRssBytes(procRoot: string, pid: number): number | undefined {
+  try {
+    const status = fs.readFileSync(path.join(procRoot, String(pid), 'status'), 'utf-8');
+    const match = status.match(/^VmRSS:\s+(\d+)\s+kB/m);
+    // Kernel threads and zombies have no VmRSS line
+    return match ? parseInt(match[1], 10) * 1024 : 0;
+  } catch {
+    return undefined;
+  }
+}
+
+function readChildPids(procRoot: string, pid: number): number[] {
+  const children: number[] = [];
+  try {
+    for (const tid of fs.readdirSync(path.join(procRoot, String(pid), 'task'))) {
+      const list = fs.readFileSync(path.join(procRoot, String(pid), 'task', tid, 'children'), 'utf-8');
+      for (const child of list.split(/\s+/)) {
+        if (child) children.push(parseInt(child, 10));
+      }
+    }
+  } catch {
+    // Exited meanwhile, or a kernel without /proc/<pid>/task/<tid>/children
+  }
+  return children;
+}
+
+/**
+ * Resident memory of a process and all its descendants (tools claude runs
+ * count against its ceiling)
+ * @returns Bytes, or undefined where /proc isn't available or the process is gone
+ */
+export function readProcessTreeMemory(pid: number, procRoot: string = '/proc'): number | undefined {
+  const root = readRssBytes(procRoot, pid);
+  if (root === undefined) return undefined;
+
+  let total = root;
+  const seen = new Set([pid]);
+  const pending = readChildPids(procRoot, pid);
+  while (pending.length > 0) {
+    const child = pending.pop()!;
+    if (seen.has(child)) continue;
+    seen.add(child);
+    total += readRssBytes(procRoot, child) ?? 0;
+    pending.push(...readChildPids(procRoot, child));
+  }
+  return total;
+}
+
+/**
+ * Get the global and per-project resource limits, loading them from disk on first use
+ */
+export function getResourceLimitConfig(): ResourceLimitConfig {
+  return store.get();
+}
+
+/**
+ * Use limits for this run without writing them to disk (useful for testing)
+ */
+export function setResourceLimitConfig(config: ResourceLimitConfig): void {
+  store.set(config);
+}
+
+/**
+ * Replace the global and per-project resource limits and write them to disk
+ */
+export function saveResourceLimitConfig(config: ResourceLimitConfig): void {
+  store.save(config);
+}
@@ -0,0 +1,408 @@
+/**
+ * Scheduled prompts
+ *
+ * Runs a prompt in a project on a cron schedule ("every weekday at 9:00 run
+ * /review"). Each run is a one-target job, so it goes through the launch queue
+ * like any web session and its result, exit code and cost are tracked the same
+ * way. A run is skipped while the schedule's previous run is still going.
+ *
+ * Runs that came due while the orchestrator was down (or asleep) are either
+ * recorded as skipped or caught up with a single run, per schedule. Schedules
+ * and their recent runs are stored in ~/.claude/orchestrator/schedules.json.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { parseCron, nextCronTime } from './cron';
+import * as jobs from './jobs';
+import type { Job, JobTargetStatus } from './jobs';
+import type { WebSessionMessage } from './web-session';
+import type { LaunchOptions } from './launch-options';
+import { validateBudgetRule, type BudgetRule } from './budgets';
+import { DEFAULT_PRIORITY } from './launch-queue';
+import { ValidationError, requireString, requireBoolean } from './error-handler';
+import { STORAGE_DIR } from './session-persistence';
+import { logger } from './logger';
+
+const log = logger.child('Scheduler');
+
+// What to do about runs that came due while the orchestrator wasn't running
+export const MISSED_RUN_POLICIES = ['skip', 'run_once'] as const;
+export type MissedRunPolicy = typeof MISSED_RUN_POLICIES[number];
+
+export type ScheduleRunStatus = JobTargetStatus | 'skipped';
+
+export interface ScheduleRun {
+  id: string;
+  // The occurrence this run is for
+  scheduledFor: string;
+  startedAt: string;
+  status: ScheduleRunStatus;
+  // Why the run was skipped
+  reason?: string;
+  // Came due while the orchestrator was down
+  missed?: boolean;
+  jobId?: string;
+  sessionId?: string;
+  claudeSessionId?: string;
+  resultText?: string;
+  error?: string;
+  exitCode?: number | null;
+  costUsd?: number;
+  finishedAt?: string;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  cwd: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  budget?: BudgetRule;
+  enabled: boolean;
+  missedRuns: MissedRunPolicy;
+  createdAt: string;
+  updatedAt: string;
+  // Next occurrence; unset while disabled
+  nextRunAt?: string;
+  // When a run last launched a session
+  lastRunAt?: string;
+  // When a run was last skipped, and why
+  lastSkippedAt?: string;
+  lastSkipReason?: string;
+  // Most recent first
+  runs: ScheduleRun[];
+}
+
+export type ScheduleInput = Pick<Schedule, 'name' | 'cron' | 'cwd' | 'prompt' | 'launchOptions' | 'budget' | 'enabled' | 'missedRuns'>;
+
+export interface SchedulerHandlers {
+  // Messages of the web sessions the runs start
+  onSessionMessage: (sessionId: string, msg: WebSessionMessage) => void;
+  onJobUpdate: (job: Job) => void;
+  // A schedule or one of its runs changed
+  onSchedulesChange: () => void;
+}
+
+// Runs kept per schedule
+export const MAX_RUN_HISTORY = 20;
+
+// An occurrence this late when first noticed was missed rather than just due
+export const MISSED_AFTER_MS = 2 * 60 * 1000;
+
+const TICK_INTERVAL_MS = 30 * 1000;
+
+const DEFAULT_STORAGE_FILE = path.join(STORAGE_DIR, 'schedules.json');
+
+let storageFile = DEFAULT_STORAGE_FILE;
+let cachedSchedules: Schedule[] | null = null;
+let handlers: SchedulerHandlers = {
+  onSessionMessage: () => {},
+  onJobUpdate: () => {},
+  onSchedulesChange: () => {}
+};
+let tickTimer: ReturnType<typeof setInterval> | null = null;
+let ticking = false;
+
+/**
+ * Keep schedules in another file (useful for testing); they are reloaded on next use
+ */
+export function setScheduleStorageFile(file: string = DEFAULT_STORAGE_FILE): void {
+  storageFile = file;
+  cachedSchedules = null;
+}
+
+/**
+ * Validate a schedule from an API request
+ * @param existing Schedule being updated; fields missing from the request keep its values
+ * @throws ValidationError if a field is invalid, the cron expression never fires or
+ * the launch options would stop for permission prompts
+ */
+export function validateScheduleInput(value: unknown, existing?: Schedule): ScheduleInput {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Schedule must be an object');
+  }
+  const raw = { ...existing, ...(value as Record<string, unknown>) } as Record<string, unknown>;
+
+  const cron = requireString(raw.cron, 'cron').trim();
+  nextCronTime(parseCron(cron), new Date());
+
+  const prompt = requireString(raw.prompt, 'prompt');
+  if (!prompt.trim()) {
+    throw new ValidationError('prompt must not be empty');
+  }
+  const cwd = requireString(raw.cwd, 'cwd');
+  if (!path.isAbsolute(cwd) || !fs.existsSync(cwd)) {
+    throw new ValidationError('cwd must be an existing absolute path', { cwd });
+  }
+
+  const missedRuns = raw.missedRuns ?? 'skip';
+  if (!MISSED_RUN_POLICIES.includes(missedRuns as MissedRunPolicy)) {
+    throw new ValidationError(`missedRuns must be one of: ${MISSED_RUN_POLICIES.join(', ')}`);
+  }
+  if (raw.name !== undefined && typeof raw.name !== 'string') {
+    throw new ValidationError('name must be a string');
+  }
+
+  return {
+    name: (raw.name as string | undefined)?.trim() || path.basename(cwd),
+    cron,
+    cwd,
+    prompt,
+    launchOptions: jobs.validateUnattendedLaunchOptions(raw.launchOptions),
+    budget: validateBudgetRule(raw.budget),
+    enabled: raw.enabled === undefined ? true : requireBoolean(raw.enabled, 'enabled'),
+    missedRuns: missedRuns as MissedRunPolicy
+  };
+}
+
+function loadSchedules(): Schedule[] {
+  if (cachedSchedules) return cachedSchedules;
+
+  cachedSchedules = [];
+  try {
+    if (fs.existsSync(storageFile)) {
+      cachedSchedules = JSON.parse(fs.readFileSync(storageFile, 'utf-8')).schedules || [];
+    }
+  } catch (err) {
+    log.error('Failed to load schedules, ignoring them', err, { data: { path: storageFile } });
+  }
+
+  // Runs that were going when the orchestrator stopped won't report back
+  for (const schedule of cachedSchedules!) {
+    for (const run of schedule.runs) {
+      if (run.status === 'queued' || run.status === 'running') {
+        run.status = 'failed';
+        run.error = 'Interrupted by an orchestrator restart';
+        run.finishedAt = run.finishedAt || new Date().toISOString();
+      }
+    }
+  }
+  return cachedSchedules!;
+}
+
+function saveSchedules(): void {
+  try {
+    const dir = path.dirname(storageFile);
+    if (!fs.existsSync(dir)) {
+      fs.mkdirSync(dir, { recursive: true });
+    }
+    fs.writeFileSync(storageFile, JSON.stringify({ schedules: loadSchedules() }, null, 2), 'utf-8');
+  } catch (err) {
+    log.error('Failed to save schedules', err, { data: { path: storageFile } });
+  }
+}
+
+function computeNextRun(schedule: Schedule, after: Date): void {
+  schedule.nextRunAt = schedule.enabled ? nextCronTime(parseCron(schedule.cron), after).toISOString() : undefined;
+}
+
+export function listSchedules(): Schedule[] {
+  return loadSchedules();
+}
+
+export function getSchedule(id: string): Schedule | undefined {
+  return loadSchedules().find(s => s.id === id);
+}
+
+export function createSchedule(input: ScheduleInput, now: Date = new Date()): Schedule {
+  const schedule: Schedule = {
+    id: crypto.randomUUID(),
+    ...input,
+    createdAt: now.toISOString(),
+    updatedAt: now.toISOString(),
+    runs: []
+  };
+  computeNextRun(schedule, now);
+  loadSchedules().push(schedule);
+  saveSchedules();
+  log.info('Created schedule', { data: { scheduleId: schedule.id, cron: schedule.cron, cwd: schedule.cwd } });
+  return schedule;
+}
+
+/**
+ * Replace a schedule's definition; its run history is kept
+ * @returns undefined if the schedule doesn't exist
+ */
+export function updateSchedule(id: string, input: ScheduleInput, now: Date = new Date()): Schedule | undefined {
+  const schedule = getSchedule(id);
+  if (!schedule) return undefined;
+
+  // Updated in place: runs in progress hold on to this object
+  Object.assign(schedule, input, { updatedAt: now.toISOString() });
+  computeNextRun(schedule, now);
+  saveSchedules();
+  return schedule;
+}
+
+/**
+ * Delete a schedule; a run in progress carries on
+ */
+export function deleteSchedule(id: string): boolean {
+  const schedules = loadSchedules();
+  const index = schedules.findIndex(s => s.id === id);
+  if (index === -1) return false;
+  schedules.splice(index, 1);
+  saveSchedules();
+  return true;
+}
+
+function addRun(schedule: Schedule, run: ScheduleRun): void {
+  schedule.runs.unshift(run);
+  schedule.runs.splice(MAX_RUN_HISTORY);
+  if (run.status === 'skipped') {
+    schedule.lastSkippedAt = run.startedAt;
+    schedule.lastSkipReason = run.reason;
+  }
+}
+
+function isRunInProgress(run: ScheduleRun): boolean {
+  return run.status === 'queued' || run.status === 'running';
+}
+
+// Copy the run's job target into the run; true if its status changed
+function updateRunFromJob(run: ScheduleRun, job: Job): boolean {
+  const target = job.targets[0];
+  const changed = run.status !== target.status;
+  run.status = target.status;
+  run.sessionId = target.sessionId;
+  run.claudeSessionId = target.claudeSessionId;
+  run.resultText = target.resultText;
+  run.error = target.error;
+  run.exitCode = target.exitCode;
+  run.costUsd = target.costUsd;
+  run.finishedAt = target.finishedAt;
+  return changed;
+}
+
+/**
+ * Start a run of the schedule now, unless its previous run is still going
+ * @param scheduledFor The occurrence being run (now for a manual run)
+ */
+export async function runSchedule(schedule: Schedule, scheduledFor: Date = new Date(), missed: boolean = false): Promise<ScheduleRun> {
+  const run: ScheduleRun = {
+    id: crypto.randomUUID(),
+    scheduledFor: scheduledFor.toISOString(),
+    startedAt: new Date().toISOString(),
+    status: 'queued',
+    missed: missed || undefined
+  };
+
+  if (schedule.runs.some(isRunInProgress)) {
+    run.status = 'skipped';
+    run.reason = 'Previous run is still in progress';
+    addRun(schedule, run);
+    saveSchedules();
+    log.info('Skipped overlapping run', { data: { scheduleId: schedule.id } });
+    return run;
+  }
+
+  // Saved before jobs had to skip permission prompts; nobody could answer them
+  try {
+    jobs.validateUnattendedLaunchOptions(schedule.launchOptions);
+  } catch (err) {
+    run.status = 'failed';
+    run.error = err instanceof Error ? err.message : String(err);
+    addRun(schedule, run);
+    saveSchedules();
+    log.warn('Schedule cannot run unattended', { data: { scheduleId: schedule.id } });
+    return run;
+  }
+
+  addRun(schedule, run);
+  const job = await jobs.createJob(
+    {
+      name: schedule.name,
+      prompt: schedule.prompt,
+      cwds: [schedule.cwd],
+      launchOptions: schedule.launchOptions,
+      budget: schedule.budget,
+      priority: DEFAULT_PRIORITY
+    },
+    (sessionId, msg) => handlers.onSessionMessage(sessionId, msg),
+    (updated) => {
+      if (updateRunFromJob(run, updated)) {
+        saveSchedules();
+        handlers.onSchedulesChange();
+      }
+      handlers.onJobUpdate(updated);
+    }
+  );
+  run.jobId = job.id;
+  schedule.lastRunAt = run.startedAt;
+  updateRunFromJob(run, job);
+  saveSchedules();
+  log.info('Started scheduled run', { data: { scheduleId: schedule.id, jobId: job.id } });
+  return run;
+}
+
+/**
+ * Run every enabled schedule that has come due. Occurrences noticed more than
+ * MISSED_AFTER_MS late are handled by the schedule's missed-run policy; either
+ * way a schedule runs (or records a skip) at most once per tick.
+ */
+export async function tick(now: Date = new Date()): Promise<void> {
+  if (ticking) return;
+  ticking = true;
+  let changed = false;
+
+  try {
+    for (const schedule of loadSchedules()) {
+      if (!schedule.enabled || !schedule.nextRunAt) continue;
+      const due = new Date(schedule.nextRunAt);
+      if (due > now) continue;
+
+      // Move on first, so a failing launch doesn't fire again every tick
+      computeNextRun(schedule, now);
+      changed = true;
+
+      try {
+        if (now.getTime() - due.getTime() <= MISSED_AFTER_MS) {
+          await runSchedule(schedule, due);
+        } else if (schedule.missedRuns === 'run_once') {
+          await runSchedule(schedule, due, true);
+        } else {
+          addRun(schedule, {
+            id: crypto.randomUUID(),
+            scheduledFor: due.toISOString(),
+            startedAt: now.toISOString(),
+            status: 'skipped',
+            reason: 'Missed while the orchestrator was not running',
+            missed: true
+          });
+        }
+      } catch (err) {
+        log.error('Failed to start scheduled run', err, { data: { scheduleId: schedule.id } });
+      }
+    }
+  } finally {
+    ticking = false;
+  }
+
+  if (changed) {
+    saveSchedules();
+    handlers.onSchedulesChange();
+  }
+}
+
+/**
+ * Start checking schedules; missed runs are dealt with on the first check
+ */
+export function startScheduler(schedulerHandlers: SchedulerHandlers): void {
+  handlers = schedulerHandlers;
+  if (tickTimer) return;
+
+  const check = () => {
+    tick().catch(err => log.error('Scheduler tick failed', err));
+  };
+  check();
+  tickTimer = setInterval(check, TICK_INTERVAL_MS);
+}
+
+export function stopScheduler(): void {
+  if (tickTimer) {
+    clearInterval(tickTimer);
+    tickTimer = null;
+  }
+}
@@ -0,0 +1,417 @@
+/**
+ * Full-text search over session transcripts
+ *
+ * An inverted index from terms to transcript lines, fed line by line by the
+ * session watcher as it reads transcripts, so it stays current as they grow.
+ * It covers user and assistant text, tool inputs and tool results. Only terms
+ * and a little metadata per line are kept; snippets are cut from the
+ * transcript itself (through the watcher's cache) for the hits returned.
+ *
+ * Hits must contain every query term and are ranked by BM25, newest first
+ * among equal scores.
+ */
+
+import type { Session, SessionMessage, MessageContent } from './types';
+import { MessageAssembler, toolResultText } from './message-assembler';
+import { ValidationError } from './error-handler';
+
+export type SearchRole = 'user' | 'assistant' | 'tool_use' | 'tool_result';
+
+export const SEARCH_ROLES: SearchRole[] = ['user', 'assistant', 'tool_use', 'tool_result'];
+
+export interface SearchQuery {
+  q: string;
+  // Project path, project name or working directory
+  project?: string;
+  branch?: string;
+  from?: Date;
+  to?: Date;
+  role?: SearchRole;
+  tool?: string;
+  limit?: number;
+}
+
+export interface SearchHit {
+  sessionId: string;
+  // Display message to jump to, as in GET /api/session/:id
+  messageId: string;
+  // Transcript line
+  uuid: string;
+  projectName: string;
+  cwd: string;
+  gitBranch?: string;
+  roles: SearchRole[];
+  tools?: string[];
+  timestamp: string;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchResult {
+  total: number;
+  hits: SearchHit[];
+}
+
+// One indexed transcript line
+interface IndexedLine {
+  sessionId: string;
+  uuid: string;
+  roles: SearchRole[];
+  tools?: string[];
+  branch?: string;
+  timestamp: number;
+  // Terms in the line
+  length: number;
+}
+
+export interface RankedLine extends IndexedLine {
+  score: number;
+}
+
+// What a transcript line contributes to the index
+export interface LineText {
+  roles: SearchRole[];
+  tools: string[];
+  text: string;
+}
+
+export const DEFAULT_SEARCH_LIMIT = 20;
+export const MAX_SEARCH_LIMIT = 100;
+
+// Text indexed per line; long tool results (whole files) are cut here
+const MAX_INDEXED_CHARS = 20000;
+
+const MIN_TERM_LENGTH = 2;
+const MAX_TERM_LENGTH = 64;
+
+const SNIPPET_CONTEXT = 80;
+
+// BM25 parameters
+const K1 = 1.2;
+const B = 0.75;
+
+/**
+ * Lower-cased words and numbers; identifiers split at punctuation and underscores
+ */
+export function tokenize(text: string): string[] {
+  const terms: string[] = [];
+  for (const match of text.toLowerCase().matchAll(/[\p{L}\p{N}]+/gu)) {
+    const term = match[0];
+    if (term.length >= MIN_TERM_LENGTH && term.length <= MAX_TERM_LENGTH) {
+      terms.push(term);
+    }
+  }
+  return terms;
+}
+
+function collectStrings(value: unknown, out: string[]): void {
+  if (typeof value === 'string') {
+    out.push(value);
+  } else if (Array.isArray(value)) {
+    for (const item of value) collectStrings(item, out);
+  } else if (value && typeof value === 'object') {
+    for (const item of Object.values(value)) collectStrings(item, out);
+  }
+}
+
+/**
+ * The searchable text of a transcript line and what kind of content it holds
+ * @param toolNames Tool use ID -> tool name, to name the tool a result belongs to
+ */
+export function extractLineText(msg: SessionMessage, toolNames?: Map<string, string>): LineText | undefined {
+  if ((msg.type !== 'user' && msg.type !== 'assistant') || !msg.message) return undefined;
+
+  const roles = new Set<SearchRole>();
+  const tools = new Set<string>();
+  const parts: string[] = [];
+  const content: unknown = msg.message.content;
+
+  if (typeof content === 'string') {
+    if (content) {
+      roles.add('user');
+      parts.push(content);
+    }
+  } else if (Array.isArray(content)) {
+    for (const block of content as MessageContent[]) {
+      if (block.type === 'text' && block.text) {
+        roles.add(msg.type);
+        parts.push(block.text);
+      } else if (block.type === 'tool_use') {
+        roles.add('tool_use');
+        tools.add(block.name);
+        toolNames?.set(block.id, block.name);
+        parts.push(block.name);
+        collectStrings(block.input, parts);
+      } else if (block.type === 'tool_result') {
+        roles.add('tool_result');
+        const name = toolNames?.get(block.tool_use_id);
+        if (name) tools.add(name);
+        parts.push(toolResultText(block.content));
+      }
+    }
+  }
+
+  if (roles.size === 0) return undefined;
+  return { roles: [...roles], tools: [...tools], text: parts.join('\n') };
+}
+
+/**
+ * A stretch of text around the first query term it contains
+ */
+export function buildSnippet(text: string, terms: string[]): string {
+  const flat = text.replace(/\s+/g, ' ').trim();
+  const lower = flat.toLowerCase();
+  let at = -1;
+  for (const term of terms) {
+    const index = lower.indexOf(term);
+    if (index !== -1 && (at === -1 || index < at)) at = index;
+  }
+  if (at === -1) at = 0;
+
+  const start = Math.max(0, at - SNIPPET_CONTEXT);
+  const end = Math.min(flat.length, at + SNIPPET_CONTEXT * 2);
+  return `${start > 0 ? '…' : ''}${flat.slice(start, end)}${end < flat.length ? '…' : ''}`;
+}
+
+/**
+ * Validate search parameters from a query string
+ * @throws ValidationError if q is missing or a filter is malformed
+ */
+export function parseSearchQuery(params: URLSearchParams): SearchQuery {
+  const q = params.get('q')?.trim();
+  if (!q) {
+    throw new ValidationError('q is required');
+  }
+  if (tokenize(q).length === 0) {
+    throw new ValidationError('q must contain a word of at least two letters or digits');
+  }
+
+  const query: SearchQuery = { q };
+  for (const key of ['project', 'branch', 'tool'] as const) {
+    const value = params.get(key);
+    if (value) query[key] = value;
+  }
+
+  for (const key of ['from', 'to'] as const) {
+    const value = params.get(key);
+    if (!value) continue;
+    const date = new Date(value);
+    if (isNaN(date.getTime())) {
+      throw new ValidationError(`${key} must be a date`, { value });
+    }
+    query[key] = date;
+  }
+
+  const role = params.get('role');
+  if (role) {
+    if (!SEARCH_ROLES.includes(role as SearchRole)) {
+      throw new ValidationError(`role must be one of ${SEARCH_ROLES.join(', ')}`);
+    }
+    query.role = role as SearchRole;
+  }
+
+  const limit = params.get('limit');
+  if (limit) {
+    const value = Number(limit);
+    if (!Number.isInteger(value) || value < 1 || value > MAX_SEARCH_LIMIT) {
+      throw new ValidationError(`limit must be between 1 and ${MAX_SEARCH_LIMIT}`);
+    }
+    query.limit = value;
+  }
+
+  return query;
+}
+
+export class SearchIndex {
+  // Removed lines are left as null; their postings are dropped as queries find them
+  private lines: (IndexedLine | null)[] = [];
+  // Term -> line -> occurrences
+  private postings: Map<string, Map<number, number>> = new Map();
+  private sessionLines: Map<string, number[]> = new Map();
+  // Per session: tool use ID -> tool name, for naming tool results
+  private toolNames: Map<string, Map<string, string>> = new Map();
+  private liveLines = 0;
+  private totalLength = 0;
+
+  /**
+   * Index one transcript line of a session
+   */
+  add(sessionId: string, msg: SessionMessage): void {
+    let toolNames = this.toolNames.get(sessionId);
+    if (!toolNames) {
+      toolNames = new Map();
+      this.toolNames.set(sessionId, toolNames);
+    }
+    const extracted = extractLineText(msg, toolNames);
+    if (!extracted || !msg.uuid) return;
+
+    const terms = tokenize(extracted.text.slice(0, MAX_INDEXED_CHARS));
+    if (terms.length === 0) return;
+
+    const id = this.lines.length;
+    this.lines.push({
+      sessionId,
+      uuid: msg.uuid,
+      roles: extracted.roles,
+      tools: extracted.tools.length > 0 ? extracted.tools : undefined,
+      branch: msg.gitBranch || undefined,
+      timestamp: msg.timestamp ? new Date(msg.timestamp).getTime() : 0,
+      length: terms.length
+    });
+
+    const counts = new Map<string, number>();
+    for (const term of terms) {
+      counts.set(term, (counts.get(term) || 0) + 1);
+    }
+    for (const [term, count] of counts) {
+      let posting = this.postings.get(term);
+      if (!posting) {
+        posting = new Map();
+        this.postings.set(term, posting);
+      }
+      posting.set(id, count);
+    }
+
+    let ids = this.sessionLines.get(sessionId);
+    if (!ids) {
+      ids = [];
+      this.sessionLines.set(sessionId, ids);
+    }
+    ids.push(id);
+    this.liveLines++;
+    this.totalLength += terms.length;
+  }
+
+  /**
+   * Drop a session's lines, e.g. when its transcript is deleted or rewritten
+   */
+  removeSession(sessionId: string): void {
+    for (const id of this.sessionLines.get(sessionId) || []) {
+      const line = this.lines[id];
+      if (!line) continue;
+      this.lines[id] = null;
+      this.liveLines--;
+      this.totalLength -= line.length;
+    }
+    this.sessionLines.delete(sessionId);
+    this.toolNames.delete(sessionId);
+  }
+
+  /**
+   * Lines containing every query term that pass the filters, best first
+   * @param getSession Looks up a session for the project filter; lines of unknown sessions are skipped
+   */
+  search(query: SearchQuery, getSession: (sessionId: string) => Session | undefined): { total: number; lines: RankedLine[] } {
+    const terms = [...new Set(tokenize(query.q))];
+    const postings: Map<number, number>[] = [];
+    for (const term of terms) {
+      const posting = this.postings.get(term);
+      if (!posting) return { total: 0, lines: [] };
+      postings.push(posting);
+    }
+    // Walk the rarest term's lines and check the others
+    postings.sort((a, b) => a.size - b.size);
+
+    const averageLength = this.liveLines > 0 ? this.totalLength / this.liveLines : 1;
+    const tool = query.tool?.toLowerCase();
+    const from = query.from?.getTime();
+    const to = query.to?.getTime();
+    const ranked: RankedLine[] = [];
+
+    for (const id of postings[0].keys()) {
+      const line = this.lines[id];
+      if (!line) {
+        postings[0].delete(id);
+        continue;
+      }
+      if (!postings.every(posting => posting.has(id))) continue;
+      if (query.role && !line.roles.includes(query.role)) continue;
+      if (tool && !line.tools?.some(name => name.toLowerCase() === tool)) continue;
+      if (from !== undefined && line.timestamp < from) continue;
+      if (to !== undefined && line.timestamp > to) continue;
+
+      const session = getSession(line.sessionId);
+      if (!session) continue;
+      if (query.project && ![session.projectPath, session.projectName, session.cwd].includes(query.project)) continue;
+      if (query.branch && (line.branch || session.gitBranch) !== query.branch) continue;
+
+      let score = 0;
+      for (const posting of postings) {
+        const tf = posting.get(id)!;
+        const idf = Math.log(1 + (this.liveLines - posting.size + 0.5) / (posting.size + 0.5));
+        score += idf * (tf * (K1 + 1)) / (tf + K1 * (1 - B + B * line.length / averageLength));
+      }
+      ranked.push({ ...line, score });
+    }
+
+    ranked.sort((a, b) => b.score - a.score || b.timestamp - a.timestamp);
+    return { total: ranked.length, lines: ranked.slice(0, query.limit ?? DEFAULT_SEARCH_LIMIT) };
+  }
+
+  getStats(): { lines: number; terms: number; sessions: number } {
+    return { lines: this.liveLines, terms: this.postings.size, sessions: this.sessionLines.size };
+  }
+}
+
+/**
+ * Display message ID of each transcript line, as sessionToDisplayMessages assigns them
+ */
+function displayMessageIds(messages: SessionMessage[]): Map<string, string> {
+  const assembler = new MessageAssembler();
+  const ids = new Map<string, string>();
+  for (const msg of messages) {
+    const updates = assembler.apply(msg);
+    if (updates.length === 0 || !msg.uuid) continue;
+    // A user line's own text comes after the tool results it carries
+    const update = msg.type === 'user' ? updates[updates.length - 1] : updates[0];
+    ids.set(msg.uuid, update.type === 'message' ? update.message.id : update.messageId);
+  }
+  return ids;
+}
+
+/**
+ * Turn ranked lines into hits with snippets, reading each session's transcript once
+ */
+export async function buildSearchHits(
+  query: SearchQuery,
+  lines: RankedLine[],
+  getSession: (sessionId: string) => Session | undefined,
+  loadMessages: (session: Session) => Promise<SessionMessage[]>
+): Promise<SearchHit[]> {
+  const terms = [...new Set(tokenize(query.q))];
+  const transcripts = new Map<string, { byUuid: Map<string, SessionMessage>; displayIds: Map<string, string> }>();
+  const hits: SearchHit[] = [];
+
+  for (const line of lines) {
+    const session = getSession(line.sessionId);
+    if (!session) continue;
+
+    let transcript = transcripts.get(session.id);
+    if (!transcript) {
+      const messages = await loadMessages(session);
+      transcript = {
+        byUuid: new Map(messages.map(msg => [msg.uuid, msg])),
+        displayIds: displayMessageIds(messages)
+      };
+      transcripts.set(session.id, transcript);
+    }
+
+    const msg = transcript.byUuid.get(line.uuid);
+    const text = msg ? extractLineText(msg)?.text : undefined;
+    hits.push({
+      sessionId: session.id,
+      messageId: transcript.displayIds.get(line.uuid) || line.uuid,
+      uuid: line.uuid,
+      projectName: session.projectName,
+      cwd: session.cwd,
+      gitBranch: line.branch || session.gitBranch || undefined,
+      roles: line.roles,
+      tools: line.tools,
+      timestamp: new Date(line.timestamp).toISOString(),
+      score: Math.round(line.score * 1000) / 1000,
+      snippet: text ? buildSnippet(text, terms) : ''
+    });
+  }
+
+  return hits;
+}
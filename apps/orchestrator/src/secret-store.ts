@@ -0,0 +1,219 @@
+/**
+ * Encrypted secret store
+ *
+ * Secrets referenced by environment profiles live in one file,
+ * ~/.claude/orchestrator/secrets.enc, encrypted with AES-256-GCM under a key
+ * derived (scrypt) from a passphrase or the contents of a key file. The store
+ * starts locked; until it is unlocked, secret names and values are unavailable.
+ *
+ * Secret values only ever leave this module through resolveSecrets, for a
+ * child's environment. They are never returned by the API or logged.
+ *
+ * Environment variables: ORCHESTRATOR_SECRETS_KEY_FILE unlocks the store at startup
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import * as crypto from 'node:crypto';
+import { ConflictError, NotFoundError, ValidationError } from './error-handler';
+import { ENV_NAME_PATTERN } from './launch-options';
+import { STORAGE_DIR } from './session-persistence';
+import { logger } from './logger';
+
+const log = logger.child('SecretStore');
+
+interface EncryptedStore {
+  version: 1;
+  // Base64 scrypt salt, GCM IV and auth tag
+  salt: string;
+  iv: string;
+  tag: string;
+  data: string;
+}
+
+export interface SecretStoreStatus {
+  exists: boolean;
+  unlocked: boolean;
+  // Secret names, once unlocked
+  names: string[];
+}
+
+const DEFAULT_STORAGE_FILE = path.join(STORAGE_DIR, 'secrets.enc');
+
+export const KEY_FILE_ENV = 'ORCHESTRATOR_SECRETS_KEY_FILE';
+
+const MIN_PASSPHRASE_LENGTH = 8;
+
+let storageFile = DEFAULT_STORAGE_FILE;
+
+// Set while unlocked
+let key: Buffer | null = null;
+let salt: Buffer | null = null;
+let secrets: Map<string, string> | null = null;
+
+/**
+ * Keep secrets in another file (useful for testing); locks the store
+ */
+export function setSecretStoreFile(file: string = DEFAULT_STORAGE_FILE): void {
+  storageFile = file;
+  lockSecretStore();
+}
+
+function deriveKey(passphrase: string | Buffer, keySalt: Buffer): Buffer {
+  return crypto.scryptSync(passphrase, keySalt, 32);
+}
+
+function readStore(): EncryptedStore | null {
+  if (!fs.existsSync(storageFile)) return null;
+  return JSON.parse(fs.readFileSync(storageFile, 'utf-8'));
+}
+
+function writeStore(): void {
+  if (!key || !salt || !secrets) {
+    throw new ConflictError('Secret store is locked');
+  }
+  const iv = crypto.randomBytes(12);
+  const cipher = crypto.createCipheriv('aes-256-gcm', key, iv);
+  const plaintext = JSON.stringify(Object.fromEntries(secrets));
+  const data = Buffer.concat([cipher.update(plaintext, 'utf-8'), cipher.final()]);
+  const store: EncryptedStore = {
+    version: 1,
+    salt: salt.toString('base64'),
+    iv: iv.toString('base64'),
+    tag: cipher.getAuthTag().toString('base64'),
+    data: data.toString('base64')
+  };
+
+  const dir = path.dirname(storageFile);
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true });
+  }
+  fs.writeFileSync(storageFile, JSON.stringify(store, null, 2), { encoding: 'utf-8', mode: 0o600 });
+}
+
+/**
+ * Unlock the store, creating an empty one if there is none yet
+ * @param passphrase Passphrase, or the contents of a key file
+ * @throws ValidationError if the passphrase is too short or doesn't open the store
+ */
+export function unlockSecretStore(passphrase: string | Buffer): void {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new ValidationError(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+
+  const store = readStore();
+  if (!store) {
+    salt = crypto.randomBytes(16);
+    key = deriveKey(passphrase, salt);
+    secrets = new Map();
+    writeStore();
+    log.info('Created secret store', { data: { path: storageFile } });
+    return;
+  }
+
+  const storeSalt = Buffer.from(store.salt, 'base64');
+  const storeKey = deriveKey(passphrase, storeSalt);
+  let plaintext: string;
+  try {
+    const decipher = crypto.createDecipheriv('aes-256-gcm', storeKey, Buffer.from(store.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(store.tag, 'base64'));
+    plaintext = Buffer.concat([decipher.update(Buffer.from(store.data, 'base64')), decipher.final()]).toString('utf-8');
+  } catch {
+    throw new ValidationError('Wrong passphrase or key file for the secret store');
+  }
+
+  salt = storeSalt;
+  key = storeKey;
+  secrets = new Map(Object.entries(JSON.parse(plaintext)));
+  log.info('Unlocked secret store', { data: { path: storageFile, secrets: secrets.size } });
+}
+
+/**
+ * Unlock the store with a key file
+ * @throws ValidationError if the file can't be read or doesn't open the store
+ */
+export function unlockSecretStoreWithKeyFile(keyFile: string): void {
+  let contents: Buffer;
+  try {
+    contents = fs.readFileSync(keyFile);
+  } catch {
+    throw new ValidationError('Cannot read the secret store key file', { path: keyFile });
+  }
+  unlockSecretStore(contents);
+}
+
+/**
+ * Forget the key and decrypted secrets
+ */
+export function lockSecretStore(): void {
+  key = null;
+  salt = null;
+  secrets = null;
+}
+
+export function getSecretStoreStatus(): SecretStoreStatus {
+  return {
+    exists: fs.existsSync(storageFile),
+    unlocked: secrets !== null,
+    names: secrets ? [...secrets.keys()].sort() : []
+  };
+}
+
+function unlockedSecrets(): Map<string, string> {
+  if (!secrets) {
+    throw new ConflictError('Secret store is locked');
+  }
+  return secrets;
+}
+
+/**
+ * Validate a secret name (the same shape as an environment variable name)
+ * @throws ValidationError if malformed
+ */
+export function validateSecretName(name: unknown): string {
+  if (typeof name !== 'string' || !ENV_NAME_PATTERN.test(name)) {
+    throw new ValidationError('Secret names may contain only letters, digits and underscores');
+  }
+  return name;
+}
+
+/**
+ * Add or replace a secret and write the store
+ * @throws ConflictError if the store is locked
+ */
+export function setSecret(name: string, value: unknown): void {
+  const store = unlockedSecrets();
+  validateSecretName(name);
+  if (typeof value !== 'string' || value.length === 0) {
+    throw new ValidationError('Secret value must be a non-empty string');
+  }
+  store.set(name, value);
+  writeStore();
+  log.info('Saved secret', { data: { name } });
+}
+
+/**
+ * @throws ConflictError if the store is locked
+ * @throws NotFoundError if there is no such secret
+ */
+export function deleteSecret(name: string): void {
+  if (!unlockedSecrets().delete(name)) {
+    throw new NotFoundError('Secret');
+  }
+  writeStore();
+  log.info('Deleted secret', { data: { name } });
+}
+
+/**
+ * Look up secret values, for a child's environment
+ * @throws ConflictError if the store is locked
+ * @throws ValidationError naming the secrets that don't exist
+ */
+export function resolveSecrets(names: string[]): Map<string, string> {
+  const store = unlockedSecrets();
+  const missing = names.filter(name => !store.has(name));
+  if (missing.length > 0) {
+    throw new ValidationError(`Unknown secrets: ${missing.join(', ')}`, { names: missing });
+  }
+  return new Map(names.map(name => [name, store.get(name)!]));
+}
@@ -0,0 +1,125 @@
+/**
+ * Forking a transcript at one of its messages
+ *
+ * Every transcript line points at its parent (`parentUuid`), so the
+ * conversation up to a message is the chain of parents from that message back
+ * to the root. A fork is a new transcript holding that chain under a new
+ * session ID, written next to the original so `claude --resume <fork>` finds
+ * it; the original transcript is not touched.
+ */
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import type { Session, SessionMessage } from './types';
+import { NotFoundError, ValidationError } from './error-handler';
+import { logger } from './logger';
+
+const log = logger.child('SessionFork');
+
+export interface SessionFork {
+  sessionId: string;
+  filePath: string;
+  messages: SessionMessage[];
+}
+
+/**
+ * Find the transcript line a display message came from: its own uuid, or for
+ * one block of a live-assembled assistant message, `<API message ID>:<block index>`
+ * @throws NotFoundError if no line matches
+ * @throws ValidationError if the block index isn't one of the message's blocks
+ */
+export function findForkPoint(messages: SessionMessage[], messageId: string): SessionMessage {
+  const byUuid = messages.find(m => m.uuid === messageId);
+  if (byUuid) return byUuid;
+
+  // Transcripts record one line per content block
+  const separator = messageId.lastIndexOf(':');
+  if (separator !== -1) {
+    const apiMessageId = messageId.slice(0, separator);
+    const blockIndex = messageId.slice(separator + 1);
+    const blocks = messages.filter(m => m.message?.id === apiMessageId);
+    if (blocks.length > 0) {
+      const index = /^\d+$/.test(blockIndex) ? Number(blockIndex) : -1;
+      if (index < 0 || index >= blocks.length) {
+        throw new ValidationError(`No block ${blockIndex} in message ${apiMessageId}`, {
+          messageId,
+          blockCount: blocks.length
+        });
+      }
+      return blocks[index];
+    }
+  }
+  throw new NotFoundError('Message');
+}
+
+function pendingToolUses(chain: SessionMessage[]): Set<string> {
+  const pending = new Set<string>();
+  for (const msg of chain) {
+    for (const block of msg.message?.content || []) {
+      if (block.type === 'tool_use') pending.add(block.id);
+      else if (block.type === 'tool_result') pending.delete(block.tool_use_id);
+    }
+  }
+  return pending;
+}
+
+/**
+ * The conversation up to and including a message, oldest first. When that ends
+ * in tool calls, it runs on to their results, since a conversation with an
+ * unanswered tool call can't be resumed.
+ * @throws NotFoundError if the message isn't in the transcript
+ * @throws ValidationError if a tool call in it never got a result
+ */
+export function buildForkChain(messages: SessionMessage[], messageId: string): SessionMessage[] {
+  const byUuid = new Map<string, SessionMessage>();
+  const children = new Map<string, SessionMessage[]>();
+  for (const msg of messages) {
+    if (!msg.uuid) continue;
+    byUuid.set(msg.uuid, msg);
+    if (msg.parentUuid && !msg.isSidechain) {
+      const siblings = children.get(msg.parentUuid) || [];
+      siblings.push(msg);
+      children.set(msg.parentUuid, siblings);
+    }
+  }
+
+  const chain: SessionMessage[] = [];
+  const seen = new Set<string>();
+  for (let msg: SessionMessage | undefined = findForkPoint(messages, messageId); msg && !seen.has(msg.uuid); ) {
+    seen.add(msg.uuid);
+    chain.unshift(msg);
+    msg = msg.parentUuid ? byUuid.get(msg.parentUuid) : undefined;
+  }
+
+  while (pendingToolUses(chain).size > 0) {
+    const next = children.get(chain[chain.length - 1].uuid)?.[0];
+    if (!next) {
+      throw new ValidationError('Cannot fork at a tool call that has no result yet', {
+        toolUseIds: [...pendingToolUses(chain)]
+      });
+    }
+    chain.push(next);
+  }
+
+  return chain;
+}
+
+/**
+ * Write a fork of a transcript ending at `messageId` to a new transcript in the same project directory
+ * @param messages The transcript's messages
+ * @throws NotFoundError if the message isn't in the transcript
+ * @throws ValidationError if the conversation can't be cut there
+ */
+export function forkSession(session: Session, messages: SessionMessage[], messageId: string): SessionFork {
+  const chain = buildForkChain(messages, messageId);
+  const sessionId = crypto.randomUUID();
+  const filePath = path.join(path.dirname(session.filePath), `${sessionId}.jsonl`);
+
+  const forked = chain.map(msg => ({ ...msg, sessionId }));
+  fs.writeFileSync(filePath, forked.map(msg => JSON.stringify(msg)).join('\n') + '\n', 'utf-8');
+
+  log.info('Forked session', {
+    data: { sessionId: session.id, messageId, forkId: sessionId, messages: forked.length }
+  });
+  return { sessionId, filePath, messages: forked };
+}
@@ -2,6 +2,10 @@ import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import { logger } from './logger';
+import type { LaunchOptions } from './launch-options';
+import type { BudgetRule } from './budgets';
+import type { SessionWorktree } from './worktrees';
+import type { UsageSnapshot } from './usage';
 
 const log = logger.child('SessionPersistence');
 
@@ -12,6 +16,15 @@ export interface PersistedWebSession {
   createdAt: string;
   lastActivity: string;
   resumeSessionId?: string;
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  worktree?: SessionWorktree;
+  // Environment profile name
+  envProfile?: string;
+  // Last event sequence number, so numbering continues after a restore
+  lastSeq?: number;
+  // Usage so far, so budgets carry on from it after a restore
+  usage?: UsageSnapshot;
 }
 
 export interface SessionStore {
@@ -19,13 +32,16 @@ export interface SessionStore {
   lastUpdated: string;
 }
 
-// Storage location
-const STORAGE_DIR = path.join(os.homedir(), '.claude', 'orchestrator');
+// Where the orchestrator keeps its state; other modules store their files here too
+export const STORAGE_DIR = path.join(os.homedir(), '.claude', 'orchestrator');
 const STORAGE_FILE = path.join(STORAGE_DIR, 'web-sessions.json');
 
 // Auto-save debounce timer
 let autoSaveTimer: Timer | null = null;
+let autoSaveDeadline = 0;
+let pendingSessions: PersistedWebSession[] | null = null;
 const AUTO_SAVE_DELAY = 500; // ms
+const AUTO_SAVE_MAX_WAIT = 5000; // ms
 
 /**
  * Initialize storage directory
@@ -140,20 +156,32 @@ export function removeSession(sessionId: string): void {
 }
 
 /**
- * Schedule auto-save with debounce to prevent excessive writes
- * @param sessions Array of sessions to save
+ * Schedule auto-save with debounce to prevent excessive writes. Saves are
+ * held back at most maxWaitMs, so a steady stream of changes still gets written.
+ * @param sessions Array of sessions to save (replaces any still waiting)
  */
-export function scheduleAutoSave(sessions: PersistedWebSession[]): void {
-  // Clear existing timer
+export function scheduleAutoSave(
+  sessions: PersistedWebSession[],
+  delayMs: number = AUTO_SAVE_DELAY,
+  maxWaitMs: number = AUTO_SAVE_MAX_WAIT
+): void {
+  const now = Date.now();
+  pendingSessions = sessions;
+
+  // Clear existing timer, keeping the deadline of the first pending change
   if (autoSaveTimer) {
     clearTimeout(autoSaveTimer);
+  } else {
+    autoSaveDeadline = now + maxWaitMs;
   }
 
   // Schedule new save
   autoSaveTimer = setTimeout(() => {
-    saveSessions(sessions);
     autoSaveTimer = null;
-  }, AUTO_SAVE_DELAY);
+    const pending = pendingSessions;
+    pendingSessions = null;
+    if (pending) saveSessions(pending);
+  }, Math.max(0, Math.min(delayMs, autoSaveDeadline - now)));
 }
 
 /**
@@ -164,4 +192,5 @@ export function clearAutoSaveTimer(): void {
     clearTimeout(autoSaveTimer);
     autoSaveTimer = null;
   }
+  pendingSessions = null;
 }
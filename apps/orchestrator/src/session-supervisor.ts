@@ -0,0 +1,141 @@
+/**
+ * Supervision policy for web session child processes
+ *
+ * Classifies why a claude child exited and decides whether (and when) to restart it
+ *
+ * Environment variables:
+ * - ORCHESTRATOR_AUTO_RESTART=true enables automatic restarts
+ * - ORCHESTRATOR_FINISHED_SESSION_RETENTION_MINUTES: how long a finished session
+ *   stays available to clients (default 30)
+ */
+
+// 'reaped': stopped by the orchestrator for going over a resource limit
+export type ExitReason = 'user_stop' | 'reaped' | 'completed' | 'crash' | 'killed';
+
+export interface SupervisorConfig {
+  autoRestart: boolean;    // Restart crashed/killed sessions with --resume
+  maxRestarts: number;     // Restart cap per session
+  baseDelayMs: number;     // First restart delay, doubled on each attempt
+  maxDelayMs: number;      // Backoff ceiling
+  stableAfterMs: number;   // Uptime after which the restart counter resets
+  stderrLines: number;     // Stderr lines kept for the crash report
+  finishedRetentionMs: number; // How long a finished session is kept before it is dropped
+}
+
+export interface ExitDetails {
+  exitCode: number | null;
+  signal: string | null;
+  stopRequested: boolean;
+  // Stopped by the resource limit monitor
+  reaped?: boolean;
+  stderrTail: string[];
+}
+
+// Default configuration
+export const DEFAULT_SUPERVISOR_CONFIG: SupervisorConfig = {
+  autoRestart: process.env.ORCHESTRATOR_AUTO_RESTART === 'true',
+  maxRestarts: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+  stableAfterMs: 60000,
+  stderrLines: 50,
+  finishedRetentionMs: (parseInt(process.env.ORCHESTRATOR_FINISHED_SESSION_RETENTION_MINUTES || '') || 30) * 60 * 1000
+};
+
+let config: SupervisorConfig = { ...DEFAULT_SUPERVISOR_CONFIG };
+
+// Stderr markers of the child running out of memory
+const OOM_PATTERN = /out of memory|ENOMEM|heap limit|Allocation failed/i;
+
+/**
+ * Override supervisor settings
+ */
+export function configureSupervisor(overrides: Partial<SupervisorConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+/**
+ * Get the current supervisor settings
+ */
+export function getSupervisorConfig(): SupervisorConfig {
+  return config;
+}
+
+/**
+ * Reset supervisor settings to defaults (useful for testing)
+ */
+export function resetSupervisorConfig(): void {
+  config = { ...DEFAULT_SUPERVISOR_CONFIG };
+}
+
+/**
+ * Classify a child process exit
+ * @returns user_stop, reaped, completed, crash, or killed (OOM or external signal)
+ */
+export function classifyExit(details: ExitDetails): ExitReason {
+  if (details.stopRequested) return 'user_stop';
+  if (details.reaped) return 'reaped';
+  if (details.exitCode === 0 && !details.signal) return 'completed';
+  // 137 = 128 + SIGKILL, which is what the kernel OOM killer sends
+  if (details.signal || details.exitCode === 137) return 'killed';
+  if (details.stderrTail.some(line => OOM_PATTERN.test(line))) return 'killed';
+  return 'crash';
+}
+
+/**
+ * Human readable description of an exit, for status events
+ */
+export function describeExit(reason: ExitReason, details: Pick<ExitDetails, 'exitCode' | 'signal' | 'stderrTail'>): string {
+  switch (reason) {
+    case 'user_stop':
+      return 'Session stopped by user';
+    case 'reaped':
+      return 'Session stopped by a resource limit';
+    case 'completed':
+      return 'Claude exited normally';
+    case 'killed': {
+      const oom = details.exitCode === 137 || details.stderrTail.some(line => OOM_PATTERN.test(line));
+      if (oom) return 'Claude was killed (likely out of memory)';
+      return `Claude was killed by ${details.signal || 'a signal'}`;
+    }
+    case 'crash':
+      return `Claude crashed with exit code ${details.exitCode}`;
+  }
+}
+
+/**
+ * Whether an exit should trigger an automatic restart
+ * @param reason Exit classification
+ * @param restartCount Restarts already performed for this session
+ */
+export function shouldRestart(reason: ExitReason, restartCount: number, cfg: SupervisorConfig = config): boolean {
+  if (!cfg.autoRestart) return false;
+  if (reason !== 'crash' && reason !== 'killed') return false;
+  return restartCount < cfg.maxRestarts;
+}
+
+/**
+ * Exponential backoff delay before the given restart attempt (0-based)
+ */
+export function getRestartDelay(attempt: number, cfg: SupervisorConfig = config): number {
+  return Math.min(cfg.baseDelayMs * Math.pow(2, attempt), cfg.maxDelayMs);
+}
+
+/**
+ * Append stderr output to a bounded tail of lines
+ * @param tail Existing lines (mutated)
+ * @param partial Incomplete trailing line from the previous chunk
+ * @returns New incomplete trailing line
+ */
+export function appendStderr(tail: string[], partial: string, chunk: string, maxLines: number = config.stderrLines): string {
+  const lines = (partial + chunk).split('\n');
+  const rest = lines.pop() || '';
+
+  for (const line of lines) {
+    if (line.trim()) tail.push(line);
+  }
+  if (tail.length > maxLines) {
+    tail.splice(0, tail.length - maxLines);
+  }
+  return rest;
+}
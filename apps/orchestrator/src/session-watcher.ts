@@ -1,292 +1,579 @@
+/**
+ * Session watcher
+ *
+ * Indexes the transcripts under ~/.claude/projects and keeps the index current.
+ * The index holds metadata only (cwd, branch, activity, counts, pending hook,
+ * a preview of the latest message); full messages are read on demand through
+ * a TranscriptCache. Each project directory has its own fs.watch; a change to a file is debounced
+ * and only that file is re-read (from where it was last read, when it grew).
+ * Directories that can't be watched fall back to polling. The startup scan
+ * parses transcripts in parallel, a bounded number at a time.
+ *
+ * The directory a transcript is stored in (e.g. -Users-me-GitHub-my-app) is only
+ * a storage key: the encoding is lossy, so a session's project is the working
+ * directory its transcript first records.
+ */
+
 import * as fs from 'node:fs';
 import * as path from 'node:path';
 import * as os from 'node:os';
-import type { Session, SessionMessage, PendingHook, ProjectSessions } from './types';
+import type { Session, SessionMessage, PendingHook, MessageContent } from './types';
+import { UsageTracker } from './usage';
+import { TranscriptCache, streamTranscript } from './transcript-cache';
+import type { TranscriptCacheOptions } from './transcript-cache';
+import type { SearchIndex } from './search-index';
+import { HookTracker } from './hook-state';
+import type { HookTrackerOptions } from './hook-state';
+import { logger } from './logger';
+
+const log = logger.child('SessionWatcher');
 
 const CLAUDE_PROJECTS_DIR = path.join(os.homedir(), '.claude', 'projects');
 
+export interface SessionWatcherOptions {
+  // Directory holding one directory per project (default ~/.claude/projects)
+  projectsDir?: string;
+  // Quiet time after a change before the changed files are re-read
+  debounceMs?: number;
+  // How often directories that can't be watched are polled
+  pollIntervalMs?: number;
+  // Transcripts parsed at once during the startup scan
+  scanConcurrency?: number;
+  // Bounds of the cache of full transcripts read on demand
+  cache?: TranscriptCacheOptions;
+  // Full-text index to feed every transcript line read
+  searchIndex?: SearchIndex;
+  // When tool calls count as waiting on the user
+  hooks?: HookTrackerOptions;
+}
+
+// A directory of transcripts under the projects directory
+interface StorageDir {
+  dir: string;
+  sessions: Session[];
+  // Transcript files read, including empty or unparseable ones that have no session
+  files: Set<string>;
+}
+
+// Sessions without activity for this long are idle
+const IDLE_THRESHOLD_MS = 5 * 60 * 1000;
+
+const DEFAULT_DEBOUNCE_MS = 100;
+const DEFAULT_POLL_INTERVAL_MS = 1000;
+const DEFAULT_SCAN_CONCURRENCY = 16;
+
+/**
+ * Run a task for each item, at most `limit` at a time
+ */
+export async function mapWithConcurrency<T, R>(items: T[], limit: number, task: (item: T) => Promise<R>): Promise<R[]> {
+  const results: R[] = new Array(items.length);
+  let next = 0;
+  const worker = async () => {
+    while (next < items.length) {
+      const index = next++;
+      results[index] = await task(items[index]);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, worker));
+  return results;
+}
+
 export class SessionWatcher {
-  private projects: Map<string, ProjectSessions> = new Map();
+  private storageDirs: Map<string, StorageDir> = new Map();
+  private sessionsByFile: Map<string, Session> = new Map();
   private fileWatchers: Map<string, fs.FSWatcher> = new Map();
   private filePositions: Map<string, number> = new Map();
+  private hookTrackers: Map<string, HookTracker> = new Map();
+  // Transcripts whose pending hook may change by itself, and when
+  private hookRechecks: Map<string, number> = new Map();
+  private hookOptions: HookTrackerOptions;
+  private transcripts: TranscriptCache;
+  private searchIndex?: SearchIndex;
   private onUpdate: (sessions: Session[]) => void;
   private onHookAlert?: (sessionId: string, sessionName: string, hook: PendingHook) => void;
   private pollInterval: NodeJS.Timeout | null = null;
   private seenHooks: Map<string, string> = new Map(); // sessionId -> hookId (toolUseId)
-
-  constructor(onUpdate: (sessions: Session[]) => void, onHookAlert?: (sessionId: string, sessionName: string, hook: PendingHook) => void) {
+  private projectsDir: string;
+  private debounceMs: number;
+  private pollIntervalMs: number;
+  private scanConcurrency: number;
+  // Directories (project directories, or the projects directory itself) fs.watch couldn't cover
+  private polledDirs: Set<string> = new Set();
+  // Changed files and directories waiting for the debounce to run out
+  private pendingFiles: Set<string> = new Set();
+  private pendingDirs: Set<string> = new Set();
+  private flushTimer: NodeJS.Timeout | null = null;
+  private flushing: Promise<void> | null = null;
+  private stopped = false;
+
+  constructor(
+    onUpdate: (sessions: Session[]) => void,
+    onHookAlert?: (sessionId: string, sessionName: string, hook: PendingHook) => void,
+    options: SessionWatcherOptions = {}
+  ) {
     this.onUpdate = onUpdate;
     this.onHookAlert = onHookAlert;
+    this.projectsDir = options.projectsDir ?? CLAUDE_PROJECTS_DIR;
+    this.debounceMs = options.debounceMs ?? DEFAULT_DEBOUNCE_MS;
+    this.pollIntervalMs = options.pollIntervalMs ?? DEFAULT_POLL_INTERVAL_MS;
+    this.scanConcurrency = options.scanConcurrency ?? DEFAULT_SCAN_CONCURRENCY;
+    this.transcripts = new TranscriptCache(options.cache);
+    this.searchIndex = options.searchIndex;
+    this.hookOptions = options.hooks ?? {};
   }
 
   async start(): Promise<void> {
-    // Initial scan
-    await this.scanProjects();
-
-    // Watch for new projects
-    if (fs.existsSync(CLAUDE_PROJECTS_DIR)) {
-      const watcher = fs.watch(CLAUDE_PROJECTS_DIR, (eventType, filename) => {
-        if (filename && eventType === 'rename') {
-          this.scanProjects();
-        }
+    this.stopped = false;
+
+    // Watch before scanning so nothing written during the scan is missed
+    if (fs.existsSync(this.projectsDir)) {
+      this.watchDirectory('root', this.projectsDir, (_eventType, filename) => {
+        this.queueDirectory(filename ? path.join(this.projectsDir, filename.toString()) : this.projectsDir);
       });
-      this.fileWatchers.set('root', watcher);
     }
 
-    // Poll for file changes (more reliable than fs.watch for content)
-    this.pollInterval = setInterval(() => this.pollSessions(), 1000);
+    // Changes seen during the scan are applied after it
+    const scan = this.scanProjects();
+    this.flushing = scan;
+    try {
+      await scan;
+    } finally {
+      if (this.flushing === scan) this.flushing = null;
+    }
+
+    this.pollInterval = setInterval(() => {
+      this.pollFallbackDirs();
+      this.recheckHooks();
+    }, this.pollIntervalMs);
   }
 
   stop(): void {
+    this.stopped = true;
     for (const watcher of this.fileWatchers.values()) {
       watcher.close();
     }
     this.fileWatchers.clear();
+    this.polledDirs.clear();
     if (this.pollInterval) {
       clearInterval(this.pollInterval);
+      this.pollInterval = null;
+    }
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
     }
+    this.pendingFiles.clear();
+    this.pendingDirs.clear();
   }
 
-  private async scanProjects(): Promise<void> {
-    if (!fs.existsSync(CLAUDE_PROJECTS_DIR)) {
-      return;
+  /**
+   * Resolves once changes seen so far have been applied (useful for testing)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer) {
+      clearTimeout(this.flushTimer);
+      this.flushTimer = null;
+      await this.applyPendingChanges();
     }
+    await this.flushing;
+  }
 
-    const entries = fs.readdirSync(CLAUDE_PROJECTS_DIR, { withFileTypes: true });
+  private watchDirectory(key: string, dir: string, listener: fs.WatchListener<string>): void {
+    try {
+      const watcher = fs.watch(dir, listener);
+      watcher.on('error', (err) => {
+        log.warn('Directory watch failed, polling it instead', { data: { path: dir, error: String(err) } });
+        watcher.close();
+        this.fileWatchers.delete(key);
+        this.polledDirs.add(dir);
+      });
+      this.fileWatchers.set(key, watcher);
+    } catch (err) {
+      log.warn('Cannot watch directory, polling it instead', { data: { path: dir, error: String(err) } });
+      this.polledDirs.add(dir);
+    }
+  }
 
-    for (const entry of entries) {
-      if (entry.isDirectory() && !entry.name.startsWith('.')) {
-        const projectPath = path.join(CLAUDE_PROJECTS_DIR, entry.name);
-        await this.scanProjectSessions(entry.name, projectPath);
+  private watchProject(dir: string): void {
+    if (this.fileWatchers.has(dir) || this.polledDirs.has(dir)) return;
+    this.watchDirectory(dir, dir, (_eventType, filename) => {
+      if (!filename) {
+        this.queueDirectory(dir);
+      } else if (filename.toString().endsWith('.jsonl')) {
+        this.queueFile(path.join(dir, filename.toString()));
       }
-    }
+    });
+  }
 
-    this.notifyUpdate();
+  private unwatchProject(dir: string): void {
+    this.fileWatchers.get(dir)?.close();
+    this.fileWatchers.delete(dir);
+    this.polledDirs.delete(dir);
   }
 
-  private async scanProjectSessions(projectName: string, projectPath: string): Promise<void> {
-    const files = fs.readdirSync(projectPath).filter(f => f.endsWith('.jsonl'));
+  private queueFile(filePath: string): void {
+    this.pendingFiles.add(filePath);
+    this.scheduleFlush();
+  }
 
-    const sessions: Session[] = [];
+  private queueDirectory(dir: string): void {
+    this.pendingDirs.add(dir);
+    this.scheduleFlush();
+  }
 
-    for (const file of files) {
-      const filePath = path.join(projectPath, file);
-      const sessionId = file.replace('.jsonl', '');
+  private scheduleFlush(): void {
+    if (this.stopped) return;
+    if (this.flushTimer) clearTimeout(this.flushTimer);
+    this.flushTimer = setTimeout(() => {
+      this.flushTimer = null;
+      this.applyPendingChanges();
+    }, this.debounceMs);
+  }
 
-      const session = await this.parseSessionFile(sessionId, filePath, projectName, projectPath);
-      if (session) {
-        sessions.push(session);
+  private async applyPendingChanges(): Promise<void> {
+    // One batch at a time; a batch queued meanwhile runs after this one
+    const previous = this.flushing;
+    const run = (async () => {
+      await previous;
+      const dirs = [...this.pendingDirs];
+      const files = [...this.pendingFiles];
+      this.pendingDirs.clear();
+      this.pendingFiles.clear();
+
+      let changed = false;
+      for (const dir of dirs) {
+        if (dir === this.projectsDir) {
+          changed = (await this.reconcileProjects()) || changed;
+        } else if (path.dirname(dir) === this.projectsDir && !path.basename(dir).startsWith('.')) {
+          changed = (await this.reconcileProject(dir)) || changed;
+        }
+      }
+      for (const filePath of files) {
+        changed = (await this.refreshFile(filePath)) || changed;
       }
+      if (changed && !this.stopped) {
+        this.notifyUpdate();
+      }
+    })();
+    this.flushing = run;
+    try {
+      await run;
+    } catch (err) {
+      log.error('Failed to apply session changes', err);
+    } finally {
+      if (this.flushing === run) this.flushing = null;
     }
-
-    // Sort by last activity
-    sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
-
-    this.projects.set(projectPath, {
-      projectPath,
-      projectName: this.decodeProjectName(projectName),
-      sessions
-    });
   }
 
-  private decodeProjectName(encoded: string): string {
-    // Convert -Users-say-Documents-GitHub-project to project
-    const parts = encoded.split('-').filter(Boolean);
-    return parts[parts.length - 1] || encoded;
+  private listProjectDirs(): string[] {
+    if (!fs.existsSync(this.projectsDir)) return [];
+    return fs.readdirSync(this.projectsDir, { withFileTypes: true })
+      .filter(entry => entry.isDirectory() && !entry.name.startsWith('.'))
+      .map(entry => path.join(this.projectsDir, entry.name));
   }
 
-  private async parseSessionFile(
-    sessionId: string,
-    filePath: string,
-    projectName: string,
-    projectPath: string
-  ): Promise<Session | null> {
+  private listSessionFiles(dir: string): string[] {
     try {
-      const stat = fs.statSync(filePath);
-      const content = fs.readFileSync(filePath, 'utf-8');
-      const lines = content.trim().split('\n').filter(Boolean);
-
-      // Store position for incremental updates
-      this.filePositions.set(filePath, stat.size);
-
-      const messages: SessionMessage[] = [];
-      let cwd = '';
-      let gitBranch = '';
-      let lastTimestamp = new Date(0);
-
-      for (const line of lines) {
-        try {
-          const msg = JSON.parse(line) as SessionMessage;
-          messages.push(msg);
-
-          if (msg.cwd) cwd = msg.cwd;
-          if (msg.gitBranch) gitBranch = msg.gitBranch;
-          if (msg.timestamp) {
-            const ts = new Date(msg.timestamp);
-            if (ts > lastTimestamp) lastTimestamp = ts;
-          }
-        } catch {
-          // Skip invalid JSON lines
-        }
-      }
+      return fs.readdirSync(dir).filter(f => f.endsWith('.jsonl')).map(f => path.join(dir, f));
+    } catch {
+      return [];
+    }
+  }
 
-      if (messages.length === 0) return null;
+  private async scanProjects(): Promise<void> {
+    const dirs = this.listProjectDirs();
+    for (const dir of dirs) {
+      this.storageDirs.set(dir, { dir, sessions: [], files: new Set() });
+      this.watchProject(dir);
+    }
 
-      // Check for pending hooks
-      const pendingHook = this.detectPendingHook(messages);
+    const files = dirs.flatMap(dir => this.listSessionFiles(dir));
+    const parsed = await mapWithConcurrency(files, this.scanConcurrency, filePath => this.parseFile(filePath));
+    for (const session of parsed) {
+      if (session) this.addSession(session);
+    }
+    for (const storageDir of this.storageDirs.values()) {
+      this.sortSessions(storageDir);
+    }
 
-      // Determine status
-      const now = Date.now();
-      const lastActivityMs = lastTimestamp.getTime();
-      const idleThreshold = 5 * 60 * 1000; // 5 minutes
+    this.notifyUpdate();
+  }
 
-      let status: 'active' | 'idle' | 'pending_hook' = 'idle';
-      if (pendingHook) {
-        status = 'pending_hook';
-      } else if (now - lastActivityMs < idleThreshold) {
-        status = 'active';
+  /**
+   * Pick up added and removed project directories
+   * @returns Whether any sessions changed
+   */
+  private async reconcileProjects(): Promise<boolean> {
+    const current = new Set(this.listProjectDirs());
+    let changed = false;
+    for (const dir of [...this.storageDirs.keys()]) {
+      if (!current.has(dir)) {
+        changed = this.removeProject(dir) || changed;
+      }
+    }
+    for (const dir of current) {
+      if (!this.storageDirs.has(dir)) {
+        changed = (await this.reconcileProject(dir)) || changed;
       }
+    }
+    return changed;
+  }
 
-      return {
-        id: sessionId,
-        projectPath,
-        projectName: this.decodeProjectName(projectName),
-        filePath,
-        cwd,
-        gitBranch,
-        lastActivity: lastTimestamp,
-        messageCount: messages.filter(m => m.type === 'user' || m.type === 'assistant').length,
-        status,
-        pendingHook,
-        messages
-      };
-    } catch (err) {
-      console.error(`Error parsing session ${sessionId}:`, err);
-      return null;
+  /**
+   * Bring one project directory's sessions in line with its files: used when it
+   * appears, or when its watcher reports a change without naming the file
+   * @returns Whether any sessions changed
+   */
+  private async reconcileProject(dir: string): Promise<boolean> {
+    if (!fs.existsSync(dir) || !fs.statSync(dir).isDirectory()) {
+      return this.removeProject(dir);
     }
+    if (!this.storageDirs.has(dir)) {
+      this.storageDirs.set(dir, { dir, sessions: [], files: new Set() });
+      this.watchProject(dir);
+    }
+
+    const files = new Set(this.listSessionFiles(dir));
+    for (const session of this.storageDirs.get(dir)!.sessions) {
+      files.add(session.filePath);
+    }
+    let changed = false;
+    for (const filePath of files) {
+      changed = (await this.refreshFile(filePath)) || changed;
+    }
+    return changed;
   }
 
-  private detectPendingHook(messages: SessionMessage[]): PendingHook | undefined {
-    // Find the last tool_use that doesn't have a corresponding tool_result
-    const toolUses: Map<string, { name: string; input: Record<string, unknown>; timestamp: string }> = new Map();
-    const toolResults: Set<string> = new Set();
+  private removeProject(dir: string): boolean {
+    const storageDir = this.storageDirs.get(dir);
+    this.unwatchProject(dir);
+    if (!storageDir) return false;
+    for (const session of storageDir.sessions) {
+      this.forgetSession(session);
+    }
+    this.storageDirs.delete(dir);
+    return storageDir.sessions.length > 0;
+  }
 
-    for (const msg of messages) {
-      if (msg.type === 'assistant' && msg.message?.content) {
-        for (const content of msg.message.content) {
-          if (content.type === 'tool_use') {
-            toolUses.set(content.id, {
-              name: content.name,
-              input: content.input,
-              timestamp: msg.timestamp
-            });
-          } else if (content.type === 'tool_result') {
-            toolResults.add(content.tool_use_id);
-          }
-        }
+  /**
+   * Re-read one transcript after a change: new lines are read incrementally,
+   * a new file is parsed, a shrunk (rewritten) file is parsed again, and a
+   * deleted file drops its session
+   * @returns Whether the session changed
+   */
+  private async refreshFile(filePath: string): Promise<boolean> {
+    const dir = path.dirname(filePath);
+    const storageDir = this.storageDirs.get(dir);
+    if (!storageDir) return false;
+    const existing = this.sessionsByFile.get(filePath);
+
+    let size: number;
+    try {
+      size = (await fs.promises.stat(filePath)).size;
+    } catch {
+      storageDir.files.delete(filePath);
+      if (!existing) {
+        this.filePositions.delete(filePath);
+        return false;
       }
+      storageDir.sessions = storageDir.sessions.filter(s => s !== existing);
+      this.forgetSession(existing);
+      return true;
     }
 
-    // Find pending tool uses (hooks that need response)
-    const hookTools = ['Bash', 'Edit', 'Write', 'AskUserQuestion'];
-
-    for (const [id, tool] of toolUses) {
-      if (!toolResults.has(id) && hookTools.includes(tool.name)) {
-        const hookType = tool.name === 'AskUserQuestion' ? 'question' :
-                        tool.name === 'Bash' ? 'bash' : 'edit';
-        return {
-          type: hookType,
-          toolUseId: id,
-          toolName: tool.name,
-          input: tool.input,
-          timestamp: new Date(tool.timestamp)
-        };
-      }
+    const lastPos = this.filePositions.get(filePath) ?? 0;
+    if (existing && size === lastPos) return false;
+    if (existing && size > lastPos) {
+      this.filePositions.set(filePath, await this.updateSession(existing, lastPos));
+      this.sortSessions(storageDir);
+      return true;
     }
 
-    return undefined;
+    if (existing) {
+      this.searchIndex?.removeSession(existing.id);
+    }
+    const session = await this.parseFile(filePath);
+    if (existing) {
+      storageDir.sessions = storageDir.sessions.filter(s => s !== existing);
+      this.sessionsByFile.delete(filePath);
+      this.transcripts.invalidate(filePath);
+    }
+    if (session) this.addSession(session);
+    this.sortSessions(storageDir);
+    return true;
   }
 
-  private async pollSessions(): Promise<void> {
-    let hasChanges = false;
+  private addSession(session: Session): void {
+    const storageDir = this.storageDirs.get(session.storageDir);
+    if (!storageDir) return;
+    storageDir.sessions.push(session);
+    this.sessionsByFile.set(session.filePath, session);
+  }
+
+  private forgetSession(session: Session): void {
+    this.storageDirs.get(session.storageDir)?.files.delete(session.filePath);
+    this.sessionsByFile.delete(session.filePath);
+    this.filePositions.delete(session.filePath);
+    this.hookTrackers.delete(session.filePath);
+    this.hookRechecks.delete(session.filePath);
+    this.transcripts.invalidate(session.filePath);
+    this.searchIndex?.removeSession(session.id);
+    this.seenHooks.delete(session.id);
+  }
+
+  private sortSessions(storageDir: StorageDir): void {
+    storageDir.sessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
+  }
 
-    for (const [projectPath, project] of this.projects) {
-      for (const session of project.sessions) {
+  /**
+   * Fallback for directories fs.watch couldn't cover: queue files whose size
+   * changed, and directories whose listing changed
+   */
+  private pollFallbackDirs(): void {
+    for (const dir of this.polledDirs) {
+      if (dir === this.projectsDir) {
+        const listed = this.listProjectDirs();
+        if (listed.length !== this.storageDirs.size || listed.some(p => !this.storageDirs.has(p))) {
+          this.queueDirectory(dir);
+        }
+        continue;
+      }
+
+      // Compared with the files read rather than the sessions found, so a file
+      // without a session doesn't get the whole directory read again every poll
+      const files = this.listSessionFiles(dir);
+      const known = this.storageDirs.get(dir)?.files;
+      if (!known || files.length !== known.size || files.some(f => !known.has(f))) {
+        this.queueDirectory(dir);
+        continue;
+      }
+      for (const filePath of files) {
         try {
-          const stat = fs.statSync(session.filePath);
-          const lastPos = this.filePositions.get(session.filePath) || 0;
-
-          if (stat.size > lastPos) {
-            // File has new content
-            hasChanges = true;
-            await this.updateSession(session, lastPos, stat.size);
-            this.filePositions.set(session.filePath, stat.size);
+          if (fs.statSync(filePath).size !== this.filePositions.get(filePath)) {
+            this.queueFile(filePath);
           }
         } catch {
-          // File may have been deleted
+          this.queueFile(filePath);
         }
       }
     }
+  }
 
-    // Also check for new session files
-    for (const [projectPath] of this.projects) {
-      const projectName = path.basename(projectPath);
-      const files = fs.readdirSync(projectPath).filter(f => f.endsWith('.jsonl'));
-      const existingIds = new Set(this.projects.get(projectPath)?.sessions.map(s => s.id));
+  private parseFile(filePath: string): Promise<Session | null> {
+    const sessionId = path.basename(filePath, '.jsonl');
+    return this.parseSessionFile(sessionId, filePath, path.dirname(filePath));
+  }
 
-      for (const file of files) {
-        const sessionId = file.replace('.jsonl', '');
-        if (!existingIds.has(sessionId)) {
-          hasChanges = true;
-          await this.scanProjectSessions(projectName, projectPath);
-          break;
-        }
-      }
-    }
+  private async parseSessionFile(
+    sessionId: string,
+    filePath: string,
+    storageDir: string
+  ): Promise<Session | null> {
+    this.storageDirs.get(storageDir)?.files.add(filePath);
+    try {
+      const session: Session = {
+        id: sessionId,
+        // Until the transcript records a working directory
+        projectPath: storageDir,
+        projectName: path.basename(storageDir),
+        storageDir,
+        filePath,
+        cwd: '',
+        gitBranch: '',
+        lastActivity: new Date(0),
+        messageCount: 0,
+        status: 'idle',
+        usage: new UsageTracker()
+      };
+      const hooks = new HookTracker(this.hookOptions);
+      let lines = 0;
 
-    if (hasChanges) {
-      this.notifyUpdate();
+      const offset = await streamTranscript(filePath, 0, (msg) => {
+        lines++;
+        this.applyMessage(session, hooks, msg);
+      });
+
+      // Store position for incremental updates
+      this.filePositions.set(filePath, offset);
+
+      if (lines === 0) return null;
+
+      this.hookTrackers.set(filePath, hooks);
+      this.evaluateHook(session, false);
+      return session;
+    } catch (err) {
+      console.error(`Error parsing session ${sessionId}:`, err);
+      return null;
     }
   }
 
-  private async updateSession(session: Session, startPos: number, endPos: number): Promise<void> {
-    const fd = fs.openSync(session.filePath, 'r');
-    const buffer = Buffer.alloc(endPos - startPos);
-    fs.readSync(fd, buffer, 0, buffer.length, startPos);
-    fs.closeSync(fd);
+  /**
+   * Fold one transcript line into a session's metadata
+   */
+  private applyMessage(session: Session, hooks: HookTracker, msg: SessionMessage): void {
+    this.recordUsage(session.usage, msg);
+    this.searchIndex?.add(session.id, msg);
+    hooks.apply(msg);
+
+    if (msg.cwd) {
+      // The session was started in the first directory it records
+      if (!session.cwd) {
+        session.projectPath = msg.cwd;
+        session.projectName = path.basename(msg.cwd) || msg.cwd;
+      }
+      session.cwd = msg.cwd;
+    }
+    if (msg.gitBranch) session.gitBranch = msg.gitBranch;
+    if (msg.timestamp) {
+      const ts = new Date(msg.timestamp);
+      if (ts > session.lastActivity) session.lastActivity = ts;
+    }
 
-    const newContent = buffer.toString('utf-8');
-    const newLines = newContent.trim().split('\n').filter(Boolean);
+    if (msg.type !== 'user' && msg.type !== 'assistant') return;
+    session.messageCount++;
+    if (!msg.message?.content) return;
 
-    for (const line of newLines) {
-      try {
-        const msg = JSON.parse(line) as SessionMessage;
-        session.messages.push(msg);
+    // Prompts typed by the user are a plain string
+    const content: unknown = msg.message.content;
+    let text: string | undefined;
+    if (typeof content === 'string') {
+      text = content;
+    } else {
+      const block = (content as MessageContent[]).find(c => c.type === 'text' && c.text);
+      if (block?.type === 'text') text = block.text;
+    }
+    if (text) {
+      session.lastMessage = text.slice(0, 100);
+    }
+  }
 
-        if (msg.timestamp) {
-          const ts = new Date(msg.timestamp);
-          if (ts > session.lastActivity) {
-            session.lastActivity = ts;
-          }
-        }
-      } catch {
-        // Skip invalid lines
-      }
+  private recordUsage(usage: UsageTracker, msg: SessionMessage): void {
+    if (msg.type === 'assistant' && msg.message?.usage) {
+      usage.record(msg.message.id || msg.uuid, msg.message.model, msg.message.usage, msg.timestamp);
     }
+  }
 
-    // Update message count
-    session.messageCount = session.messages.filter(
-      m => m.type === 'user' || m.type === 'assistant'
-    ).length;
+  /**
+   * Work out a session's pending hook, alerting when a new one appears
+   * @returns Whether the pending hook changed
+   */
+  private evaluateHook(session: Session, alert: boolean): boolean {
+    const hooks = this.hookTrackers.get(session.filePath);
+    const now = Date.now();
+    const previous = session.pendingHook?.toolUseId;
+    session.pendingHook = hooks?.pending(now);
 
-    // Update pending hook
-    const oldHookId = this.seenHooks.get(session.id);
-    session.pendingHook = this.detectPendingHook(session.messages);
+    const recheckAt = hooks?.nextChange(now);
+    if (recheckAt !== undefined) {
+      this.hookRechecks.set(session.filePath, recheckAt);
+    } else {
+      this.hookRechecks.delete(session.filePath);
+    }
 
     // Check for NEW hook and emit alert
     if (session.pendingHook) {
       const newHookId = session.pendingHook.toolUseId;
-      if (oldHookId !== newHookId && this.onHookAlert) {
+      if (alert && this.seenHooks.get(session.id) !== newHookId && this.onHookAlert) {
         this.seenHooks.set(session.id, newHookId);
         this.onHookAlert(session.id, session.projectName, session.pendingHook);
       }
@@ -295,23 +582,60 @@ export class SessionWatcher {
       this.seenHooks.delete(session.id);
     }
 
-    // Update status
+    this.updateStatus(session);
+    return session.pendingHook?.toolUseId !== previous;
+  }
+
+  /**
+   * Re-evaluate pending hooks that may have changed with time alone: a grace
+   * period ran out, or a transcript went stale
+   */
+  private recheckHooks(): void {
     const now = Date.now();
-    const idleThreshold = 5 * 60 * 1000;
+    let changed = false;
+    for (const [filePath, due] of this.hookRechecks) {
+      if (due > now) continue;
+      const session = this.sessionsByFile.get(filePath);
+      if (session) {
+        changed = this.evaluateHook(session, true) || changed;
+      } else {
+        this.hookRechecks.delete(filePath);
+      }
+    }
+    if (changed) this.notifyUpdate();
+  }
 
+  private updateStatus(session: Session): void {
     if (session.pendingHook) {
       session.status = 'pending_hook';
-    } else if (now - session.lastActivity.getTime() < idleThreshold) {
+    } else if (Date.now() - session.lastActivity.getTime() < IDLE_THRESHOLD_MS) {
       session.status = 'active';
     } else {
       session.status = 'idle';
     }
   }
 
+  /**
+   * Read lines appended to a transcript since `startPos`
+   * @returns Offset to read from next time
+   */
+  private async updateSession(session: Session, startPos: number): Promise<number> {
+    let hooks = this.hookTrackers.get(session.filePath);
+    if (!hooks) {
+      hooks = new HookTracker(this.hookOptions);
+      this.hookTrackers.set(session.filePath, hooks);
+    }
+    const tracker = hooks;
+    const offset = await streamTranscript(session.filePath, startPos, msg => this.applyMessage(session, tracker, msg));
+
+    this.evaluateHook(session, true);
+    return offset;
+  }
+
   private notifyUpdate(): void {
     const allSessions: Session[] = [];
-    for (const project of this.projects.values()) {
-      allSessions.push(...project.sessions);
+    for (const storageDir of this.storageDirs.values()) {
+      allSessions.push(...storageDir.sessions);
     }
     allSessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
     this.onUpdate(allSessions);
@@ -319,35 +643,42 @@ export class SessionWatcher {
 
   getAllSessions(): Session[] {
     const allSessions: Session[] = [];
-    for (const project of this.projects.values()) {
-      allSessions.push(...project.sessions);
+    for (const storageDir of this.storageDirs.values()) {
+      allSessions.push(...storageDir.sessions);
     }
     return allSessions.sort((a, b) => b.lastActivity.getTime() - a.lastActivity.getTime());
   }
 
   getSession(sessionId: string): Session | undefined {
-    for (const project of this.projects.values()) {
-      const session = project.sessions.find(s => s.id === sessionId);
+    for (const storageDir of this.storageDirs.values()) {
+      const session = storageDir.sessions.find(s => s.id === sessionId);
       if (session) return session;
     }
     return undefined;
   }
 
+  /**
+   * Full messages of a session, read from its transcript on demand
+   */
+  getMessages(session: Session): Promise<SessionMessage[]> {
+    return this.transcripts.load(session.filePath);
+  }
+
   getStats(): { totalSessions: number; activeSessions: number; pendingHooks: number; projectCount: number } {
     const allSessions = this.getAllSessions();
     return {
       totalSessions: allSessions.length,
       activeSessions: allSessions.filter(s => s.status === 'active').length,
       pendingHooks: allSessions.filter(s => s.status === 'pending_hook').length,
-      projectCount: this.projects.size
+      projectCount: new Set(allSessions.map(s => s.projectPath)).size
     };
   }
 
   deleteSession(sessionId: string): boolean {
-    for (const [projectPath, project] of this.projects) {
-      const sessionIndex = project.sessions.findIndex(s => s.id === sessionId);
+    for (const storageDir of this.storageDirs.values()) {
+      const sessionIndex = storageDir.sessions.findIndex(s => s.id === sessionId);
       if (sessionIndex !== -1) {
-        const session = project.sessions[sessionIndex];
+        const session = storageDir.sessions[sessionIndex];
         try {
           // Delete the JSONL file
           if (fs.existsSync(session.filePath)) {
@@ -359,9 +690,8 @@ export class SessionWatcher {
             fs.rmSync(scratchpadDir, { recursive: true });
           }
           // Remove from memory
-          project.sessions.splice(sessionIndex, 1);
-          this.filePositions.delete(session.filePath);
-          this.seenHooks.delete(sessionId);
+          storageDir.sessions.splice(sessionIndex, 1);
+          this.forgetSession(session);
           // Notify update
           this.notifyUpdate();
           return true;
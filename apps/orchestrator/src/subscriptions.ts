@@ -0,0 +1,80 @@
+/**
+ * Web session subscriptions for Claude Orchestrator
+ *
+ * Many-to-many mapping between WebSocket clients and the web sessions they follow
+ */
+
+export class SubscriptionRegistry<C> {
+  private bySession: Map<string, Set<C>> = new Map();
+  private byClient: Map<C, Set<string>> = new Map();
+
+  /**
+   * Subscribe a client to a session
+   * @returns false if the client was already subscribed
+   */
+  subscribe(client: C, sessionId: string): boolean {
+    let clients = this.bySession.get(sessionId);
+    if (!clients) {
+      clients = new Set();
+      this.bySession.set(sessionId, clients);
+    }
+    if (clients.has(client)) return false;
+    clients.add(client);
+
+    let sessionIds = this.byClient.get(client);
+    if (!sessionIds) {
+      sessionIds = new Set();
+      this.byClient.set(client, sessionIds);
+    }
+    sessionIds.add(sessionId);
+    return true;
+  }
+
+  /**
+   * Unsubscribe a client from a single session
+   * @returns false if the client wasn't subscribed
+   */
+  unsubscribe(client: C, sessionId: string): boolean {
+    const clients = this.bySession.get(sessionId);
+    if (!clients || !clients.delete(client)) return false;
+    if (clients.size === 0) this.bySession.delete(sessionId);
+
+    const sessionIds = this.byClient.get(client);
+    sessionIds?.delete(sessionId);
+    if (sessionIds && sessionIds.size === 0) this.byClient.delete(client);
+    return true;
+  }
+
+  /**
+   * Remove every subscription a client holds (e.g. when its socket closes)
+   * @returns IDs of the sessions the client was subscribed to
+   */
+  unsubscribeAll(client: C): string[] {
+    const sessionIds = Array.from(this.byClient.get(client) || []);
+    for (const sessionId of sessionIds) {
+      this.unsubscribe(client, sessionId);
+    }
+    return sessionIds;
+  }
+
+  /**
+   * Remove a session and all of its subscribers
+   */
+  removeSession(sessionId: string): void {
+    for (const client of Array.from(this.bySession.get(sessionId) || [])) {
+      this.unsubscribe(client, sessionId);
+    }
+  }
+
+  getSubscribers(sessionId: string): C[] {
+    return Array.from(this.bySession.get(sessionId) || []);
+  }
+
+  getSubscriptions(client: C): string[] {
+    return Array.from(this.byClient.get(client) || []);
+  }
+
+  isSubscribed(client: C, sessionId: string): boolean {
+    return this.bySession.get(sessionId)?.has(client) || false;
+  }
+}
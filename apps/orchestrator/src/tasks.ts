@@ -0,0 +1,474 @@
+/**
+ * Headless one-shot tasks
+ *
+ * Runs `claude -p` for scripts and git hooks that want an answer without a
+ * browser. Each task is one prompt in one directory and takes a slot under the
+ * same concurrency limits as web sessions, waiting in the launch queue until
+ * one is free. Its status, result text and usage are written to
+ * ~/.claude/orchestrator/tasks/<id>.json as it runs, and finished tasks are
+ * pruned by age and count.
+ *
+ * Environment variables:
+ * - ORCHESTRATOR_TASK_RETENTION_DAYS: how long finished tasks are kept (default 7)
+ * - ORCHESTRATOR_TASK_RETENTION_COUNT: how many finished tasks are kept (default 500)
+ */
+
+import { spawn, type Subprocess } from 'bun';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { buildLaunchArgs, validateLaunchOptions, type LaunchOptions } from './launch-options';
+import { UsageTracker, type RawUsage, type SessionUsage } from './usage';
+import { appendStderr } from './session-supervisor';
+import { buildChildEnv, validateEnvProfileSelection } from './env-profiles';
+import { ValidationError, requireString } from './error-handler';
+import * as webSession from './web-session';
+import { STORAGE_DIR } from './session-persistence';
+import { logger } from './logger';
+
+const log = logger.child('Tasks');
+
+export type TaskStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Task {
+  id: string;
+  cwd: string;
+  projectName: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  // Env profile the run's environment was built from
+  envProfile?: string;
+  status: TaskStatus;
+  createdAt: string;
+  finishedAt?: string;
+  // Final text of the run (claude's result event)
+  result?: string;
+  isError?: boolean;
+  // Why the task failed
+  error?: string;
+  exitCode?: number | null;
+  // Transcript written by the run
+  claudeSessionId?: string;
+  usage: SessionUsage;
+  numTurns?: number;
+  durationMs?: number;
+}
+
+export interface TaskRequest {
+  cwd: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  envProfile?: string;
+}
+
+export interface TaskConfig {
+  storageDir: string;   // One JSON file per task
+  maxAgeMs: number;     // Finished tasks older than this are deleted
+  maxTasks: number;     // Finished tasks kept, newest first
+  command: string;      // claude executable
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_TASK_CONFIG: TaskConfig = {
+  storageDir: path.join(STORAGE_DIR, 'tasks'),
+  maxAgeMs: (parseInt(process.env.ORCHESTRATOR_TASK_RETENTION_DAYS || '') || 7) * DAY_MS,
+  maxTasks: parseInt(process.env.ORCHESTRATOR_TASK_RETENTION_COUNT || '') || 500,
+  command: 'claude'
+};
+
+// Longest a GET may wait for a task to finish
+export const MAX_WAIT_SECONDS = 120;
+
+// Stderr lines kept to explain a failed run
+const STDERR_LINES = 20;
+
+// Task IDs double as file names
+const TASK_ID_PATTERN = /^[A-Za-z0-9-]+$/;
+
+let config: TaskConfig = { ...DEFAULT_TASK_CONFIG };
+
+interface ActiveTask {
+  task: Task;
+  // Unset while the task waits for a slot
+  process?: Subprocess<'pipe', 'pipe', 'pipe'>;
+  done: Promise<Task>;
+  settle: (task: Task) => void;
+}
+
+// Queued and running tasks
+const active = new Map<string, ActiveTask>();
+
+/**
+ * Override task settings
+ */
+export function configureTasks(overrides: Partial<TaskConfig>): void {
+  config = { ...config, ...overrides };
+}
+
+/**
+ * Reset task settings to defaults (useful for testing)
+ */
+export function resetTaskConfig(): void {
+  config = { ...DEFAULT_TASK_CONFIG };
+}
+
+/**
+ * Validate a task from an API request
+ * @throws ValidationError if the prompt is empty or the directory doesn't exist,
+ * or as validateEnvProfileSelection for the env profile
+ */
+export function validateTaskRequest(value: unknown): TaskRequest {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    throw new ValidationError('Task must be an object');
+  }
+  const raw = value as Record<string, unknown>;
+
+  const prompt = requireString(raw.prompt, 'prompt');
+  if (!prompt.trim()) {
+    throw new ValidationError('prompt must not be empty');
+  }
+  const cwd = requireString(raw.cwd, 'cwd');
+  if (!path.isAbsolute(cwd) || !fs.existsSync(cwd)) {
+    throw new ValidationError('cwd must be an existing absolute path', { cwd });
+  }
+
+  return {
+    cwd,
+    prompt,
+    launchOptions: validateLaunchOptions(raw.launchOptions),
+    envProfile: validateEnvProfileSelection(raw.envProfile)
+  };
+}
+
+/**
+ * Validate the `wait` query parameter of a task lookup
+ * @returns Seconds to wait, 0 if not given
+ */
+export function validateWait(value: string | null): number {
+  if (value === null || value === '') return 0;
+  const seconds = Number(value);
+  if (!Number.isFinite(seconds) || seconds < 0) {
+    throw new ValidationError('wait must be a non-negative number of seconds');
+  }
+  return Math.min(seconds, MAX_WAIT_SECONDS);
+}
+
+function taskFile(id: string): string {
+  return path.join(config.storageDir, `${id}.json`);
+}
+
+function writeTask(task: Task): void {
+  try {
+    if (!fs.existsSync(config.storageDir)) {
+      fs.mkdirSync(config.storageDir, { recursive: true });
+    }
+    fs.writeFileSync(taskFile(task.id), JSON.stringify(task, null, 2), 'utf-8');
+  } catch (err) {
+    log.error('Failed to save task', err, { data: { taskId: task.id } });
+  }
+}
+
+function readTask(id: string): Task | undefined {
+  if (!TASK_ID_PATTERN.test(id)) return undefined;
+  try {
+    const file = taskFile(id);
+    return fs.existsSync(file) ? JSON.parse(fs.readFileSync(file, 'utf-8')) : undefined;
+  } catch (err) {
+    log.error('Failed to read task', err, { data: { taskId: id } });
+    return undefined;
+  }
+}
+
+/**
+ * Start a task; it waits for a slot under the concurrency limits like a web
+ * session, then runs in the background, its record updated as it goes
+ * @throws As buildChildEnv if the env profile can't be applied
+ */
+export function startTask(request: TaskRequest): Task {
+  // Same environment as a web session's child, so private variables stay out
+  const env = buildChildEnv(request.envProfile);
+  const usage = new UsageTracker();
+  const task: Task = {
+    id: crypto.randomUUID(),
+    cwd: request.cwd,
+    projectName: path.basename(request.cwd),
+    prompt: request.prompt,
+    launchOptions: request.launchOptions,
+    envProfile: request.envProfile,
+    status: 'queued',
+    createdAt: new Date().toISOString(),
+    usage: usage.getUsage()
+  };
+
+  let settle!: (task: Task) => void;
+  const done = new Promise<Task>(resolve => { settle = resolve; });
+  const entry: ActiveTask = { task, done, settle };
+  active.set(task.id, entry);
+  writeTask(task);
+
+  webSession.queueTaskLaunch(task.id, task.cwd, () => {
+    void runTask(entry, request, env, usage);
+  });
+  if (task.status === 'queued') {
+    log.info('Queued task', { data: { taskId: task.id, cwd: task.cwd } });
+  }
+  return task;
+}
+
+/**
+ * Run a task that has its slot, recording how it ended
+ */
+async function runTask(
+  entry: ActiveTask,
+  request: TaskRequest,
+  env: Record<string, string>,
+  usage: UsageTracker
+): Promise<void> {
+  const { task } = entry;
+  task.status = 'running';
+  writeTask(task);
+
+  const stderrTail: string[] = [];
+  try {
+    const proc = spawn([config.command, '-p', '--output-format', 'stream-json', '--verbose', ...buildLaunchArgs(request.launchOptions)], {
+      cwd: request.cwd,
+      stdin: 'pipe',
+      stdout: 'pipe',
+      stderr: 'pipe',
+      env: {
+        ...env,
+        ...request.launchOptions.env,
+        CLAUDE_CODE_ENTRY_POINT: 'web-orchestrator'
+      }
+    });
+    entry.process = proc;
+    log.info('Started task', { data: { taskId: task.id, cwd: task.cwd } });
+
+    // The prompt goes in on stdin, so one starting with '-' isn't taken for a flag
+    proc.stdin.write(request.prompt);
+    proc.stdin.end();
+
+    const stdoutDone = readLines(proc.stdout, (line) => {
+      try {
+        applyTaskEvent(task, usage, JSON.parse(line));
+      } catch {
+        log.warn('Ignoring unparseable task output', { data: { taskId: task.id, line: line.slice(0, 200) } });
+      }
+    });
+    const stderrDone = (async () => {
+      const reader = proc.stderr.getReader();
+      const decoder = new TextDecoder();
+      let partial = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        partial = appendStderr(stderrTail, partial, decoder.decode(value, { stream: true }), STDERR_LINES);
+      }
+      appendStderr(stderrTail, partial, '\n', STDERR_LINES);
+    })();
+
+    const [exitCode] = await Promise.all([proc.exited, stdoutDone, stderrDone.catch(() => {})]);
+    // A shutdown has already recorded how the task ended
+    if (task.status === 'running') {
+      finishTask(task, exitCode, stderrTail[stderrTail.length - 1]);
+    }
+  } catch (err) {
+    entry.process?.kill();
+    if (task.status === 'running') {
+      const action = entry.process ? 'Lost the output of claude' : 'Failed to start claude';
+      finishTask(task, null, `${action}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  } finally {
+    active.delete(task.id);
+    webSession.releaseTaskSlot(task.id);
+    entry.settle(task);
+    pruneTasks();
+  }
+}
+
+async function readLines(stream: ReadableStream<Uint8Array>, onLine: (line: string) => void): Promise<void> {
+  const reader = stream.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  while (true) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop() || '';
+    for (const line of lines) {
+      if (line.trim()) onLine(line);
+    }
+  }
+  if (buffer.trim()) onLine(buffer);
+}
+
+/**
+ * Update a task from one stream-json event of its run
+ */
+export function applyTaskEvent(task: Task, usage: UsageTracker, event: unknown): void {
+  if (!isRecord(event)) return;
+  const sessionId = typeof event.session_id === 'string' ? event.session_id : undefined;
+
+  switch (event.type) {
+    case 'system':
+      if (sessionId) {
+        task.claudeSessionId = sessionId;
+      }
+      break;
+
+    case 'assistant': {
+      const message = isRecord(event.message) ? event.message : undefined;
+      if (message && isRecord(message.usage)) {
+        const id = typeof message.id === 'string' && message.id ? message.id : crypto.randomUUID();
+        const model = typeof message.model === 'string' ? message.model : undefined;
+        usage.record(id, model, message.usage as RawUsage);
+        task.usage = usage.getUsage();
+      }
+      break;
+    }
+
+    case 'result':
+      task.result = typeof event.result === 'string' ? event.result : '';
+      task.isError = !!event.is_error;
+      task.numTurns = typeof event.num_turns === 'number' ? event.num_turns : undefined;
+      task.durationMs = typeof event.duration_ms === 'number' ? event.duration_ms : undefined;
+      if (typeof event.total_cost_usd === 'number') {
+        usage.reportRunCost(event.total_cost_usd);
+        task.usage = usage.getUsage();
+      }
+      if (sessionId) {
+        task.claudeSessionId = sessionId;
+      }
+      break;
+  }
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function finishTask(task: Task, exitCode: number | null, lastStderrLine?: string): void {
+  task.exitCode = exitCode;
+  task.finishedAt = new Date().toISOString();
+
+  if (task.result !== undefined && !task.isError && exitCode === 0) {
+    task.status = 'completed';
+  } else {
+    task.status = 'failed';
+    task.error = task.isError
+      ? task.result
+      : lastStderrLine || `claude exited with code ${exitCode ?? 'unknown'} without a result`;
+  }
+
+  writeTask(task);
+  log.info('Task finished', { data: { taskId: task.id, status: task.status, exitCode } });
+}
+
+/**
+ * Get a task, queued, running or stored
+ */
+export function getTask(id: string): Task | undefined {
+  return active.get(id)?.task || readTask(id);
+}
+
+/**
+ * Get a task once it has finished, or as it is after waiting timeoutMs
+ */
+export async function waitForTask(id: string, timeoutMs: number): Promise<Task | undefined> {
+  const entry = active.get(id);
+  if (!entry || timeoutMs <= 0) return getTask(id);
+
+  let timer: ReturnType<typeof setTimeout> | undefined;
+  await Promise.race([
+    entry.done,
+    new Promise(resolve => { timer = setTimeout(resolve, timeoutMs); })
+  ]);
+  clearTimeout(timer);
+  return entry.task;
+}
+
+/**
+ * Get stored tasks, newest first
+ */
+export function listTasks(): Task[] {
+  if (!fs.existsSync(config.storageDir)) return [];
+  return fs.readdirSync(config.storageDir)
+    .filter(file => file.endsWith('.json'))
+    .map(file => getTask(file.slice(0, -'.json'.length)))
+    .filter((task): task is Task => !!task)
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Cancel a task still waiting for a slot
+ * @returns false if it isn't queued
+ */
+export function cancelQueuedTask(id: string): boolean {
+  const entry = active.get(id);
+  if (!entry || entry.task.status !== 'queued') return false;
+
+  const { task } = entry;
+  task.status = 'failed';
+  task.error = 'Launch cancelled';
+  task.finishedAt = new Date().toISOString();
+  writeTask(task);
+  active.delete(id);
+  webSession.releaseTaskSlot(id);
+  entry.settle(task);
+  return true;
+}
+
+/**
+ * Delete finished tasks past the retention policy
+ * @returns How many were deleted
+ */
+export function pruneTasks(now: number = Date.now()): number {
+  const finished = listTasks().filter(task => task.status === 'completed' || task.status === 'failed');
+  const expired = finished.filter((task, index) =>
+    index >= config.maxTasks || now - new Date(task.finishedAt || task.createdAt).getTime() > config.maxAgeMs
+  );
+
+  for (const task of expired) {
+    try {
+      fs.unlinkSync(taskFile(task.id));
+    } catch (err) {
+      log.error('Failed to delete task', err, { data: { taskId: task.id } });
+    }
+  }
+  if (expired.length > 0) {
+    log.info('Pruned finished tasks', { data: { count: expired.length } });
+  }
+  return expired.length;
+}
+
+/**
+ * Mark tasks left queued or running by a previous run as failed, then apply retention
+ */
+export function initTasks(): void {
+  for (const task of listTasks()) {
+    if ((task.status === 'queued' || task.status === 'running') && !active.has(task.id)) {
+      task.status = 'failed';
+      task.error = 'Interrupted by an orchestrator restart';
+      task.finishedAt = new Date().toISOString();
+      writeTask(task);
+    }
+  }
+  pruneTasks();
+}
+
+/**
+ * Kill running tasks for an orchestrator shutdown and record them and queued
+ * ones as failed
+ */
+export function shutdownTasks(): void {
+  for (const { task, process: proc, settle } of active.values()) {
+    proc?.kill();
+    task.status = 'failed';
+    task.error = 'Stopped by an orchestrator shutdown';
+    task.finishedAt = new Date().toISOString();
+    writeTask(task);
+    settle(task);
+  }
+  active.clear();
+}
@@ -0,0 +1,168 @@
+/**
+ * Transcript reading and the message cache
+ *
+ * The session watcher only keeps metadata for each transcript; full messages
+ * are read on demand. Transcripts are read as a stream of lines, so a long one
+ * never has to fit in memory as a single string. Recently read transcripts are
+ * kept in an LRU cache bounded by entry count and by transcript size, and a
+ * cached transcript that has grown is topped up from where it was last read.
+ */
+
+import * as fs from 'node:fs';
+import type { SessionMessage } from './types';
+import { logger } from './logger';
+
+const log = logger.child('TranscriptCache');
+
+const NEWLINE = 0x0a;
+
+export const DEFAULT_CACHE_ENTRIES = 20;
+export const DEFAULT_CACHE_BYTES = 64 * 1024 * 1024;
+
+/**
+ * Read the messages of a transcript from a byte offset, a line at a time.
+ * Lines that aren't valid JSON are skipped, except for an unparseable last
+ * line without a newline, which is probably still being written: it is left
+ * for the next read.
+ * @returns Offset to continue from next time
+ */
+export async function streamTranscript(
+  filePath: string,
+  start: number,
+  onMessage: (msg: SessionMessage) => void
+): Promise<number> {
+  let offset = start;
+  let pending: Buffer[] = [];
+  let pendingBytes = 0;
+
+  const parse = (line: Buffer): boolean => {
+    const text = line.toString('utf-8').trim();
+    if (!text) return true;
+    try {
+      onMessage(JSON.parse(text) as SessionMessage);
+      return true;
+    } catch {
+      return false;
+    }
+  };
+
+  const stream = fs.createReadStream(filePath, { start });
+  for await (const chunk of stream as AsyncIterable<Buffer>) {
+    let lineStart = 0;
+    let newline = chunk.indexOf(NEWLINE);
+    while (newline !== -1) {
+      const piece = chunk.subarray(lineStart, newline);
+      const line = pending.length > 0 ? Buffer.concat([...pending, piece]) : piece;
+      parse(line);
+      offset += pendingBytes + piece.length + 1;
+      pending = [];
+      pendingBytes = 0;
+      lineStart = newline + 1;
+      newline = chunk.indexOf(NEWLINE, lineStart);
+    }
+    if (lineStart < chunk.length) {
+      pending.push(chunk.subarray(lineStart));
+      pendingBytes += chunk.length - lineStart;
+    }
+  }
+
+  if (pendingBytes > 0 && parse(Buffer.concat(pending))) {
+    offset += pendingBytes;
+  }
+  return offset;
+}
+
+interface CacheEntry {
+  messages: SessionMessage[];
+  // Offset read up to
+  offset: number;
+}
+
+export interface TranscriptCacheOptions {
+  maxEntries?: number;
+  // Total size of cached transcripts, in bytes of JSONL
+  maxBytes?: number;
+}
+
+export class TranscriptCache {
+  // Least recently used first
+  private entries: Map<string, CacheEntry> = new Map();
+  private loading: Map<string, Promise<SessionMessage[]>> = new Map();
+  private bytes = 0;
+  private maxEntries: number;
+  private maxBytes: number;
+
+  constructor(options: TranscriptCacheOptions = {}) {
+    this.maxEntries = options.maxEntries ?? DEFAULT_CACHE_ENTRIES;
+    this.maxBytes = options.maxBytes ?? DEFAULT_CACHE_BYTES;
+  }
+
+  /**
+   * Messages of a transcript, from the cache when it is current
+   */
+  load(filePath: string): Promise<SessionMessage[]> {
+    // Callers asking for the same transcript at once share one read
+    const inFlight = this.loading.get(filePath);
+    if (inFlight) return inFlight;
+
+    const load = this.read(filePath).finally(() => this.loading.delete(filePath));
+    this.loading.set(filePath, load);
+    return load;
+  }
+
+  private async read(filePath: string): Promise<SessionMessage[]> {
+    const size = (await fs.promises.stat(filePath)).size;
+    let entry = this.entries.get(filePath);
+    if (entry) {
+      this.remove(filePath);
+      if (size < entry.offset) {
+        // Rewritten rather than appended to
+        entry = undefined;
+      }
+    }
+
+    if (!entry) {
+      entry = { messages: [], offset: 0 };
+    }
+    if (size > entry.offset) {
+      const messages = entry.messages;
+      entry.offset = await streamTranscript(filePath, entry.offset, msg => messages.push(msg));
+    }
+
+    this.entries.set(filePath, entry);
+    this.bytes += entry.offset;
+    this.evict(filePath);
+    return entry.messages;
+  }
+
+  /**
+   * Drop least recently used transcripts until within bounds; the one just
+   * read stays even if it alone is over the byte limit
+   */
+  private evict(keep: string): void {
+    for (const [filePath, entry] of this.entries) {
+      if (this.entries.size <= this.maxEntries && this.bytes <= this.maxBytes) break;
+      if (filePath === keep) continue;
+      this.remove(filePath);
+      log.debug('Evicted transcript', { data: { path: filePath, bytes: entry.offset } });
+    }
+  }
+
+  private remove(filePath: string): void {
+    const entry = this.entries.get(filePath);
+    if (!entry) return;
+    this.entries.delete(filePath);
+    this.bytes -= entry.offset;
+  }
+
+  /**
+   * Forget a transcript, e.g. after it was deleted
+   */
+  invalidate(filePath: string): void {
+    this.remove(filePath);
+  }
+
+  getStats(): { entries: number; bytes: number } {
+    return { entries: this.entries.size, bytes: this.bytes };
+  }
+}
@@ -1,5 +1,9 @@
 // Session types from Claude Code JSONL format
 
+import type { RawUsage, SessionUsage, UsageTracker } from './usage';
+import type { BudgetStatus } from './budgets';
+import type { ResourceStatus } from './resource-limits';
+
 export interface SessionMessage {
   parentUuid: string | null;
   isSidechain: boolean;
@@ -15,6 +19,7 @@ export interface SessionMessage {
     content: MessageContent[];
     model?: string;
     id?: string;
+    usage?: RawUsage;
   };
   uuid: string;
   timestamp: string;
@@ -22,6 +27,11 @@ export interface SessionMessage {
   permissionMode?: string;
   requestId?: string;
   data?: ProgressData;
+  // Progress lines: the tool call they report on, and the call that caused it
+  toolUseID?: string;
+  parentToolUseID?: string;
+  // Sidechain lines: the subagent that wrote them
+  agentId?: string;
 }
 
 export type MessageContent =
@@ -41,8 +51,11 @@ export interface ProgressData {
 
 export interface Session {
   id: string;
+  // Directory the session was started in, as recorded in its transcript
   projectPath: string;
   projectName: string;
+  // Directory under ~/.claude/projects the transcript is stored in
+  storageDir: string;
   filePath: string;
   cwd: string;
   gitBranch?: string;
@@ -50,7 +63,9 @@ export interface Session {
   messageCount: number;
   status: 'active' | 'idle' | 'pending_hook';
   pendingHook?: PendingHook;
-  messages: SessionMessage[];
+  // Text of the latest message that has any, truncated
+  lastMessage?: string;
+  usage: UsageTracker;
 }
 
 export interface PendingHook {
@@ -82,6 +97,7 @@ export interface ApiContext {
 
 export interface SessionSummary {
   id: string;
+  projectPath: string;
   projectName: string;
   cwd: string;
   gitBranch?: string;
@@ -93,6 +109,7 @@ export interface SessionSummary {
     type: string;
     toolName: string;
   };
+  usage?: SessionUsage;
 }
 
 export interface DashboardStats {
@@ -113,13 +130,31 @@ export interface DisplayMessage {
   content: string;
   timestamp: string;
   toolUse?: {
+    id?: string;
     name: string;
     input: Record<string, unknown>;
   };
   toolResult?: {
+    toolUseId?: string;
     content: string;
     isError: boolean;
   };
+  // Still being streamed from a live session
+  streaming?: boolean;
+  // Subagent runs spawned by this Task call (tree view only)
+  subagents?: SubagentThread[];
+}
+
+/**
+ * A sidechain run: the transcript of one subagent
+ */
+export interface SubagentThread {
+  // First line of the run
+  rootUuid: string;
+  // Task tool_use that spawned it, if one was found
+  toolUseId?: string;
+  description?: string;
+  messages: DisplayMessage[];
 }
 
 export interface HookAlert {
@@ -129,3 +164,19 @@ export interface HookAlert {
     preview?: string; // First 100 chars of input
   };
 }
+
+// Web session crossed its budget's warn or hard line
+export interface BudgetAlert {
+  sessionId: string;
+  sessionName: string;
+  budget: BudgetStatus;
+  message: string;
+}
+
+// Web session child crossed a resource limit's warn or hard line
+export interface ResourceAlert {
+  sessionId: string;
+  sessionName: string;
+  limit: ResourceStatus;
+  message: string;
+}
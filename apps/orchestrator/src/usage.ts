@@ -0,0 +1,283 @@
+/**
+ * Token usage and cost tracking
+ *
+ * Accumulates the `usage` blocks Claude reports on assistant messages (from JSONL
+ * transcripts and stream-json events) into per-session and per-day totals.
+ * Costs are estimates from the public per-token prices.
+ */
+
+// Usage block as emitted by the API on assistant messages
+export interface RawUsage {
+  input_tokens?: number;
+  output_tokens?: number;
+  cache_creation_input_tokens?: number;
+  cache_read_input_tokens?: number;
+}
+
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+export interface SessionUsage extends TokenUsage {
+  model?: string;
+  // Prompt size of the latest assistant message, i.e. how full the context is
+  contextTokens: number;
+  contextWindow: number;
+}
+
+// Totals a tracker hands on to its successor, e.g. across an orchestrator restart
+export interface UsageSnapshot extends TokenUsage {
+  model?: string;
+  turns: number;
+}
+
+export interface ProjectUsage extends TokenUsage {
+  projectName: string;
+  sessionCount: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface UsageReport {
+  totals: TokenUsage;
+  byProject: ProjectUsage[];
+  byDay: DailyUsage[];
+}
+
+interface ModelPricing {
+  input: number;      // USD per million tokens
+  output: number;
+  cacheWrite: number;
+  cacheRead: number;
+}
+
+// First match wins, so more specific patterns come first
+const MODEL_PRICING: { pattern: RegExp; pricing: ModelPricing }[] = [
+  { pattern: /opus-4-[5-9]/, pricing: { input: 5, output: 25, cacheWrite: 6.25, cacheRead: 0.5 } },
+  { pattern: /opus/, pricing: { input: 15, output: 75, cacheWrite: 18.75, cacheRead: 1.5 } },
+  { pattern: /sonnet/, pricing: { input: 3, output: 15, cacheWrite: 3.75, cacheRead: 0.3 } },
+  { pattern: /3-5-haiku/, pricing: { input: 0.8, output: 4, cacheWrite: 1, cacheRead: 0.08 } },
+  { pattern: /3-haiku/, pricing: { input: 0.25, output: 1.25, cacheWrite: 0.3, cacheRead: 0.03 } },
+  { pattern: /haiku/, pricing: { input: 1, output: 5, cacheWrite: 1.25, cacheRead: 0.1 } }
+];
+
+export const DEFAULT_CONTEXT_WINDOW = 200_000;
+export const EXTENDED_CONTEXT_WINDOW = 1_000_000;
+
+export function emptyTokenUsage(): TokenUsage {
+  return { inputTokens: 0, outputTokens: 0, cacheCreationTokens: 0, cacheReadTokens: 0, costUsd: 0 };
+}
+
+/**
+ * Look up per-token prices for a model ID or alias
+ * @returns undefined for unknown (or synthetic) models, which are counted at no cost
+ */
+export function getModelPricing(model: string | undefined): ModelPricing | undefined {
+  if (!model) return undefined;
+  return MODEL_PRICING.find(entry => entry.pattern.test(model))?.pricing;
+}
+
+/**
+ * Convert a raw usage block into token counts with an estimated cost
+ */
+export function toTokenUsage(model: string | undefined, raw: RawUsage): TokenUsage {
+  const usage: TokenUsage = {
+    inputTokens: raw.input_tokens || 0,
+    outputTokens: raw.output_tokens || 0,
+    cacheCreationTokens: raw.cache_creation_input_tokens || 0,
+    cacheReadTokens: raw.cache_read_input_tokens || 0,
+    costUsd: 0
+  };
+
+  const pricing = getModelPricing(model);
+  if (pricing) {
+    usage.costUsd = (
+      usage.inputTokens * pricing.input +
+      usage.outputTokens * pricing.output +
+      usage.cacheCreationTokens * pricing.cacheWrite +
+      usage.cacheReadTokens * pricing.cacheRead
+    ) / 1_000_000;
+  }
+  return usage;
+}
+
+/**
+ * Add (or with sign -1, subtract) token counts into a running total
+ */
+export function addTokenUsage(target: TokenUsage, source: TokenUsage, sign: 1 | -1 = 1): void {
+  target.inputTokens += sign * source.inputTokens;
+  target.outputTokens += sign * source.outputTokens;
+  target.cacheCreationTokens += sign * source.cacheCreationTokens;
+  target.cacheReadTokens += sign * source.cacheReadTokens;
+  target.costUsd += sign * source.costUsd;
+}
+
+function getContextWindow(model: string | undefined, contextTokens: number): number {
+  if (model?.includes('[1m]') || contextTokens > DEFAULT_CONTEXT_WINDOW) {
+    return EXTENDED_CONTEXT_WINDOW;
+  }
+  return DEFAULT_CONTEXT_WINDOW;
+}
+
+/**
+ * Running usage totals for one session
+ *
+ * Transcripts repeat the usage block on every line of a multi-block message, with
+ * the final counts on the last one, so usage is tracked per message ID and a later
+ * report for the same message replaces the earlier one.
+ *
+ * Where claude reports what a run actually cost (total_cost_usd on its result
+ * events), that replaces the price-table estimate for the run.
+ */
+export class UsageTracker {
+  private messages: Map<string, { usage: TokenUsage; date: string }> = new Map();
+  private totals: TokenUsage = emptyTokenUsage();
+  private daily: Map<string, TokenUsage> = new Map();
+  private model?: string;
+  private contextTokens = 0;
+  // Totals of earlier trackers for the same session
+  private carried: TokenUsage;
+  // Agentic turns claude reported (num_turns on its result events)
+  private turns: number;
+  // Reported cost minus the estimate, for finished runs and for the current one
+  private costCorrection = 0;
+  private runCostCorrection = 0;
+  // Estimated cost when the current run started
+  private runStartCost = 0;
+
+  /**
+   * @param carried Totals to continue from (see snapshot)
+   */
+  constructor(carried?: UsageSnapshot) {
+    this.carried = emptyTokenUsage();
+    if (carried) {
+      addTokenUsage(this.carried, carried);
+    }
+    this.turns = carried?.turns || 0;
+    this.model = carried?.model;
+  }
+
+  /**
+   * Record the usage reported on an assistant message
+   * @param messageId API message ID (repeated reports for it replace each other)
+   * @param timestamp When the message was written; defaults to now
+   */
+  record(messageId: string, model: string | undefined, raw: RawUsage, timestamp?: string): void {
+    const usage = toTokenUsage(model, raw);
+    const date = (timestamp || new Date().toISOString()).slice(0, 10);
+
+    const previous = this.messages.get(messageId);
+    if (previous) {
+      addTokenUsage(this.totals, previous.usage, -1);
+      addTokenUsage(this.dailyBucket(previous.date), previous.usage, -1);
+    }
+    this.messages.set(messageId, { usage, date });
+    addTokenUsage(this.totals, usage);
+    addTokenUsage(this.dailyBucket(date), usage);
+
+    if (model && model !== '<synthetic>') {
+      this.model = model;
+    }
+    this.contextTokens = usage.inputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+  }
+
+  /**
+   * Start counting a new claude process; the cost it reports covers only itself
+   */
+  startRun(): void {
+    this.costCorrection += this.runCostCorrection;
+    this.runCostCorrection = 0;
+    this.runStartCost = this.totals.costUsd;
+  }
+
+  /**
+   * Record the cost claude reported for the current run so far
+   */
+  reportRunCost(totalCostUsd: number): void {
+    this.runCostCorrection = totalCostUsd - (this.totals.costUsd - this.runStartCost);
+  }
+
+  getUsage(): SessionUsage {
+    const totals = { ...this.totals };
+    addTokenUsage(totals, this.carried);
+    totals.costUsd += this.costCorrection + this.runCostCorrection;
+    return {
+      ...totals,
+      model: this.model,
+      contextTokens: this.contextTokens,
+      contextWindow: getContextWindow(this.model, this.contextTokens)
+    };
+  }
+
+  /**
+   * Add the turns claude reported for one prompt
+   */
+  recordTurns(count: number): void {
+    this.turns += count;
+  }
+
+  getTurnCount(): number {
+    return this.turns;
+  }
+
+  snapshot(): UsageSnapshot {
+    const { model, inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens, costUsd } = this.getUsage();
+    return { model, inputTokens, outputTokens, cacheCreationTokens, cacheReadTokens, costUsd, turns: this.turns };
+  }
+
+  getDailyUsage(): DailyUsage[] {
+    return [...this.daily.entries()].map(([date, usage]) => ({ date, ...usage }));
+  }
+
+  private dailyBucket(date: string): TokenUsage {
+    let bucket = this.daily.get(date);
+    if (!bucket) {
+      bucket = emptyTokenUsage();
+      this.daily.set(date, bucket);
+    }
+    return bucket;
+  }
+}
+
+/**
+ * Combine session trackers into totals per project and per day
+ */
+export function buildUsageReport(sessions: { projectName: string; usage: UsageTracker }[]): UsageReport {
+  const totals = emptyTokenUsage();
+  const byProject = new Map<string, ProjectUsage>();
+  const byDay = new Map<string, DailyUsage>();
+
+  for (const session of sessions) {
+    const usage = session.usage.getUsage();
+    addTokenUsage(totals, usage);
+
+    let project = byProject.get(session.projectName);
+    if (!project) {
+      project = { projectName: session.projectName, sessionCount: 0, ...emptyTokenUsage() };
+      byProject.set(session.projectName, project);
+    }
+    project.sessionCount += 1;
+    addTokenUsage(project, usage);
+
+    for (const daily of session.usage.getDailyUsage()) {
+      let day = byDay.get(daily.date);
+      if (!day) {
+        day = { date: daily.date, ...emptyTokenUsage() };
+        byDay.set(daily.date, day);
+      }
+      addTokenUsage(day, daily);
+    }
+  }
+
+  return {
+    totals,
+    byProject: [...byProject.values()].sort((a, b) => b.costUsd - a.costUsd),
+    byDay: [...byDay.values()].sort((a, b) => a.date.localeCompare(b.date))
+  };
+}
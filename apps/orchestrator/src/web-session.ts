@@ -2,72 +2,309 @@ import { spawn, type Subprocess } from 'bun';
 import * as path from 'node:path';
 import * as os from 'node:os';
 import * as fs from 'node:fs';
+import { buildLaunchArgs, type LaunchOptions } from './launch-options';
+import { buildChildEnv } from './env-profiles';
+import * as supervisor from './session-supervisor';
+import type { ExitReason } from './session-supervisor';
+import type { PersistedWebSession } from './session-persistence';
+import { UsageTracker, type SessionUsage } from './usage';
+import * as budgets from './budgets';
+import type { BudgetLevel, BudgetRule, BudgetStatus } from './budgets';
+import * as resourceLimits from './resource-limits';
+import type { ResourceLevel, ResourceStatus } from './resource-limits';
+import { isWorseThan } from './limit-rules';
+import { MessageAssembler } from './message-assembler';
+import { LaunchQueue, DEFAULT_PRIORITY, getConcurrencyLimits, type QueuedLaunch } from './launch-queue';
+import type { DisplayMessage } from './types';
+import type { SessionWorktree } from './worktrees';
 
 export interface WebSessionMessage {
-  type: 'text' | 'tool_use' | 'tool_result' | 'permission_request' | 'error' | 'status';
+  type: 'message' | 'message_delta' | 'permission_request' | 'error' | 'status' | 'queue' | 'usage' | 'budget' | 'limit' | 'control' | 'result';
   content?: string;
-  toolUse?: {
-    id: string;
-    name: string;
-    input: Record<string, unknown>;
-  };
-  toolResult?: {
-    toolUseId: string;
-    content: string;
-    isError?: boolean;
-  };
+  // Assembled transcript message (type 'message'); replaces any earlier one with its ID
+  message?: DisplayMessage;
+  // Message that 'content' is appended to (type 'message_delta')
+  messageId?: string;
   permission?: {
     toolUseId: string;
     toolName: string;
     input: Record<string, unknown>;
   };
-  status?: 'started' | 'completed' | 'error';
+  status?: 'queued' | 'started' | 'active' | 'waiting_permission' | 'restarting' | 'budget_exceeded' | 'completed' | 'error';
+  // Why the status changed (e.g. 'spawned', 'crash', 'user_stop')
+  reason?: string;
+  // Last stderr lines of a child that exited abnormally
+  crashReport?: string[];
+  // Current outbound queue (type 'queue')
+  queue?: QueuedMessage[];
+  // Running token/cost totals (type 'usage')
+  usage?: SessionUsage;
+  // Budget line that was crossed (type 'budget')
+  budget?: BudgetStatus;
+  // Resource limit line that was crossed (type 'limit')
+  limit?: ResourceStatus;
+  // Outcome of a control signal (type 'control')
+  control?: ControlSignalResult;
+  // How a turn ended (type 'result')
+  result?: TurnResult;
+  // Assigned when the message is recorded in the session's event log
+  seq?: number;
+  timestamp?: string;
+}
+
+export interface TurnResult {
+  // Final text of the turn, or the error message
+  text: string;
+  isError: boolean;
+  numTurns?: number;
+  durationMs?: number;
+}
+
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  queuedAt: string;
+}
+
+export interface PermissionRequest {
+  requestId: string;
+  toolUseId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+// How a control signal is delivered to a stream-json child
+export type ControlMechanism = 'control_request' | 'process_signal' | 'stdin' | 'message' | 'unsupported';
+
+export interface ControlSignalResult {
+  signal: string;
+  mechanism: ControlMechanism;
+  // 'pending' until claude answers a control request
+  status: 'pending' | 'applied' | 'failed' | 'unsupported';
+  requestId?: string;
+  message?: string;
+}
+
+/**
+ * What each control signal does. The raw terminal keys (Ctrl+C, Ctrl+O, ...) mean
+ * nothing to a child reading --input-format stream-json, so each is mapped onto
+ * something the child understands, or reported as unsupported.
+ */
+export const CONTROL_SIGNALS: Record<string, { mechanism: ControlMechanism; description: string }> = {
+  interrupt: { mechanism: 'control_request', description: 'Abort the current turn' },
+  quit: { mechanism: 'process_signal', description: 'Stop the claude process (SIGTERM)' },
+  eof: { mechanism: 'stdin', description: 'Close input; claude exits once the current turn ends' },
+  clear: { mechanism: 'message', description: 'Start a fresh conversation (/clear)' },
+  expand: { mechanism: 'unsupported', description: 'Expanding output is a terminal UI feature; tool output is already streamed in full' },
+  retry: { mechanism: 'unsupported', description: 'Retry is a terminal UI feature; resend the prompt instead' }
+};
+
+// How long claude gets to answer a control request before it is reported as failed
+export const CONTROL_ACK_TIMEOUT_MS = 5000;
+
+export interface WebSessionExit {
+  reason: ExitReason;
+  exitCode: number | null;
+  signal: string | null;
+  description: string;
+  crashReport?: string[];
+  // The resource limit a reaped child went over
+  limit?: ResourceStatus;
+  exitedAt: string;
+}
+
+// An exit kept after its session has been dropped
+export interface WebSessionExitRecord extends WebSessionExit {
+  sessionId: string;
+  cwd: string;
+  projectName: string;
+  claudeSessionId?: string;
+  jobId?: string;
 }
 
 export interface WebSession {
   id: string;
   cwd: string;
   projectName: string;
+  launchOptions: LaunchOptions;
+  createdAt: Date;
   process: Subprocess<'pipe', 'pipe', 'pipe'> | null;
-  status: 'starting' | 'active' | 'waiting_permission' | 'completed' | 'error';
+  status: 'queued' | 'starting' | 'active' | 'waiting_permission' | 'restarting' | 'budget_exceeded' | 'completed' | 'error';
+  // Session ID passed to --resume, and the one claude reports once running
+  resumeSessionId?: string;
+  claudeSessionId?: string;
   pendingPermission?: {
     toolUseId: string;
     toolName: string;
     input: Record<string, unknown>;
   };
+  // Outstanding can_use_tool control requests, keyed by tool use ID
+  permissionRequests: Map<string, PermissionRequest>;
+  // Control requests we sent and are waiting on, keyed by request ID
+  controlRequests: Map<string, { signal: string; timer: ReturnType<typeof setTimeout> }>;
   onMessage: (msg: WebSessionMessage) => void;
   buffer: string;
+  // Prompts waiting for the session to be ready, delivered in order
+  messageQueue: QueuedMessage[];
+  // Set when a prompt is delivered, cleared by the turn's result event
+  turnInProgress: boolean;
+  // Folds claude's streamed output into display messages
+  assembler: MessageAssembler;
+  usage: UsageTracker;
+  // Session-specific budget (enforced alongside the project and global rules)
+  budget?: BudgetRule;
+  // Budget level at the last check; only moves up to a new level are announced
+  budgetLevel: BudgetLevel;
+  // Worktree an isolated session runs in
+  worktree?: SessionWorktree;
+  // Environment profile the child is started with (read again on every start)
+  envProfile?: string;
+  // Job (or schedule run) that started the session for its one prompt
+  jobId?: string;
+  // Last input to or output from the child, for the idle limit
+  lastActivityAt: Date;
+  // Resource limit level at the last check, and the child's memory then
+  resourceLevel: ResourceLevel;
+  memoryBytes?: number;
+  // Set once the child is being stopped for going over a resource limit
+  reapedFor?: ResourceStatus;
+  // Recent messages kept for late or reconnecting subscribers
+  eventLog: WebSessionMessage[];
+  lastSeq: number;
+  // Supervision state
+  stderrTail: string[];
+  stopRequested: boolean;
+  startedAt?: Date;
+  restartCount: number;
+  restartTimer?: ReturnType<typeof setTimeout>;
+  lastExit?: WebSessionExit;
+  // Drops a finished session once its retention window has passed
+  evictTimer?: ReturnType<typeof setTimeout>;
 }
 
 const sessions = new Map<string, WebSession>();
 
-export function createWebSession(
+// Sessions waiting for a free slot under the concurrency limits
+const launchQueue = new LaunchQueue();
+
+// Launches that aren't web sessions (headless tasks) but take the same slots:
+// queued ones by ID with their start callback, running ones with their project dir
+const queuedTaskLaunches = new Map<string, () => void>();
+const runningTaskSlots = new Map<string, string>();
+
+// Per-session replay window; older events are dropped first
+export const MAX_EVENT_LOG_SIZE = 1000;
+
+// Child exits kept across session eviction, oldest dropped first
+export const MAX_EXIT_HISTORY = 200;
+const exitHistory: WebSessionExitRecord[] = [];
+
+// Display messages a session keeps open for updates (tool results, late blocks)
+const MAX_ASSEMBLED_MESSAGES = 500;
+
+function recordEvent(session: WebSession, msg: WebSessionMessage): void {
+  session.lastSeq += 1;
+  msg.seq = session.lastSeq;
+  msg.timestamp = new Date().toISOString();
+
+  session.eventLog.push(msg);
+  if (session.eventLog.length > MAX_EVENT_LOG_SIZE) {
+    session.eventLog.splice(0, session.eventLog.length - MAX_EVENT_LOG_SIZE);
+  }
+}
+
+function registerSession(
+  id: string,
   cwd: string,
   onMessage: (msg: WebSessionMessage) => void,
-  resumeSessionId?: string // Optional: resume existing session
+  resumeSessionId: string | undefined,
+  launchOptions: LaunchOptions
 ): WebSession {
-  // If resuming, use the existing session ID; otherwise create new
-  const id = resumeSessionId || crypto.randomUUID();
-  const projectName = path.basename(cwd);
-
   const session: WebSession = {
     id,
     cwd,
-    projectName,
+    projectName: path.basename(cwd),
+    launchOptions,
+    createdAt: new Date(),
     process: null,
     status: 'starting',
-    onMessage,
-    buffer: ''
+    resumeSessionId,
+    permissionRequests: new Map(),
+    controlRequests: new Map(),
+    onMessage: (msg) => {
+      recordEvent(session, msg);
+      onMessage(msg);
+    },
+    buffer: '',
+    messageQueue: [],
+    turnInProgress: false,
+    assembler: new MessageAssembler(MAX_ASSEMBLED_MESSAGES),
+    usage: new UsageTracker(),
+    budgetLevel: 'ok',
+    lastActivityAt: new Date(),
+    resourceLevel: 'ok',
+    eventLog: [],
+    lastSeq: 0,
+    stderrTail: [],
+    stopRequested: false,
+    restartCount: 0
   };
 
   sessions.set(id, session);
   return session;
 }
 
+export function createWebSession(
+  cwd: string,
+  onMessage: (msg: WebSessionMessage) => void,
+  resumeSessionId?: string, // Optional: resume existing session
+  launchOptions: LaunchOptions = {}
+): WebSession {
+  // If resuming, use the existing session ID; otherwise create new
+  const id = resumeSessionId || crypto.randomUUID();
+  return registerSession(id, cwd, onMessage, resumeSessionId, launchOptions);
+}
+
+/**
+ * Re-register a session persisted by a previous orchestrator run.
+ * Keeps its ID and continues its event numbering, so clients that were following
+ * it can resubscribe with their last seen seq. Call startWebSession to spawn claude.
+ */
+export function restoreWebSession(
+  persisted: PersistedWebSession,
+  onMessage: (msg: WebSessionMessage) => void
+): WebSession {
+  const session = registerSession(
+    persisted.id,
+    persisted.cwd,
+    onMessage,
+    persisted.resumeSessionId,
+    persisted.launchOptions || {}
+  );
+  session.createdAt = new Date(persisted.createdAt);
+  session.lastSeq = persisted.lastSeq || 0;
+  session.budget = persisted.budget;
+  session.worktree = persisted.worktree;
+  session.envProfile = persisted.envProfile;
+  // Budgets count what the session used before the restart too
+  session.usage = new UsageTracker(persisted.usage);
+  return session;
+}
+
 export async function startWebSession(session: WebSession, resumeSessionId?: string): Promise<void> {
   try {
     // Build command args
-    const args = ['claude', '-p', '--output-format', 'stream-json', '--input-format', 'stream-json', '--verbose'];
+    // --permission-prompt-tool stdio makes claude ask us (via control_request on stdout)
+    // before running any tool that needs approval
+    const args = [
+      'claude', '-p',
+      '--output-format', 'stream-json',
+      '--input-format', 'stream-json',
+      '--verbose',
+      '--include-partial-messages',
+      '--permission-prompt-tool', 'stdio',
+      ...buildLaunchArgs(session.launchOptions)
+    ];
 
     // Add --resume if resuming existing session
     if (resumeSessionId) {
@@ -81,15 +318,32 @@ export async function startWebSession(session: WebSession, resumeSessionId?: str
       stdout: 'pipe',
       stderr: 'pipe',
       env: {
-        ...process.env,
+        ...buildChildEnv(session.envProfile),
+        ...session.launchOptions.env,
         CLAUDE_CODE_ENTRY_POINT: 'web-orchestrator'
       }
     });
 
     session.process = proc;
+    session.usage.startRun();
     session.status = 'active';
+    session.stopRequested = false;
+    session.startedAt = new Date();
+    session.lastActivityAt = session.startedAt;
+    session.resourceLevel = 'ok';
+    session.memoryBytes = undefined;
+    session.reapedFor = undefined;
+    session.stderrTail = [];
+    session.buffer = '';
+    session.turnInProgress = false;
 
-    session.onMessage({ type: 'status', status: 'started' });
+    session.onMessage({
+      type: 'status',
+      status: 'started',
+      reason: session.restartCount > 0 ? 'restarted' : 'spawned'
+    });
+    checkBudget(session);
+    deliverQueuedMessages(session);
 
     // Handle stdout (JSON stream)
     const reader = proc.stdout.getReader();
@@ -125,31 +379,30 @@ export async function startWebSession(session: WebSession, resumeSessionId?: str
 
     readStream();
 
-    // Handle stderr
+    // Handle stderr - keep the tail around as a crash report
     const stderrReader = proc.stderr.getReader();
+    const stderrDecoder = new TextDecoder();
     const readStderr = async () => {
+      let partial = '';
       try {
         while (true) {
           const { done, value } = await stderrReader.read();
           if (done) break;
-          const text = decoder.decode(value, { stream: true });
+          const text = stderrDecoder.decode(value, { stream: true });
           console.error('[claude stderr]', text);
+          partial = supervisor.appendStderr(session.stderrTail, partial, text);
         }
+        supervisor.appendStderr(session.stderrTail, partial, '\n');
       } catch (err) {
         console.error('Stderr read error:', err);
       }
     };
-    readStderr();
+    const stderrDone = readStderr();
 
-    // Handle process exit
-    proc.exited.then((code) => {
-      session.status = code === 0 ? 'completed' : 'error';
-      session.onMessage({
-        type: 'status',
-        status: code === 0 ? 'completed' : 'error',
-        content: `Process exited with code ${code}`
-      });
-      sessions.delete(session.id);
+    // Handle process exit once stderr is drained, so the crash report is complete
+    proc.exited.then(async (code) => {
+      await stderrDone;
+      handleExit(session, proc, code, proc.signalCode != null ? String(proc.signalCode) : null);
     });
 
   } catch (err) {
@@ -158,131 +411,702 @@ export async function startWebSession(session: WebSession, resumeSessionId?: str
       type: 'error',
       content: `Failed to start Claude: ${err instanceof Error ? err.message : String(err)}`
     });
+    session.onMessage({ type: 'status', status: 'error', reason: 'spawn_failed' });
+    scheduleEviction(session);
+    void startQueuedSessions();
+  }
+}
+
+/**
+ * Start a session now if the concurrency limits allow, otherwise queue it
+ * (status 'queued') until enough running sessions end. Prompts sent meanwhile
+ * are held in its message queue.
+ * @param priority Higher launches first; equal priorities go in arrival order
+ */
+export async function launchWebSession(
+  session: WebSession,
+  resumeSessionId?: string,
+  priority: number = DEFAULT_PRIORITY
+): Promise<void> {
+  session.status = 'queued';
+  launchQueue.add({
+    sessionId: session.id,
+    cwd: getProjectDir(session),
+    projectName: session.projectName,
+    priority,
+    queuedAt: new Date().toISOString(),
+    resumeSessionId
+  });
+  await startQueuedSessions();
+
+  if (session.status === 'queued') {
+    session.onMessage({
+      type: 'status',
+      status: 'queued',
+      reason: 'concurrency_limit',
+      content: `Waiting for a free slot (position ${launchQueue.position(session.id)})`
+    });
+  }
+}
+
+/**
+ * Directory a session's per-project limits (concurrency, budget, resources) are
+ * looked up by: for an isolated session, the same directory in the main checkout
+ * rather than in its worktree
+ */
+export function getProjectDir(session: WebSession): string {
+  const { worktree } = session;
+  return worktree ? path.join(worktree.repoPath, path.relative(worktree.path, session.cwd)) : session.cwd;
+}
+
+/**
+ * Run a headless task under the same concurrency limits as web sessions: start
+ * it now if a slot is free, otherwise once one is. releaseTaskSlot must follow
+ * when the task ends or is cancelled.
+ * @param start Called once the task has its slot
+ */
+export function queueTaskLaunch(
+  taskId: string,
+  cwd: string,
+  start: () => void,
+  priority: number = DEFAULT_PRIORITY
+): void {
+  queuedTaskLaunches.set(taskId, start);
+  launchQueue.add({
+    sessionId: taskId,
+    cwd,
+    projectName: path.basename(cwd),
+    priority,
+    queuedAt: new Date().toISOString(),
+    task: true
+  });
+  void startQueuedSessions();
+}
+
+/**
+ * Free a task's slot, or drop it from the queue if it hadn't started
+ */
+export function releaseTaskSlot(taskId: string): void {
+  runningTaskSlots.delete(taskId);
+  if (queuedTaskLaunches.delete(taskId)) {
+    launchQueue.remove(taskId);
+  }
+  void startQueuedSessions();
+}
+
+// Project directories of sessions and tasks holding a slot (restarting sessions keep theirs)
+function runningSessionCwds(): string[] {
+  return [...sessions.values()]
+    .filter(s => s.status !== 'queued' && isWebSessionLive(s))
+    .map(getProjectDir)
+    .concat([...runningTaskSlots.values()]);
+}
+
+/**
+ * Start queued sessions and tasks that now fit under the concurrency limits
+ */
+export async function startQueuedSessions(): Promise<void> {
+  const entries = launchQueue.takeLaunchable(getConcurrencyLimits(), runningSessionCwds());
+
+  for (const entry of entries) {
+    const start = queuedTaskLaunches.get(entry.sessionId);
+    if (!start) continue;
+    queuedTaskLaunches.delete(entry.sessionId);
+    runningTaskSlots.set(entry.sessionId, entry.cwd);
+    start();
+  }
+
+  const launchable = entries
+    .map(entry => ({ entry, session: sessions.get(entry.sessionId) }))
+    .filter((launch): launch is { entry: QueuedLaunch; session: WebSession } => launch.session?.status === 'queued');
+
+  // Claim the slots before spawning, so a concurrent call doesn't hand them out again
+  for (const { session } of launchable) {
+    session.status = 'starting';
+  }
+  for (const { entry, session } of launchable) {
+    await startWebSession(session, entry.resumeSessionId);
+  }
+}
+
+/**
+ * Change the priority of a queued launch
+ * @returns false if the session isn't queued
+ */
+export function setLaunchPriority(sessionId: string, priority: number): boolean {
+  return launchQueue.setPriority(sessionId, priority);
+}
+
+/**
+ * Get the queued launches in the order they will start
+ */
+export function getLaunchQueue(): (QueuedLaunch & { position: number })[] {
+  return launchQueue.list().map((entry, index) => ({ ...entry, position: index + 1 }));
+}
+
+export function getRunningSessionCount(): number {
+  return runningSessionCwds().length;
+}
+
+/**
+ * Record why the child exited and either finish the session or schedule a restart
+ */
+export function handleExit(
+  session: WebSession,
+  proc: WebSession['process'],
+  exitCode: number | null,
+  signal: string | null
+): void {
+  // A newer child has already replaced this one
+  if (session.process !== proc) return;
+  session.process = null;
+
+  // Permission requests die with the process that asked
+  session.permissionRequests.clear();
+  session.pendingPermission = undefined;
+  failControlRequests(session, 'claude exited before answering');
+
+  const details = {
+    exitCode,
+    signal,
+    stopRequested: session.stopRequested,
+    reaped: !!session.reapedFor,
+    stderrTail: session.stderrTail
+  };
+  const reason = supervisor.classifyExit(details);
+  const limit = reason === 'reaped' ? session.reapedFor : undefined;
+  const description = limit
+    ? `${supervisor.describeExit(reason, details)}: ${resourceLimits.describeResourceStatus(limit)}`
+    : supervisor.describeExit(reason, details);
+  const failed = reason === 'crash' || reason === 'killed';
+
+  session.lastExit = {
+    reason,
+    exitCode,
+    signal,
+    description,
+    crashReport: failed ? [...session.stderrTail] : undefined,
+    limit,
+    exitedAt: new Date().toISOString()
+  };
+  recordExit(session, session.lastExit);
+  session.memoryBytes = undefined;
+
+  if (!failed) {
+    session.status = 'completed';
+    session.onMessage({ type: 'status', status: 'completed', reason, content: description });
+    scheduleEviction(session);
+    void startQueuedSessions();
+    return;
+  }
+
+  // A session that ran stably for a while gets a fresh restart budget
+  const config = supervisor.getSupervisorConfig();
+  const uptime = session.startedAt ? Date.now() - session.startedAt.getTime() : 0;
+  if (uptime >= config.stableAfterMs) {
+    session.restartCount = 0;
+  }
+
+  if (supervisor.shouldRestart(reason, session.restartCount, config)) {
+    const delay = supervisor.getRestartDelay(session.restartCount, config);
+    session.restartCount += 1;
+    session.status = 'restarting';
+    session.onMessage({
+      type: 'status',
+      status: 'restarting',
+      reason,
+      content: `${description}. Restarting in ${Math.round(delay / 1000)}s (attempt ${session.restartCount}/${config.maxRestarts})`,
+      crashReport: session.lastExit.crashReport
+    });
+
+    session.restartTimer = setTimeout(() => {
+      session.restartTimer = undefined;
+      if (session.stopRequested || sessions.get(session.id) !== session) return;
+      startWebSession(session, session.claudeSessionId || session.resumeSessionId);
+    }, delay);
+    return;
+  }
+
+  const capped = config.autoRestart && session.restartCount >= config.maxRestarts;
+  session.status = 'error';
+  session.onMessage({
+    type: 'status',
+    status: 'error',
+    reason: capped ? 'restart_limit' : reason,
+    content: capped ? `${description}. Restart limit (${config.maxRestarts}) reached` : description,
+    crashReport: session.lastExit.crashReport
+  });
+  scheduleEviction(session);
+  void startQueuedSessions();
+}
+
+function recordExit(session: WebSession, exit: WebSessionExit): void {
+  exitHistory.push({
+    ...exit,
+    sessionId: session.id,
+    cwd: session.cwd,
+    projectName: session.projectName,
+    claudeSessionId: session.claudeSessionId,
+    jobId: session.jobId
+  });
+  if (exitHistory.length > MAX_EXIT_HISTORY) {
+    exitHistory.splice(0, exitHistory.length - MAX_EXIT_HISTORY);
+  }
+}
+
+/**
+ * Get recent child exits, newest first, including those of sessions that have
+ * since been dropped
+ */
+export function getExitHistory(): WebSessionExitRecord[] {
+  return [...exitHistory].reverse();
+}
+
+/**
+ * Unregister a finished session after the retention window, so its event log and
+ * messages don't stay in memory once clients have had time to catch up
+ */
+function scheduleEviction(session: WebSession): void {
+  clearTimeout(session.evictTimer);
+  session.evictTimer = setTimeout(() => {
+    session.evictTimer = undefined;
+    if (sessions.get(session.id) === session && !isWebSessionLive(session)) {
+      sessions.delete(session.id);
+    }
+  }, supervisor.getSupervisorConfig().finishedRetentionMs);
+  // Pending evictions don't keep the orchestrator alive
+  session.evictTimer.unref?.();
+}
+
+function writeLine(session: WebSession, payload: unknown): void {
+  if (!session.process) {
+    throw new Error('Session process is not running');
+  }
+  session.process.stdin.write(JSON.stringify(payload) + '\n');
+  session.process.stdin.flush();
+  session.lastActivityAt = new Date();
+}
+
+function handleControlRequest(session: WebSession, data: any) {
+  const requestId: string = data.request_id;
+  const request = data.request || {};
+
+  if (request.subtype === 'can_use_tool' && session.status === 'budget_exceeded') {
+    denyToolUse(session, requestId, BUDGET_DENY_MESSAGE);
+    return;
+  }
+
+  if (request.subtype !== 'can_use_tool') {
+    // We only act as the permission prompt; reject anything else so claude doesn't hang
+    writeLine(session, {
+      type: 'control_response',
+      response: {
+        subtype: 'error',
+        request_id: requestId,
+        error: `Unsupported control request: ${request.subtype}`
+      }
+    });
+    return;
+  }
+
+  const permission: PermissionRequest = {
+    requestId,
+    toolUseId: request.tool_use_id || requestId,
+    toolName: request.tool_name,
+    input: request.input || {}
+  };
+
+  session.permissionRequests.set(permission.toolUseId, permission);
+  showNextPermission(session);
+}
+
+function denyToolUse(session: WebSession, requestId: string, message: string): void {
+  writeLine(session, {
+    type: 'control_response',
+    response: {
+      subtype: 'success',
+      request_id: requestId,
+      response: { behavior: 'deny', message }
+    }
+  });
+}
+
+// Surface the oldest outstanding permission request, if not already shown
+function showNextPermission(session: WebSession) {
+  const next = session.permissionRequests.values().next().value as PermissionRequest | undefined;
+  if (!next) {
+    session.pendingPermission = undefined;
+    if (session.status === 'waiting_permission') {
+      session.status = 'active';
+      session.onMessage({ type: 'status', status: 'active' });
+      deliverQueuedMessages(session);
+    }
+    return;
   }
+
+  if (session.pendingPermission?.toolUseId === next.toolUseId) return;
+
+  session.status = 'waiting_permission';
+  session.pendingPermission = {
+    toolUseId: next.toolUseId,
+    toolName: next.toolName,
+    input: next.input
+  };
+  session.onMessage({
+    type: 'permission_request',
+    permission: session.pendingPermission
+  });
 }
 
-function handleStreamEvent(session: WebSession, data: any) {
+export function handleStreamEvent(session: WebSession, data: any) {
+  session.lastActivityAt = new Date();
+
+  // Transcript content is assembled into display messages; the rest drives session state
+  for (const update of session.assembler.apply(data)) {
+    session.onMessage(update);
+  }
+
   // Handle different event types from claude stream-json output
   switch (data.type) {
     case 'assistant':
-      // Assistant message with content
-      if (data.message?.content) {
-        for (const block of data.message.content) {
-          if (block.type === 'text') {
-            session.onMessage({ type: 'text', content: block.text });
-          } else if (block.type === 'tool_use') {
-            session.onMessage({
-              type: 'tool_use',
-              toolUse: {
-                id: block.id,
-                name: block.name,
-                input: block.input
-              }
-            });
-          } else if (block.type === 'tool_result') {
-            session.onMessage({
-              type: 'tool_result',
-              toolResult: {
-                toolUseId: block.tool_use_id,
-                content: typeof block.content === 'string' ? block.content : JSON.stringify(block.content),
-                isError: block.is_error
-              }
-            });
-          }
-        }
+      if (data.message?.usage) {
+        session.usage.record(data.message.id || crypto.randomUUID(), data.message.model, data.message.usage);
+        checkBudget(session);
       }
       break;
 
-    case 'content_block_delta':
-      if (data.delta?.type === 'text_delta') {
-        session.onMessage({ type: 'text', content: data.delta.text });
+    case 'stream_event':
+      // Partial message events (--include-partial-messages)
+      if (data.event?.type === 'message_start' && session.status !== 'budget_exceeded') {
+        session.status = 'active';
       }
       break;
 
     case 'content_block_start':
-      // Content block starting - typically indicates new content coming
-      if (data.content_block?.type === 'text') {
-        // Text block starting
-      } else if (data.content_block?.type === 'tool_use') {
-        session.onMessage({
-          type: 'tool_use',
-          toolUse: {
-            id: data.content_block.id,
-            name: data.content_block.name,
-            input: data.content_block.input || {}
-          }
-        });
-      }
-      break;
-
+    case 'content_block_delta':
     case 'content_block_stop':
-      // Content block finished
+    case 'message_delta':
+    case 'message_stop':
       break;
 
     case 'message_start':
       // New message starting - session is receiving data
-      session.status = 'active';
-      break;
-
-    case 'message_delta':
-      // Message update (e.g., stop_reason)
-      break;
-
-    case 'message_stop':
-      // Message complete
+      if (session.status !== 'budget_exceeded') {
+        session.status = 'active';
+      }
       break;
 
     case 'result':
       // Final result
-      if (data.result) {
-        session.onMessage({ type: 'text', content: data.result });
-      }
       if (data.is_error) {
         session.onMessage({ type: 'error', content: data.result || 'Unknown error' });
       }
+      session.onMessage({
+        type: 'result',
+        result: {
+          text: typeof data.result === 'string' ? data.result : '',
+          isError: !!data.is_error,
+          numTurns: data.num_turns,
+          durationMs: data.duration_ms
+        }
+      });
+      // What the run actually cost, where claude reports it, rather than our estimate
+      if (typeof data.total_cost_usd === 'number') {
+        session.usage.reportRunCost(data.total_cost_usd);
+      }
+      if (typeof data.num_turns === 'number') {
+        session.usage.recordTurns(data.num_turns);
+      }
+      session.onMessage({ type: 'usage', usage: session.usage.getUsage() });
+      checkBudget(session);
+      // Turn finished - the next queued prompt can go out
+      session.turnInProgress = false;
+      deliverQueuedMessages(session);
       break;
 
     case 'system':
       // System messages (init, session info, etc.)
       if (data.subtype === 'init' || data.subtype === 'session_start') {
-        session.status = 'active';
+        if (session.status !== 'budget_exceeded') {
+          session.status = 'active';
+        }
+        if (data.session_id) {
+          session.claudeSessionId = data.session_id;
+        }
       }
       break;
 
     case 'user':
-      // Echo of user message
+      // Tool results, assembled above
       break;
 
     case 'error':
       session.onMessage({ type: 'error', content: data.error?.message || data.message || 'Unknown error' });
       break;
 
+    case 'control_request':
+      handleControlRequest(session, data);
+      break;
+
+    case 'control_cancel_request':
+      // claude gave up on a permission request (e.g. the turn was aborted)
+      for (const [toolUseId, permission] of session.permissionRequests) {
+        if (permission.requestId === data.request_id) {
+          session.permissionRequests.delete(toolUseId);
+        }
+      }
+      showNextPermission(session);
+      break;
+
+    case 'control_response':
+      handleControlResponse(session, data.response || {});
+      break;
+
     default:
       // Log unknown event types for debugging
       console.log('[stream event]', data.type, JSON.stringify(data).slice(0, 200));
   }
 }
 
-export async function sendMessage(sessionId: string, message: string): Promise<boolean> {
+const BUDGET_DENY_MESSAGE = 'The session budget has been exceeded.';
+
+/**
+ * Compare the session's usage against its budget. Crossing the warn or hard line
+ * is announced once with a 'budget' message; crossing the hard line also
+ * interrupts claude and holds the session in 'budget_exceeded' until the budget
+ * is raised.
+ */
+export function checkBudget(session: WebSession): void {
+  if (!isWebSessionLive(session)) return;
+
+  const rules = budgets.resolveBudgetRules(budgets.getBudgetConfig(), getProjectDir(session), session.budget);
+  const usage = session.usage.getUsage();
+  const status = budgets.evaluateBudgets(rules, {
+    costUsd: usage.costUsd,
+    tokens: usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens,
+    turns: session.usage.getTurnCount()
+  });
+
+  const crossed = isWorseThan(status, session.budgetLevel);
+  session.budgetLevel = status.level;
+  if (crossed) {
+    session.onMessage({ type: 'budget', budget: status, content: budgets.describeBudget(status) });
+  }
+
+  if (status.level === 'exceeded') {
+    // Without a child (starting/restarting) this is re-checked once one is spawned
+    if (session.status !== 'budget_exceeded' && session.process) {
+      pauseForBudget(session, status);
+    }
+  } else if (session.status === 'budget_exceeded') {
+    session.status = 'active';
+    session.onMessage({ type: 'status', status: 'active', reason: 'budget_raised' });
+    deliverQueuedMessages(session);
+  }
+}
+
+// Refuse whatever claude is waiting on and interrupt the running turn
+function pauseForBudget(session: WebSession, status: BudgetStatus): void {
+  try {
+    for (const permission of session.permissionRequests.values()) {
+      denyToolUse(session, permission.requestId, BUDGET_DENY_MESSAGE);
+    }
+    sendControlRequest(session, 'interrupt', 'interrupt');
+  } catch (err) {
+    console.error('Failed to interrupt session over budget:', err);
+  }
+  session.permissionRequests.clear();
+  session.pendingPermission = undefined;
+
+  session.status = 'budget_exceeded';
+  session.onMessage({
+    type: 'status',
+    status: 'budget_exceeded',
+    reason: status.metric,
+    content: `${budgets.describeBudget(status)}. Raise the budget to resume`
+  });
+}
+
+/**
+ * Set (or with undefined, clear) a session's own budget and re-evaluate it
+ * @returns false if the session doesn't exist
+ */
+export function setWebSessionBudget(sessionId: string, budget: BudgetRule | undefined): boolean {
   const session = sessions.get(sessionId);
-  if (!session || !session.process || session.status !== 'active') {
-    return false;
+  if (!session) return false;
+
+  session.budget = budget;
+  checkBudget(session);
+  return true;
+}
+
+/**
+ * Re-evaluate every session, e.g. after the global or project rules changed
+ */
+export function recheckBudgets(): void {
+  for (const session of sessions.values()) {
+    checkBudget(session);
+  }
+}
+
+// How long a reaped child gets to exit after SIGTERM before SIGKILL
+const REAP_KILL_TIMEOUT_MS = 5000;
+
+let resourceMonitorTimer: ReturnType<typeof setInterval> | null = null;
+
+/**
+ * Compare a running child against its resource limits. Crossing the warn or
+ * hard line is announced once with a 'limit' message; crossing the hard line
+ * also stops the child, and the session ends as 'completed' with reason
+ * 'reaped' and the limit in its lastExit.
+ */
+export function checkResourceLimits(session: WebSession, now: number = Date.now()): void {
+  const proc = session.process;
+  if (!proc || session.reapedFor) return;
+
+  session.memoryBytes = proc.pid ? resourceLimits.readProcessTreeMemory(proc.pid) : undefined;
+  const limits = resourceLimits.resolveResourceLimits(resourceLimits.getResourceLimitConfig(), getProjectDir(session));
+  // A turn can go quiet for long tool calls (builds, test runs) or a permission
+  // prompt; only a session waiting for its next prompt is idle
+  const busy = session.turnInProgress || session.permissionRequests.size > 0;
+  const status = resourceLimits.evaluateResourceLimits(limits, {
+    idleMs: busy ? 0 : now - session.lastActivityAt.getTime(),
+    uptimeMs: session.startedAt ? now - session.startedAt.getTime() : 0,
+    memoryBytes: session.memoryBytes
+  });
+
+  const crossed = isWorseThan(status, session.resourceLevel);
+  session.resourceLevel = status.level;
+  if (status.level === 'exceeded') {
+    session.reapedFor = status;
+    session.onMessage({
+      type: 'limit',
+      limit: status,
+      content: `${resourceLimits.describeResourceStatus(status)}. Stopping the session`
+    });
+    proc.kill();
+    setTimeout(() => {
+      if (session.process === proc) proc.kill('SIGKILL');
+    }, REAP_KILL_TIMEOUT_MS);
+  } else if (crossed) {
+    session.onMessage({
+      type: 'limit',
+      limit: status,
+      content: `${resourceLimits.describeResourceStatus(status)}. The session will be stopped at the limit`
+    });
   }
+}
 
+/**
+ * Check every running child against the resource limits on an interval
+ */
+export function startResourceMonitor(intervalMs: number = resourceLimits.CHECK_INTERVAL_MS): void {
+  if (resourceMonitorTimer) return;
+  resourceMonitorTimer = setInterval(() => {
+    for (const session of sessions.values()) {
+      checkResourceLimits(session);
+    }
+  }, intervalMs);
+}
+
+export function stopResourceMonitor(): void {
+  if (resourceMonitorTimer) {
+    clearInterval(resourceMonitorTimer);
+    resourceMonitorTimer = null;
+  }
+}
+
+function emitQueue(session: WebSession): void {
+  session.onMessage({ type: 'queue', queue: session.messageQueue.map(m => ({ ...m })) });
+}
+
+// Whether claude can take the next prompt: running, not blocked on a permission, and idle
+function isReadyForInput(session: WebSession): boolean {
+  return !!session.process && session.status === 'active' && !session.turnInProgress;
+}
+
+/**
+ * Write the oldest queued prompt to claude if the session is ready for it.
+ * The rest go out one per turn as each turn's result arrives.
+ */
+function deliverQueuedMessages(session: WebSession): void {
+  if (!isReadyForInput(session) || session.messageQueue.length === 0) return;
+
+  const next = session.messageQueue[0];
   try {
-    // Send message as JSON using Bun's stdin.write()
-    const payload = JSON.stringify({
+    writeLine(session, {
       type: 'user',
-      message: { role: 'user', content: message }
-    }) + '\n';
-
-    session.process.stdin.write(payload);
-    session.process.stdin.flush();
-    return true;
+      message: { role: 'user', content: next.content }
+    });
   } catch (err) {
-    console.error('Failed to send message:', err);
+    console.error('Failed to deliver queued message:', err);
+    return;
+  }
+
+  session.messageQueue.shift();
+  session.turnInProgress = true;
+  session.onMessage(session.assembler.add({
+    id: next.id,
+    role: 'user',
+    content: next.content,
+    timestamp: new Date().toISOString()
+  }));
+  emitQueue(session);
+}
+
+/**
+ * Queue a prompt for the session; it is delivered right away if claude is idle.
+ * @returns false if the session doesn't exist or has ended
+ */
+export async function sendMessage(sessionId: string, message: string): Promise<boolean> {
+  const session = sessions.get(sessionId);
+  if (!session || !isWebSessionLive(session)) {
     return false;
   }
+
+  session.messageQueue.push({
+    id: crypto.randomUUID(),
+    content: message,
+    queuedAt: new Date().toISOString()
+  });
+  emitQueue(session);
+  deliverQueuedMessages(session);
+  return true;
+}
+
+/**
+ * Get the prompts still waiting to be delivered, oldest first
+ */
+export function getMessageQueue(sessionId: string): QueuedMessage[] | undefined {
+  return sessions.get(sessionId)?.messageQueue;
+}
+
+/**
+ * Replace the content of a queued prompt that hasn't been delivered yet
+ */
+export function updateQueuedMessage(sessionId: string, messageId: string, content: string): boolean {
+  const session = sessions.get(sessionId);
+  const queued = session?.messageQueue.find(m => m.id === messageId);
+  if (!session || !queued) return false;
+
+  queued.content = content;
+  emitQueue(session);
+  return true;
+}
+
+/**
+ * Drop a queued prompt that hasn't been delivered yet
+ */
+export function cancelQueuedMessage(sessionId: string, messageId: string): boolean {
+  const session = sessions.get(sessionId);
+  if (!session) return false;
+
+  const index = session.messageQueue.findIndex(m => m.id === messageId);
+  if (index < 0) return false;
+
+  session.messageQueue.splice(index, 1);
+  emitQueue(session);
+  return true;
 }
 
 export async function sendPermissionResponse(
@@ -296,21 +1120,37 @@ export async function sendPermissionResponse(
     return false;
   }
 
+  const permission = session.permissionRequests.get(toolUseId);
+  if (!permission) {
+    return false;
+  }
+
   try {
-    // Send permission response using Bun's stdin.write()
-    const payload = JSON.stringify({
-      type: 'permission_response',
-      tool_use_id: toolUseId,
-      approved,
-      feedback
-    }) + '\n';
+    // Answer the can_use_tool control request claude is blocked on
+    writeLine(session, {
+      type: 'control_response',
+      response: {
+        subtype: 'success',
+        request_id: permission.requestId,
+        response: approved
+          ? { behavior: 'allow', updatedInput: permission.input }
+          : { behavior: 'deny', message: feedback || 'The user denied this tool use.' }
+      }
+    });
 
-    session.process.stdin.write(payload);
-    session.process.stdin.flush();
+    session.permissionRequests.delete(toolUseId);
+    showNextPermission(session);
 
-    if (session.status === 'waiting_permission') {
-      session.status = 'active';
-      session.pendingPermission = undefined;
+    // Approval feedback has nowhere to go in the allow response, so it waits in
+    // the message queue and goes out as the next prompt once the turn ends
+    if (approved && feedback) {
+      session.messageQueue.push({
+        id: crypto.randomUUID(),
+        content: feedback,
+        queuedAt: new Date().toISOString()
+      });
+      emitQueue(session);
+      deliverQueuedMessages(session);
     }
 
     return true;
@@ -320,45 +1160,114 @@ export async function sendPermissionResponse(
   }
 }
 
-// Send control signal to session (Ctrl+C, Ctrl+O, etc.)
-export async function sendControlSignal(sessionId: string, signal: string): Promise<boolean> {
+function emitControlResult(session: WebSession, result: ControlSignalResult): ControlSignalResult {
+  session.onMessage({ type: 'control', control: result, content: result.message });
+  return result;
+}
+
+// Write a control request and start waiting for claude's control_response
+function sendControlRequest(session: WebSession, signal: string, subtype: string): string {
+  const requestId = crypto.randomUUID();
+  writeLine(session, { type: 'control_request', request_id: requestId, request: { subtype } });
+
+  const timer = setTimeout(() => {
+    if (!session.controlRequests.delete(requestId)) return;
+    emitControlResult(session, {
+      signal,
+      mechanism: 'control_request',
+      status: 'failed',
+      requestId,
+      message: `claude did not answer within ${CONTROL_ACK_TIMEOUT_MS / 1000}s`
+    });
+  }, CONTROL_ACK_TIMEOUT_MS);
+  session.controlRequests.set(requestId, { signal, timer });
+  return requestId;
+}
+
+function handleControlResponse(session: WebSession, response: any): void {
+  const pending = session.controlRequests.get(response.request_id);
+  if (!pending) return;
+
+  clearTimeout(pending.timer);
+  session.controlRequests.delete(response.request_id);
+  const ok = response.subtype === 'success';
+  emitControlResult(session, {
+    signal: pending.signal,
+    mechanism: 'control_request',
+    status: ok ? 'applied' : 'failed',
+    requestId: response.request_id,
+    message: ok ? undefined : response.error || 'Control request failed'
+  });
+}
+
+function failControlRequests(session: WebSession, message: string): void {
+  for (const [requestId, pending] of session.controlRequests) {
+    clearTimeout(pending.timer);
+    emitControlResult(session, {
+      signal: pending.signal,
+      mechanism: 'control_request',
+      status: 'failed',
+      requestId,
+      message
+    });
+  }
+  session.controlRequests.clear();
+}
+
+/**
+ * Deliver a control signal (see CONTROL_SIGNALS) or slash command to the session.
+ * Every outcome is also emitted as a 'control' message; control requests report
+ * 'pending' here and their final status once claude answers.
+ * @returns undefined if the session doesn't exist or isn't running
+ */
+export async function sendControlSignal(sessionId: string, signal: string): Promise<ControlSignalResult | undefined> {
   const session = sessions.get(sessionId);
   if (!session || !session.process) {
-    return false;
+    return undefined;
   }
 
-  try {
-    // Map signal names to control characters
-    const controlChars: Record<string, string> = {
-      'interrupt': '\x03',      // Ctrl+C
-      'expand': '\x0F',         // Ctrl+O
-      'retry': '\x12',          // Ctrl+R
-      'quit': '\x1C',           // Ctrl+\
-      'clear': '\x0C',          // Ctrl+L
-      'eof': '\x04',            // Ctrl+D
-    };
+  // Slash commands are prompts as far as claude is concerned
+  if (signal.startsWith('/')) {
+    await sendMessage(sessionId, signal);
+    return emitControlResult(session, { signal, mechanism: 'message', status: 'applied', message: `Queued ${signal}` });
+  }
 
-    const char = controlChars[signal];
-    if (char) {
-      session.process.stdin.write(char);
-      session.process.stdin.flush();
-      return true;
-    }
+  const spec = CONTROL_SIGNALS[signal];
+  if (!spec || spec.mechanism === 'unsupported') {
+    return emitControlResult(session, {
+      signal,
+      mechanism: 'unsupported',
+      status: 'unsupported',
+      message: spec?.description || `Unknown control signal: ${signal}`
+    });
+  }
 
-    // For slash commands, send as regular message
-    if (signal.startsWith('/')) {
-      session.process.stdin.write(JSON.stringify({
-        type: 'user',
-        message: { role: 'user', content: signal }
-      }) + '\n');
-      session.process.stdin.flush();
-      return true;
+  try {
+    switch (spec.mechanism) {
+      case 'control_request': {
+        const requestId = sendControlRequest(session, signal, signal);
+        return { signal, mechanism: spec.mechanism, status: 'pending', requestId };
+      }
+      case 'process_signal':
+        // Counts as a user stop, so the supervisor doesn't restart it
+        session.stopRequested = true;
+        session.process.kill('SIGTERM');
+        break;
+      case 'stdin':
+        session.process.stdin.end();
+        break;
+      case 'message':
+        await sendMessage(sessionId, `/${signal}`);
+        break;
     }
-
-    return false;
+    return emitControlResult(session, { signal, mechanism: spec.mechanism, status: 'applied', message: spec.description });
   } catch (err) {
-    console.error('Failed to send control signal:', err);
-    return false;
+    return emitControlResult(session, {
+      signal,
+      mechanism: spec.mechanism,
+      status: 'failed',
+      message: err instanceof Error ? err.message : String(err)
+    });
   }
 }
 
@@ -366,13 +1275,95 @@ export function stopWebSession(sessionId: string): boolean {
   const session = sessions.get(sessionId);
   if (!session) return false;
 
+  // Stopping a queued session cancels its launch
+  if (launchQueue.remove(sessionId)) {
+    session.status = 'completed';
+    session.onMessage({ type: 'status', status: 'completed', reason: 'cancelled', content: 'Launch cancelled' });
+  }
+
+  session.stopRequested = true;
+  if (session.restartTimer) {
+    clearTimeout(session.restartTimer);
+    session.restartTimer = undefined;
+  }
+  clearTimeout(session.evictTimer);
+  for (const pending of session.controlRequests.values()) {
+    clearTimeout(pending.timer);
+  }
+  session.controlRequests.clear();
   if (session.process) {
     session.process.kill();
   }
   sessions.delete(sessionId);
+  // Its slot is free as soon as it is unregistered
+  void startQueuedSessions();
   return true;
 }
 
+/**
+ * Stop every child for an orchestrator shutdown. Unlike stopWebSession, sessions
+ * stay registered so they can still be persisted for the next run.
+ * @param timeoutMs How long to wait for a child to exit before sending SIGKILL
+ */
+export async function shutdownWebSessions(timeoutMs: number = 5000): Promise<void> {
+  const exits: Promise<unknown>[] = [];
+
+  // Nothing new starts as the running sessions exit; queued ones are persisted as they are
+  for (const entry of launchQueue.list()) {
+    launchQueue.remove(entry.sessionId);
+  }
+  queuedTaskLaunches.clear();
+
+  for (const session of sessions.values()) {
+    session.stopRequested = true;
+    if (session.restartTimer) {
+      clearTimeout(session.restartTimer);
+      session.restartTimer = undefined;
+    }
+    const proc = session.process;
+    if (proc) {
+      proc.kill();
+      let forceKill: ReturnType<typeof setTimeout> | undefined;
+      exits.push(Promise.race([
+        proc.exited,
+        new Promise<void>(resolve => {
+          forceKill = setTimeout(() => {
+            proc.kill('SIGKILL');
+            resolve();
+          }, timeoutMs);
+        })
+      ]).finally(() => clearTimeout(forceKill)));
+    }
+  }
+
+  await Promise.all(exits);
+}
+
+/**
+ * Get logged events with a sequence number greater than sinceSeq, oldest first.
+ * Returns undefined if the session doesn't exist.
+ */
+export function getEventsSince(sessionId: string, sinceSeq: number): WebSessionMessage[] | undefined {
+  const session = sessions.get(sessionId);
+  if (!session) return undefined;
+  return session.eventLog.filter(msg => (msg.seq ?? 0) > sinceSeq);
+}
+
+/**
+ * Whether a session still has (or is about to get) a running claude child
+ */
+export function isWebSessionLive(session: WebSession): boolean {
+  return session.status !== 'completed' && session.status !== 'error';
+}
+
+/**
+ * Whether the next run should relaunch a session: it is still live, and was
+ * started by a user rather than for a job's one prompt
+ */
+export function isWebSessionRestorable(session: WebSession): boolean {
+  return isWebSessionLive(session) && !session.jobId;
+}
+
 export function getWebSession(sessionId: string): WebSession | undefined {
   return sessions.get(sessionId);
 }
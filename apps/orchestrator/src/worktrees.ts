@@ -0,0 +1,214 @@
+/**
+ * Git worktrees for isolated sessions
+ *
+ * An isolated web session runs in a fresh worktree on its own branch, created
+ * next to the repository (`<repo>-worktrees/<id>`), so sessions working on the
+ * same repository don't edit each other's files. When the session stops, its
+ * worktree is kept, merged back into the repository's checked-out branch, or
+ * deleted; merging and deleting refuse to throw away uncommitted changes unless
+ * forced.
+ */
+
+import { spawn } from 'bun';
+import * as path from 'node:path';
+import { ConflictError, GitError, ValidationError } from './error-handler';
+import { logger } from './logger';
+
+const log = logger.child('Worktrees');
+
+export interface SessionWorktree {
+  // Main checkout of the repository
+  repoPath: string;
+  path: string;
+  branch: string;
+  // Branch and commit the worktree was created from
+  baseBranch?: string;
+  baseCommit: string;
+  createdAt: string;
+}
+
+export interface WorktreeStatus {
+  dirty: boolean;
+  // `git status --porcelain` lines of uncommitted changes
+  changes: string[];
+  // Commits on the worktree's branch since it was created
+  commitsAhead: number;
+}
+
+export interface WorktreeEntry {
+  path: string;
+  head?: string;
+  // Short branch name; unset for a detached HEAD
+  branch?: string;
+  // The repository's main checkout
+  main: boolean;
+  locked: boolean;
+  prunable: boolean;
+}
+
+// What to do with a session's worktree when the session stops
+export const WORKTREE_ACTIONS = ['keep', 'merge', 'delete'] as const;
+export type WorktreeAction = typeof WORKTREE_ACTIONS[number];
+
+export const WORKTREE_BRANCH_PREFIX = 'orchestrator/';
+
+export async function git(cwd: string, args: string[]): Promise<string> {
+  const proc = spawn(['git', ...args], { cwd, stdout: 'pipe', stderr: 'pipe', stdin: 'ignore' });
+  const [stdout, stderr, exitCode] = await Promise.all([
+    new Response(proc.stdout).text(),
+    new Response(proc.stderr).text(),
+    proc.exited
+  ]);
+  if (exitCode !== 0) {
+    throw new GitError(`git ${args[0]} failed: ${stderr.trim() || `exit code ${exitCode}`}`, { cwd, args });
+  }
+  return stdout;
+}
+
+/**
+ * Validate the worktree action of a stop request (keep when unset)
+ */
+export function validateWorktreeAction(value: unknown): WorktreeAction {
+  if (value === undefined || value === null) return 'keep';
+  if (!WORKTREE_ACTIONS.includes(value as WorktreeAction)) {
+    throw new ValidationError(`worktree must be one of: ${WORKTREE_ACTIONS.join(', ')}`);
+  }
+  return value as WorktreeAction;
+}
+
+/**
+ * Worktrees of the repository containing `cwd`, main checkout first
+ * @throws ValidationError if `cwd` is not in a git repository
+ */
+export async function listWorktrees(cwd: string): Promise<WorktreeEntry[]> {
+  let output: string;
+  try {
+    output = await git(cwd, ['worktree', 'list', '--porcelain']);
+  } catch {
+    throw new ValidationError('Not a git repository', { cwd });
+  }
+
+  const entries: WorktreeEntry[] = [];
+  for (const block of output.trim().split(/\n\n+/)) {
+    const entry: WorktreeEntry = { path: '', main: entries.length === 0, locked: false, prunable: false };
+    for (const line of block.split('\n')) {
+      const [key, ...rest] = line.split(' ');
+      const value = rest.join(' ');
+      if (key === 'worktree') entry.path = value;
+      else if (key === 'HEAD') entry.head = value;
+      else if (key === 'branch') entry.branch = value.replace(/^refs\/heads\//, '');
+      else if (key === 'locked') entry.locked = true;
+      else if (key === 'prunable') entry.prunable = true;
+    }
+    if (entry.path) entries.push(entry);
+  }
+  return entries;
+}
+
+/**
+ * Create a worktree on a new branch from the current HEAD of `cwd`'s repository
+ * @returns The worktree, and the directory in it matching `cwd` (for a cwd below the repository root)
+ * @throws ValidationError if `cwd` is not in a git repository with at least one commit
+ */
+export async function createWorktree(cwd: string): Promise<{ worktree: SessionWorktree; cwd: string }> {
+  const [main] = await listWorktrees(cwd);
+  const prefix = (await git(cwd, ['rev-parse', '--show-prefix'])).trim();
+  let baseCommit: string;
+  try {
+    baseCommit = (await git(cwd, ['rev-parse', '--verify', 'HEAD'])).trim();
+  } catch {
+    throw new ValidationError('Repository has no commits to branch from', { cwd });
+  }
+  const baseBranch = (await git(cwd, ['branch', '--show-current'])).trim() || undefined;
+
+  const id = crypto.randomUUID().slice(0, 8);
+  const branch = `${WORKTREE_BRANCH_PREFIX}${id}`;
+  const worktreePath = path.join(path.dirname(main.path), `${path.basename(main.path)}-worktrees`, id);
+  await git(main.path, ['worktree', 'add', '-b', branch, worktreePath, baseCommit]);
+
+  log.info('Created worktree', { data: { repoPath: main.path, path: worktreePath, branch } });
+  return {
+    worktree: {
+      repoPath: main.path,
+      path: worktreePath,
+      branch,
+      baseBranch,
+      baseCommit,
+      createdAt: new Date().toISOString()
+    },
+    cwd: prefix ? path.join(worktreePath, prefix.replace(/\/$/, '')) : worktreePath
+  };
+}
+
+export async function getWorktreeStatus(worktree: SessionWorktree): Promise<WorktreeStatus> {
+  const changes = (await git(worktree.path, ['status', '--porcelain'])).split('\n').filter(Boolean);
+  const commitsAhead = parseInt(await git(worktree.path, ['rev-list', '--count', `${worktree.baseCommit}..HEAD`]), 10);
+  return { dirty: changes.length > 0, changes, commitsAhead };
+}
+
+/**
+ * Check that a worktree can be finished with `action` without losing work
+ * @throws ConflictError if it has uncommitted changes (and `force` is not set),
+ *   or, for a merge, if the repository's checkout can't take the merge
+ */
+export async function checkWorktreeAction(worktree: SessionWorktree, action: WorktreeAction, force: boolean = false): Promise<void> {
+  if (action === 'keep') return;
+
+  const status = await getWorktreeStatus(worktree);
+  if (status.dirty && !force) {
+    throw new ConflictError('Worktree has uncommitted changes', { changes: status.changes });
+  }
+
+  if (action === 'merge' && status.commitsAhead > 0) {
+    const target = (await git(worktree.repoPath, ['branch', '--show-current'])).trim();
+    if (!target) {
+      throw new ConflictError('Repository checkout is on a detached HEAD; nothing to merge into');
+    }
+    const repoChanges = (await git(worktree.repoPath, ['status', '--porcelain', '--untracked-files=no'])).trim();
+    if (repoChanges) {
+      throw new ConflictError('Repository checkout has uncommitted changes', { changes: repoChanges.split('\n') });
+    }
+  }
+}
+
+async function removeWorktree(worktree: SessionWorktree, force: boolean): Promise<void> {
+  await git(worktree.repoPath, ['worktree', 'remove', ...(force ? ['--force'] : []), worktree.path]);
+  await git(worktree.repoPath, ['branch', '-D', worktree.branch]);
+}
+
+/**
+ * Keep, merge back or delete a session's worktree
+ * Merging merges the worktree's branch into the branch checked out in the
+ * repository, then removes the worktree and branch; a merge that conflicts is
+ * aborted and the worktree kept.
+ * @param force Discard uncommitted changes in the worktree
+ * @returns The branch merged into, for a merge
+ */
+export async function finishWorktree(
+  worktree: SessionWorktree,
+  action: WorktreeAction,
+  force: boolean = false
+): Promise<{ mergedInto?: string }> {
+  await checkWorktreeAction(worktree, action, force);
+  if (action === 'keep') return {};
+
+  let mergedInto: string | undefined;
+  if (action === 'merge') {
+    const { commitsAhead } = await getWorktreeStatus(worktree);
+    if (commitsAhead > 0) {
+      mergedInto = (await git(worktree.repoPath, ['branch', '--show-current'])).trim();
+      try {
+        await git(worktree.repoPath, ['merge', '--no-edit', worktree.branch]);
+      } catch (err) {
+        await git(worktree.repoPath, ['merge', '--abort']).catch(() => {});
+        throw new ConflictError(`Merging ${worktree.branch} into ${mergedInto} failed; the worktree was kept`, {
+          error: err instanceof Error ? err.message : String(err)
+        });
+      }
+    }
+  }
+
+  await removeWorktree(worktree, force);
+  log.info('Finished worktree', { data: { path: worktree.path, branch: worktree.branch, action, mergedInto } });
+  return { mergedInto };
+}
@@ -4,35 +4,48 @@ import type {
   DisplayMessage,
   NotificationSettings,
   AppSettings,
-  DashboardStats
+  DashboardStats,
+  LaunchOptions,
+  BudgetRule,
+  JobTarget,
+  ScheduleRunStatus,
+  WorktreeAction,
+  SearchHit
 } from '@claude-orchestrator/shared';
 
 // Views
 import PluginsView from './views/PluginsView';
 import SettingsView from './views/SettingsView';
 import AnalyticsView from './views/AnalyticsView';
+import JobsView from './views/JobsView';
+import SchedulesView from './views/SchedulesView';
+import SearchView from './views/SearchView';
 
 // Components
 import { TopNavigation } from './components/layout';
-import { SessionList, SessionDetail } from './components/sessions';
+import { SessionList, SessionDetail, RestoreSessionsBanner } from './components/sessions';
 import { NotificationPanel } from './components/notifications';
-import { NewSessionModal, SettingsModal } from './components/modals';
+import { NewSessionModal, PermissionModal, SettingsModal, StopWorktreeModal } from './components/modals';
 
 // Hooks
-import { useWebSocket, useNotifications, useSession } from './hooks';
+import { useWebSocket, useNotifications, useSession, useJobs, useSchedules } from './hooks';
 
 // Context
 import { ThemeProvider } from './context';
 
-type TabType = 'sessions' | 'analytics' | 'plugins' | 'settings';
+type TabType = 'sessions' | 'search' | 'jobs' | 'schedules' | 'analytics' | 'plugins' | 'settings';
 
 export default function App() {
   const [activeTab, setActiveTab] = useState<TabType>('sessions');
   const [selectedSession, setSelectedSession] = useState<string | null>(null);
   const [sessionMessages, setSessionMessages] = useState<DisplayMessage[]>([]);
+  // Message to scroll to once a session opened from search has loaded
+  const [focusedMessage, setFocusedMessage] = useState<{ sessionId: string; messageId: string } | null>(null);
   const [showNotifications, setShowNotifications] = useState(false);
   const [showSettings, setShowSettings] = useState(false);
   const [showNewSessionModal, setShowNewSessionModal] = useState(false);
+  // Isolated session waiting on the keep/merge/delete choice for its worktree
+  const [stoppingSessionId, setStoppingSessionId] = useState<string | null>(null);
 
   // Settings
   const [appSettings, setAppSettings] = useState<AppSettings>(() => {
@@ -54,19 +67,35 @@ export default function App() {
     updateSettings,
     playNotificationSound,
     showBrowserNotification,
+    showBudgetNotification,
+    showResourceNotification,
     requestBrowserNotificationPermission,
     dismissNotification,
     clearAllNotifications,
   } = useNotifications();
 
   // WebSocket hook
-  const { connected, sessions, stats, subscribeToWebSession, unsubscribeFromWebSession } = useWebSocket({
+  const { connected, sessions, stats, launchQueue, subscribeToWebSession, unsubscribeFromWebSession } = useWebSocket({
     serverUrl: appSettings.serverUrl,
     enabledHooks: settings.enabledHooks,
     onHookAlert: (alert) => {
       playNotificationSound();
       showBrowserNotification(alert);
     },
+    onBudgetAlert: (alert) => {
+      playNotificationSound();
+      showBudgetNotification(alert);
+    },
+    onResourceAlert: (alert) => {
+      playNotificationSound();
+      showResourceNotification(alert);
+    },
+    onJobUpdate: (job) => {
+      handleJobUpdate(job);
+    },
+    onSchedulesUpdate: (next) => {
+      handleSchedulesUpdate(next);
+    },
     onWebSessionMessage: (sessionId, message) => {
       handleWebSessionMessage(sessionId, message);
     },
@@ -76,13 +105,53 @@ export default function App() {
   const {
     connectedSessions,
     connectSession: connectSessionBase,
+    forkSession,
     disconnectSession,
+    fetchWorktreeStatus,
     sendMessage,
+    updateQueuedMessage,
+    cancelQueuedMessage,
+    updateSessionBudget,
     sendControlSignal: sendControlSignalBase,
+    respondToPermission,
+    setLaunchPriority,
+    cancelLaunch,
     handleWebSessionMessage,
     fetchSessionMessages,
+    restorableSessions,
+    fetchRestorableSessions,
+    restoreSessions,
+    discardRestorableSession,
   } = useSession({ baseUrl });
 
+  // Fan-out jobs
+  const { jobs, fetchJobs, createJob, cancelJob, handleJobUpdate } = useJobs({ baseUrl });
+
+  // Scheduled prompts
+  const {
+    schedules,
+    fetchSchedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runSchedule,
+    handleSchedulesUpdate,
+  } = useSchedules({ baseUrl });
+
+  // Web sessions left over from the previous orchestrator run
+  useEffect(() => {
+    if (connected) {
+      fetchRestorableSessions();
+    }
+  }, [connected, fetchRestorableSessions]);
+
+  useEffect(() => {
+    if (connected) {
+      fetchJobs();
+      fetchSchedules();
+    }
+  }, [connected, fetchJobs, fetchSchedules]);
+
   // Fetch session messages when selected (only if not connected)
   useEffect(() => {
     if (!selectedSession) {
@@ -102,8 +171,8 @@ export default function App() {
   }, [appSettings]);
 
   // Handlers
-  const handleConnectSession = useCallback(async (cwd: string, resumeSessionId?: string) => {
-    const sessionId = await connectSessionBase(cwd, resumeSessionId);
+  const handleConnectSession = useCallback(async (cwd: string, resumeSessionId?: string, launchOptions?: LaunchOptions, budget?: BudgetRule, priority?: number, isolated?: boolean, envProfile?: string) => {
+    const sessionId = await connectSessionBase(cwd, resumeSessionId, launchOptions, budget, priority, isolated, envProfile);
     if (sessionId) {
       setSelectedSession(sessionId);
       setShowNewSessionModal(false);
@@ -111,11 +180,47 @@ export default function App() {
     }
   }, [connectSessionBase, subscribeToWebSession]);
 
-  const handleDisconnectSession = useCallback(async (sessionId: string) => {
-    await disconnectSession(sessionId);
-    unsubscribeFromWebSession(sessionId);
+  const handleForkSession = useCallback(async (sessionId: string, messageId: string) => {
+    const forkId = await forkSession(sessionId, messageId);
+    if (forkId) {
+      setSelectedSession(forkId);
+      subscribeToWebSession(forkId);
+    }
+  }, [forkSession, subscribeToWebSession]);
+
+  const handleRestoreSessions = useCallback(async (ids?: string[]) => {
+    const lastSeqs = new Map(restorableSessions.map(s => [s.id, s.lastSeq ?? 0]));
+    const restoredIds = await restoreSessions(ids);
+    for (const sessionId of restoredIds) {
+      subscribeToWebSession(sessionId, lastSeqs.get(sessionId) ?? 0);
+    }
+    if (restoredIds.length === 1) {
+      setSelectedSession(restoredIds[0]);
+    }
+  }, [restorableSessions, restoreSessions, subscribeToWebSession]);
+
+  const stopSession = useCallback(async (sessionId: string, worktree?: WorktreeAction, force?: boolean) => {
+    const error = await disconnectSession(sessionId, worktree, force);
+    if (!error) {
+      unsubscribeFromWebSession(sessionId);
+    }
+    return error;
   }, [disconnectSession, unsubscribeFromWebSession]);
 
+  // An isolated session asks what to do with its worktree first
+  const handleDisconnectSession = useCallback(async (sessionId: string) => {
+    if (connectedSessions.get(sessionId)?.worktree) {
+      setStoppingSessionId(sessionId);
+      return;
+    }
+    await stopSession(sessionId);
+  }, [connectedSessions, stopSession]);
+
+  const loadStoppingWorktreeStatus = useCallback(
+    () => (stoppingSessionId ? fetchWorktreeStatus(stoppingSessionId) : Promise.resolve(null)),
+    [stoppingSessionId, fetchWorktreeStatus]
+  );
+
   const handleDeleteSession = useCallback(async (sessionId: string) => {
     if (!confirm('Delete this session? This cannot be undone.')) return;
     try {
@@ -124,12 +229,12 @@ export default function App() {
         if (selectedSession === sessionId) {
           setSelectedSession(null);
         }
-        await handleDisconnectSession(sessionId);
+        await stopSession(sessionId);
       }
     } catch (err) {
       console.error('Failed to delete session:', err);
     }
-  }, [baseUrl, selectedSession, handleDisconnectSession]);
+  }, [baseUrl, selectedSession, stopSession]);
 
   const handleSendMessage = useCallback(async (sessionId: string, message: string) => {
     return await sendMessage(sessionId, message);
@@ -143,6 +248,11 @@ export default function App() {
     await sendControlSignalBase(sessionId, command);
   }, [sendControlSignalBase]);
 
+  const handlePermissionResponse = useCallback(async (toolUseId: string, approved: boolean, feedback?: string) => {
+    if (!selectedSession) return;
+    await respondToPermission(selectedSession, toolUseId, approved, feedback);
+  }, [selectedSession, respondToPermission]);
+
   const handleOpenEditor = useCallback(async (editor: string, path: string) => {
     try {
       await fetch(`${baseUrl}/api/open-editor`, {
@@ -155,6 +265,24 @@ export default function App() {
     }
   }, [baseUrl]);
 
+  // A running job target or schedule run is attached to; a finished one is shown from its transcript
+  const openJobSession = useCallback(async (
+    target: Pick<JobTarget, 'cwd' | 'sessionId' | 'claudeSessionId'> & { status: ScheduleRunStatus }
+  ) => {
+    if (target.sessionId && (target.status === 'queued' || target.status === 'running')) {
+      await handleConnectSession(target.cwd, target.sessionId);
+    } else {
+      setSelectedSession(target.claudeSessionId || target.sessionId || null);
+    }
+    setActiveTab('sessions');
+  }, [handleConnectSession]);
+
+  const openSearchHit = useCallback((hit: SearchHit) => {
+    setSelectedSession(hit.sessionId);
+    setFocusedMessage({ sessionId: hit.sessionId, messageId: hit.messageId });
+    setActiveTab('sessions');
+  }, []);
+
   const viewSessionFromNotification = useCallback((sessionId: string, index: number) => {
     setSelectedSession(sessionId);
     setActiveTab('sessions');
@@ -189,9 +317,33 @@ export default function App() {
           onSettingsClick={() => setShowSettings(!showSettings)}
         />
 
+        <RestoreSessionsBanner
+          sessions={restorableSessions}
+          onRestore={handleRestoreSessions}
+          onDiscard={discardRestorableSession}
+        />
+
         {/* Main Content */}
         <div className="flex-1 flex min-h-0">
-          {activeTab === 'analytics' ? (
+          {activeTab === 'search' ? (
+            <SearchView sessions={sessions} onOpenHit={openSearchHit} />
+          ) : activeTab === 'jobs' ? (
+            <JobsView
+              jobs={jobs}
+              onCreateJob={createJob}
+              onCancelJob={cancelJob}
+              onOpenSession={openJobSession}
+            />
+          ) : activeTab === 'schedules' ? (
+            <SchedulesView
+              schedules={schedules}
+              onCreateSchedule={createSchedule}
+              onUpdateSchedule={updateSchedule}
+              onDeleteSchedule={deleteSchedule}
+              onRunSchedule={runSchedule}
+              onOpenSession={(schedule, run) => openJobSession({ ...run, cwd: schedule.cwd })}
+            />
+          ) : activeTab === 'analytics' ? (
             <AnalyticsView sessions={sessions} stats={stats} />
           ) : activeTab === 'plugins' ? (
             <PluginsView />
@@ -205,8 +357,11 @@ export default function App() {
                 stats={stats}
                 selectedSession={selectedSession}
                 connectedSessions={connectedSessions}
+                launchQueue={launchQueue}
                 onSelectSession={setSelectedSession}
                 onNewSession={() => setShowNewSessionModal(true)}
+                onChangeLaunchPriority={setLaunchPriority}
+                onCancelLaunch={cancelLaunch}
               />
 
               {/* Session Detail */}
@@ -222,6 +377,11 @@ export default function App() {
                   onSendMessage={(msg) => handleSendMessage(currentSession.id, msg)}
                   onControlSignal={(signal) => handleControlSignal(currentSession.id, signal)}
                   onSlashCommand={(cmd) => handleSlashCommand(currentSession.id, cmd)}
+                  onUpdateQueuedMessage={(messageId, content) => updateQueuedMessage(currentSession.id, messageId, content)}
+                  onCancelQueuedMessage={(messageId) => cancelQueuedMessage(currentSession.id, messageId)}
+                  onUpdateBudget={(budget) => updateSessionBudget(currentSession.id, budget)}
+                  onForkMessage={(messageId) => handleForkSession(currentSession.id, messageId)}
+                  focusMessageId={focusedMessage?.sessionId === currentSession.id ? focusedMessage.messageId : undefined}
                 />
               ) : (
                 <div className="flex-1 flex items-center justify-center">
@@ -265,11 +425,29 @@ export default function App() {
           onRequestBrowserPermission={requestBrowserNotificationPermission}
         />
 
+        {/* Permission Modal - claude stays blocked until the request is answered, so it can't be dismissed */}
+        <PermissionModal
+          isOpen={!!currentConnected?.pendingPermission}
+          onClose={() => {}}
+          permission={currentConnected?.pendingPermission ?? null}
+          onApprove={(toolUseId, feedback) => handlePermissionResponse(toolUseId, true, feedback)}
+          onDeny={(toolUseId, feedback) => handlePermissionResponse(toolUseId, false, feedback)}
+        />
+
         {/* New Session Modal */}
         <NewSessionModal
           isOpen={showNewSessionModal}
           onClose={() => setShowNewSessionModal(false)}
-          onCreateSession={(path) => handleConnectSession(path)}
+          onCreateSession={(path, launchOptions, budget, priority, isolated, envProfile) => handleConnectSession(path, undefined, launchOptions, budget, priority, isolated, envProfile)}
+        />
+
+        {/* Stop Isolated Session Modal */}
+        <StopWorktreeModal
+          isOpen={!!stoppingSessionId}
+          worktree={stoppingSessionId ? connectedSessions.get(stoppingSessionId)?.worktree : undefined}
+          onClose={() => setStoppingSessionId(null)}
+          loadStatus={loadStoppingWorktreeStatus}
+          onStop={(action, force) => stopSession(stoppingSessionId!, action, force)}
         />
       </div>
     </ThemeProvider>
@@ -0,0 +1,47 @@
+import { describe, test, expect } from 'bun:test';
+import { projectLabels, groupSessionsByProject } from '../../utils/projects';
+import type { SessionSummary } from '@claude-orchestrator/shared';
+
+const session = (id: string, projectPath: string): SessionSummary => ({
+  id,
+  projectPath,
+  projectName: projectPath.split('/').pop() || projectPath,
+  cwd: projectPath,
+  lastActivity: new Date().toISOString(),
+  messageCount: 1,
+  status: 'idle',
+});
+
+describe('Project Utilities', () => {
+  describe('projectLabels', () => {
+    test('uses the directory name when it is unique', () => {
+      const labels = projectLabels(['/work/api', '/work/web']);
+      expect(labels.get('/work/api')).toBe('api');
+      expect(labels.get('/work/web')).toBe('web');
+    });
+
+    test('adds parent directories until same-named projects differ', () => {
+      const labels = projectLabels(['/home/me/work/my-app', '/home/me/personal/my-app', '/srv/other']);
+      expect(labels.get('/home/me/work/my-app')).toBe('work/my-app');
+      expect(labels.get('/home/me/personal/my-app')).toBe('personal/my-app');
+      expect(labels.get('/srv/other')).toBe('other');
+    });
+
+    test('handles Windows paths', () => {
+      expect(projectLabels(['C:\\Users\\me\\app']).get('C:\\Users\\me\\app')).toBe('app');
+    });
+  });
+
+  describe('groupSessionsByProject', () => {
+    test('groups by path in the order sessions come in', () => {
+      const groups = groupSessionsByProject([
+        session('a', '/work/my-app'),
+        session('b', '/personal/my-app'),
+        session('c', '/work/my-app'),
+      ]);
+      expect(groups.map(g => g.label)).toEqual(['work/my-app', 'personal/my-app']);
+      expect(groups[0].sessions.map(s => s.id)).toEqual(['a', 'c']);
+      expect(groups[1].sessions.map(s => s.id)).toEqual(['b']);
+    });
+  });
+});
@@ -0,0 +1,58 @@
+import { describe, test, expect } from 'bun:test';
+import { formatTokens, formatCost, getTotalTokens, getContextPercent, getContextColor } from '../../utils/usage';
+import type { SessionUsage } from '@claude-orchestrator/shared';
+
+const usage = (overrides: Partial<SessionUsage> = {}): SessionUsage => ({
+  inputTokens: 100,
+  outputTokens: 200,
+  cacheCreationTokens: 300,
+  cacheReadTokens: 400,
+  costUsd: 0,
+  contextTokens: 50_000,
+  contextWindow: 200_000,
+  ...overrides,
+});
+
+describe('Usage Utilities', () => {
+  describe('formatTokens', () => {
+    test('formats small counts as-is', () => {
+      expect(formatTokens(950)).toBe('950');
+    });
+
+    test('formats thousands and millions', () => {
+      expect(formatTokens(12_345)).toBe('12.3k');
+      expect(formatTokens(2_500_000)).toBe('2.5M');
+    });
+  });
+
+  describe('formatCost', () => {
+    test('formats dollars with two decimals', () => {
+      expect(formatCost(1.234)).toBe('$1.23');
+      expect(formatCost(0)).toBe('$0.00');
+    });
+
+    test('shows tiny non-zero costs as under a cent', () => {
+      expect(formatCost(0.004)).toBe('<$0.01');
+    });
+  });
+
+  test('getTotalTokens sums all token kinds', () => {
+    expect(getTotalTokens(usage())).toBe(1000);
+  });
+
+  describe('getContextPercent', () => {
+    test('computes the share of the context window in use', () => {
+      expect(getContextPercent(usage())).toBe(25);
+    });
+
+    test('caps at 100', () => {
+      expect(getContextPercent(usage({ contextTokens: 300_000 }))).toBe(100);
+    });
+  });
+
+  test('getContextColor warns as the context fills up', () => {
+    expect(getContextColor(50)).toBe('text-gray-400');
+    expect(getContextColor(75)).toBe('text-yellow-400');
+    expect(getContextColor(95)).toBe('text-red-400');
+  });
+});
@@ -0,0 +1,64 @@
+import type { LaunchOptions } from '@claude-orchestrator/shared';
+
+// What a run nobody is watching may do without a permission prompt
+export interface ToolAccess {
+  bypassPermissions: boolean;
+  // Comma separated tool names
+  allowedTools: string;
+}
+
+export const EMPTY_TOOL_ACCESS: ToolAccess = { bypassPermissions: false, allowedTools: '' };
+
+function parseTools(value: string): string[] {
+  return value.split(',').map(v => v.trim()).filter(Boolean);
+}
+
+export function toolAccessFrom(launchOptions?: LaunchOptions): ToolAccess {
+  return {
+    bypassPermissions: launchOptions?.permissionMode === 'bypassPermissions',
+    allowedTools: launchOptions?.allowedTools?.join(', ') ?? '',
+  };
+}
+
+/**
+ * Launch options for the chosen access, or undefined if claude would still stop
+ * for permission prompts (the server rejects those)
+ */
+export function toolAccessLaunchOptions(access: ToolAccess): LaunchOptions | undefined {
+  if (access.bypassPermissions) return { permissionMode: 'bypassPermissions' };
+  const allowedTools = parseTools(access.allowedTools);
+  return allowedTools.length ? { allowedTools } : undefined;
+}
+
+interface UnattendedToolAccessProps {
+  value: ToolAccess;
+  onChange: (value: ToolAccess) => void;
+}
+
+export function UnattendedToolAccess({ value, onChange }: UnattendedToolAccessProps) {
+  return (
+    <div className="space-y-1">
+      <div className="flex items-center gap-2">
+        <input
+          type="text"
+          value={value.allowedTools}
+          onChange={(e) => onChange({ ...value, allowedTools: e.target.value })}
+          disabled={value.bypassPermissions}
+          placeholder="Allowed tools, e.g. Read, Edit, Bash(npm test:*)"
+          className="flex-1 px-3 py-2 bg-white/5 border border-white/10 rounded text-sm font-mono focus:outline-none focus:border-blue-500 disabled:opacity-50"
+        />
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={value.bypassPermissions}
+            onChange={(e) => onChange({ ...value, bypassPermissions: e.target.checked })}
+          />
+          Skip all permission prompts
+        </label>
+      </div>
+      <p className="text-xs text-gray-500">
+        Nobody is there to approve tool use, so list the tools claude may use or skip prompts entirely.
+      </p>
+    </div>
+  );
+}
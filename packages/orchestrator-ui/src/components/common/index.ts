@@ -7,3 +7,4 @@ export * from './ErrorMessage';
 export * from './FilePreview';
 export * from './StatusDot';
 export * from './ToolResultDisplay';
+export * from './UnattendedToolAccess';
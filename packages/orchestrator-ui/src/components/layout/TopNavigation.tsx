@@ -1,6 +1,6 @@
 interface TopNavigationProps {
-  activeTab: 'sessions' | 'analytics' | 'plugins' | 'settings';
-  onTabChange: (tab: 'sessions' | 'analytics' | 'plugins' | 'settings') => void;
+  activeTab: 'sessions' | 'search' | 'jobs' | 'schedules' | 'analytics' | 'plugins' | 'settings';
+  onTabChange: (tab: 'sessions' | 'search' | 'jobs' | 'schedules' | 'analytics' | 'plugins' | 'settings') => void;
   notificationCount: number;
   onNotificationsClick: () => void;
   onSettingsClick: () => void;
@@ -13,7 +13,7 @@ export function TopNavigation({
   onNotificationsClick,
   onSettingsClick,
 }: TopNavigationProps) {
-  const tabs = ['sessions', 'analytics', 'plugins', 'settings'] as const;
+  const tabs = ['sessions', 'search', 'jobs', 'schedules', 'analytics', 'plugins', 'settings'] as const;
 
   return (
     <div className="border-b border-white/10 bg-[#0a0a0a]">
@@ -1,13 +1,48 @@
 import { useState, useEffect, useRef } from 'react';
+import type { LaunchOptions, PermissionMode, BudgetRule, EnvProfile } from '@claude-orchestrator/shared';
+import { PERMISSION_MODES, API_ENDPOINTS } from '@claude-orchestrator/shared';
 
 interface NewSessionModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onCreateSession: (path: string) => void;
+  onCreateSession: (path: string, launchOptions?: LaunchOptions, budget?: BudgetRule, priority?: number, isolated?: boolean, envProfile?: string) => void;
+}
+
+// Split a comma or newline separated list, dropping blanks
+function parseList(value: string): string[] {
+  return value.split(/[,\n]/).map(v => v.trim()).filter(Boolean);
+}
+
+// Parse KEY=value lines into an env object
+function parseEnv(value: string): Record<string, string> {
+  const env: Record<string, string> = {};
+  for (const line of value.split('\n')) {
+    const idx = line.indexOf('=');
+    if (idx > 0) {
+      env[line.slice(0, idx).trim()] = line.slice(idx + 1);
+    }
+  }
+  return env;
 }
 
 export default function NewSessionModal({ isOpen, onClose, onCreateSession }: NewSessionModalProps) {
   const [path, setPath] = useState('');
+  const [showAdvanced, setShowAdvanced] = useState(false);
+  const [model, setModel] = useState('');
+  const [permissionMode, setPermissionMode] = useState<PermissionMode | ''>('');
+  const [allowedTools, setAllowedTools] = useState('');
+  const [disallowedTools, setDisallowedTools] = useState('');
+  const [appendSystemPrompt, setAppendSystemPrompt] = useState('');
+  const [maxTurns, setMaxTurns] = useState('');
+  const [addDirs, setAddDirs] = useState('');
+  const [env, setEnv] = useState('');
+  const [budgetUsd, setBudgetUsd] = useState('');
+  const [budgetTokens, setBudgetTokens] = useState('');
+  const [budgetTurns, setBudgetTurns] = useState('');
+  const [priority, setPriority] = useState('');
+  const [isolated, setIsolated] = useState(false);
+  const [envProfile, setEnvProfile] = useState('');
+  const [envProfiles, setEnvProfiles] = useState<EnvProfile[]>([]);
   const inputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -16,9 +51,38 @@ export default function NewSessionModal({ isOpen, onClose, onCreateSession }: Ne
     }
   }, [isOpen]);
 
+  useEffect(() => {
+    if (!isOpen) return;
+    fetch(API_ENDPOINTS.envProfiles)
+      .then(res => res.json())
+      .then(data => setEnvProfiles(data.profiles || []))
+      .catch(() => setEnvProfiles([]));
+  }, [isOpen]);
+
+  const buildLaunchOptions = (): LaunchOptions | undefined => {
+    const options: LaunchOptions = {};
+    if (model.trim()) options.model = model.trim();
+    if (permissionMode) options.permissionMode = permissionMode;
+    if (parseList(allowedTools).length) options.allowedTools = parseList(allowedTools);
+    if (parseList(disallowedTools).length) options.disallowedTools = parseList(disallowedTools);
+    if (appendSystemPrompt.trim()) options.appendSystemPrompt = appendSystemPrompt;
+    if (parseInt(maxTurns) > 0) options.maxTurns = parseInt(maxTurns);
+    if (parseList(addDirs).length) options.addDirs = parseList(addDirs);
+    if (Object.keys(parseEnv(env)).length) options.env = parseEnv(env);
+    return Object.keys(options).length > 0 ? options : undefined;
+  };
+
+  const buildBudget = (): BudgetRule | undefined => {
+    const budget: BudgetRule = {};
+    if (parseFloat(budgetUsd) > 0) budget.maxUsd = parseFloat(budgetUsd);
+    if (parseInt(budgetTokens) > 0) budget.maxTokens = parseInt(budgetTokens);
+    if (parseInt(budgetTurns) > 0) budget.maxTurns = parseInt(budgetTurns);
+    return Object.keys(budget).length > 0 ? budget : undefined;
+  };
+
   const handleSubmit = () => {
     if (path.trim()) {
-      onCreateSession(path.trim());
+      onCreateSession(path.trim(), buildLaunchOptions(), buildBudget(), priority.trim() ? parseInt(priority) : undefined, isolated, envProfile || undefined);
       setPath('');
     }
   };
@@ -35,16 +99,18 @@ export default function NewSessionModal({ isOpen, onClose, onCreateSession }: Ne
 
   if (!isOpen) return null;
 
+  const inputClass = 'w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500 placeholder-gray-500';
+
   return (
     <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
-      <div className="bg-[#0a0a0a] border border-white/10 rounded-lg w-full max-w-lg shadow-2xl" onClick={e => e.stopPropagation()}>
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-lg w-full max-w-lg shadow-2xl max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
         <div className="p-3 border-b border-white/10 flex items-center justify-between">
           <span className="font-semibold text-white">New Claude Code Session</span>
           <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
             ✕
           </button>
         </div>
-        <div className="p-4">
+        <div className="p-4 overflow-y-auto">
           <label className="block text-sm text-gray-400 mb-2">Working Directory</label>
           <input
             ref={inputRef}
@@ -53,11 +119,172 @@ export default function NewSessionModal({ isOpen, onClose, onCreateSession }: Ne
             onChange={(e) => setPath(e.target.value)}
             onKeyDown={handleKeyDown}
             placeholder="/path/to/your/project"
-            className="w-full bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm focus:outline-none focus:border-blue-500 placeholder-gray-500"
+            className={inputClass}
           />
           <p className="text-xs text-gray-500 mt-2">
             Enter the full path to the directory where you want Claude Code to work.
           </p>
+          <label className="flex items-center gap-2 mt-3 text-sm text-gray-400">
+            <input type="checkbox" checked={isolated} onChange={(e) => setIsolated(e.target.checked)} />
+            Isolated: work in a new git worktree on its own branch
+          </label>
+
+          {/* Launch Options */}
+          <button
+            onClick={() => setShowAdvanced(!showAdvanced)}
+            className="mt-4 text-xs text-gray-400 hover:text-white transition-colors flex items-center gap-1"
+          >
+            <span className="material-icons text-sm">{showAdvanced ? 'expand_less' : 'expand_more'}</span>
+            Launch options
+          </button>
+          {showAdvanced && (
+            <div className="mt-3 space-y-3">
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Model</label>
+                  <input
+                    type="text"
+                    value={model}
+                    onChange={(e) => setModel(e.target.value)}
+                    placeholder="default"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Max turns</label>
+                  <input
+                    type="number"
+                    min={1}
+                    value={maxTurns}
+                    onChange={(e) => setMaxTurns(e.target.value)}
+                    placeholder="unlimited"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Permission mode</label>
+                <select
+                  value={permissionMode}
+                  onChange={(e) => setPermissionMode(e.target.value as PermissionMode | '')}
+                  className={inputClass}
+                >
+                  <option value="">Default</option>
+                  {PERMISSION_MODES.map(({ id, name }) => (
+                    <option key={id} value={id}>{name}</option>
+                  ))}
+                </select>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Allowed tools</label>
+                  <input
+                    type="text"
+                    value={allowedTools}
+                    onChange={(e) => setAllowedTools(e.target.value)}
+                    placeholder="Read, Bash(git:*)"
+                    className={inputClass}
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs text-gray-400 mb-1">Disallowed tools</label>
+                  <input
+                    type="text"
+                    value={disallowedTools}
+                    onChange={(e) => setDisallowedTools(e.target.value)}
+                    placeholder="WebFetch"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Append to system prompt</label>
+                <textarea
+                  value={appendSystemPrompt}
+                  onChange={(e) => setAppendSystemPrompt(e.target.value)}
+                  rows={2}
+                  className={`${inputClass} resize-y`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Extra directories (one per line)</label>
+                <textarea
+                  value={addDirs}
+                  onChange={(e) => setAddDirs(e.target.value)}
+                  rows={2}
+                  placeholder="/path/to/shared/lib"
+                  className={`${inputClass} resize-y font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Environment profile</label>
+                <select
+                  value={envProfile}
+                  onChange={(e) => setEnvProfile(e.target.value)}
+                  className={inputClass}
+                >
+                  <option value="">None (orchestrator environment)</option>
+                  {envProfiles.map(profile => (
+                    <option key={profile.name} value={profile.name}>
+                      {profile.name}{profile.description ? ` - ${profile.description}` : ''}
+                    </option>
+                  ))}
+                </select>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Environment overrides (KEY=value per line; use a profile for credentials)</label>
+                <textarea
+                  value={env}
+                  onChange={(e) => setEnv(e.target.value)}
+                  rows={2}
+                  placeholder="NODE_ENV=development"
+                  className={`${inputClass} resize-y font-mono`}
+                />
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Budget (on top of project and global limits)</label>
+                <div className="grid grid-cols-3 gap-3">
+                  <input
+                    type="number"
+                    min={0}
+                    step="0.01"
+                    value={budgetUsd}
+                    onChange={(e) => setBudgetUsd(e.target.value)}
+                    placeholder="Max USD"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={budgetTokens}
+                    onChange={(e) => setBudgetTokens(e.target.value)}
+                    placeholder="Max tokens"
+                    className={inputClass}
+                  />
+                  <input
+                    type="number"
+                    min={1}
+                    value={budgetTurns}
+                    onChange={(e) => setBudgetTurns(e.target.value)}
+                    placeholder="Max turns"
+                    className={inputClass}
+                  />
+                </div>
+              </div>
+              <div>
+                <label className="block text-xs text-gray-400 mb-1">Launch priority (when waiting for a free slot; higher starts first)</label>
+                <input
+                  type="number"
+                  step={1}
+                  value={priority}
+                  onChange={(e) => setPriority(e.target.value)}
+                  placeholder="0"
+                  className={inputClass}
+                />
+              </div>
+            </div>
+          )}
+
           <div className="flex gap-2 mt-4">
             <button
               onClick={onClose}
@@ -101,7 +101,7 @@ export default function PermissionModal({
           {/* Optional feedback */}
           <div className="mb-3">
             <label className="block text-xs text-gray-400 mb-1">
-              Optional feedback (modifications, suggestions)
+              Optional feedback (a reason if denied, your next message if approved)
             </label>
             <textarea
               ref={feedbackRef}
@@ -0,0 +1,110 @@
+import { useState, useEffect } from 'react';
+import type { SessionWorktree, WorktreeAction, WorktreeStatus } from '@claude-orchestrator/shared';
+
+interface StopWorktreeModalProps {
+  isOpen: boolean;
+  worktree: SessionWorktree | undefined;
+  onClose: () => void;
+  loadStatus: () => Promise<WorktreeStatus | null>;
+  // Resolves to an error message, or null once the session is stopped
+  onStop: (action: WorktreeAction, force: boolean) => Promise<string | null>;
+}
+
+export default function StopWorktreeModal({ isOpen, worktree, onClose, loadStatus, onStop }: StopWorktreeModalProps) {
+  const [status, setStatus] = useState<WorktreeStatus | null>(null);
+  const [discardChanges, setDiscardChanges] = useState(false);
+  const [busy, setBusy] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!isOpen) return;
+    setStatus(null);
+    setDiscardChanges(false);
+    setError(null);
+    loadStatus().then(setStatus);
+  }, [isOpen, loadStatus]);
+
+  if (!isOpen || !worktree) return null;
+
+  const handleStop = async (action: WorktreeAction) => {
+    setBusy(true);
+    setError(null);
+    const failure = await onStop(action, discardChanges);
+    setBusy(false);
+    if (failure) {
+      setError(failure);
+    } else {
+      onClose();
+    }
+  };
+
+  // Merging or deleting a dirty worktree throws its uncommitted changes away
+  const blocked = busy || !status || (status.dirty && !discardChanges);
+
+  return (
+    <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50" onClick={onClose}>
+      <div className="bg-[#0a0a0a] border border-white/10 rounded-lg w-full max-w-lg shadow-2xl" onClick={e => e.stopPropagation()}>
+        <div className="p-3 border-b border-white/10 flex items-center justify-between">
+          <span className="font-semibold text-white">Stop Isolated Session</span>
+          <button onClick={onClose} className="text-gray-400 hover:text-white transition-colors">
+            ✕
+          </button>
+        </div>
+        <div className="p-4 space-y-3">
+          <div className="text-sm">
+            <div className="text-purple-400">⎇ {worktree.branch}</div>
+            <div className="text-xs text-gray-500 font-mono truncate">{worktree.path}</div>
+          </div>
+
+          {status ? (
+            <div className="text-xs text-gray-400">
+              {status.commitsAhead} {status.commitsAhead === 1 ? 'commit' : 'commits'} to merge into{' '}
+              {worktree.baseBranch || 'the checked-out branch'}
+              {status.dirty && (
+                <div className="mt-2 p-2 bg-yellow-500/10 border border-yellow-500/20 rounded text-yellow-300">
+                  <div>{status.changes.length} uncommitted {status.changes.length === 1 ? 'change' : 'changes'}:</div>
+                  <pre className="mt-1 max-h-32 overflow-y-auto font-mono">{status.changes.join('\n')}</pre>
+                  <label className="flex items-center gap-1 mt-2">
+                    <input type="checkbox" checked={discardChanges} onChange={(e) => setDiscardChanges(e.target.checked)} />
+                    Discard them when merging or deleting
+                  </label>
+                </div>
+              )}
+            </div>
+          ) : (
+            <div className="text-xs text-gray-500">Checking worktree...</div>
+          )}
+
+          {error && <div className="text-xs text-red-400">{error}</div>}
+
+          <div className="flex gap-2">
+            <button
+              onClick={() => handleStop('keep')}
+              disabled={busy}
+              className="flex-1 px-4 py-2 border border-white/10 text-gray-300 rounded-lg hover:bg-white/5 disabled:opacity-50 transition-colors"
+              title="Stop the session and leave the worktree and branch in place"
+            >
+              Keep
+            </button>
+            <button
+              onClick={() => handleStop('merge')}
+              disabled={blocked}
+              className="flex-1 px-4 py-2 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded-lg transition-colors"
+              title="Merge the branch into the repository, then remove the worktree"
+            >
+              Merge back
+            </button>
+            <button
+              onClick={() => handleStop('delete')}
+              disabled={blocked}
+              className="flex-1 px-4 py-2 bg-red-500/20 hover:bg-red-500/30 disabled:opacity-50 text-red-400 rounded-lg transition-colors"
+              title="Remove the worktree and its branch"
+            >
+              Delete
+            </button>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+}
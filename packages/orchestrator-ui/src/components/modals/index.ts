@@ -2,3 +2,4 @@ export { default as NewSessionModal } from './NewSessionModal';
 export { default as PermissionModal } from './PermissionModal';
 export { default as SettingsModal } from './SettingsModal';
 export { default as TemplateModal } from './TemplateModal';
+export { default as StopWorktreeModal } from './StopWorktreeModal';
@@ -0,0 +1,60 @@
+import { useState } from 'react';
+import type { ConnectedSession, BudgetRule } from '@claude-orchestrator/shared';
+import { formatCost, formatTokens } from '../../utils/usage';
+
+interface BudgetExceededBannerProps {
+  connectedSession: ConnectedSession;
+  onUpdateBudget: (budget: BudgetRule) => void;
+}
+
+const METRIC_FIELDS = {
+  usd: { key: 'maxUsd', label: 'USD', format: formatCost },
+  tokens: { key: 'maxTokens', label: 'tokens', format: formatTokens },
+  turns: { key: 'maxTurns', label: 'turns', format: String },
+} as const;
+
+/**
+ * Shown while a session is paused over its budget; raising the limit resumes it
+ */
+export function BudgetExceededBanner({ connectedSession, onUpdateBudget }: BudgetExceededBannerProps) {
+  const status = connectedSession.budgetStatus;
+  const field = status?.metric ? METRIC_FIELDS[status.metric] : undefined;
+  const [newLimit, setNewLimit] = useState(() => (status?.limit ? String(status.limit * 2) : ''));
+
+  const handleRaise = () => {
+    const value = parseFloat(newLimit);
+    if (!field || !(value > 0)) return;
+    // Becomes the session's own rule, replacing any project or global rule for it
+    onUpdateBudget({ ...connectedSession.budget, [field.key]: field.key === 'maxUsd' ? value : Math.round(value) });
+  };
+
+  return (
+    <div className="border-t border-red-500/30 bg-red-500/10 px-4 py-2 text-sm flex items-center gap-3 flex-shrink-0">
+      <span className="material-icons text-red-400 text-base">money_off</span>
+      <span className="text-gray-300 flex-1">
+        Paused over budget
+        {field && status?.used !== undefined && status.limit !== undefined && (
+          <> ({field.format(status.used)} of {field.format(status.limit)} {field.label})</>
+        )}
+        . Queued prompts are held until the budget is raised.
+      </span>
+      {field && (
+        <>
+          <input
+            type="number"
+            min={0}
+            value={newLimit}
+            onChange={(e) => setNewLimit(e.target.value)}
+            className="w-24 bg-white/5 border border-white/10 rounded px-2 py-1 text-white text-xs focus:outline-none focus:border-blue-500"
+          />
+          <button
+            onClick={handleRaise}
+            className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-xs font-medium transition-colors"
+          >
+            Raise limit
+          </button>
+        </>
+      )}
+    </div>
+  );
+}
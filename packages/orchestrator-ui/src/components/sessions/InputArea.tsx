@@ -1,5 +1,5 @@
 import { useState } from 'react';
-import type { ConnectedSession } from '@claude-orchestrator/shared';
+import type { ConnectedSession, QueuedMessage } from '@claude-orchestrator/shared';
 import { SLASH_COMMANDS } from '@claude-orchestrator/shared';
 
 interface InputAreaProps {
@@ -8,6 +8,79 @@ interface InputAreaProps {
   onControlSignal: (signal: string) => void;
   onSlashCommand: (command: string) => void;
   onConnect: () => void;
+  onUpdateQueuedMessage: (messageId: string, content: string) => void;
+  onCancelQueuedMessage: (messageId: string) => void;
+}
+
+interface QueuedMessagesProps {
+  queue: QueuedMessage[];
+  onUpdate: (messageId: string, content: string) => void;
+  onCancel: (messageId: string) => void;
+}
+
+// Prompts the server is holding until the session is ready for them
+function QueuedMessages({ queue, onUpdate, onCancel }: QueuedMessagesProps) {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState('');
+
+  if (queue.length === 0) return null;
+
+  const saveEdit = () => {
+    if (editingId && draft.trim()) {
+      onUpdate(editingId, draft.trim());
+    }
+    setEditingId(null);
+  };
+
+  return (
+    <div className="mb-2 space-y-1">
+      <div className="text-xs text-gray-500">Queued ({queue.length}) · sent in order when Claude is ready</div>
+      {queue.map((item, index) => (
+        <div key={item.id} className="flex items-start gap-2 bg-white/5 rounded px-2 py-1 text-xs">
+          <span className="text-gray-500 font-mono">{index + 1}.</span>
+          {editingId === item.id ? (
+            <textarea
+              value={draft}
+              onChange={(e) => setDraft(e.target.value)}
+              onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) {
+                  e.preventDefault();
+                  saveEdit();
+                } else if (e.key === 'Escape') {
+                  setEditingId(null);
+                }
+              }}
+              onBlur={saveEdit}
+              autoFocus
+              rows={2}
+              className="flex-1 bg-white/5 border border-white/10 rounded px-2 py-1 text-white resize-none focus:outline-none focus:border-blue-500"
+            />
+          ) : (
+            <span className="flex-1 text-gray-300 whitespace-pre-wrap break-words">{item.content}</span>
+          )}
+          {editingId !== item.id && (
+            <button
+              onClick={() => {
+                setEditingId(item.id);
+                setDraft(item.content);
+              }}
+              className="text-gray-500 hover:text-white transition-colors"
+              title="Edit"
+            >
+              <span className="material-icons text-sm">edit</span>
+            </button>
+          )}
+          <button
+            onClick={() => onCancel(item.id)}
+            className="text-gray-500 hover:text-red-400 transition-colors"
+            title="Cancel"
+          >
+            <span className="material-icons text-sm">close</span>
+          </button>
+        </div>
+      ))}
+    </div>
+  );
 }
 
 export function InputArea({
@@ -16,13 +89,18 @@ export function InputArea({
   onControlSignal,
   onSlashCommand,
   onConnect,
+  onUpdateQueuedMessage,
+  onCancelQueuedMessage,
 }: InputAreaProps) {
   const [inputMessage, setInputMessage] = useState('');
   const [sendingMessage, setSendingMessage] = useState(false);
 
+  // Messages sent while claude is busy or starting are queued on the server
+  const canSend = !!connectedSession && connectedSession.status !== 'completed' && connectedSession.status !== 'error';
+
   const sendMessage = async () => {
     if (!inputMessage.trim() || sendingMessage) return;
-    if (!connectedSession || connectedSession.status !== 'active') return;
+    if (!canSend) return;
 
     setSendingMessage(true);
     try {
@@ -65,26 +143,26 @@ export function InputArea({
           <button
             onClick={() => onControlSignal('interrupt')}
             className="px-2 py-1 text-xs bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded transition-colors flex items-center gap-1"
-            title="Interrupt (Ctrl+C / Esc)"
+            title="Abort the current turn"
           >
             <span className="material-icons text-sm">stop</span>
-            Ctrl+C
+            Interrupt
           </button>
           <button
-            onClick={() => onControlSignal('expand')}
+            onClick={() => onControlSignal('clear')}
             className="px-2 py-1 text-xs bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded transition-colors flex items-center gap-1"
-            title="Expand output (Ctrl+O)"
+            title="Start a fresh conversation (/clear)"
           >
-            <span className="material-icons text-sm">unfold_more</span>
-            Ctrl+O
+            <span className="material-icons text-sm">clear_all</span>
+            Clear
           </button>
           <button
-            onClick={() => onControlSignal('retry')}
+            onClick={() => onControlSignal('eof')}
             className="px-2 py-1 text-xs bg-yellow-500/20 hover:bg-yellow-500/30 text-yellow-400 rounded transition-colors flex items-center gap-1"
-            title="Retry (Ctrl+R)"
+            title="Close input; claude exits after the current turn"
           >
-            <span className="material-icons text-sm">refresh</span>
-            Ctrl+R
+            <span className="material-icons text-sm">logout</span>
+            End input
           </button>
         </div>
         <div className="flex-1" />
@@ -110,6 +188,12 @@ export function InputArea({
         </div>
       </div>
 
+      <QueuedMessages
+        queue={connectedSession.queue || []}
+        onUpdate={onUpdateQueuedMessage}
+        onCancel={onCancelQueuedMessage}
+      />
+
       {/* Input */}
       <div className="flex gap-2">
         <textarea
@@ -119,17 +203,19 @@ export function InputArea({
           placeholder={
             connectedSession.status === 'active'
               ? 'Send a message... (Enter to send)'
-              : 'Waiting for session...'
+              : canSend
+                ? 'Claude is busy - messages will be queued (Enter to queue)'
+                : 'Session has ended'
           }
           className="flex-1 bg-white/5 border border-white/10 rounded-lg px-3 py-2 text-white text-sm resize-none focus:outline-none focus:border-blue-500 placeholder-gray-500"
           rows={2}
-          disabled={sendingMessage || connectedSession.status !== 'active'}
+          disabled={sendingMessage || !canSend}
         />
         <button
           onClick={sendMessage}
-          disabled={!inputMessage.trim() || sendingMessage || connectedSession.status !== 'active'}
+          disabled={!inputMessage.trim() || sendingMessage || !canSend}
           className={`px-4 rounded-lg font-medium text-sm transition-colors ${
-            inputMessage.trim() && !sendingMessage && connectedSession.status === 'active'
+            inputMessage.trim() && !sendingMessage && canSend
               ? 'bg-blue-500 hover:bg-blue-600 text-white'
               : 'bg-white/5 text-gray-500 cursor-not-allowed'
           }`}
@@ -142,7 +228,7 @@ export function InputArea({
         </button>
       </div>
       <div className="text-xs text-gray-600 mt-1">
-        Shortcuts: Ctrl+C (interrupt) · Ctrl+O (expand) · Ctrl+R (retry) · Esc (stop)
+        Enter to send · Shift+Enter for a new line · Prompts sent while claude is busy are queued
       </div>
     </div>
   );
@@ -1,29 +1,93 @@
 import { useState } from 'react';
-import type { DisplayMessage, WebSessionMessage } from '@claude-orchestrator/shared';
+import type { DisplayMessage, SubagentThread, WebSessionMessage } from '@claude-orchestrator/shared';
 import { ColorizedText } from '../common/ColorizedText';
+import { ToolResultDisplay } from '../common/ToolResultDisplay';
 import { getToolColor, formatToolInput } from '../../utils/tools';
 
 interface MessageItemProps {
   message: DisplayMessage;
+  // Start a new session from the conversation up to this message
+  onFork?: (messageId: string) => void;
 }
 
-export function MessageItem({ message }: MessageItemProps) {
+// Turn results and tool results aren't transcript lines of their own
+function isForkable(message: DisplayMessage): boolean {
+  return !message.streaming && !message.id.startsWith('result:') && !message.id.endsWith(':result');
+}
+
+function ForkButton({ message, onFork }: { message: DisplayMessage; onFork: (messageId: string) => void }) {
+  return (
+    <button
+      onClick={() => onFork(message.id)}
+      className="ml-auto shrink-0 px-1 text-xs text-gray-600 hover:text-purple-400 opacity-0 group-hover:opacity-100 transition-opacity"
+      title="Fork from here: start a new session with the conversation up to this message"
+    >
+      ⑂ fork
+    </button>
+  );
+}
+
+// A subagent's own transcript, collapsed to a one-line header until opened
+function SubagentTranscript({ thread }: { thread: SubagentThread }) {
+  const [open, setOpen] = useState(false);
+  const toolCalls = thread.messages.filter(m => m.toolUse).length;
+
+  return (
+    <div className="ml-4 mt-1">
+      <button
+        onClick={() => setOpen(!open)}
+        className="text-xs text-gray-500 hover:text-purple-400"
+      >
+        {open ? '▾' : '▸'} subagent{thread.description ? `: ${thread.description}` : ''}
+        <span className="text-gray-600"> · {thread.messages.length} messages, {toolCalls} tool calls</span>
+      </button>
+      {open && (
+        <div className="mt-1 pl-3 border-l border-purple-500/30 space-y-2">
+          {/* Subagent lines aren't on the main thread, so they can't be forked from */}
+          {thread.messages.map(msg => <MessageItem key={msg.id} message={msg} />)}
+        </div>
+      )}
+    </div>
+  );
+}
+
+function SubagentTranscripts({ message }: { message: DisplayMessage }) {
+  if (!message.subagents?.length) return null;
+  return (
+    <>
+      {message.subagents.map(thread => <SubagentTranscript key={thread.rootUuid} thread={thread} />)}
+    </>
+  );
+}
+
+export function MessageItem({ message, onFork }: MessageItemProps) {
   const [expanded, setExpanded] = useState(false);
+  const forkButton = onFork && isForkable(message) ? <ForkButton message={message} onFork={onFork} /> : null;
+
+  if (message.role === 'system' && message.subagents?.length) {
+    return (
+      <div>
+        <div className="text-xs text-gray-500">● {message.content}</div>
+        <SubagentTranscripts message={message} />
+      </div>
+    );
+  }
 
   if (message.role === 'user' && message.content) {
     return (
-      <div className="flex items-start gap-2">
+      <div className="group flex items-start gap-2">
         <span className="text-green-400 font-bold">&gt;</span>
         <span className="text-white whitespace-pre-wrap">
           <ColorizedText text={message.content} />
         </span>
+        {forkButton}
       </div>
     );
   }
 
   if (message.role === 'assistant') {
     return (
-      <>
+      <div className="group">
         {message.toolUse && (
           <div className="flex items-start gap-2 mb-1">
             <span className="text-yellow-400">●</span>
@@ -33,43 +97,31 @@ export function MessageItem({ message }: MessageItemProps) {
               {formatToolInput(message.toolUse.name, message.toolUse.input)}
             </span>
             <span className="text-gray-500">)</span>
+            {forkButton}
           </div>
         )}
+        <SubagentTranscripts message={message} />
         {message.toolResult && (
-          <div className="ml-4 mt-1">
-            <div
-              className="flex items-center gap-2 cursor-pointer hover:bg-white/5 rounded px-2 py-1 -ml-2"
-              onClick={() => setExpanded(!expanded)}
-            >
-              <span className="text-gray-500">└</span>
-              {message.toolResult.isError ? (
-                <span className="text-red-400">Error</span>
-              ) : (
-                <span className="text-gray-400">
-                  {message.toolResult.content.split('\n').length} lines
-                </span>
-              )}
-              <span className="text-gray-600 text-xs">
-                (click to {expanded ? 'collapse' : 'expand'})
-              </span>
-            </div>
-            {expanded && (
-              <pre
-                className={`mt-2 p-3 rounded text-xs overflow-x-auto ${
-                  message.toolResult.isError ? 'bg-red-500/10' : 'bg-white/5'
-                }`}
-              >
-                <ColorizedText text={message.toolResult.content} />
-              </pre>
-            )}
-          </div>
+          <ToolResultDisplay
+            toolName={message.toolUse?.name || 'Tool'}
+            input={message.toolUse?.input || {}}
+            output={message.toolResult.content}
+            isError={message.toolResult.isError}
+            expanded={expanded}
+            onToggleExpand={() => setExpanded(!expanded)}
+            className="ml-4 mt-1"
+          />
         )}
         {message.content && !message.toolUse && (
-          <div className="whitespace-pre-wrap">
-            <ColorizedText text={message.content} />
+          <div className="flex items-start gap-2">
+            <div className="whitespace-pre-wrap">
+              <ColorizedText text={message.content} />
+              {message.streaming && <span className="text-gray-500 animate-pulse">▍</span>}
+            </div>
+            {forkButton}
           </div>
         )}
-      </>
+      </div>
     );
   }
 
@@ -78,52 +130,57 @@ export function MessageItem({ message }: MessageItemProps) {
 
 interface WebSessionMessageItemProps {
   message: WebSessionMessage;
+  onFork?: (messageId: string) => void;
 }
 
-export function WebSessionMessageItem({ message }: WebSessionMessageItemProps) {
-  if (message.type === 'text' && message.content) {
-    const isUserMessage = message.content.startsWith('>');
+export function WebSessionMessageItem({ message, onFork }: WebSessionMessageItemProps) {
+  if (message.type === 'message' && message.message) {
+    return <MessageItem message={message.message} onFork={onFork} />;
+  }
+
+  if (message.type === 'error') {
     return (
-      <div className={`whitespace-pre-wrap ${isUserMessage ? 'text-green-400' : ''}`}>
-        <ColorizedText text={message.content} />
+      <div className="text-red-400">
+        Error: <ColorizedText text={message.content || ''} />
       </div>
     );
   }
 
-  if (message.type === 'tool_use' && message.toolUse) {
+  if (message.type === 'control' && message.control) {
+    const { signal, status } = message.control;
+    const color = status === 'applied' ? 'text-purple-400' : status === 'unsupported' ? 'text-gray-500' : 'text-orange-400';
     return (
-      <div className="flex items-start gap-2">
-        <span className="text-yellow-400">●</span>
-        <span className={getToolColor(message.toolUse.name)}>{message.toolUse.name}</span>
-        <span className="text-gray-400 text-xs">
-          {formatToolInput(message.toolUse.name, message.toolUse.input)}
-        </span>
+      <div className={`text-xs ${color}`}>
+        ● {signal}: {status}{message.content ? ` - ${message.content}` : ''}
       </div>
     );
   }
 
-  if (message.type === 'tool_result' && message.toolResult) {
+  if (message.type === 'budget' && message.budget) {
     return (
-      <div className={`ml-4 text-xs ${message.toolResult.isError ? 'text-red-400' : ''}`}>
-        <ColorizedText
-          text={`└ ${message.toolResult.content.split('\n')[0].slice(0, 150)}`}
-        />
+      <div className={`text-xs ${message.budget.level === 'exceeded' ? 'text-red-400' : 'text-yellow-400'}`}>
+        ● budget {message.budget.level}: {message.content || ''}
       </div>
     );
   }
 
-  if (message.type === 'error') {
+  if (message.type === 'limit' && message.limit) {
     return (
-      <div className="text-red-400">
-        Error: <ColorizedText text={message.content || ''} />
+      <div className={`text-xs ${message.limit.level === 'exceeded' ? 'text-red-400' : 'text-yellow-400'}`}>
+        ● resource limit {message.limit.level}: {message.content || ''}
       </div>
     );
   }
 
   if (message.type === 'status') {
     return (
-      <div className="text-purple-400 text-xs">
+      <div className={`text-xs ${message.status === 'error' || message.status === 'restarting' || message.status === 'budget_exceeded' ? 'text-orange-400' : 'text-purple-400'}`}>
         ● {message.status}: {message.content || ''}
+        {message.crashReport && message.crashReport.length > 0 && (
+          <pre className="mt-1 ml-4 text-gray-500 whitespace-pre-wrap">
+            {message.crashReport.join('\n')}
+          </pre>
+        )}
       </div>
     );
   }
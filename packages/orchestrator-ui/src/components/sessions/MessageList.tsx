@@ -6,12 +6,15 @@ import { VirtualMessageList } from './VirtualMessageList';
 interface MessageListProps {
   messages: DisplayMessage[];
   connectedSession: ConnectedSession | undefined;
+  onForkMessage?: (messageId: string) => void;
+  focusMessageId?: string;
 }
 
 const VIRTUAL_SCROLL_THRESHOLD = 100;
 
-export function MessageList({ messages, connectedSession }: MessageListProps) {
+export function MessageList({ messages, connectedSession, onForkMessage, focusMessageId }: MessageListProps) {
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const focusedRef = useRef<HTMLDivElement>(null);
 
   // Determine which messages to display
   const displayMessages = connectedSession?.messages || messages;
@@ -22,9 +25,13 @@ export function MessageList({ messages, connectedSession }: MessageListProps) {
 
   useEffect(() => {
     if (!useVirtualScroll) {
-      messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      if (focusedRef.current) {
+        focusedRef.current.scrollIntoView({ block: 'center' });
+      } else {
+        messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+      }
     }
-  }, [messages, connectedSession?.messages, useVirtualScroll]);
+  }, [messages, connectedSession?.messages, useVirtualScroll, focusMessageId]);
 
   // Use VirtualMessageList for large conversations
   if (useVirtualScroll) {
@@ -32,6 +39,8 @@ export function MessageList({ messages, connectedSession }: MessageListProps) {
       <VirtualMessageList
         messages={messages}
         connectedSession={connectedSession}
+        onForkMessage={onForkMessage}
+        focusMessageId={focusMessageId}
       />
     );
   }
@@ -49,7 +58,7 @@ export function MessageList({ messages, connectedSession }: MessageListProps) {
         )}
         {connectedSession.messages.map((msg, idx) => (
           <div key={idx} className="mb-2">
-            <WebSessionMessageItem message={msg} />
+            <WebSessionMessageItem message={msg} onFork={onForkMessage} />
           </div>
         ))}
         <div ref={messagesEndRef} />
@@ -61,8 +70,12 @@ export function MessageList({ messages, connectedSession }: MessageListProps) {
   return (
     <div className="flex-1 overflow-y-auto font-mono text-sm min-h-0 p-4">
       {messages.map((msg) => (
-        <div key={msg.id} className="border-b border-white/5 mb-2 pb-2">
-          <MessageItem message={msg} />
+        <div
+          key={msg.id}
+          ref={msg.id === focusMessageId ? focusedRef : undefined}
+          className={`border-b border-white/5 mb-2 pb-2 ${msg.id === focusMessageId ? 'ring-1 ring-yellow-500/60 rounded' : ''}`}
+        >
+          <MessageItem message={msg} onFork={onForkMessage} />
         </div>
       ))}
       <div ref={messagesEndRef} />
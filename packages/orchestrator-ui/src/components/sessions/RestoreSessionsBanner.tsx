@@ -0,0 +1,54 @@
+import type { RestorableWebSession } from '@claude-orchestrator/shared';
+
+interface RestoreSessionsBannerProps {
+  sessions: RestorableWebSession[];
+  onRestore: (ids?: string[]) => void;
+  onDiscard: (id: string) => void;
+}
+
+/**
+ * Offers to resume web sessions that were running when the orchestrator last stopped
+ */
+export function RestoreSessionsBanner({ sessions, onRestore, onDiscard }: RestoreSessionsBannerProps) {
+  if (sessions.length === 0) return null;
+
+  return (
+    <div className="border-b border-white/10 bg-blue-500/10 px-4 py-2 text-sm">
+      <div className="flex items-center gap-3">
+        <span className="material-icons text-blue-400 text-base">restore</span>
+        <span className="text-gray-300 flex-1">
+          {sessions.length} web session{sessions.length === 1 ? '' : 's'} from the last run can be restored
+        </span>
+        <button
+          onClick={() => onRestore()}
+          className="px-3 py-1 bg-blue-500 hover:bg-blue-600 text-white rounded text-xs font-medium transition-colors"
+        >
+          Restore all
+        </button>
+      </div>
+      <div className="mt-2 space-y-1">
+        {sessions.map(session => (
+          <div key={session.id} className="flex items-center gap-2 text-xs">
+            <span className="text-white">{session.projectName}</span>
+            <span className="text-gray-500 truncate flex-1">{session.cwd}</span>
+            {session.launchOptions?.model && (
+              <span className="text-gray-400">{session.launchOptions.model}</span>
+            )}
+            <button
+              onClick={() => onRestore([session.id])}
+              className="text-blue-400 hover:text-blue-300 transition-colors"
+            >
+              Restore
+            </button>
+            <button
+              onClick={() => onDiscard(session.id)}
+              className="text-gray-500 hover:text-white transition-colors"
+            >
+              Discard
+            </button>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,7 +1,8 @@
-import type { SessionSummary, DisplayMessage, ConnectedSession } from '@claude-orchestrator/shared';
+import type { SessionSummary, DisplayMessage, ConnectedSession, BudgetRule } from '@claude-orchestrator/shared';
 import { SessionHeader } from './SessionHeader';
 import { MessageList } from './MessageList';
 import { InputArea } from './InputArea';
+import { BudgetExceededBanner } from './BudgetExceededBanner';
 
 interface SessionDetailProps {
   session: SessionSummary;
@@ -14,6 +15,12 @@ interface SessionDetailProps {
   onSendMessage: (message: string) => Promise<void>;
   onControlSignal: (signal: string) => void;
   onSlashCommand: (command: string) => void;
+  onUpdateQueuedMessage: (messageId: string, content: string) => void;
+  onCancelQueuedMessage: (messageId: string) => void;
+  onUpdateBudget: (budget: BudgetRule) => void;
+  onForkMessage: (messageId: string) => void;
+  // History message to scroll to and highlight
+  focusMessageId?: string;
 }
 
 export function SessionDetail({
@@ -27,6 +34,11 @@ export function SessionDetail({
   onSendMessage,
   onControlSignal,
   onSlashCommand,
+  onUpdateQueuedMessage,
+  onCancelQueuedMessage,
+  onUpdateBudget,
+  onForkMessage,
+  focusMessageId,
 }: SessionDetailProps) {
   return (
     <div className="flex-1 flex flex-col bg-[#0a0a0a] overflow-hidden min-h-0">
@@ -39,13 +51,23 @@ export function SessionDetail({
         onDelete={onDelete}
         onOpenEditor={onOpenEditor}
       />
-      <MessageList messages={messages} connectedSession={connectedSession} />
+      <MessageList
+        messages={messages}
+        connectedSession={connectedSession}
+        onForkMessage={onForkMessage}
+        focusMessageId={focusMessageId}
+      />
+      {connectedSession?.status === 'budget_exceeded' && (
+        <BudgetExceededBanner connectedSession={connectedSession} onUpdateBudget={onUpdateBudget} />
+      )}
       <InputArea
         connectedSession={connectedSession}
         onSendMessage={onSendMessage}
         onControlSignal={onControlSignal}
         onSlashCommand={onSlashCommand}
         onConnect={onConnect}
+        onUpdateQueuedMessage={onUpdateQueuedMessage}
+        onCancelQueuedMessage={onCancelQueuedMessage}
       />
     </div>
   );
@@ -1,6 +1,7 @@
-import type { SessionSummary, ConnectedSession, DisplayMessage } from '@claude-orchestrator/shared';
+import type { SessionSummary, ConnectedSession, DisplayMessage, LaunchOptions, SessionUsage } from '@claude-orchestrator/shared';
 import { StatusDot } from '../common/StatusDot';
 import { ExportButton } from './ExportButton';
+import { formatTokens, formatCost, getTotalTokens, getContextPercent, getContextColor } from '../../utils/usage';
 
 interface SessionHeaderProps {
   session: SessionSummary;
@@ -37,6 +38,16 @@ export function SessionHeader({
       <span className="text-white font-medium">{session.projectName}</span>
       <span className="text-gray-500 text-sm font-mono truncate flex-1">{session.cwd}</span>
 
+      {/* Live usage from the web session, falling back to the transcript totals */}
+      {(connectedSession?.usage || session.usage) && (
+        <UsageBadge usage={(connectedSession?.usage || session.usage)!} />
+      )}
+
+      {/* Launch profile of the connected web session */}
+      {connectedSession?.launchOptions && (
+        <LaunchProfileBadges launchOptions={connectedSession.launchOptions} />
+      )}
+
       {/* Editor Icons */}
       <div className="flex items-center gap-1">
         <button
@@ -77,7 +88,15 @@ export function SessionHeader({
         </button>
       </div>
 
-      {session.gitBranch && (
+      {connectedSession?.worktree ? (
+        <span
+          className="text-purple-400 text-sm flex items-center gap-1"
+          title={`Isolated worktree: ${connectedSession.worktree.path}`}
+        >
+          <span className="material-icons text-sm">call_split</span>
+          {connectedSession.worktree.branch}
+        </span>
+      ) : session.gitBranch && (
         <span className="text-purple-400 text-sm">⎇ {session.gitBranch}</span>
       )}
 
@@ -122,3 +141,50 @@ export function SessionHeader({
     </div>
   );
 }
+
+function LaunchProfileBadges({ launchOptions }: { launchOptions: LaunchOptions }) {
+  const details = [
+    launchOptions.allowedTools?.length && `Allowed: ${launchOptions.allowedTools.join(', ')}`,
+    launchOptions.disallowedTools?.length && `Disallowed: ${launchOptions.disallowedTools.join(', ')}`,
+    launchOptions.addDirs?.length && `Extra dirs: ${launchOptions.addDirs.join(', ')}`,
+    launchOptions.env && Object.keys(launchOptions.env).length && `Env: ${Object.keys(launchOptions.env).join(', ')}`,
+    launchOptions.appendSystemPrompt && `System prompt: ${launchOptions.appendSystemPrompt}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-1 text-xs" title={details.join('\n') || undefined}>
+      {launchOptions.model && (
+        <span className="px-1.5 py-0.5 rounded bg-blue-500/20 text-blue-300 font-mono">{launchOptions.model}</span>
+      )}
+      {launchOptions.permissionMode && launchOptions.permissionMode !== 'default' && (
+        <span className="px-1.5 py-0.5 rounded bg-orange-500/20 text-orange-300">{launchOptions.permissionMode}</span>
+      )}
+      {launchOptions.maxTurns && (
+        <span className="px-1.5 py-0.5 rounded bg-white/10 text-gray-300">{launchOptions.maxTurns} turns</span>
+      )}
+      {details.length > 0 && (
+        <span className="material-icons text-sm text-gray-500">tune</span>
+      )}
+    </div>
+  );
+}
+
+function UsageBadge({ usage }: { usage: SessionUsage }) {
+  const contextPercent = getContextPercent(usage);
+  const breakdown = [
+    usage.model && `Model: ${usage.model}`,
+    `Input: ${formatTokens(usage.inputTokens)}`,
+    `Output: ${formatTokens(usage.outputTokens)}`,
+    `Cache write: ${formatTokens(usage.cacheCreationTokens)}`,
+    `Cache read: ${formatTokens(usage.cacheReadTokens)}`,
+    `Context: ${formatTokens(usage.contextTokens)} / ${formatTokens(usage.contextWindow)}`,
+  ].filter(Boolean);
+
+  return (
+    <div className="flex items-center gap-2 text-xs" title={breakdown.join('\n')}>
+      <span className="text-gray-400">{formatTokens(getTotalTokens(usage))} tokens</span>
+      <span className="text-green-400">{formatCost(usage.costUsd)}</span>
+      <span className={getContextColor(contextPercent)}>{contextPercent}% ctx</span>
+    </div>
+  );
+}
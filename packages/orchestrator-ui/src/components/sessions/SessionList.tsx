@@ -1,14 +1,19 @@
-import type { SessionSummary, WebSessionStatus, DashboardStats } from '@claude-orchestrator/shared';
+import type { SessionSummary, WebSessionStatus, DashboardStats, LaunchQueueState } from '@claude-orchestrator/shared';
 import { StatusDot } from '../common/StatusDot';
 import { formatRelativeTime } from '../../utils/time';
+import { formatCost, getContextPercent, getContextColor } from '../../utils/usage';
+import { groupSessionsByProject } from '../../utils/projects';
 
 interface SessionListProps {
   sessions: SessionSummary[];
   stats: DashboardStats;
   selectedSession: string | null;
   connectedSessions: Map<string, { status: WebSessionStatus }>;
+  launchQueue: LaunchQueueState;
   onSelectSession: (sessionId: string) => void;
   onNewSession: () => void;
+  onChangeLaunchPriority: (sessionId: string, priority: number) => void;
+  onCancelLaunch: (sessionId: string) => void;
 }
 
 export function SessionList({
@@ -16,8 +21,11 @@ export function SessionList({
   stats,
   selectedSession,
   connectedSessions,
+  launchQueue,
   onSelectSession,
   onNewSession,
+  onChangeLaunchPriority,
+  onCancelLaunch,
 }: SessionListProps) {
   const isConnected = (sessionId: string) => connectedSessions.has(sessionId);
   const getConnectedStatus = (sessionId: string) => connectedSessions.get(sessionId)?.status;
@@ -44,57 +52,144 @@ export function SessionList({
         </div>
       </div>
 
-      {/* Session List */}
-      <div className="flex-1 overflow-y-auto min-h-0">
-        {sessions.map((session) => {
-          const connected = isConnected(session.id);
-          const connStatus = getConnectedStatus(session.id);
-
-          return (
+      {/* Launch Queue - sessions and tasks waiting for a free slot */}
+      {launchQueue.queue.length > 0 && (
+        <div className="border-b border-white/10 flex-shrink-0">
+          <div className="px-3 pt-2 pb-1 flex items-center justify-between text-xs">
+            <span className="text-blue-400">{launchQueue.queue.length} queued</span>
+            <span className="text-gray-500">
+              {launchQueue.running}
+              {launchQueue.limits.maxSessions !== undefined && ` / ${launchQueue.limits.maxSessions}`} running
+            </span>
+          </div>
+          {launchQueue.queue.map((entry) => (
             <div
-              key={session.id}
-              onClick={() => onSelectSession(session.id)}
-              className={`px-3 py-2 cursor-pointer border-l-2 transition-colors ${
-                selectedSession === session.id
+              key={entry.sessionId}
+              onClick={() => !entry.task && onSelectSession(entry.sessionId)}
+              className={`px-3 py-1.5 cursor-pointer border-l-2 flex items-center gap-2 transition-colors ${
+                selectedSession === entry.sessionId
                   ? 'bg-white/10 border-l-blue-500'
                   : 'border-l-transparent hover:bg-white/5'
               }`}
             >
-              <div className="flex items-center gap-2">
-                <StatusDot
-                  status={
-                    connected
-                      ? connStatus === 'active'
-                        ? 'active'
-                        : connStatus === 'starting'
-                        ? 'starting'
-                        : 'idle'
-                      : 'idle'
-                  }
-                />
-                <span className="text-sm font-medium text-white truncate flex-1">
-                  {session.projectName}
-                </span>
-                <span className="text-xs text-gray-600">
-                  {formatRelativeTime(session.lastActivity)}
-                </span>
-              </div>
-              {session.gitBranch && (
-                <div className="text-xs text-purple-400 mt-0.5 ml-4 truncate">
-                  ⎇ {session.gitBranch}
-                </div>
-              )}
-              {session.pendingHook && !connected && (
-                <div className="mt-1 ml-4 text-xs text-yellow-400">
-                  ⏳ {session.pendingHook.toolName}
-                </div>
-              )}
-              {connected && (
-                <div className="mt-1 ml-4 text-xs text-green-400">● Connected</div>
-              )}
+              <StatusDot status="queued" />
+              <span className="text-xs text-gray-500 w-4">{entry.position}</span>
+              <span className="text-sm text-white truncate flex-1">
+                {entry.projectName}
+                {entry.task && <span className="text-xs text-gray-500 ml-1">task</span>}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChangeLaunchPriority(entry.sessionId, entry.priority + 1);
+                }}
+                className="text-gray-500 hover:text-white text-xs"
+                title="Raise priority"
+              >
+                ▲
+              </button>
+              <span className="text-xs text-gray-400 w-5 text-center" title="Priority">
+                {entry.priority}
+              </span>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onChangeLaunchPriority(entry.sessionId, entry.priority - 1);
+                }}
+                className="text-gray-500 hover:text-white text-xs"
+                title="Lower priority"
+              >
+                ▼
+              </button>
+              <button
+                onClick={(e) => {
+                  e.stopPropagation();
+                  onCancelLaunch(entry.sessionId);
+                }}
+                className="text-gray-500 hover:text-red-400 text-xs ml-1"
+                title="Cancel launch"
+              >
+                ✕
+              </button>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Session List - grouped by the directory each session was started in */}
+      <div className="flex-1 overflow-y-auto min-h-0">
+        {groupSessionsByProject(sessions).map((group) => (
+          <div key={group.path}>
+            <div
+              className="px-3 pt-3 pb-1 flex items-center gap-2 text-xs text-gray-400 sticky top-0 bg-[#0a0a0a]"
+              title={group.path}
+            >
+              <span className="material-icons text-sm">folder</span>
+              <span className="font-medium truncate flex-1">{group.label}</span>
+              <span className="text-gray-600">{group.sessions.length}</span>
             </div>
-          );
-        })}
+            {group.sessions.map((session) => {
+              const connected = isConnected(session.id);
+              const connStatus = getConnectedStatus(session.id);
+
+              return (
+                <div
+                  key={session.id}
+                  onClick={() => onSelectSession(session.id)}
+                  className={`px-3 py-2 cursor-pointer border-l-2 transition-colors ${
+                    selectedSession === session.id
+                      ? 'bg-white/10 border-l-blue-500'
+                      : 'border-l-transparent hover:bg-white/5'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <StatusDot
+                      status={
+                        connected
+                          ? connStatus === 'active'
+                            ? 'active'
+                            : connStatus === 'starting' || connStatus === 'queued'
+                            ? connStatus
+                            : 'idle'
+                          : 'idle'
+                      }
+                    />
+                    <span className="text-sm text-white truncate flex-1">
+                      {session.lastMessage || session.id.slice(0, 8)}
+                    </span>
+                    <span className="text-xs text-gray-600">
+                      {formatRelativeTime(session.lastActivity)}
+                    </span>
+                  </div>
+                  {session.gitBranch && (
+                    <div className="text-xs text-purple-400 mt-0.5 ml-4 truncate">
+                      ⎇ {session.gitBranch}
+                    </div>
+                  )}
+                  {session.usage && session.usage.costUsd > 0 && (
+                    <div className="mt-0.5 ml-4 text-xs flex items-center gap-2">
+                      <span className="text-gray-500">{formatCost(session.usage.costUsd)}</span>
+                      <span
+                        className={getContextColor(getContextPercent(session.usage))}
+                        title="Context window used"
+                      >
+                        {getContextPercent(session.usage)}% ctx
+                      </span>
+                    </div>
+                  )}
+                  {session.pendingHook && !connected && (
+                    <div className="mt-1 ml-4 text-xs text-yellow-400">
+                      ⏳ {session.pendingHook.toolName}
+                    </div>
+                  )}
+                  {connected && (
+                    <div className="mt-1 ml-4 text-xs text-green-400">● Connected</div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        ))}
       </div>
     </div>
   );
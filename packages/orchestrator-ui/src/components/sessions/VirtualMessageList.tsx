@@ -5,6 +5,9 @@ import { MessageItem, WebSessionMessageItem } from './MessageItem';
 interface VirtualMessageListProps {
   messages: DisplayMessage[] | WebSessionMessage[];
   connectedSession?: ConnectedSession;
+  onForkMessage?: (messageId: string) => void;
+  // History message to scroll to and highlight
+  focusMessageId?: string;
   itemHeight?: number;
   overscan?: number;
   className?: string;
@@ -22,6 +25,8 @@ const DEFAULT_OVERSCAN = 5;
 export function VirtualMessageList({
   messages,
   connectedSession,
+  onForkMessage,
+  focusMessageId,
   itemHeight = DEFAULT_ITEM_HEIGHT,
   overscan = DEFAULT_OVERSCAN,
   className = '',
@@ -33,6 +38,8 @@ export function VirtualMessageList({
   const rafRef = useRef<number | null>(null);
   const lastScrollTopRef = useRef(0);
   const shouldAutoScrollRef = useRef(true);
+  // Focus target already scrolled to, so later updates don't pull the view back
+  const focusedRef = useRef<string | null>(null);
 
   const [scrollTop, setScrollTop] = useState(0);
   const [containerHeight, setContainerHeight] = useState(0);
@@ -182,6 +189,30 @@ export function VirtualMessageList({
     };
   }, []);
 
+  // Scroll to the focused message once it is in the list
+  const focusIndex = useMemo(
+    () => (isConnected || !focusMessageId
+      ? -1
+      : (displayMessages as DisplayMessage[]).findIndex(msg => msg.id === focusMessageId)),
+    [displayMessages, focusMessageId, isConnected]
+  );
+
+  useEffect(() => {
+    if (focusIndex === -1 || focusedRef.current === focusMessageId) return;
+    focusedRef.current = focusMessageId ?? null;
+    shouldAutoScrollRef.current = false;
+
+    let offset = 0;
+    for (let i = 0; i < focusIndex; i++) {
+      offset += measurementCacheRef.current.get(i) || itemHeight;
+    }
+    requestAnimationFrame(() => {
+      if (containerRef.current) {
+        containerRef.current.scrollTop = Math.max(0, offset - containerRef.current.clientHeight / 3);
+      }
+    });
+  }, [focusIndex, focusMessageId, itemHeight]);
+
   // Auto-scroll to bottom for new messages
   useEffect(() => {
     if (!containerRef.current) return;
@@ -256,12 +287,16 @@ export function VirtualMessageList({
                   right: 0,
                   transform: `translateY(${virtualItem.start}px)`,
                 }}
-                className={isConnected ? 'mb-2' : 'border-b border-white/5 mb-2 pb-2'}
+                className={
+                  isConnected
+                    ? 'mb-2'
+                    : `border-b border-white/5 mb-2 pb-2 ${virtualItem.index === focusIndex ? 'ring-1 ring-yellow-500/60 rounded' : ''}`
+                }
               >
                 {isConnected ? (
-                  <WebSessionMessageItem message={msg as WebSessionMessage} />
+                  <WebSessionMessageItem message={msg as WebSessionMessage} onFork={onForkMessage} />
                 ) : (
-                  <MessageItem message={msg as DisplayMessage} />
+                  <MessageItem message={msg as DisplayMessage} onFork={onForkMessage} />
                 )}
               </div>
             );
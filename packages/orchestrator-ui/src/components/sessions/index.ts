@@ -7,3 +7,5 @@ export * from './VirtualMessageList';
 export * from './InputArea';
 export * from './SessionFilter';
 export * from './ExportButton';
+export * from './RestoreSessionsBanner';
+export * from './BudgetExceededBanner';
@@ -2,3 +2,5 @@ export * from './useWebSocket';
 export * from './useNotifications';
 export * from './useSession';
 export * from './useSessionTemplates';
+export * from './useJobs';
+export * from './useSchedules';
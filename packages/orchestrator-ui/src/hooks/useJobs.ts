@@ -0,0 +1,89 @@
+import { useState, useCallback } from 'react';
+import type { Job, CreateJobRequest } from '@claude-orchestrator/shared';
+import { API_ENDPOINTS } from '@claude-orchestrator/shared';
+
+interface UseJobsOptions {
+  baseUrl: string;
+}
+
+interface UseJobsReturn {
+  jobs: Job[];
+  fetchJobs: () => Promise<void>;
+  createJob: (request: CreateJobRequest) => Promise<Job | null>;
+  cancelJob: (jobId: string) => Promise<boolean>;
+  // Apply a job_update pushed over the WebSocket
+  handleJobUpdate: (job: Job) => void;
+}
+
+// Replace the job with the same ID, or add it as the newest
+function upsertJob(jobs: Job[], job: Job): Job[] {
+  const index = jobs.findIndex(j => j.id === job.id);
+  if (index === -1) return [job, ...jobs];
+  const next = [...jobs];
+  next[index] = job;
+  return next;
+}
+
+export function useJobs({ baseUrl }: UseJobsOptions): UseJobsReturn {
+  const [jobs, setJobs] = useState<Job[]>([]);
+
+  const fetchJobs = useCallback(async () => {
+    try {
+      const res = await fetch(`${baseUrl}${API_ENDPOINTS.jobs}`);
+      if (res.ok) {
+        const data = await res.json();
+        setJobs(data.jobs || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch jobs:', err);
+    }
+  }, [baseUrl]);
+
+  const createJob = useCallback(
+    async (request: CreateJobRequest): Promise<Job | null> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.jobs}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(request),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          console.error('Failed to create job:', data.error);
+          return null;
+        }
+        setJobs(prev => upsertJob(prev, data.job));
+        return data.job;
+      } catch (err) {
+        console.error('Failed to create job:', err);
+        return null;
+      }
+    },
+    [baseUrl]
+  );
+
+  const cancelJob = useCallback(
+    async (jobId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.job(jobId)}`, { method: 'DELETE' });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to cancel job:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  const handleJobUpdate = useCallback((job: Job) => {
+    setJobs(prev => upsertJob(prev, job));
+  }, []);
+
+  return {
+    jobs,
+    fetchJobs,
+    createJob,
+    cancelJob,
+    handleJobUpdate,
+  };
+}
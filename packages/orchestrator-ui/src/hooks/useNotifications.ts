@@ -1,5 +1,5 @@
 import { useState, useCallback, useEffect, useRef } from 'react';
-import type { HookAlert, NotificationSettings } from '@claude-orchestrator/shared';
+import type { HookAlert, BudgetAlert, ResourceAlert, NotificationSettings } from '@claude-orchestrator/shared';
 import {
   MAX_NOTIFICATIONS,
   AUTO_DELETE_INTERVAL_MS,
@@ -17,6 +17,8 @@ interface UseNotificationsReturn {
   updateSettings: (settings: Partial<NotificationSettings>) => void;
   playSound: () => void;
   showBrowserNotification: (alert: HookAlert) => void;
+  showBudgetNotification: (alert: BudgetAlert) => void;
+  showResourceNotification: (alert: ResourceAlert) => void;
   requestBrowserPermission: () => Promise<boolean>;
 }
 
@@ -126,6 +128,36 @@ export function useNotifications(): UseNotificationsReturn {
     [settings.browserNotifications]
   );
 
+  const showBudgetNotification = useCallback(
+    (alert: BudgetAlert) => {
+      if (!settings.browserNotifications) return;
+      if (Notification.permission !== 'granted') return;
+
+      const title = alert.budget.level === 'exceeded' ? '⛔ Budget exceeded' : '💰 Budget warning';
+      new Notification(title, {
+        body: `${alert.sessionName}: ${alert.message}`,
+        tag: `budget-${alert.sessionId}`,
+        requireInteraction: alert.budget.level === 'exceeded',
+      });
+    },
+    [settings.browserNotifications]
+  );
+
+  const showResourceNotification = useCallback(
+    (alert: ResourceAlert) => {
+      if (!settings.browserNotifications) return;
+      if (Notification.permission !== 'granted') return;
+
+      const title = alert.limit.level === 'exceeded' ? '⛔ Session stopped' : '⏳ Resource limit warning';
+      new Notification(title, {
+        body: `${alert.sessionName}: ${alert.message}`,
+        tag: `resource-${alert.sessionId}`,
+        requireInteraction: alert.limit.level === 'exceeded',
+      });
+    },
+    [settings.browserNotifications]
+  );
+
   const requestBrowserPermission = useCallback(async () => {
     if (!('Notification' in window)) {
       return false;
@@ -144,6 +176,8 @@ export function useNotifications(): UseNotificationsReturn {
     updateSettings,
     playSound,
     showBrowserNotification,
+    showBudgetNotification,
+    showResourceNotification,
     requestBrowserPermission,
   };
 }
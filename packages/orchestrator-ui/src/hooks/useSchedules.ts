@@ -0,0 +1,108 @@
+import { useState, useCallback } from 'react';
+import type { Schedule, ScheduleInput, ScheduleRun } from '@claude-orchestrator/shared';
+import { API_ENDPOINTS } from '@claude-orchestrator/shared';
+
+interface UseSchedulesOptions {
+  baseUrl: string;
+}
+
+interface UseSchedulesReturn {
+  schedules: Schedule[];
+  fetchSchedules: () => Promise<void>;
+  // Resolve to an error message, or null on success
+  createSchedule: (input: ScheduleInput) => Promise<string | null>;
+  updateSchedule: (id: string, input: Partial<ScheduleInput>) => Promise<string | null>;
+  deleteSchedule: (id: string) => Promise<boolean>;
+  runSchedule: (id: string) => Promise<ScheduleRun | null>;
+  // Apply a schedules_update pushed over the WebSocket
+  handleSchedulesUpdate: (schedules: Schedule[]) => void;
+}
+
+export function useSchedules({ baseUrl }: UseSchedulesOptions): UseSchedulesReturn {
+  const [schedules, setSchedules] = useState<Schedule[]>([]);
+
+  const fetchSchedules = useCallback(async () => {
+    try {
+      const res = await fetch(`${baseUrl}${API_ENDPOINTS.schedules}`);
+      if (res.ok) {
+        const data = await res.json();
+        setSchedules(data.schedules || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch schedules:', err);
+    }
+  }, [baseUrl]);
+
+  const saveSchedule = useCallback(
+    async (url: string, method: string, input: Partial<ScheduleInput>): Promise<string | null> => {
+      try {
+        const res = await fetch(`${baseUrl}${url}`, {
+          method,
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(input),
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          return data.error || 'Failed to save schedule';
+        }
+        return null;
+      } catch (err) {
+        console.error('Failed to save schedule:', err);
+        return 'Failed to save schedule';
+      }
+    },
+    [baseUrl]
+  );
+
+  const createSchedule = useCallback(
+    (input: ScheduleInput) => saveSchedule(API_ENDPOINTS.schedules, 'POST', input),
+    [saveSchedule]
+  );
+
+  const updateSchedule = useCallback(
+    (id: string, input: Partial<ScheduleInput>) => saveSchedule(API_ENDPOINTS.schedule(id), 'PUT', input),
+    [saveSchedule]
+  );
+
+  const deleteSchedule = useCallback(
+    async (id: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.schedule(id)}`, { method: 'DELETE' });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to delete schedule:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  const runSchedule = useCallback(
+    async (id: string): Promise<ScheduleRun | null> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.scheduleRun(id)}`, { method: 'POST' });
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.run;
+      } catch (err) {
+        console.error('Failed to run schedule:', err);
+        return null;
+      }
+    },
+    [baseUrl]
+  );
+
+  const handleSchedulesUpdate = useCallback((next: Schedule[]) => {
+    setSchedules(next);
+  }, []);
+
+  return {
+    schedules,
+    fetchSchedules,
+    createSchedule,
+    updateSchedule,
+    deleteSchedule,
+    runSchedule,
+    handleSchedulesUpdate,
+  };
+}
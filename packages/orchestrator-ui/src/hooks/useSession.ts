@@ -4,6 +4,15 @@ import type {
   WebSessionMessage,
   ConnectedSession,
   WebSessionStatus,
+  LaunchOptions,
+  BudgetRule,
+  ControlSignalResult,
+  ControlSignalResponse,
+  RestorableWebSession,
+  RestoreWebSessionsResponse,
+  WorktreeAction,
+  WorktreeStatus,
+  ForkSessionResponse,
 } from '@claude-orchestrator/shared';
 import { API_ENDPOINTS } from '@claude-orchestrator/shared';
 
@@ -13,39 +22,122 @@ interface UseSessionOptions {
 
 interface UseSessionReturn {
   connectedSessions: Map<string, ConnectedSession>;
-  connectSession: (cwd: string, resumeSessionId?: string) => Promise<string | null>;
-  disconnectSession: (sessionId: string) => Promise<void>;
+  connectSession: (cwd: string, resumeSessionId?: string, launchOptions?: LaunchOptions, budget?: BudgetRule, priority?: number, isolated?: boolean, envProfile?: string) => Promise<string | null>;
+  // Resolves to the new session's ID
+  forkSession: (sessionId: string, messageId: string) => Promise<string | null>;
+  // Resolves to an error message if the session could not be stopped
+  disconnectSession: (sessionId: string, worktree?: WorktreeAction, force?: boolean) => Promise<string | null>;
+  fetchWorktreeStatus: (sessionId: string) => Promise<WorktreeStatus | null>;
   sendMessage: (sessionId: string, message: string) => Promise<boolean>;
-  sendControlSignal: (sessionId: string, signal: string) => Promise<boolean>;
+  updateQueuedMessage: (sessionId: string, messageId: string, content: string) => Promise<boolean>;
+  cancelQueuedMessage: (sessionId: string, messageId: string) => Promise<boolean>;
+  updateSessionBudget: (sessionId: string, budget: BudgetRule | null) => Promise<boolean>;
+  sendControlSignal: (sessionId: string, signal: string) => Promise<ControlSignalResult | null>;
+  setLaunchPriority: (sessionId: string, priority: number) => Promise<boolean>;
+  cancelLaunch: (sessionId: string) => Promise<boolean>;
+  respondToPermission: (sessionId: string, toolUseId: string, approved: boolean, feedback?: string) => Promise<boolean>;
   handleWebSessionMessage: (sessionId: string, message: WebSessionMessage) => void;
   fetchSessionMessages: (sessionId: string) => Promise<DisplayMessage[]>;
+  restorableSessions: RestorableWebSession[];
+  fetchRestorableSessions: () => Promise<void>;
+  restoreSessions: (ids?: string[]) => Promise<string[]>;
+  discardRestorableSession: (id: string) => Promise<void>;
+}
+
+/**
+ * Apply a 'message' (replaces the message with its ID, or appends it) or a
+ * 'message_delta' (extends a streaming message's text) to a live transcript
+ */
+function applyMessageUpdate(messages: WebSessionMessage[], msg: WebSessionMessage): WebSessionMessage[] {
+  const targetId = msg.type === 'message' ? msg.message?.id : msg.messageId;
+  let index = -1;
+  for (let i = messages.length - 1; i >= 0; i--) {
+    if (messages[i].type === 'message' && messages[i].message?.id === targetId) {
+      index = i;
+      break;
+    }
+  }
+
+  if (msg.type === 'message') {
+    if (index === -1) return [...messages, msg];
+    const next = [...messages];
+    next[index] = msg;
+    return next;
+  }
+
+  // A delta for a message we never saw (e.g. it fell out of the replay window)
+  const target = messages[index]?.message;
+  if (!target) return messages;
+  const next = [...messages];
+  next[index] = { ...messages[index], message: { ...target, content: target.content + (msg.content || '') } };
+  return next;
 }
 
 export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
   const [connectedSessions, setConnectedSessions] = useState<Map<string, ConnectedSession>>(
     new Map()
   );
+  const [restorableSessions, setRestorableSessions] = useState<RestorableWebSession[]>([]);
 
   const handleWebSessionMessage = useCallback((sessionId: string, msg: WebSessionMessage) => {
     setConnectedSessions((prev) => {
       const newMap = new Map(prev);
       const session = newMap.get(sessionId);
       if (session) {
+        // Replayed events we've already applied (e.g. after a reconnect) are dropped
+        if (msg.seq !== undefined && msg.seq <= (session.lastSeq ?? 0)) {
+          return prev;
+        }
+        // Queue and usage snapshots update session state rather than the transcript;
+        // a turn's result repeats text that is already shown
+        if (msg.type === 'queue' || msg.type === 'usage' || msg.type === 'result') {
+          newMap.set(sessionId, {
+            ...session,
+            ...(msg.type === 'queue' ? { queue: msg.queue || [] } : msg.type === 'usage' ? { usage: msg.usage } : {}),
+            lastSeq: msg.seq ?? session.lastSeq,
+          });
+          return newMap;
+        }
+        // Assembled transcript messages are updated in place as they stream
+        if (msg.type === 'message' || msg.type === 'message_delta') {
+          newMap.set(sessionId, {
+            ...session,
+            messages: applyMessageUpdate(session.messages, msg),
+            lastSeq: msg.seq ?? session.lastSeq,
+          });
+          return newMap;
+        }
         const newMessages = [...session.messages, msg];
         let newStatus: WebSessionStatus = session.status;
+        let pendingPermission = session.pendingPermission;
         if (msg.type === 'status') {
-          if (msg.status === 'completed') newStatus = 'completed';
+          if (msg.status === 'queued') newStatus = 'queued';
+          else if (msg.status === 'completed') newStatus = 'completed';
           else if (msg.status === 'error') newStatus = 'error';
-          else if (msg.status === 'started') newStatus = 'active';
+          else if (msg.status === 'started' || msg.status === 'active') newStatus = 'active';
+          else if (msg.status === 'waiting_permission') newStatus = 'waiting_permission';
+          else if (msg.status === 'restarting') newStatus = 'restarting';
+          else if (msg.status === 'budget_exceeded') newStatus = 'budget_exceeded';
+          if (newStatus !== 'waiting_permission') pendingPermission = undefined;
+        } else if (msg.type === 'permission_request' && msg.permission) {
+          newStatus = 'waiting_permission';
+          pendingPermission = msg.permission;
         }
-        newMap.set(sessionId, { status: newStatus, messages: newMessages });
+        newMap.set(sessionId, {
+          ...session,
+          ...(msg.type === 'budget' ? { budgetStatus: msg.budget } : {}),
+          status: newStatus,
+          messages: newMessages,
+          pendingPermission,
+          lastSeq: msg.seq ?? session.lastSeq,
+        });
       }
       return newMap;
     });
   }, []);
 
   const connectSession = useCallback(
-    async (cwd: string, resumeSessionId?: string): Promise<string | null> => {
+    async (cwd: string, resumeSessionId?: string, launchOptions?: LaunchOptions, budget?: BudgetRule, priority?: number, isolated?: boolean, envProfile?: string): Promise<string | null> => {
       try {
         // If resuming, first fetch the existing session messages
         let existingMessages: WebSessionMessage[] = [];
@@ -54,36 +146,10 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
             const historyRes = await fetch(`${baseUrl}${API_ENDPOINTS.session(resumeSessionId)}`);
             if (historyRes.ok) {
               const historyData = await historyRes.json();
-              existingMessages = (historyData.messages || [])
-                .map((msg: DisplayMessage) => {
-                  if (msg.role === 'user') {
-                    return { type: 'text' as const, content: `> ${msg.content}` };
-                  } else if (msg.role === 'assistant') {
-                    const messages: WebSessionMessage[] = [];
-                    if (msg.toolUse) {
-                      messages.push({
-                        type: 'tool_use' as const,
-                        toolUse: { id: msg.id, name: msg.toolUse.name, input: msg.toolUse.input },
-                      });
-                    }
-                    if (msg.toolResult) {
-                      messages.push({
-                        type: 'tool_result' as const,
-                        toolResult: {
-                          toolUseId: msg.id,
-                          content: msg.toolResult.content,
-                          isError: msg.toolResult.isError,
-                        },
-                      });
-                    }
-                    if (msg.content) {
-                      messages.push({ type: 'text' as const, content: msg.content });
-                    }
-                    return messages;
-                  }
-                  return { type: 'text' as const, content: `[${msg.role}]` };
-                })
-                .flat();
+              existingMessages = (historyData.messages || []).map((message: DisplayMessage) => ({
+                type: 'message' as const,
+                message,
+              }));
             }
           } catch (e) {
             console.error('Failed to fetch session history:', e);
@@ -93,7 +159,7 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
         const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSession}`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({ cwd, resumeSessionId }),
+          body: JSON.stringify({ cwd, resumeSessionId, launchOptions, budget, priority, isolated, envProfile }),
         });
 
         if (res.ok) {
@@ -105,6 +171,11 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
             newMap.set(sessionId, {
               status: data.status || 'active',
               messages: existingMessages,
+              launchOptions: data.launchOptions,
+              budget: data.budget,
+              worktree: data.worktree,
+              envProfile: data.envProfile,
+              lastSeq: data.lastSeq ?? 0,
             });
             return newMap;
           });
@@ -122,39 +193,83 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
     [baseUrl]
   );
 
+  const forkSession = useCallback(
+    async (sessionId: string, messageId: string): Promise<string | null> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.sessionFork(sessionId)}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ messageId }),
+        });
+        const data: ForkSessionResponse = await res.json();
+        if (!res.ok) {
+          throw new Error(data.error || 'Failed to fork session');
+        }
+
+        setConnectedSessions((prev) => {
+          const newMap = new Map(prev);
+          newMap.set(data.sessionId, {
+            status: data.status || 'active',
+            messages: data.messages.map((message) => ({ type: 'message' as const, message })),
+            launchOptions: data.launchOptions,
+            budget: data.budget,
+            lastSeq: data.lastSeq ?? 0,
+          });
+          return newMap;
+        });
+        return data.sessionId;
+      } catch (err) {
+        console.error('Failed to fork session:', err);
+        return null;
+      }
+    },
+    [baseUrl]
+  );
+
   const disconnectSession = useCallback(
-    async (sessionId: string): Promise<void> => {
+    async (sessionId: string, worktree?: WorktreeAction, force?: boolean): Promise<string | null> => {
       try {
-        await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, '')}`, {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.stopWebSession(sessionId, worktree, force)}`, {
           method: 'DELETE',
         });
+        // A merge or delete refused over uncommitted changes leaves the session running
+        if (res.status === 409 || res.status === 400) {
+          const data = await res.json();
+          return data.error || 'Failed to stop session';
+        }
         setConnectedSessions((prev) => {
           const newMap = new Map(prev);
           newMap.delete(sessionId);
           return newMap;
         });
+        return null;
       } catch (err) {
         console.error('Failed to disconnect session:', err);
+        return 'Failed to stop session';
+      }
+    },
+    [baseUrl]
+  );
+
+  const fetchWorktreeStatus = useCallback(
+    async (sessionId: string): Promise<WorktreeStatus | null> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, 'worktree')}`);
+        if (!res.ok) return null;
+        const data = await res.json();
+        return data.status;
+      } catch (err) {
+        console.error('Failed to fetch worktree status:', err);
+        return null;
       }
     },
     [baseUrl]
   );
 
+  // The server queues the prompt and echoes it into the transcript once delivered;
+  // queue changes arrive as 'queue' events on the session's WebSocket subscription
   const sendMessage = useCallback(
     async (sessionId: string, message: string): Promise<boolean> => {
-      // Add user message to UI immediately
-      setConnectedSessions((prev) => {
-        const newMap = new Map(prev);
-        const session = newMap.get(sessionId);
-        if (session) {
-          newMap.set(sessionId, {
-            ...session,
-            messages: [...session.messages, { type: 'text', content: `> ${message}` }],
-          });
-        }
-        return newMap;
-      });
-
       try {
         const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, 'message')}`, {
           method: 'POST',
@@ -170,17 +285,134 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
     [baseUrl]
   );
 
+  const updateQueuedMessage = useCallback(
+    async (sessionId: string, messageId: string, content: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionQueueItem(sessionId, messageId)}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ content }),
+        });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to update queued message:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  const cancelQueuedMessage = useCallback(
+    async (sessionId: string, messageId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionQueueItem(sessionId, messageId)}`, {
+          method: 'DELETE',
+        });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to cancel queued message:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  // Raising the limit of a session paused in budget_exceeded resumes it
+  const updateSessionBudget = useCallback(
+    async (sessionId: string, budget: BudgetRule | null): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, 'budget')}`, {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ budget }),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Failed to update budget');
+        }
+        const data = await res.json();
+        setConnectedSessions((prev) => {
+          const session = prev.get(sessionId);
+          if (!session) return prev;
+          const newMap = new Map(prev);
+          newMap.set(sessionId, { ...session, budget: data.budget });
+          return newMap;
+        });
+        return true;
+      } catch (err) {
+        console.error('Failed to update budget:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  // Reorder a session waiting in the launch queue (higher starts first)
+  const setLaunchPriority = useCallback(
+    async (sessionId: string, priority: number): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.launchQueueEntry(sessionId)}`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ priority }),
+        });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to change launch priority:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
+  const cancelLaunch = useCallback(
+    async (sessionId: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.launchQueueEntry(sessionId)}`, {
+          method: 'DELETE',
+        });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to cancel launch:', err);
+        return false;
+      }
+    },
+    [baseUrl]
+  );
+
   const sendControlSignal = useCallback(
-    async (sessionId: string, signal: string): Promise<boolean> => {
+    async (sessionId: string, signal: string): Promise<ControlSignalResult | null> => {
       try {
         const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, 'control')}`, {
           method: 'POST',
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify({ signal }),
         });
-        return res.ok;
+        // The outcome is also shown in the transcript via the session's 'control' event
+        const data: ControlSignalResponse = await res.json();
+        if (!res.ok && !data.result) {
+          throw new Error(data.error || 'Failed to send control signal');
+        }
+        return data.result ?? null;
       } catch (err) {
         console.error('Failed to send control signal:', err);
+        return null;
+      }
+    },
+    [baseUrl]
+  );
+
+  const respondToPermission = useCallback(
+    async (sessionId: string, toolUseId: string, approved: boolean, feedback?: string): Promise<boolean> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.webSessionAction(sessionId, 'permission')}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ toolUseId, approved, feedback }),
+        });
+        return res.ok;
+      } catch (err) {
+        console.error('Failed to send permission response:', err);
         return false;
       }
     },
@@ -190,7 +422,8 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
   const fetchSessionMessages = useCallback(
     async (sessionId: string): Promise<DisplayMessage[]> => {
       try {
-        const res = await fetch(`${baseUrl}${API_ENDPOINTS.session(sessionId)}`);
+        // Tree view: subagent transcripts come nested under their Task call
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.session(sessionId)}?view=tree`);
         if (res.ok) {
           const data = await res.json();
           return data.messages || [];
@@ -204,13 +437,94 @@ export function useSession({ baseUrl }: UseSessionOptions): UseSessionReturn {
     [baseUrl]
   );
 
+  const fetchRestorableSessions = useCallback(async (): Promise<void> => {
+    try {
+      const res = await fetch(`${baseUrl}${API_ENDPOINTS.restorableWebSessions}`);
+      if (res.ok) {
+        const data = await res.json();
+        setRestorableSessions(data.sessions || []);
+      }
+    } catch (err) {
+      console.error('Failed to fetch restorable sessions:', err);
+    }
+  }, [baseUrl]);
+
+  // Resume sessions from the previous orchestrator run; returns the IDs that were restored
+  const restoreSessions = useCallback(
+    async (ids?: string[]): Promise<string[]> => {
+      try {
+        const res = await fetch(`${baseUrl}${API_ENDPOINTS.restoreWebSessions}`, {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ ids }),
+        });
+        if (!res.ok) {
+          const data = await res.json();
+          throw new Error(data.error || 'Failed to restore sessions');
+        }
+
+        const data: RestoreWebSessionsResponse = await res.json();
+        for (const failure of data.failed) {
+          console.warn(`Could not restore session ${failure.id}: ${failure.error}`);
+        }
+
+        setConnectedSessions((prev) => {
+          const newMap = new Map(prev);
+          for (const restored of data.restored) {
+            newMap.set(restored.id, {
+              status: restored.status,
+              messages: [],
+              launchOptions: restored.launchOptions,
+              budget: restored.budget,
+              worktree: restored.worktree,
+              lastSeq: restored.lastSeq,
+            });
+          }
+          return newMap;
+        });
+        const handled = new Set([...data.restored.map(r => r.id), ...data.failed.map(f => f.id)]);
+        setRestorableSessions((prev) => prev.filter(s => !handled.has(s.id)));
+
+        return data.restored.map(r => r.id);
+      } catch (err) {
+        console.error('Failed to restore sessions:', err);
+        return [];
+      }
+    },
+    [baseUrl]
+  );
+
+  const discardRestorableSession = useCallback(
+    async (id: string): Promise<void> => {
+      try {
+        await fetch(`${baseUrl}${API_ENDPOINTS.restorableWebSession(id)}`, { method: 'DELETE' });
+        setRestorableSessions((prev) => prev.filter(s => s.id !== id));
+      } catch (err) {
+        console.error('Failed to discard restorable session:', err);
+      }
+    },
+    [baseUrl]
+  );
+
   return {
     connectedSessions,
     connectSession,
+    forkSession,
     disconnectSession,
+    fetchWorktreeStatus,
     sendMessage,
+    updateQueuedMessage,
+    cancelQueuedMessage,
+    updateSessionBudget,
     sendControlSignal,
+    respondToPermission,
+    setLaunchPriority,
+    cancelLaunch,
     handleWebSessionMessage,
     fetchSessionMessages,
+    restorableSessions,
+    fetchRestorableSessions,
+    restoreSessions,
+    discardRestorableSession,
   };
 }
@@ -1,11 +1,15 @@
 import { useEffect, useRef, useState, useCallback } from 'react';
-import type { SessionSummary, DashboardStats, HookAlert, WebSessionMessage, NotificationSettings } from '@claude-orchestrator/shared';
+import type { SessionSummary, DashboardStats, HookAlert, BudgetAlert, ResourceAlert, WebSessionMessage, NotificationSettings, SubscriptionAck, LaunchQueueState, Job, Schedule } from '@claude-orchestrator/shared';
 import { RECONNECT_DELAY_MS, WS_EVENTS } from '@claude-orchestrator/shared';
 
 interface UseWebSocketOptions {
   serverUrl: string;
   enabledHooks: NotificationSettings['enabledHooks'];
   onHookAlert?: (alert: HookAlert) => void;
+  onBudgetAlert?: (alert: BudgetAlert) => void;
+  onResourceAlert?: (alert: ResourceAlert) => void;
+  onJobUpdate?: (job: Job) => void;
+  onSchedulesUpdate?: (schedules: Schedule[]) => void;
   onWebSessionMessage?: (sessionId: string, message: WebSessionMessage) => void;
 }
 
@@ -13,7 +17,8 @@ interface UseWebSocketReturn {
   connected: boolean;
   sessions: SessionSummary[];
   stats: DashboardStats;
-  subscribeToWebSession: (sessionId: string) => void;
+  launchQueue: LaunchQueueState;
+  subscribeToWebSession: (sessionId: string, sinceSeq?: number) => void;
   unsubscribeFromWebSession: (sessionId: string) => void;
 }
 
@@ -21,6 +26,10 @@ export function useWebSocket({
   serverUrl,
   enabledHooks,
   onHookAlert,
+  onBudgetAlert,
+  onResourceAlert,
+  onJobUpdate,
+  onSchedulesUpdate,
   onWebSessionMessage,
 }: UseWebSocketOptions): UseWebSocketReturn {
   const [connected, setConnected] = useState(false);
@@ -31,12 +40,23 @@ export function useWebSocket({
     pendingHooks: 0,
     projectCount: 0,
   });
+  const [launchQueue, setLaunchQueue] = useState<LaunchQueueState>({
+    queue: [],
+    limits: { projects: {} },
+    running: 0,
+  });
   const wsRef = useRef<WebSocket | null>(null);
   const reconnectTimeoutRef = useRef<ReturnType<typeof setTimeout>>();
+  // Web session subscriptions -> last event seq seen, replayed from on reconnect
+  const subscriptionsRef = useRef<Map<string, number>>(new Map());
 
   // Use refs for callbacks to avoid reconnection on callback changes
   const enabledHooksRef = useRef(enabledHooks);
   const onHookAlertRef = useRef(onHookAlert);
+  const onBudgetAlertRef = useRef(onBudgetAlert);
+  const onResourceAlertRef = useRef(onResourceAlert);
+  const onJobUpdateRef = useRef(onJobUpdate);
+  const onSchedulesUpdateRef = useRef(onSchedulesUpdate);
   const onWebSessionMessageRef = useRef(onWebSessionMessage);
 
   // Update refs when props change
@@ -48,6 +68,22 @@ export function useWebSocket({
     onHookAlertRef.current = onHookAlert;
   }, [onHookAlert]);
 
+  useEffect(() => {
+    onBudgetAlertRef.current = onBudgetAlert;
+  }, [onBudgetAlert]);
+
+  useEffect(() => {
+    onResourceAlertRef.current = onResourceAlert;
+  }, [onResourceAlert]);
+
+  useEffect(() => {
+    onJobUpdateRef.current = onJobUpdate;
+  }, [onJobUpdate]);
+
+  useEffect(() => {
+    onSchedulesUpdateRef.current = onSchedulesUpdate;
+  }, [onSchedulesUpdate]);
+
   useEffect(() => {
     onWebSessionMessageRef.current = onWebSessionMessage;
   }, [onWebSessionMessage]);
@@ -73,6 +109,14 @@ export function useWebSocket({
 
       ws.onopen = () => {
         if (isMounted) setConnected(true);
+        // Resubscribe and catch up on anything sent while we were disconnected
+        for (const [sessionId, sinceSeq] of subscriptionsRef.current) {
+          ws.send(JSON.stringify({
+            type: WS_EVENTS.subscribeWebSession,
+            sessionId,
+            sinceSeq,
+          }));
+        }
       };
 
       ws.onmessage = (event) => {
@@ -88,6 +132,14 @@ export function useWebSocket({
               if (payload.stats) {
                 setStats(payload.stats);
               }
+              if (payload.launchQueue) {
+                setLaunchQueue(payload.launchQueue);
+              }
+              break;
+            }
+
+            case WS_EVENTS.launchQueue: {
+              setLaunchQueue(data.data);
               break;
             }
 
@@ -99,12 +151,46 @@ export function useWebSocket({
               break;
             }
 
+            case WS_EVENTS.budgetAlert: {
+              onBudgetAlertRef.current?.({ ...data.data, receivedAt: Date.now() });
+              break;
+            }
+
+            case WS_EVENTS.resourceAlert: {
+              onResourceAlertRef.current?.({ ...data.data, receivedAt: Date.now() });
+              break;
+            }
+
+            case WS_EVENTS.jobUpdate: {
+              onJobUpdateRef.current?.(data.data);
+              break;
+            }
+
+            case WS_EVENTS.schedulesUpdate: {
+              onSchedulesUpdateRef.current?.(data.data);
+              break;
+            }
+
             case WS_EVENTS.webSession: {
               const sessionId = data.sessionId;
               const msg = data.data as WebSessionMessage;
+              const lastSeq = subscriptionsRef.current.get(sessionId);
+              if (lastSeq !== undefined && msg.seq !== undefined && msg.seq > lastSeq) {
+                subscriptionsRef.current.set(sessionId, msg.seq);
+              }
               onWebSessionMessageRef.current?.(sessionId, msg);
               break;
             }
+
+            case WS_EVENTS.subscriptionAck: {
+              const ack = data.data as SubscriptionAck;
+              if (ack.action === 'subscribe' && !ack.success) {
+                // Session is gone (e.g. orchestrator restarted); stop resubscribing to it
+                subscriptionsRef.current.delete(data.sessionId);
+                console.warn(`Failed to subscribe to web session ${data.sessionId}:`, ack.error);
+              }
+              break;
+            }
           }
         } catch (err) {
           console.error('WebSocket message error:', err);
@@ -137,16 +223,19 @@ export function useWebSocket({
     };
   }, [serverUrl]); // Only reconnect when serverUrl changes
 
-  const subscribeToWebSession = useCallback((sessionId: string) => {
+  const subscribeToWebSession = useCallback((sessionId: string, sinceSeq = 0) => {
+    subscriptionsRef.current.set(sessionId, sinceSeq);
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({
         type: WS_EVENTS.subscribeWebSession,
         sessionId,
+        sinceSeq,
       }));
     }
   }, []);
 
   const unsubscribeFromWebSession = useCallback((sessionId: string) => {
+    subscriptionsRef.current.delete(sessionId);
     if (wsRef.current?.readyState === WebSocket.OPEN) {
       wsRef.current.send(JSON.stringify({
         type: WS_EVENTS.unsubscribeWebSession,
@@ -159,6 +248,7 @@ export function useWebSocket({
     connected,
     sessions,
     stats,
+    launchQueue,
     subscribeToWebSession,
     unsubscribeFromWebSession,
   };
@@ -2,3 +2,5 @@ export * from './ansi';
 export * from './time';
 export * from './tools';
 export * from './toolResultFormatter';
+export * from './usage';
+export * from './projects';
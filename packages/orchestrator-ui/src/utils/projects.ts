@@ -0,0 +1,50 @@
+import type { SessionSummary } from '@claude-orchestrator/shared';
+
+export interface ProjectGroup {
+  path: string;
+  // Project name, with as much of its path as it takes to tell same-named projects apart
+  label: string;
+  sessions: SessionSummary[];
+}
+
+function pathSegments(projectPath: string): string[] {
+  return projectPath.split(/[\\/]/).filter(Boolean);
+}
+
+/**
+ * Shortest trailing part of each path that no other path ends in
+ */
+export function projectLabels(paths: string[]): Map<string, string> {
+  const labels = new Map<string, string>();
+  const segments = new Map(paths.map(p => [p, pathSegments(p)]));
+  for (const p of paths) {
+    const own = segments.get(p)!;
+    let depth = 1;
+    while (
+      depth < own.length &&
+      paths.some(other => other !== p && segments.get(other)!.slice(-depth).join('/') === own.slice(-depth).join('/'))
+    ) {
+      depth++;
+    }
+    labels.set(p, own.slice(-depth).join('/') || p);
+  }
+  return labels;
+}
+
+/**
+ * Group sessions by the directory they were started in, keeping the order they
+ * come in (a project is placed where its first session is)
+ */
+export function groupSessionsByProject(sessions: SessionSummary[]): ProjectGroup[] {
+  const groups = new Map<string, SessionSummary[]>();
+  for (const session of sessions) {
+    const group = groups.get(session.projectPath);
+    if (group) {
+      group.push(session);
+    } else {
+      groups.set(session.projectPath, [session]);
+    }
+  }
+  const labels = projectLabels([...groups.keys()]);
+  return [...groups].map(([path, grouped]) => ({ path, label: labels.get(path) || path, sessions: grouped }));
+}
@@ -0,0 +1,28 @@
+import type { SessionUsage } from '@claude-orchestrator/shared';
+
+export function formatTokens(count: number): string {
+  if (count >= 1_000_000) return `${(count / 1_000_000).toFixed(1)}M`;
+  if (count >= 1_000) return `${(count / 1_000).toFixed(1)}k`;
+  return String(count);
+}
+
+export function formatCost(usd: number): string {
+  if (usd > 0 && usd < 0.01) return '<$0.01';
+  return `$${usd.toFixed(2)}`;
+}
+
+export function getTotalTokens(usage: SessionUsage): number {
+  return usage.inputTokens + usage.outputTokens + usage.cacheCreationTokens + usage.cacheReadTokens;
+}
+
+// How full the context window is, as a whole percentage
+export function getContextPercent(usage: SessionUsage): number {
+  if (!usage.contextWindow) return 0;
+  return Math.min(100, Math.round((usage.contextTokens / usage.contextWindow) * 100));
+}
+
+export function getContextColor(percent: number): string {
+  if (percent >= 90) return 'text-red-400';
+  if (percent >= 70) return 'text-yellow-400';
+  return 'text-gray-400';
+}
@@ -1,5 +1,7 @@
-import { useMemo } from 'react';
-import type { SessionSummary, DashboardStats } from '@claude-orchestrator/shared';
+import { useMemo, useState, useEffect } from 'react';
+import type { SessionSummary, DashboardStats, UsageReport } from '@claude-orchestrator/shared';
+import { API_ENDPOINTS } from '@claude-orchestrator/shared';
+import { formatCost, formatTokens } from '../utils/usage';
 
 interface AnalyticsViewProps {
   sessions: SessionSummary[];
@@ -22,10 +24,12 @@ function BarChart({
   data,
   width,
   height,
+  formatValue = String,
 }: {
   data: ChartData[];
   width: number;
   height: number;
+  formatValue?: (value: number) => string;
 }) {
   if (data.length === 0) {
     return (
@@ -68,7 +72,7 @@ function BarChart({
               fontSize="12"
               fontWeight="bold"
             >
-              {item.value}
+              {formatValue(item.value)}
             </text>
             {/* X-axis Label */}
             <text
@@ -208,6 +212,40 @@ function StatCard({
 }
 
 export default function AnalyticsView({ sessions, stats }: AnalyticsViewProps) {
+  const [usageReport, setUsageReport] = useState<UsageReport | null>(null);
+
+  // Usage is aggregated on the server, which has the per-message timestamps
+  useEffect(() => {
+    const fetchUsage = () => {
+      fetch(API_ENDPOINTS.usage)
+        .then(res => (res.ok ? res.json() : null))
+        .then(report => setUsageReport(report))
+        .catch(err => console.error('Failed to fetch usage:', err));
+    };
+    fetchUsage();
+    const interval = setInterval(fetchUsage, 30000);
+    return () => clearInterval(interval);
+  }, []);
+
+  const usageCharts = useMemo(() => {
+    if (!usageReport) return { dailyCost: [], topProjects: [] };
+
+    // Last 7 days, including days without usage
+    const byDate = new Map(usageReport.byDay.map(day => [day.date, day.costUsd]));
+    const dailyCost: ChartData[] = [];
+    for (let i = 6; i >= 0; i--) {
+      const date = new Date(Date.now() - i * 24 * 60 * 60 * 1000);
+      const key = date.toISOString().slice(0, 10);
+      dailyCost.push({
+        label: `${date.getUTCMonth() + 1}/${date.getUTCDate()}`,
+        value: byDate.get(key) || 0,
+        color: '#10b981',
+      });
+    }
+
+    return { dailyCost, topProjects: usageReport.byProject.slice(0, 5) };
+  }, [usageReport]);
+
   // Calculate analytics data
   const analytics = useMemo(() => {
     const now = new Date();
@@ -362,8 +400,69 @@ export default function AnalyticsView({ sessions, stats }: AnalyticsViewProps) {
           />
         </div>
 
+        {/* Usage Stats */}
+        {usageReport && (
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4 mb-6">
+            <StatCard
+              title="Estimated Cost"
+              value={formatCost(usageReport.totals.costUsd)}
+              color="text-green-400"
+              icon="💵"
+            />
+            <StatCard
+              title="Output Tokens"
+              value={formatTokens(usageReport.totals.outputTokens)}
+              color="text-blue-300"
+            />
+            <StatCard
+              title="Input Tokens (incl. cache)"
+              value={formatTokens(
+                usageReport.totals.inputTokens +
+                  usageReport.totals.cacheCreationTokens +
+                  usageReport.totals.cacheReadTokens
+              )}
+              color="text-blue-300"
+            />
+          </div>
+        )}
+
         {/* Charts Grid */}
         <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+          {/* Daily Cost Chart */}
+          <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Cost (Last 7 Days, UTC)</h2>
+            <div className="h-64 flex items-center justify-center">
+              <BarChart data={usageCharts.dailyCost} width={400} height={240} formatValue={formatCost} />
+            </div>
+          </div>
+
+          {/* Cost by Project */}
+          <div className="bg-white/5 rounded-lg p-4 border border-white/10">
+            <h2 className="text-lg font-semibold mb-4">Cost by Project</h2>
+            <div className="space-y-3">
+              {usageCharts.topProjects.length > 0 ? (
+                usageCharts.topProjects.map((project) => (
+                  <div
+                    key={project.projectName}
+                    className="flex items-center justify-between p-3 bg-white/5 rounded-lg"
+                  >
+                    <div>
+                      <div className="font-medium">{project.projectName}</div>
+                      <div className="text-xs text-gray-500">
+                        {project.sessionCount} sessions · {formatTokens(project.outputTokens)} output tokens
+                      </div>
+                    </div>
+                    <div className="text-green-400 font-medium">{formatCost(project.costUsd)}</div>
+                  </div>
+                ))
+              ) : (
+                <div className="text-center text-gray-500 py-8">
+                  No usage recorded yet
+                </div>
+              )}
+            </div>
+          </div>
+
           {/* Tool Usage Chart */}
           <div className="bg-white/5 rounded-lg p-4 border border-white/10">
             <h2 className="text-lg font-semibold mb-4">Tool Usage</h2>
@@ -0,0 +1,274 @@
+import { useState, useEffect } from 'react';
+import type { Job, JobTarget, JobTargetStatus, CreateJobRequest } from '@claude-orchestrator/shared';
+import { useSessionTemplates } from '../hooks/useSessionTemplates';
+import { formatCost } from '../utils/usage';
+import { UnattendedToolAccess, EMPTY_TOOL_ACCESS, toolAccessLaunchOptions } from '../components/common';
+
+interface JobsViewProps {
+  jobs: Job[];
+  onCreateJob: (request: CreateJobRequest) => Promise<Job | null>;
+  onCancelJob: (jobId: string) => void;
+  onOpenSession: (target: JobTarget) => void;
+}
+
+const TARGET_STATUS_STYLES: Record<JobTargetStatus, string> = {
+  queued: 'bg-blue-500/20 text-blue-400',
+  running: 'bg-yellow-500/20 text-yellow-400',
+  succeeded: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-gray-500/20 text-gray-400',
+};
+
+function NewJobForm({ onCreateJob, onCreated }: { onCreateJob: JobsViewProps['onCreateJob']; onCreated: (job: Job) => void }) {
+  const { templates } = useSessionTemplates();
+  const [name, setName] = useState('');
+  const [prompt, setPrompt] = useState('');
+  const [cwdText, setCwdText] = useState('');
+  const [templateIds, setTemplateIds] = useState<Set<string>>(new Set());
+  const [priority, setPriority] = useState(0);
+  const [access, setAccess] = useState(EMPTY_TOOL_ACCESS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Directories typed in, plus the paths of the selected templates
+  const cwds = [...new Set([
+    ...cwdText.split('\n').map(line => line.trim()).filter(Boolean),
+    ...templates.filter(t => templateIds.has(t.id)).map(t => t.path),
+  ])];
+
+  const toggleTemplate = (id: string) => {
+    setTemplateIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const launchOptions = toolAccessLaunchOptions(access);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    const job = await onCreateJob({ name: name || undefined, prompt, cwds, priority, launchOptions });
+    setSubmitting(false);
+    if (!job) {
+      setError('Failed to start job');
+      return;
+    }
+    setName('');
+    setPrompt('');
+    setCwdText('');
+    setTemplateIds(new Set());
+    setAccess(EMPTY_TOOL_ACCESS);
+    onCreated(job);
+  };
+
+  return (
+    <div className="p-4 border-b border-white/10 space-y-2">
+      <h2 className="text-xl font-semibold mb-2">New Job</h2>
+      <input
+        type="text"
+        value={name}
+        onChange={(e) => setName(e.target.value)}
+        placeholder="Name (optional)"
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded text-sm focus:outline-none focus:border-blue-500"
+      />
+      <textarea
+        value={prompt}
+        onChange={(e) => setPrompt(e.target.value)}
+        placeholder="Prompt to run in every repository"
+        rows={3}
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded text-sm focus:outline-none focus:border-blue-500"
+      />
+      <textarea
+        value={cwdText}
+        onChange={(e) => setCwdText(e.target.value)}
+        placeholder="Repository paths, one per line"
+        rows={3}
+        className="w-full px-3 py-2 bg-white/5 border border-white/10 rounded text-sm font-mono focus:outline-none focus:border-blue-500"
+      />
+      {templates.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {templates.map((template) => (
+            <button
+              key={template.id}
+              onClick={() => toggleTemplate(template.id)}
+              title={template.path}
+              className={`text-xs px-2 py-0.5 rounded transition-colors ${
+                templateIds.has(template.id)
+                  ? 'bg-blue-500/30 text-blue-300'
+                  : 'bg-white/5 text-gray-400 hover:bg-white/10'
+              }`}
+            >
+              {template.name}
+            </button>
+          ))}
+        </div>
+      )}
+      <UnattendedToolAccess value={access} onChange={setAccess} />
+      <div className="flex items-center gap-2">
+        <label className="text-xs text-gray-500">Priority</label>
+        <input
+          type="number"
+          value={priority}
+          onChange={(e) => setPriority(Number(e.target.value) || 0)}
+          className="w-20 px-2 py-1 bg-white/5 border border-white/10 rounded text-sm focus:outline-none focus:border-blue-500"
+        />
+        <div className="flex-1" />
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !prompt.trim() || cwds.length === 0 || !launchOptions}
+          className="px-4 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded text-sm transition-colors"
+        >
+          Run in {cwds.length} {cwds.length === 1 ? 'repository' : 'repositories'}
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+function TargetRow({ target, onOpen }: { target: JobTarget; onOpen: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const detail = target.error || target.resultText;
+
+  return (
+    <div className="p-3 border-b border-white/5">
+      <div className="flex items-center gap-3">
+        <span className={`text-xs px-2 py-0.5 rounded ${TARGET_STATUS_STYLES[target.status]}`}>
+          {target.status}
+        </span>
+        <div className="flex-1 min-w-0">
+          <div className="font-medium truncate">{target.projectName}</div>
+          <div className="text-xs text-gray-500 truncate">{target.cwd}</div>
+        </div>
+        {target.exitCode !== undefined && (
+          <span className="text-xs text-gray-500">exit {target.exitCode ?? '-'}</span>
+        )}
+        <span className="text-xs text-gray-500">{formatCost(target.costUsd)}</span>
+        {(target.sessionId || target.claudeSessionId) && (
+          <button onClick={onOpen} className="text-xs text-blue-400 hover:underline">
+            Open session
+          </button>
+        )}
+      </div>
+      {detail && (
+        <div
+          onClick={() => setExpanded(!expanded)}
+          className={`mt-2 text-xs whitespace-pre-wrap cursor-pointer ${
+            target.status === 'failed' ? 'text-red-300' : 'text-gray-400'
+          } ${expanded ? '' : 'line-clamp-2'}`}
+        >
+          {detail}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function JobsView({ jobs, onCreateJob, onCancelJob, onOpenSession }: JobsViewProps) {
+  const [selectedJobId, setSelectedJobId] = useState<string | null>(null);
+  const selectedJob = jobs.find(j => j.id === selectedJobId) ?? jobs[0];
+
+  useEffect(() => {
+    if (selectedJobId && !jobs.some(j => j.id === selectedJobId)) {
+      setSelectedJobId(null);
+    }
+  }, [jobs, selectedJobId]);
+
+  return (
+    <div className="flex h-full w-full">
+      {/* Job List */}
+      <div className="w-96 border-r border-white/10 flex flex-col">
+        <NewJobForm onCreateJob={onCreateJob} onCreated={(job) => setSelectedJobId(job.id)} />
+        <div className="flex-1 overflow-y-auto">
+          {jobs.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">
+              <div>No jobs yet</div>
+              <div className="text-xs mt-1">Run one prompt across several repositories</div>
+            </div>
+          ) : (
+            jobs.map((job) => (
+              <div
+                key={job.id}
+                onClick={() => setSelectedJobId(job.id)}
+                className={`p-4 border-b border-white/5 cursor-pointer transition-colors ${
+                  selectedJob?.id === job.id ? 'bg-white/10' : 'hover:bg-white/5'
+                }`}
+              >
+                <div className="font-medium truncate">{job.name || job.prompt}</div>
+                <div className="flex items-center gap-2 mt-1 text-xs">
+                  <span className="text-green-400">{job.summary.succeeded} ok</span>
+                  <span className="text-red-400">{job.summary.failed} failed</span>
+                  {job.summary.status === 'running' && (
+                    <span className="text-yellow-400">{job.summary.queued + job.summary.running} pending</span>
+                  )}
+                  <span className="flex-1" />
+                  <span className="text-gray-500">{formatCost(job.summary.costUsd)}</span>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Job Detail */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {selectedJob ? (
+          <>
+            <div className="p-4 border-b border-white/10">
+              <div className="flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <h2 className="text-xl font-semibold truncate">{selectedJob.name || 'Job'}</h2>
+                  <div className="text-xs text-gray-500 mt-1">
+                    Started {new Date(selectedJob.createdAt).toLocaleString()}
+                    {selectedJob.finishedAt && ` · finished ${new Date(selectedJob.finishedAt).toLocaleString()}`}
+                  </div>
+                </div>
+                {selectedJob.summary.status === 'running' && (
+                  <button
+                    onClick={() => onCancelJob(selectedJob.id)}
+                    className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-sm transition-colors"
+                  >
+                    Cancel job
+                  </button>
+                )}
+              </div>
+              <div className="mt-3 p-3 bg-white/5 rounded text-sm whitespace-pre-wrap">{selectedJob.prompt}</div>
+              <div className="grid grid-cols-4 gap-2 mt-3">
+                <div className="stat-card">
+                  <div className="text-2xl font-bold text-green-400">{selectedJob.summary.succeeded}</div>
+                  <div className="text-xs text-gray-500">Succeeded</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-2xl font-bold text-red-400">{selectedJob.summary.failed}</div>
+                  <div className="text-xs text-gray-500">Failed</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-2xl font-bold text-yellow-400">
+                    {selectedJob.summary.queued + selectedJob.summary.running}
+                  </div>
+                  <div className="text-xs text-gray-500">Pending</div>
+                </div>
+                <div className="stat-card">
+                  <div className="text-2xl font-bold text-blue-400">{formatCost(selectedJob.summary.costUsd)}</div>
+                  <div className="text-xs text-gray-500">Cost</div>
+                </div>
+              </div>
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {selectedJob.targets.map((target) => (
+                <TargetRow key={target.cwd} target={target} onOpen={() => onOpenSession(target)} />
+              ))}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            Start a job to see its results here
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,314 @@
+import { useState, useEffect } from 'react';
+import type { Schedule, ScheduleInput, ScheduleRun, ScheduleRunStatus, MissedRunPolicy } from '@claude-orchestrator/shared';
+import { formatCost } from '../utils/usage';
+import { UnattendedToolAccess, EMPTY_TOOL_ACCESS, toolAccessLaunchOptions } from '../components/common';
+
+interface SchedulesViewProps {
+  schedules: Schedule[];
+  onCreateSchedule: (input: ScheduleInput) => Promise<string | null>;
+  onUpdateSchedule: (id: string, input: Partial<ScheduleInput>) => Promise<string | null>;
+  onDeleteSchedule: (id: string) => void;
+  onRunSchedule: (id: string) => void;
+  onOpenSession: (schedule: Schedule, run: ScheduleRun) => void;
+}
+
+const RUN_STATUS_STYLES: Record<ScheduleRunStatus, string> = {
+  queued: 'bg-blue-500/20 text-blue-400',
+  running: 'bg-yellow-500/20 text-yellow-400',
+  succeeded: 'bg-green-500/20 text-green-400',
+  failed: 'bg-red-500/20 text-red-400',
+  cancelled: 'bg-gray-500/20 text-gray-400',
+  skipped: 'bg-gray-500/20 text-gray-400',
+};
+
+const MISSED_RUN_LABELS: Record<MissedRunPolicy, string> = {
+  skip: 'Skip missed runs',
+  run_once: 'Catch up with one run',
+};
+
+const EMPTY_FORM: ScheduleInput = { name: '', cron: '', cwd: '', prompt: '', enabled: true, missedRuns: 'skip' };
+
+function toForm(schedule?: Schedule): ScheduleInput {
+  if (!schedule) return EMPTY_FORM;
+  const { name, cron, cwd, prompt, enabled, missedRuns } = schedule;
+  return { name, cron, cwd, prompt, enabled, missedRuns };
+}
+
+function ScheduleForm({
+  schedule,
+  onSave,
+  onDone,
+}: {
+  // Schedule being edited; a new one is created when unset
+  schedule?: Schedule;
+  onSave: (input: ScheduleInput) => Promise<string | null>;
+  onDone: () => void;
+}) {
+  const [form, setForm] = useState<ScheduleInput>(toForm(schedule));
+  // Only for a new schedule; an edit keeps the launch options it has
+  const [access, setAccess] = useState(EMPTY_TOOL_ACCESS);
+  const [submitting, setSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setForm(toForm(schedule));
+    setAccess(EMPTY_TOOL_ACCESS);
+    setError(null);
+  }, [schedule?.id]);
+
+  const update = (fields: Partial<ScheduleInput>) => setForm(prev => ({ ...prev, ...fields }));
+
+  const launchOptions = schedule ? undefined : toolAccessLaunchOptions(access);
+
+  const handleSubmit = async () => {
+    setSubmitting(true);
+    setError(null);
+    const failure = await onSave({ ...form, name: form.name || undefined, ...(launchOptions && { launchOptions }) });
+    setSubmitting(false);
+    if (failure) {
+      setError(failure);
+      return;
+    }
+    if (!schedule) {
+      setForm(EMPTY_FORM);
+      setAccess(EMPTY_TOOL_ACCESS);
+    }
+    onDone();
+  };
+
+  const inputClass = 'w-full px-3 py-2 bg-white/5 border border-white/10 rounded text-sm focus:outline-none focus:border-blue-500';
+
+  return (
+    <div className="space-y-2">
+      <input
+        type="text"
+        value={form.name}
+        onChange={(e) => update({ name: e.target.value })}
+        placeholder="Name (optional)"
+        className={inputClass}
+      />
+      <input
+        type="text"
+        value={form.cron}
+        onChange={(e) => update({ cron: e.target.value })}
+        placeholder="Cron, e.g. 0 9 * * 1-5"
+        className={`${inputClass} font-mono`}
+      />
+      <input
+        type="text"
+        value={form.cwd}
+        onChange={(e) => update({ cwd: e.target.value })}
+        placeholder="Project path"
+        className={`${inputClass} font-mono`}
+      />
+      <textarea
+        value={form.prompt}
+        onChange={(e) => update({ prompt: e.target.value })}
+        placeholder="Prompt to run"
+        rows={3}
+        className={inputClass}
+      />
+      {!schedule && <UnattendedToolAccess value={access} onChange={setAccess} />}
+      <div className="flex items-center gap-2">
+        <label className="flex items-center gap-1 text-xs text-gray-400">
+          <input
+            type="checkbox"
+            checked={form.enabled ?? true}
+            onChange={(e) => update({ enabled: e.target.checked })}
+          />
+          Enabled
+        </label>
+        <select
+          value={form.missedRuns ?? 'skip'}
+          onChange={(e) => update({ missedRuns: e.target.value as MissedRunPolicy })}
+          className="px-2 py-1 bg-white/5 border border-white/10 rounded text-xs focus:outline-none focus:border-blue-500"
+        >
+          {(Object.keys(MISSED_RUN_LABELS) as MissedRunPolicy[]).map((policy) => (
+            <option key={policy} value={policy}>{MISSED_RUN_LABELS[policy]}</option>
+          ))}
+        </select>
+        <div className="flex-1" />
+        <button
+          onClick={handleSubmit}
+          disabled={submitting || !form.cron.trim() || !form.cwd.trim() || !form.prompt.trim() || (!schedule && !launchOptions)}
+          className="px-4 py-1.5 bg-blue-500 hover:bg-blue-600 disabled:opacity-50 text-white rounded text-sm transition-colors"
+        >
+          {schedule ? 'Save' : 'Add schedule'}
+        </button>
+      </div>
+      {error && <div className="text-xs text-red-400">{error}</div>}
+    </div>
+  );
+}
+
+function RunRow({ run, onOpen }: { run: ScheduleRun; onOpen: () => void }) {
+  const [expanded, setExpanded] = useState(false);
+  const detail = run.error || run.reason || run.resultText;
+
+  return (
+    <div className="p-3 border-b border-white/5">
+      <div className="flex items-center gap-3">
+        <span className={`text-xs px-2 py-0.5 rounded ${RUN_STATUS_STYLES[run.status]}`}>
+          {run.status}
+        </span>
+        <div className="flex-1 min-w-0 text-sm">
+          {new Date(run.scheduledFor).toLocaleString()}
+          {run.missed && <span className="ml-2 text-xs text-yellow-400">missed</span>}
+        </div>
+        {run.exitCode !== undefined && (
+          <span className="text-xs text-gray-500">exit {run.exitCode ?? '-'}</span>
+        )}
+        {run.costUsd !== undefined && <span className="text-xs text-gray-500">{formatCost(run.costUsd)}</span>}
+        {(run.sessionId || run.claudeSessionId) && (
+          <button onClick={onOpen} className="text-xs text-blue-400 hover:underline">
+            Open session
+          </button>
+        )}
+      </div>
+      {detail && (
+        <div
+          onClick={() => setExpanded(!expanded)}
+          className={`mt-2 text-xs whitespace-pre-wrap cursor-pointer ${
+            run.status === 'failed' ? 'text-red-300' : 'text-gray-400'
+          } ${expanded ? '' : 'line-clamp-2'}`}
+        >
+          {detail}
+        </div>
+      )}
+    </div>
+  );
+}
+
+export default function SchedulesView({
+  schedules,
+  onCreateSchedule,
+  onUpdateSchedule,
+  onDeleteSchedule,
+  onRunSchedule,
+  onOpenSession,
+}: SchedulesViewProps) {
+  const [selectedScheduleId, setSelectedScheduleId] = useState<string | null>(null);
+  const [editing, setEditing] = useState(false);
+  const selectedSchedule = schedules.find(s => s.id === selectedScheduleId) ?? schedules[0];
+
+  useEffect(() => {
+    if (selectedScheduleId && !schedules.some(s => s.id === selectedScheduleId)) {
+      setSelectedScheduleId(null);
+    }
+  }, [schedules, selectedScheduleId]);
+
+  return (
+    <div className="flex h-full w-full">
+      {/* Schedule List */}
+      <div className="w-96 border-r border-white/10 flex flex-col">
+        <div className="p-4 border-b border-white/10">
+          <h2 className="text-xl font-semibold mb-2">New Schedule</h2>
+          <ScheduleForm onSave={onCreateSchedule} onDone={() => {}} />
+        </div>
+        <div className="flex-1 overflow-y-auto">
+          {schedules.length === 0 ? (
+            <div className="p-4 text-center text-gray-500">
+              <div>No schedules yet</div>
+              <div className="text-xs mt-1">Run a prompt in a project on a cron schedule</div>
+            </div>
+          ) : (
+            schedules.map((schedule) => (
+              <div
+                key={schedule.id}
+                onClick={() => {
+                  setSelectedScheduleId(schedule.id);
+                  setEditing(false);
+                }}
+                className={`p-4 border-b border-white/5 cursor-pointer transition-colors ${
+                  selectedSchedule?.id === schedule.id ? 'bg-white/10' : 'hover:bg-white/5'
+                }`}
+              >
+                <div className="flex items-center gap-2">
+                  <div className="font-medium truncate flex-1">{schedule.name}</div>
+                  {!schedule.enabled && <span className="text-xs text-gray-500">disabled</span>}
+                </div>
+                <div className="flex items-center gap-2 mt-1 text-xs text-gray-500">
+                  <span className="font-mono">{schedule.cron}</span>
+                  <span className="flex-1" />
+                  {schedule.nextRunAt && <span>next {new Date(schedule.nextRunAt).toLocaleString()}</span>}
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </div>
+
+      {/* Schedule Detail */}
+      <div className="flex-1 flex flex-col min-w-0">
+        {selectedSchedule ? (
+          <>
+            <div className="p-4 border-b border-white/10">
+              <div className="flex items-start gap-4">
+                <div className="flex-1 min-w-0">
+                  <h2 className="text-xl font-semibold truncate">{selectedSchedule.name}</h2>
+                  <div className="text-xs text-gray-500 mt-1 truncate">
+                    <span className="font-mono">{selectedSchedule.cron}</span> · {selectedSchedule.cwd}
+                  </div>
+                  <div className="text-xs text-gray-500 mt-1">
+                    {selectedSchedule.nextRunAt
+                      ? `Next run ${new Date(selectedSchedule.nextRunAt).toLocaleString()}`
+                      : 'Disabled'}
+                    {` · ${MISSED_RUN_LABELS[selectedSchedule.missedRuns].toLowerCase()}`}
+                  </div>
+                </div>
+                <button
+                  onClick={() => onRunSchedule(selectedSchedule.id)}
+                  className="px-3 py-1.5 bg-blue-500/20 hover:bg-blue-500/30 text-blue-400 rounded text-sm transition-colors"
+                >
+                  Run now
+                </button>
+                <button
+                  onClick={() => onUpdateSchedule(selectedSchedule.id, { enabled: !selectedSchedule.enabled })}
+                  className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded text-sm transition-colors"
+                >
+                  {selectedSchedule.enabled ? 'Disable' : 'Enable'}
+                </button>
+                <button
+                  onClick={() => setEditing(!editing)}
+                  className="px-3 py-1.5 bg-white/5 hover:bg-white/10 text-gray-300 rounded text-sm transition-colors"
+                >
+                  {editing ? 'Close' : 'Edit'}
+                </button>
+                <button
+                  onClick={() => onDeleteSchedule(selectedSchedule.id)}
+                  className="px-3 py-1.5 bg-red-500/20 hover:bg-red-500/30 text-red-400 rounded text-sm transition-colors"
+                >
+                  Delete
+                </button>
+              </div>
+              {editing ? (
+                <div className="mt-3">
+                  <ScheduleForm
+                    schedule={selectedSchedule}
+                    onSave={(input) => onUpdateSchedule(selectedSchedule.id, input)}
+                    onDone={() => setEditing(false)}
+                  />
+                </div>
+              ) : (
+                <div className="mt-3 p-3 bg-white/5 rounded text-sm whitespace-pre-wrap">{selectedSchedule.prompt}</div>
+              )}
+            </div>
+            <div className="flex-1 overflow-y-auto">
+              {selectedSchedule.runs.length === 0 ? (
+                <div className="p-4 text-center text-gray-500">No runs yet</div>
+              ) : (
+                selectedSchedule.runs.map((run) => (
+                  <RunRow key={run.id} run={run} onOpen={() => onOpenSession(selectedSchedule, run)} />
+                ))
+              )}
+            </div>
+          </>
+        ) : (
+          <div className="flex-1 flex items-center justify-center text-gray-500">
+            Add a schedule to see its runs here
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,198 @@
+import { useMemo, useState } from 'react';
+import type { SessionSummary, SearchHit, SearchResponse, SearchRole } from '@claude-orchestrator/shared';
+import { API_ENDPOINTS } from '@claude-orchestrator/shared';
+import { formatRelativeTime } from '../utils/time';
+import { groupSessionsByProject } from '../utils/projects';
+
+interface SearchViewProps {
+  sessions: SessionSummary[];
+  onOpenHit: (hit: SearchHit) => void;
+}
+
+interface SearchFilters {
+  project: string;
+  branch: string;
+  role: '' | SearchRole;
+  tool: string;
+  from: string;
+  to: string;
+}
+
+const ROLE_LABELS: Record<SearchRole, string> = {
+  user: 'Prompt',
+  assistant: 'Reply',
+  tool_use: 'Tool call',
+  tool_result: 'Tool output',
+};
+
+const EMPTY_FILTERS: SearchFilters = { project: '', branch: '', role: '', tool: '', from: '', to: '' };
+
+const selectClass = 'bg-white/5 border border-white/10 rounded px-2 py-1 text-sm text-white focus:outline-none focus:border-blue-500';
+
+// Wrap each occurrence of a query word in <mark>
+function HighlightedSnippet({ snippet, query }: { snippet: string; query: string }) {
+  const words = query.toLowerCase().match(/[\p{L}\p{N}]{2,}/gu) || [];
+  if (words.length === 0) return <>{snippet}</>;
+
+  const pattern = new RegExp(`(${words.map(w => w.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|')})`, 'gi');
+  return (
+    <>
+      {snippet.split(pattern).map((part, i) =>
+        i % 2 === 1 ? <mark key={i} className="bg-yellow-500/30 text-yellow-200 rounded px-0.5">{part}</mark> : part
+      )}
+    </>
+  );
+}
+
+export default function SearchView({ sessions, onOpenHit }: SearchViewProps) {
+  const [query, setQuery] = useState('');
+  const [filters, setFilters] = useState<SearchFilters>(EMPTY_FILTERS);
+  const [result, setResult] = useState<SearchResponse | null>(null);
+  const [searching, setSearching] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const projects = useMemo(
+    () => groupSessionsByProject(sessions).sort((a, b) => a.label.localeCompare(b.label)),
+    [sessions]
+  );
+  const branches = useMemo(
+    () => [...new Set(sessions.map(s => s.gitBranch).filter((b): b is string => !!b))].sort(),
+    [sessions]
+  );
+
+  const update = (fields: Partial<SearchFilters>) => setFilters(prev => ({ ...prev, ...fields }));
+
+  const runSearch = async () => {
+    if (!query.trim()) return;
+    setSearching(true);
+    setError(null);
+    try {
+      const params = new URLSearchParams({ q: query.trim() });
+      if (filters.project) params.set('project', filters.project);
+      if (filters.branch) params.set('branch', filters.branch);
+      if (filters.role) params.set('role', filters.role);
+      if (filters.tool.trim()) params.set('tool', filters.tool.trim());
+      if (filters.from) params.set('from', new Date(filters.from).toISOString());
+      // Through the end of the chosen day
+      if (filters.to) params.set('to', new Date(`${filters.to}T23:59:59.999`).toISOString());
+
+      const res = await fetch(`${API_ENDPOINTS.search}?${params}`);
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Search failed');
+      }
+      setResult(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : String(err));
+      setResult(null);
+    } finally {
+      setSearching(false);
+    }
+  };
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0">
+      {/* Query and filters */}
+      <div className="p-4 border-b border-white/10 space-y-2">
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && runSearch()}
+            placeholder="Search all transcripts, e.g. oauth redirect"
+            className="flex-1 bg-white/5 border border-white/10 rounded px-3 py-2 text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+            autoFocus
+          />
+          <button
+            onClick={runSearch}
+            disabled={searching || !query.trim()}
+            className="px-4 py-2 bg-blue-500 hover:bg-blue-600 text-white rounded text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            {searching ? 'Searching...' : 'Search'}
+          </button>
+        </div>
+        <div className="flex flex-wrap gap-2 items-center">
+          <select value={filters.project} onChange={(e) => update({ project: e.target.value })} className={selectClass}>
+            <option value="">All Projects</option>
+            {projects.map((project) => (
+              <option key={project.path} value={project.path}>{project.label}</option>
+            ))}
+          </select>
+          <select value={filters.branch} onChange={(e) => update({ branch: e.target.value })} className={selectClass}>
+            <option value="">All Branches</option>
+            {branches.map((branch) => (
+              <option key={branch} value={branch}>⎇ {branch}</option>
+            ))}
+          </select>
+          <select
+            value={filters.role}
+            onChange={(e) => update({ role: e.target.value as SearchFilters['role'] })}
+            className={selectClass}
+          >
+            <option value="">Anywhere</option>
+            {(Object.keys(ROLE_LABELS) as SearchRole[]).map((role) => (
+              <option key={role} value={role}>{ROLE_LABELS[role]}</option>
+            ))}
+          </select>
+          <input
+            type="text"
+            value={filters.tool}
+            onChange={(e) => update({ tool: e.target.value })}
+            placeholder="Tool (e.g. Bash)"
+            className={`${selectClass} w-36`}
+          />
+          <input type="date" value={filters.from} onChange={(e) => update({ from: e.target.value })} className={selectClass} title="From" />
+          <span className="text-gray-500 text-sm">to</span>
+          <input type="date" value={filters.to} onChange={(e) => update({ to: e.target.value })} className={selectClass} title="To" />
+          {Object.values(filters).some(Boolean) && (
+            <button onClick={() => setFilters(EMPTY_FILTERS)} className="text-xs text-gray-500 hover:text-white">
+              Clear filters
+            </button>
+          )}
+        </div>
+      </div>
+
+      {/* Results */}
+      <div className="flex-1 overflow-y-auto">
+        {error && <div className="p-4 text-sm text-red-400">{error}</div>}
+        {result && (
+          <div className="px-4 py-2 text-xs text-gray-500 border-b border-white/5">
+            {result.total === 0
+              ? 'No matches'
+              : `${result.total} match${result.total === 1 ? '' : 'es'}${result.total > result.hits.length ? `, showing the best ${result.hits.length}` : ''}`}
+          </div>
+        )}
+        {!result && !error && (
+          <div className="p-8 text-center text-gray-500">
+            <div className="text-3xl mb-2">🔎</div>
+            <div>Find prompts, replies, commands and tool output across every session</div>
+          </div>
+        )}
+        {result?.hits.map((hit) => (
+          <div
+            key={`${hit.sessionId}:${hit.uuid}`}
+            onClick={() => onOpenHit(hit)}
+            className="p-4 border-b border-white/5 cursor-pointer hover:bg-white/5 transition-colors"
+          >
+            <div className="flex items-center gap-2 text-xs">
+              <span className="font-medium text-white text-sm">{hit.projectName}</span>
+              {hit.gitBranch && <span className="text-gray-500">⎇ {hit.gitBranch}</span>}
+              {hit.roles.map((role) => (
+                <span key={role} className="px-1.5 py-0.5 rounded bg-white/10 text-gray-300">{ROLE_LABELS[role]}</span>
+              ))}
+              {hit.tools?.map((tool) => (
+                <span key={tool} className="px-1.5 py-0.5 rounded bg-purple-500/20 text-purple-300">{tool}</span>
+              ))}
+              <span className="flex-1" />
+              <span className="text-gray-500">{formatRelativeTime(hit.timestamp)}</span>
+            </div>
+            <div className="mt-1 text-sm text-gray-300 font-mono break-words">
+              <HighlightedSnippet snippet={hit.snippet} query={result.query} />
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -1,4 +1,6 @@
 import { useState, useEffect } from 'react';
+import type { BudgetConfig, ConcurrencyLimits, LaunchQueueState, ResourceLimitConfig, EnvProfile, SecretStoreStatus } from '@claude-orchestrator/shared';
+import { API_ENDPOINTS } from '@claude-orchestrator/shared';
 
 interface ClaudeSettings {
   [key: string]: unknown;
@@ -31,6 +33,15 @@ interface ConfigPaths {
   hooks: string;
 }
 
+// Profiles as edited in the Environment tab: keyed by name, without updatedAt
+function profilesToJson(profiles: EnvProfile[]): string {
+  return JSON.stringify(
+    Object.fromEntries(profiles.map(({ name, updatedAt: _updatedAt, ...rest }) => [name, rest])),
+    null,
+    2
+  );
+}
+
 export default function SettingsView() {
   const [settings, setSettings] = useState<ClaudeSettings>({});
   const [settingsLocal, setSettingsLocal] = useState<ClaudeSettings>({});
@@ -39,13 +50,29 @@ export default function SettingsView() {
   const [claudeMd, setClaudeMd] = useState<ClaudeMdContent>({ exists: false, content: '', path: '' });
   const [configPaths, setConfigPaths] = useState<ConfigPaths | null>(null);
   const [loading, setLoading] = useState(true);
-  const [activeTab, setActiveTab] = useState<'settings' | 'local' | 'commands' | 'hooks' | 'claudemd'>('settings');
+  const [budgets, setBudgets] = useState<BudgetConfig>({ projects: {} });
+  const [concurrency, setConcurrency] = useState<ConcurrencyLimits>({ projects: {} });
+  const [resourceLimits, setResourceLimits] = useState<ResourceLimitConfig>({ projects: {} });
+  const [envProfiles, setEnvProfiles] = useState<EnvProfile[]>([]);
+  const [secretStore, setSecretStore] = useState<SecretStoreStatus>({ exists: false, unlocked: false, names: [] });
+  const [activeTab, setActiveTab] = useState<'settings' | 'local' | 'commands' | 'hooks' | 'claudemd' | 'budgets' | 'concurrency' | 'limits' | 'environment'>('settings');
   const [editingSettings, setEditingSettings] = useState(false);
   const [editingLocal, setEditingLocal] = useState(false);
   const [editingClaudeMd, setEditingClaudeMd] = useState(false);
+  const [editingBudgets, setEditingBudgets] = useState(false);
+  const [editingConcurrency, setEditingConcurrency] = useState(false);
+  const [editingResourceLimits, setEditingResourceLimits] = useState(false);
   const [settingsJson, setSettingsJson] = useState('');
   const [localJson, setLocalJson] = useState('');
   const [claudeMdText, setClaudeMdText] = useState('');
+  const [budgetsJson, setBudgetsJson] = useState('');
+  const [concurrencyJson, setConcurrencyJson] = useState('');
+  const [resourceLimitsJson, setResourceLimitsJson] = useState('');
+  const [editingEnvProfiles, setEditingEnvProfiles] = useState(false);
+  const [envProfilesJson, setEnvProfilesJson] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [secretName, setSecretName] = useState('');
+  const [secretValue, setSecretValue] = useState('');
   const [saveStatus, setSaveStatus] = useState<'idle' | 'saving' | 'success' | 'error'>('idle');
   const [error, setError] = useState('');
 
@@ -56,13 +83,23 @@ export default function SettingsView() {
   const loadAllConfig = async () => {
     try {
       setLoading(true);
-      const [configRes, pathsRes] = await Promise.all([
+      const [configRes, pathsRes, budgetsRes, launchQueueRes, resourceLimitsRes, envProfilesRes, secretsRes] = await Promise.all([
         fetch('/api/config'),
-        fetch('/api/config-paths')
+        fetch('/api/config-paths'),
+        fetch(API_ENDPOINTS.budgets),
+        fetch(API_ENDPOINTS.launchQueue),
+        fetch(API_ENDPOINTS.resourceLimits),
+        fetch(API_ENDPOINTS.envProfiles),
+        fetch(API_ENDPOINTS.secrets)
       ]);
 
       const config = await configRes.json();
       const paths = await pathsRes.json();
+      const budgetConfig: BudgetConfig = await budgetsRes.json();
+      const launchQueue: LaunchQueueState = await launchQueueRes.json();
+      const resourceLimitConfig: ResourceLimitConfig = await resourceLimitsRes.json();
+      const { profiles }: { profiles: EnvProfile[] } = await envProfilesRes.json();
+      const secretStatus: SecretStoreStatus = await secretsRes.json();
 
       setSettings(config.settings || {});
       setSettingsLocal(config.settingsLocal || {});
@@ -74,6 +111,15 @@ export default function SettingsView() {
       setSettingsJson(JSON.stringify(config.settings || {}, null, 2));
       setLocalJson(JSON.stringify(config.settingsLocal || {}, null, 2));
       setClaudeMdText(config.claudeMd?.content || '');
+      setBudgets(budgetConfig);
+      setBudgetsJson(JSON.stringify(budgetConfig, null, 2));
+      setConcurrency(launchQueue.limits);
+      setConcurrencyJson(JSON.stringify(launchQueue.limits, null, 2));
+      setResourceLimits(resourceLimitConfig);
+      setResourceLimitsJson(JSON.stringify(resourceLimitConfig, null, 2));
+      setEnvProfiles(profiles);
+      setEnvProfilesJson(profilesToJson(profiles));
+      setSecretStore({ exists: secretStatus.exists, unlocked: secretStatus.unlocked, names: secretStatus.names });
     } catch (err) {
       setError(`Failed to load config: ${err}`);
     } finally {
@@ -155,6 +201,162 @@ export default function SettingsView() {
     }
   };
 
+  const saveBudgets = async () => {
+    try {
+      setSaveStatus('saving');
+      setError('');
+      const parsed = JSON.parse(budgetsJson);
+      const res = await fetch(API_ENDPOINTS.budgets, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parsed)
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save budgets');
+      }
+
+      const saved: BudgetConfig = { global: data.global, projects: data.projects };
+      setBudgets(saved);
+      setBudgetsJson(JSON.stringify(saved, null, 2));
+      setEditingBudgets(false);
+      setSaveStatus('success');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (err) {
+      setError(`Failed to save budgets: ${err}`);
+      setSaveStatus('error');
+    }
+  };
+
+  const saveConcurrency = async () => {
+    try {
+      setSaveStatus('saving');
+      setError('');
+      const parsed = JSON.parse(concurrencyJson);
+      const res = await fetch(API_ENDPOINTS.launchQueueLimits, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parsed)
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save concurrency limits');
+      }
+
+      setConcurrency(data.limits);
+      setConcurrencyJson(JSON.stringify(data.limits, null, 2));
+      setEditingConcurrency(false);
+      setSaveStatus('success');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (err) {
+      setError(`Failed to save concurrency limits: ${err}`);
+      setSaveStatus('error');
+    }
+  };
+
+  const saveResourceLimits = async () => {
+    try {
+      setSaveStatus('saving');
+      setError('');
+      const parsed = JSON.parse(resourceLimitsJson);
+      const res = await fetch(API_ENDPOINTS.resourceLimits, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(parsed)
+      });
+
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Failed to save resource limits');
+      }
+
+      const saved: ResourceLimitConfig = { global: data.global, projects: data.projects };
+      setResourceLimits(saved);
+      setResourceLimitsJson(JSON.stringify(saved, null, 2));
+      setEditingResourceLimits(false);
+      setSaveStatus('success');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (err) {
+      setError(`Failed to save resource limits: ${err}`);
+      setSaveStatus('error');
+    }
+  };
+
+  const saveEnvProfiles = async () => {
+    try {
+      setSaveStatus('saving');
+      setError('');
+      const parsed: Record<string, unknown> = JSON.parse(envProfilesJson);
+      const saved: EnvProfile[] = [];
+      for (const [name, profile] of Object.entries(parsed)) {
+        const res = await fetch(API_ENDPOINTS.envProfile(name), {
+          method: 'PUT',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(profile)
+        });
+        const data = await res.json();
+        if (!res.ok) {
+          throw new Error(`${name}: ${data.error || 'Failed to save profile'}`);
+        }
+        saved.push(data.profile);
+      }
+      for (const profile of envProfiles) {
+        if (!(profile.name in parsed)) {
+          const res = await fetch(API_ENDPOINTS.envProfile(profile.name), { method: 'DELETE' });
+          if (!res.ok) {
+            throw new Error(`${profile.name}: failed to delete profile`);
+          }
+        }
+      }
+
+      saved.sort((a, b) => a.name.localeCompare(b.name));
+      setEnvProfiles(saved);
+      setEnvProfilesJson(profilesToJson(saved));
+      setEditingEnvProfiles(false);
+      setSaveStatus('success');
+      setTimeout(() => setSaveStatus('idle'), 2000);
+    } catch (err) {
+      setError(`Failed to save environment profiles: ${err}`);
+      setSaveStatus('error');
+    }
+  };
+
+  // Unlock, lock, and secret add/delete all answer with the store's status (names only)
+  const updateSecretStore = async (url: string, method: string, body?: unknown) => {
+    try {
+      setError('');
+      const res = await fetch(url, {
+        method,
+        headers: { 'Content-Type': 'application/json' },
+        body: body === undefined ? undefined : JSON.stringify(body)
+      });
+      const data = await res.json();
+      if (!res.ok) {
+        throw new Error(data.error || 'Secret store request failed');
+      }
+      setSecretStore({ exists: data.exists, unlocked: data.unlocked, names: data.names });
+      return true;
+    } catch (err) {
+      setError(`Secret store: ${err}`);
+      return false;
+    }
+  };
+
+  const unlockSecrets = async () => {
+    if (await updateSecretStore(API_ENDPOINTS.secretsUnlock, 'POST', { passphrase })) {
+      setPassphrase('');
+    }
+  };
+
+  const saveSecret = async () => {
+    if (await updateSecretStore(API_ENDPOINTS.secret(secretName.trim()), 'PUT', { value: secretValue })) {
+      setSecretName('');
+      setSecretValue('');
+    }
+  };
+
   if (loading) {
     return (
       <div className="flex items-center justify-center min-h-screen">
@@ -199,7 +401,11 @@ export default function SettingsView() {
             { id: 'local', label: 'Local Settings', icon: '📍' },
             { id: 'commands', label: 'Commands', icon: '⌨️', count: commands.length },
             { id: 'hooks', label: 'Hooks', icon: '🪝', count: hooks.length },
-            { id: 'claudemd', label: 'CLAUDE.md', icon: '📝' }
+            { id: 'claudemd', label: 'CLAUDE.md', icon: '📝' },
+            { id: 'budgets', label: 'Budgets', icon: '💰' },
+            { id: 'concurrency', label: 'Concurrency', icon: '🚦' },
+            { id: 'limits', label: 'Resource Limits', icon: '⏳' },
+            { id: 'environment', label: 'Environment', icon: '🔐' }
           ].map(tab => (
             <button
               key={tab.id}
@@ -335,6 +541,304 @@ export default function SettingsView() {
             </div>
           )}
 
+          {activeTab === 'budgets' && (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold">Budgets (orchestrator)</h2>
+                  <p className="text-sm text-gray-400 mt-1">
+                    Per-session limits for web sessions: a global rule and rules keyed by project path.
+                    Each rule sets maxUsd, maxTokens and/or maxTurns, and warnAt (default 0.8).
+                  </p>
+                </div>
+                {!editingBudgets ? (
+                  <button
+                    onClick={() => setEditingBudgets(true)}
+                    className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+                  >
+                    Edit
+                  </button>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        setEditingBudgets(false);
+                        setBudgetsJson(JSON.stringify(budgets, null, 2));
+                      }}
+                      className="px-4 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveBudgets}
+                      disabled={saveStatus === 'saving'}
+                      className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {saveStatus === 'saving' ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {editingBudgets ? (
+                <textarea
+                  value={budgetsJson}
+                  onChange={(e) => setBudgetsJson(e.target.value)}
+                  className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm"
+                  spellCheck={false}
+                />
+              ) : (
+                <pre className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm overflow-auto">
+                  {budgetsJson}
+                </pre>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'concurrency' && (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold">Concurrency (orchestrator)</h2>
+                  <p className="text-sm text-gray-400 mt-1">
+                    How many web sessions may run at once: maxSessions overall and limits keyed by project path.
+                    Sessions launched over a limit wait in the launch queue.
+                  </p>
+                </div>
+                {!editingConcurrency ? (
+                  <button
+                    onClick={() => setEditingConcurrency(true)}
+                    className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+                  >
+                    Edit
+                  </button>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        setEditingConcurrency(false);
+                        setConcurrencyJson(JSON.stringify(concurrency, null, 2));
+                      }}
+                      className="px-4 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveConcurrency}
+                      disabled={saveStatus === 'saving'}
+                      className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {saveStatus === 'saving' ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {editingConcurrency ? (
+                <textarea
+                  value={concurrencyJson}
+                  onChange={(e) => setConcurrencyJson(e.target.value)}
+                  className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm"
+                  spellCheck={false}
+                />
+              ) : (
+                <pre className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm overflow-auto">
+                  {concurrencyJson}
+                </pre>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'limits' && (
+            <div>
+              <div className="flex justify-between items-center mb-4">
+                <div>
+                  <h2 className="text-xl font-semibold">Resource Limits (orchestrator)</h2>
+                  <p className="text-sm text-gray-400 mt-1">
+                    When to stop a web session's claude process: idleMinutes without input or output,
+                    maxWallClockMinutes and maxMemoryMb (Linux only), globally or keyed by project path.
+                    Sessions are warned at warnAt (default 0.8) of a limit.
+                  </p>
+                </div>
+                {!editingResourceLimits ? (
+                  <button
+                    onClick={() => setEditingResourceLimits(true)}
+                    className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+                  >
+                    Edit
+                  </button>
+                ) : (
+                  <div className="flex gap-2">
+                    <button
+                      onClick={() => {
+                        setEditingResourceLimits(false);
+                        setResourceLimitsJson(JSON.stringify(resourceLimits, null, 2));
+                      }}
+                      className="px-4 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={saveResourceLimits}
+                      disabled={saveStatus === 'saving'}
+                      className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      {saveStatus === 'saving' ? 'Saving...' : 'Save'}
+                    </button>
+                  </div>
+                )}
+              </div>
+              {editingResourceLimits ? (
+                <textarea
+                  value={resourceLimitsJson}
+                  onChange={(e) => setResourceLimitsJson(e.target.value)}
+                  className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm"
+                  spellCheck={false}
+                />
+              ) : (
+                <pre className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm overflow-auto">
+                  {resourceLimitsJson}
+                </pre>
+              )}
+            </div>
+          )}
+
+          {activeTab === 'environment' && (
+            <div className="space-y-8">
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">Secret Store (orchestrator)</h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                      Encrypted secrets that environment profiles can pass to sessions. Values can be set but never shown.
+                      {!secretStore.exists && ' Unlocking for the first time creates the store with that passphrase.'}
+                    </p>
+                  </div>
+                  {secretStore.unlocked && (
+                    <button
+                      onClick={() => updateSecretStore(API_ENDPOINTS.secretsLock, 'POST')}
+                      className="px-4 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg transition-colors"
+                    >
+                      Lock
+                    </button>
+                  )}
+                </div>
+                {!secretStore.unlocked ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="password"
+                      value={passphrase}
+                      onChange={(e) => setPassphrase(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && passphrase && unlockSecrets()}
+                      placeholder="Passphrase"
+                      autoComplete="off"
+                      className="flex-1 px-4 py-2 bg-black/40 border border-white/10 rounded-lg text-sm"
+                    />
+                    <button
+                      onClick={unlockSecrets}
+                      disabled={!passphrase}
+                      className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Unlock
+                    </button>
+                  </div>
+                ) : (
+                  <div className="space-y-2">
+                    {secretStore.names.length === 0 && (
+                      <div className="text-sm text-gray-500">No secrets yet</div>
+                    )}
+                    {secretStore.names.map((name) => (
+                      <div key={name} className="flex items-center justify-between p-3 bg-black/40 border border-white/10 rounded-lg">
+                        <div className="font-mono text-sm">
+                          {name} <span className="text-gray-500">= ••••••••</span>
+                        </div>
+                        <button
+                          onClick={() => updateSecretStore(API_ENDPOINTS.secret(name), 'DELETE')}
+                          className="px-3 py-1 text-sm bg-red-500/20 hover:bg-red-500/40 text-red-300 rounded transition-colors"
+                        >
+                          Delete
+                        </button>
+                      </div>
+                    ))}
+                    <div className="flex gap-2 pt-2">
+                      <input
+                        type="text"
+                        value={secretName}
+                        onChange={(e) => setSecretName(e.target.value)}
+                        placeholder="SECRET_NAME"
+                        className="w-1/3 px-4 py-2 bg-black/40 border border-white/10 rounded-lg font-mono text-sm"
+                      />
+                      <input
+                        type="password"
+                        value={secretValue}
+                        onChange={(e) => setSecretValue(e.target.value)}
+                        placeholder="Value"
+                        autoComplete="new-password"
+                        className="flex-1 px-4 py-2 bg-black/40 border border-white/10 rounded-lg text-sm"
+                      />
+                      <button
+                        onClick={saveSecret}
+                        disabled={!secretName.trim() || !secretValue}
+                        className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        Set
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-4">
+                  <div>
+                    <h2 className="text-xl font-semibold">Environment Profiles (orchestrator)</h2>
+                    <p className="text-sm text-gray-400 mt-1">
+                      Profiles keyed by name, chosen when creating a session: variables, secrets (variable → secret name),
+                      an optional description, and inheritEnv (true passes the orchestrator's whole environment through; otherwise only PATH, HOME and a few basics).
+                    </p>
+                  </div>
+                  {!editingEnvProfiles ? (
+                    <button
+                      onClick={() => setEditingEnvProfiles(true)}
+                      className="px-4 py-2 bg-blue-500 hover:bg-blue-600 rounded-lg transition-colors"
+                    >
+                      Edit
+                    </button>
+                  ) : (
+                    <div className="flex gap-2">
+                      <button
+                        onClick={() => {
+                          setEditingEnvProfiles(false);
+                          setEnvProfilesJson(profilesToJson(envProfiles));
+                        }}
+                        className="px-4 py-2 bg-gray-500 hover:bg-gray-600 rounded-lg transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        onClick={saveEnvProfiles}
+                        disabled={saveStatus === 'saving'}
+                        className="px-4 py-2 bg-green-500 hover:bg-green-600 rounded-lg transition-colors disabled:opacity-50"
+                      >
+                        {saveStatus === 'saving' ? 'Saving...' : 'Save'}
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {editingEnvProfiles ? (
+                  <textarea
+                    value={envProfilesJson}
+                    onChange={(e) => setEnvProfilesJson(e.target.value)}
+                    className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm"
+                    spellCheck={false}
+                  />
+                ) : (
+                  <pre className="w-full h-96 p-4 bg-black/40 border border-white/10 rounded-lg font-mono text-sm overflow-auto">
+                    {envProfilesJson}
+                  </pre>
+                )}
+              </div>
+            </div>
+          )}
+
           {activeTab === 'commands' && (
             <div>
               <h2 className="text-xl font-semibold mb-4">Custom Commands</h2>
@@ -109,6 +109,14 @@ export const SLASH_COMMANDS = [
   { cmd: '/review', desc: 'Review changes' },
 ] as const;
 
+// Permission modes for web session launch options
+export const PERMISSION_MODES = [
+  { id: 'default', name: 'Ask for approval' },
+  { id: 'acceptEdits', name: 'Auto-accept edits' },
+  { id: 'plan', name: 'Plan only' },
+  { id: 'bypassPermissions', name: 'Bypass permissions' },
+] as const;
+
 // Editor commands
 export const EDITORS = [
   { id: 'vscode', name: 'VS Code', command: 'code' },
@@ -130,10 +138,40 @@ export const STORAGE_KEYS = {
 export const API_ENDPOINTS = {
   sessions: '/api/sessions',
   session: (id: string) => `/api/session/${id}`,
+  sessionFork: (id: string) => `/api/session/${id}/fork`,
   webSession: '/api/web-session',
   webSessions: '/api/web-sessions',
   webSessionAction: (id: string, action: string) => `/api/web-session/${id}/${action}`,
+  stopWebSession: (id: string, worktree?: string, force?: boolean) =>
+    `/api/web-session/${id}${worktree ? `?worktree=${worktree}${force ? '&force=true' : ''}` : ''}`,
+  worktrees: (cwd: string) => `/api/worktrees?cwd=${encodeURIComponent(cwd)}`,
+  webSessionQueueItem: (id: string, messageId: string) => `/api/web-session/${id}/queue/${messageId}`,
+  restorableWebSessions: '/api/web-sessions/restorable',
+  restorableWebSession: (id: string) => `/api/web-sessions/restorable/${id}`,
+  restoreWebSessions: '/api/web-sessions/restore',
+  webSessionExits: '/api/web-sessions/exits',
   stats: '/api/stats',
+  usage: '/api/usage',
+  projects: '/api/projects',
+  budgets: '/api/budgets',
+  resourceLimits: '/api/resource-limits',
+  search: '/api/search',
+  envProfiles: '/api/env-profiles',
+  envProfile: (name: string) => `/api/env-profiles/${encodeURIComponent(name)}`,
+  secrets: '/api/secrets',
+  secretsUnlock: '/api/secrets/unlock',
+  secretsLock: '/api/secrets/lock',
+  secret: (name: string) => `/api/secrets/${encodeURIComponent(name)}`,
+  launchQueue: '/api/launch-queue',
+  launchQueueLimits: '/api/launch-queue/limits',
+  launchQueueEntry: (id: string) => `/api/launch-queue/${id}`,
+  jobs: '/api/jobs',
+  job: (id: string) => `/api/jobs/${id}`,
+  tasks: '/api/tasks',
+  task: (id: string, waitSeconds?: number) => `/api/tasks/${id}${waitSeconds ? `?wait=${waitSeconds}` : ''}`,
+  schedules: '/api/schedules',
+  schedule: (id: string) => `/api/schedules/${id}`,
+  scheduleRun: (id: string) => `/api/schedules/${id}/run`,
   plugins: '/api/plugins',
   plugin: (id: string) => `/api/plugins/${id}`,
   settings: '/api/settings',
@@ -147,7 +185,13 @@ export const WS_EVENTS = {
   init: 'init',
   sessionsUpdate: 'sessions_update',
   hookAlert: 'hook_alert',
+  budgetAlert: 'budget_alert',
+  resourceAlert: 'resource_alert',
+  launchQueue: 'launch_queue',
+  jobUpdate: 'job_update',
+  schedulesUpdate: 'schedules_update',
   webSession: 'web_session',
+  subscriptionAck: 'subscription_ack',
   hookNotification: 'hook_notification',
   subscribeWebSession: 'subscribe_web_session',
   unsubscribeWebSession: 'unsubscribe_web_session',
@@ -158,7 +202,11 @@ export const STATUS_COLORS = {
   active: 'bg-green-400',
   idle: 'bg-gray-600',
   pending_hook: 'bg-yellow-400',
+  queued: 'bg-blue-400 animate-pulse',
   starting: 'bg-yellow-400 animate-pulse',
+  waiting_permission: 'bg-orange-400 animate-pulse',
+  restarting: 'bg-orange-400 animate-pulse',
+  budget_exceeded: 'bg-red-400 animate-pulse',
   completed: 'bg-gray-400',
   error: 'bg-red-400',
 } as const;
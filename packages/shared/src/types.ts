@@ -22,6 +22,11 @@ export interface SessionMessage {
   permissionMode?: string;
   requestId?: string;
   data?: ProgressData;
+  // Progress lines: the tool call they report on, and the call that caused it
+  toolUseID?: string;
+  parentToolUseID?: string;
+  // Sidechain lines: the subagent that wrote them
+  agentId?: string;
 }
 
 export type MessageContent =
@@ -86,6 +91,7 @@ export interface ApiContext {
 
 export interface SessionSummary {
   id: string;
+  projectPath: string;
   projectName: string;
   cwd: string;
   gitBranch?: string;
@@ -97,6 +103,141 @@ export interface SessionSummary {
     type: string;
     toolName: string;
   };
+  usage?: SessionUsage;
+}
+
+// Token usage and estimated cost
+export interface TokenUsage {
+  inputTokens: number;
+  outputTokens: number;
+  cacheCreationTokens: number;
+  cacheReadTokens: number;
+  costUsd: number;
+}
+
+export interface SessionUsage extends TokenUsage {
+  model?: string;
+  contextTokens: number;
+  contextWindow: number;
+}
+
+export interface ProjectUsage extends TokenUsage {
+  projectName: string;
+  sessionCount: number;
+}
+
+export interface DailyUsage extends TokenUsage {
+  date: string; // YYYY-MM-DD (UTC)
+}
+
+export interface UsageReport {
+  totals: TokenUsage;
+  byProject: ProjectUsage[];
+  byDay: DailyUsage[];
+}
+
+// Budget limits for web sessions; warnAt is the fraction of a limit that triggers a warning
+export interface BudgetRule {
+  maxUsd?: number;
+  maxTokens?: number;
+  maxTurns?: number;
+  warnAt?: number;
+}
+
+export interface BudgetConfig {
+  global?: BudgetRule;
+  // Project path -> rule
+  projects: Record<string, BudgetRule>;
+}
+
+export type BudgetLevel = 'ok' | 'warn' | 'exceeded';
+
+export interface BudgetStatus {
+  level: BudgetLevel;
+  metric?: 'usd' | 'tokens' | 'turns';
+  used?: number;
+  limit?: number;
+}
+
+export interface ResourceLimits {
+  // Minutes without input or output before a web session's child is stopped
+  idleMinutes?: number;
+  maxWallClockMinutes?: number;
+  // Resident memory of the child and its descendants
+  maxMemoryMb?: number;
+  // Fraction of a limit at which to warn (0-1, default 0.8)
+  warnAt?: number;
+}
+
+export interface ResourceLimitConfig {
+  global?: ResourceLimits;
+  // Project path -> limits (replace the global ones)
+  projects: Record<string, ResourceLimits>;
+}
+
+export type ResourceLevel = 'ok' | 'warn' | 'exceeded';
+
+export interface ResourceStatus {
+  level: ResourceLevel;
+  metric?: 'idle' | 'wall_clock' | 'memory';
+  // In the limit's unit: minutes or MB
+  used?: number;
+  limit?: number;
+}
+
+// Sessions grouped by the directory they were started in (GET /api/projects)
+export interface ProjectInfo {
+  path: string;
+  name: string;
+  exists: boolean;
+  gitRemote?: string;
+  gitBranch?: string;
+  sessionCount: number;
+  activeSessions: number;
+  pendingHooks: number;
+  lastActivity: string;
+}
+
+// What a transcript line matched in: prompt text, Claude's text, a tool call's input or a tool's output
+export type SearchRole = 'user' | 'assistant' | 'tool_use' | 'tool_result';
+
+export interface SearchHit {
+  sessionId: string;
+  // Display message to jump to
+  messageId: string;
+  uuid: string;
+  projectName: string;
+  cwd: string;
+  gitBranch?: string;
+  roles: SearchRole[];
+  tools?: string[];
+  timestamp: string;
+  score: number;
+  snippet: string;
+}
+
+export interface SearchResponse {
+  query: string;
+  total: number;
+  hits: SearchHit[];
+}
+
+export interface EnvProfile {
+  name: string;
+  description?: string;
+  // Pass the orchestrator's whole environment through; otherwise only a few basics (PATH, HOME, ...)
+  inheritEnv: boolean;
+  variables: Record<string, string>;
+  // Environment variable -> secret name
+  secrets: Record<string, string>;
+  updatedAt: string;
+}
+
+// Secret values are never sent to the UI
+export interface SecretStoreStatus {
+  exists: boolean;
+  unlocked: boolean;
+  names: string[];
 }
 
 export interface DashboardStats {
@@ -118,6 +259,22 @@ export interface DisplayMessage {
   timestamp: string;
   toolUse?: ToolUseInfo;
   toolResult?: ToolResultInfo;
+  // Still being streamed from a live session
+  streaming?: boolean;
+  // Subagent runs spawned by this Task call (tree view only)
+  subagents?: SubagentThread[];
+}
+
+/**
+ * A sidechain run: the transcript of one subagent
+ */
+export interface SubagentThread {
+  // First line of the run
+  rootUuid: string;
+  // Task tool_use that spawned it, if one was found
+  toolUseId?: string;
+  description?: string;
+  messages: DisplayMessage[];
 }
 
 export interface ToolUseInfo {
@@ -141,6 +298,22 @@ export interface HookAlert {
   };
 }
 
+export interface BudgetAlert {
+  sessionId: string;
+  sessionName: string;
+  receivedAt?: number;
+  budget: BudgetStatus;
+  message: string;
+}
+
+export interface ResourceAlert {
+  sessionId: string;
+  sessionName: string;
+  receivedAt?: number;
+  limit: ResourceStatus;
+  message: string;
+}
+
 // Notification settings
 export interface NotificationSettings {
   enabledHooks: Record<HookType, boolean>;
@@ -160,7 +333,12 @@ export type WebSocketMessageType =
   | 'init'
   | 'sessions_update'
   | 'hook_alert'
+  | 'budget_alert'
+  | 'launch_queue'
+  | 'job_update'
+  | 'schedules_update'
   | 'web_session'
+  | 'subscription_ack'
   | 'hook_notification';
 
 export interface WebSocketMessage<T = unknown> {
@@ -170,30 +348,99 @@ export interface WebSocketMessage<T = unknown> {
 }
 
 // Web session types
-export type WebSessionStatus = 'starting' | 'active' | 'waiting_permission' | 'completed' | 'error';
+export type WebSessionStatus = 'queued' | 'starting' | 'active' | 'waiting_permission' | 'restarting' | 'budget_exceeded' | 'completed' | 'error';
+
+export interface PermissionRequestInfo {
+  toolUseId: string;
+  toolName: string;
+  input: Record<string, unknown>;
+}
+
+// Outcome of a control signal; control requests stay 'pending' until claude answers
+export interface ControlSignalResult {
+  signal: string;
+  mechanism: 'control_request' | 'process_signal' | 'stdin' | 'message' | 'unsupported';
+  status: 'pending' | 'applied' | 'failed' | 'unsupported';
+  requestId?: string;
+  message?: string;
+}
+
+export interface QueuedMessage {
+  id: string;
+  content: string;
+  queuedAt: string;
+}
+
+// How a turn ended
+export interface TurnResult {
+  text: string;
+  isError: boolean;
+  numTurns?: number;
+  durationMs?: number;
+}
 
 export interface WebSessionMessage {
-  type: 'text' | 'tool_use' | 'tool_result' | 'permission_request' | 'error' | 'status';
+  type: 'message' | 'message_delta' | 'permission_request' | 'error' | 'status' | 'queue' | 'usage' | 'budget' | 'limit' | 'control' | 'result';
   content?: string;
-  toolUse?: ToolUseInfo;
-  toolResult?: ToolResultInfo;
-  permission?: {
-    toolUseId: string;
-    toolName: string;
-    input: Record<string, unknown>;
-  };
-  status?: 'started' | 'completed' | 'error';
+  // Assembled transcript message (type 'message'); replaces any earlier one with its ID
+  message?: DisplayMessage;
+  // Message that 'content' is appended to (type 'message_delta')
+  messageId?: string;
+  permission?: PermissionRequestInfo;
+  status?: 'queued' | 'started' | 'active' | 'waiting_permission' | 'restarting' | 'budget_exceeded' | 'completed' | 'error';
+  reason?: string;
+  crashReport?: string[];
+  queue?: QueuedMessage[];
+  usage?: SessionUsage;
+  budget?: BudgetStatus;
+  limit?: ResourceStatus;
+  control?: ControlSignalResult;
+  result?: TurnResult;
+  seq?: number;
+  timestamp?: string;
+}
+
+export type PermissionMode = 'default' | 'acceptEdits' | 'bypassPermissions' | 'plan';
+
+export interface LaunchOptions {
+  model?: string;
+  permissionMode?: PermissionMode;
+  allowedTools?: string[];
+  disallowedTools?: string[];
+  appendSystemPrompt?: string;
+  maxTurns?: number;
+  addDirs?: string[];
+  env?: Record<string, string>;
 }
 
 export interface ConnectedSession {
   status: WebSessionStatus;
   messages: WebSessionMessage[];
+  pendingPermission?: PermissionRequestInfo;
+  launchOptions?: LaunchOptions;
+  // Highest event sequence number applied, used to drop replayed duplicates
+  lastSeq?: number;
+  // Prompts waiting on the server for the session to become ready
+  queue?: QueuedMessage[];
+  usage?: SessionUsage;
+  budget?: BudgetRule;
+  budgetStatus?: BudgetStatus;
+  worktree?: SessionWorktree;
+  envProfile?: string;
 }
 
 // API request/response types
 export interface CreateWebSessionRequest {
   cwd: string;
   resumeSessionId?: string;
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  // Launch priority while waiting for a free slot (higher first, default 0)
+  priority?: number;
+  // Run in a new git worktree on its own branch
+  isolated?: boolean;
+  // Environment profile to start claude with
+  envProfile?: string;
 }
 
 export interface CreateWebSessionResponse {
@@ -201,11 +448,273 @@ export interface CreateWebSessionResponse {
   sessionId: string;
   projectName: string;
   status?: WebSessionStatus;
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  worktree?: SessionWorktree;
+  envProfile?: string;
+  // Set when the session is waiting in the launch queue
+  queuePosition?: number;
   resumed?: boolean;
+  lastSeq?: number;
   error?: string;
   details?: string;
 }
 
+export interface ForkSessionResponse extends CreateWebSessionResponse {
+  forkedFrom: { sessionId: string; messageId: string };
+  // History of the fork, up to and including the message it was forked at
+  messages: DisplayMessage[];
+}
+
+// Git worktree an isolated web session runs in
+export interface SessionWorktree {
+  // Main checkout of the repository
+  repoPath: string;
+  path: string;
+  branch: string;
+  baseBranch?: string;
+  baseCommit: string;
+  createdAt: string;
+}
+
+export interface WorktreeStatus {
+  dirty: boolean;
+  // `git status --porcelain` lines of uncommitted changes
+  changes: string[];
+  // Commits on the worktree's branch since it was created
+  commitsAhead: number;
+}
+
+// What happens to an isolated session's worktree when it is stopped
+export type WorktreeAction = 'keep' | 'merge' | 'delete';
+
+export interface WorktreeEntry {
+  path: string;
+  head?: string;
+  branch?: string;
+  main: boolean;
+  locked: boolean;
+  prunable: boolean;
+  // Web session running in the worktree
+  sessionId?: string;
+}
+
+// Caps on concurrently running web sessions
+export interface ConcurrencyLimits {
+  maxSessions?: number;
+  // Project path -> limit
+  projects: Record<string, number>;
+}
+
+// Web session or task waiting for a free slot
+export interface QueuedLaunch {
+  sessionId: string;
+  cwd: string;
+  projectName: string;
+  priority: number;
+  queuedAt: string;
+  resumeSessionId?: string;
+  // A headless task; sessionId is then the task ID
+  task?: boolean;
+  position: number;
+}
+
+export interface LaunchQueueState {
+  queue: QueuedLaunch[];
+  limits: ConcurrencyLimits;
+  running: number;
+}
+
+// Fan-out jobs: one prompt run in a web session per target directory
+export type JobTargetStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled';
+
+export interface JobTarget {
+  cwd: string;
+  projectName: string;
+  sessionId?: string;
+  // Transcript the target's session produced
+  claudeSessionId?: string;
+  status: JobTargetStatus;
+  resultText?: string;
+  isError?: boolean;
+  exitCode?: number | null;
+  error?: string;
+  costUsd: number;
+  startedAt?: string;
+  finishedAt?: string;
+}
+
+export interface JobSummary {
+  status: 'running' | 'completed' | 'cancelled';
+  total: number;
+  queued: number;
+  running: number;
+  succeeded: number;
+  failed: number;
+  cancelled: number;
+  costUsd: number;
+}
+
+export interface Job {
+  id: string;
+  name?: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  budget?: BudgetRule;
+  priority: number;
+  createdAt: string;
+  finishedAt?: string;
+  cancelled: boolean;
+  targets: JobTarget[];
+  summary: JobSummary;
+}
+
+// Headless one-shot `claude -p` run
+export type TaskStatus = 'queued' | 'running' | 'completed' | 'failed';
+
+export interface Task {
+  id: string;
+  cwd: string;
+  projectName: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  status: TaskStatus;
+  createdAt: string;
+  finishedAt?: string;
+  result?: string;
+  isError?: boolean;
+  error?: string;
+  exitCode?: number | null;
+  claudeSessionId?: string;
+  usage: SessionUsage;
+  numTurns?: number;
+  durationMs?: number;
+  // GET endpoint for the run's transcript
+  transcriptUrl?: string;
+}
+
+export interface CreateTaskRequest {
+  cwd: string;
+  prompt: string;
+  launchOptions?: LaunchOptions;
+}
+
+export interface CreateTaskResponse {
+  success: boolean;
+  taskId: string;
+  status: TaskStatus;
+  url: string;
+}
+
+export interface CreateJobRequest {
+  name?: string;
+  prompt: string;
+  cwds: string[];
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  priority?: number;
+}
+
+// Prompt run on a cron schedule; each run is a one-target job
+export type MissedRunPolicy = 'skip' | 'run_once';
+
+export type ScheduleRunStatus = JobTargetStatus | 'skipped';
+
+export interface ScheduleRun {
+  id: string;
+  scheduledFor: string;
+  startedAt: string;
+  status: ScheduleRunStatus;
+  reason?: string;
+  // Came due while the orchestrator was down
+  missed?: boolean;
+  jobId?: string;
+  sessionId?: string;
+  claudeSessionId?: string;
+  resultText?: string;
+  error?: string;
+  exitCode?: number | null;
+  costUsd?: number;
+  finishedAt?: string;
+}
+
+export interface Schedule {
+  id: string;
+  name: string;
+  cron: string;
+  cwd: string;
+  prompt: string;
+  launchOptions: LaunchOptions;
+  budget?: BudgetRule;
+  enabled: boolean;
+  missedRuns: MissedRunPolicy;
+  createdAt: string;
+  updatedAt: string;
+  nextRunAt?: string;
+  // When a run last launched a session
+  lastRunAt?: string;
+  // When a run was last skipped, and why
+  lastSkippedAt?: string;
+  lastSkipReason?: string;
+  // Most recent first
+  runs: ScheduleRun[];
+}
+
+export interface ScheduleInput {
+  name?: string;
+  cron: string;
+  cwd: string;
+  prompt: string;
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  enabled?: boolean;
+  missedRuns?: MissedRunPolicy;
+}
+
+// Web session persisted by a previous orchestrator run
+export interface RestorableWebSession {
+  id: string;
+  cwd: string;
+  projectName: string;
+  createdAt: string;
+  lastActivity: string;
+  resumeSessionId?: string;
+  launchOptions?: LaunchOptions;
+  budget?: BudgetRule;
+  worktree?: SessionWorktree;
+  lastSeq?: number;
+}
+
+export interface RestoreWebSessionsResponse {
+  success: boolean;
+  restored: {
+    id: string;
+    cwd: string;
+    projectName: string;
+    status: WebSessionStatus;
+    launchOptions?: LaunchOptions;
+    budget?: BudgetRule;
+    worktree?: SessionWorktree;
+    lastSeq: number;
+  }[];
+  failed: { id: string; error: string }[];
+}
+
+export interface SubscribeWebSessionRequest {
+  type: 'subscribe_web_session';
+  sessionId: string;
+  sinceSeq?: number;
+}
+
+export interface SubscriptionAck {
+  action: 'subscribe' | 'unsubscribe';
+  success: boolean;
+  error?: string;
+  status?: WebSessionStatus;
+  lastSeq?: number;
+  replayed?: number;
+}
+
 export interface SendMessageRequest {
   message: string;
 }
@@ -214,6 +723,12 @@ export interface ControlSignalRequest {
   signal: string;
 }
 
+export interface ControlSignalResponse {
+  success: boolean;
+  result?: ControlSignalResult;
+  error?: string;
+}
+
 export interface PermissionResponseRequest {
   toolUseId: string;
   approved: boolean;